@@ -7,6 +7,9 @@ import { ThemeProvider } from "@/components/ThemeProvider";
 import { AuthProvider } from "@/contexts/AuthContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Review from "./pages/Review";
+import Library from "./pages/Library";
+import SharedNote from "./pages/SharedNote";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,8 +23,15 @@ const App = () => (
           <Sonner />
           <BrowserRouter>
             <Routes>
-              <Route path="/" element={<Index />} />
+              {/* Index stays mounted while moving between "/" and a saved note, so generation state survives */}
+              <Route element={<Index />}>
+                <Route path="/" element={null} />
+                <Route path="/notes/:id" element={null} />
+              </Route>
+              <Route path="/library" element={<Library />} />
+              <Route path="/s/:token" element={<SharedNote />} />
               <Route path="/auth" element={<Auth />} />
+              <Route path="/review" element={<Review />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
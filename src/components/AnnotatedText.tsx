@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { MessageSquarePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { RichContent } from "@/components/RichContent";
+import { HIGHLIGHT_COLORS, highlightRange, rangeToOffsets } from "@/lib/annotations";
+import { Annotation, HighlightColor } from "@/types/annotation";
+
+export interface TextSelection {
+  start: number;
+  end: number;
+  quote: string;
+}
+
+// One CSS highlight per colour, shared by every section; each section adds and removes its own ranges
+const highlights = new Map<HighlightColor, Highlight>();
+
+function highlightFor(color: HighlightColor): Highlight | null {
+  if (typeof CSS === "undefined" || !("highlights" in CSS)) return null;
+  let highlight = highlights.get(color);
+  if (!highlight) {
+    highlight = new Highlight();
+    CSS.highlights.set(`annotation-${color}`, highlight);
+    highlights.set(color, highlight);
+  }
+  return highlight;
+}
+
+interface AnnotatedTextProps {
+  content: string;
+  className?: string;
+  /** This section's highlights */
+  annotations: Annotation[];
+  /** Omitted when the user cannot annotate (signed out, unsaved or shared notes) */
+  onHighlight?: (selection: TextSelection, color: HighlightColor, comment?: string) => Promise<unknown>;
+}
+
+/**
+ * Rendered section text with the user's highlights painted over it. The highlights use the CSS Custom
+ * Highlight API, so the Markdown renderer's DOM is never touched. Selecting text shows a small toolbar
+ * to highlight it, with or without a comment.
+ */
+export function AnnotatedText({ content, className, annotations, onHighlight }: AnnotatedTextProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const toolbarRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<(TextSelection & { rect: DOMRect }) | null>(null);
+  const [comment, setComment] = useState<string | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const painted: [Highlight, Range][] = [];
+    for (const annotation of annotations) {
+      const highlight = highlightFor(annotation.color ?? "yellow");
+      const range = highlight && highlightRange(container, annotation);
+      if (!highlight || !range) continue;
+      highlight.add(range);
+      painted.push([highlight, range]);
+    }
+    return () => painted.forEach(([highlight, range]) => highlight.delete(range));
+  }, [annotations, content]);
+
+  const close = () => {
+    setSelection(null);
+    setComment(null);
+  };
+
+  useEffect(() => {
+    if (!selection) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!toolbarRef.current?.contains(event.target as Node)) close();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") close();
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    // The toolbar is positioned for the viewport it opened in
+    window.addEventListener("scroll", close, true);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("scroll", close, true);
+    };
+  }, [selection]);
+
+  const readSelection = () => {
+    const container = containerRef.current;
+    const current = window.getSelection();
+    if (!container || !current || current.isCollapsed || current.rangeCount === 0) return;
+    const range = current.getRangeAt(0);
+    if (!container.contains(range.commonAncestorContainer)) return;
+    const quote = range.toString();
+    if (!quote.trim()) return;
+    setComment(null);
+    setSelection({ ...rangeToOffsets(container, range), quote, rect: range.getBoundingClientRect() });
+  };
+
+  const save = async (color: HighlightColor, withComment?: string) => {
+    if (!selection || !onHighlight) return;
+    const { rect: _rect, ...picked } = selection;
+    close();
+    window.getSelection()?.removeAllRanges();
+    await onHighlight(picked, color, withComment?.trim() || undefined);
+  };
+
+  return (
+    <>
+      <div
+        ref={containerRef}
+        onMouseUp={onHighlight ? () => setTimeout(readSelection) : undefined}
+        onKeyUp={onHighlight ? (e) => e.shiftKey && readSelection() : undefined}
+      >
+        <RichContent className={className}>{content}</RichContent>
+      </div>
+
+      {selection &&
+        createPortal(
+          <div
+            ref={toolbarRef}
+            role="toolbar"
+            aria-label="Annotate selection"
+            className="fixed z-50 -translate-x-1/2 -translate-y-full rounded-lg border border-border bg-popover p-1.5 shadow-lg"
+            style={{ left: selection.rect.left + selection.rect.width / 2, top: selection.rect.top - 8 }}
+          >
+            {comment === null ? (
+              <div className="flex items-center gap-1">
+                {HIGHLIGHT_COLORS.map((color) => (
+                  <button
+                    key={color.value}
+                    type="button"
+                    title={`Highlight ${color.label.toLowerCase()}`}
+                    aria-label={`Highlight ${color.label.toLowerCase()}`}
+                    onClick={() => save(color.value)}
+                    className="w-6 h-6 rounded-full border border-border hover:scale-110 transition-transform"
+                    style={{ backgroundColor: `rgb(${color.rgb.join(",")})` }}
+                  />
+                ))}
+                <div className="w-px h-5 bg-border mx-1" />
+                <Button variant="ghost" size="sm" className="h-7 px-2 gap-1 text-xs" onClick={() => setComment("")}>
+                  <MessageSquarePlus className="w-3.5 h-3.5" />
+                  Comment
+                </Button>
+              </div>
+            ) : (
+              <form
+                className="w-64 space-y-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  save("yellow", comment);
+                }}
+              >
+                <Textarea
+                  autoFocus
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Private comment"
+                  className="min-h-[60px] text-sm"
+                />
+                <div className="flex justify-end gap-1">
+                  <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={close}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" size="sm" className="h-7 text-xs" disabled={!comment.trim()}>
+                    Save
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>,
+          document.body,
+        )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { motion } from "framer-motion";
+import { Check, Circle, ListVideo, Loader2, XCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { GenerationJob, NoteGroup } from "@/types/generation";
+
+interface BatchProgressProps {
+  group: NoteGroup | null;
+  jobs: GenerationJob[];
+}
+
+function JobStatusIcon({ job }: { job?: GenerationJob }) {
+  switch (job?.status) {
+    case "succeeded":
+      return <Check className="w-3.5 h-3.5 text-success flex-shrink-0" />;
+    case "failed":
+      return <XCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />;
+    case "running":
+      return <Loader2 className="w-3.5 h-3.5 animate-spin text-primary flex-shrink-0" />;
+    default:
+      return <Circle className="w-3.5 h-3.5 text-muted-foreground/50 flex-shrink-0" />;
+  }
+}
+
+export function BatchProgress({ group, jobs }: BatchProgressProps) {
+  const done = jobs.filter((j) => j.status === "succeeded" || j.status === "failed").length;
+  const total = group?.video_count || jobs.length;
+  const running = jobs.find((j) => j.status === "running");
+  // Each finished video counts fully, the one in flight by its own progress
+  const progress = total ? Math.round(((done + (running?.progress ?? 0) / 100) / total) * 100) : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="mt-10 sm:mt-16 w-full max-w-xl mx-auto"
+    >
+      <div className="bg-card rounded-2xl p-6 sm:p-8 shadow-card border border-border space-y-5">
+        <div className="flex items-start gap-3">
+          <div className="flex items-center justify-center w-10 h-10 rounded-xl bg-primary/10 flex-shrink-0">
+            <ListVideo className="w-5 h-5 text-primary" />
+          </div>
+          <div className="min-w-0">
+            <h3 className="font-display font-semibold text-foreground truncate">
+              {group?.title ?? "Reading playlist..."}
+            </h3>
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              {total ? `${done} of ${total} videos done` : "Queueing videos..."}
+              {running?.message ? ` · ${running.message}` : ""}
+            </p>
+          </div>
+        </div>
+
+        <Progress value={progress} className="h-3 bg-secondary" />
+
+        {group && (
+          <ol className="max-h-72 overflow-y-auto space-y-1.5 text-xs">
+            {group.videos.map((video, index) => {
+              const job = jobs.find((j) => j.group_position === index);
+              return (
+                <li key={video.videoId} className="flex items-center gap-2 text-muted-foreground">
+                  <JobStatusIcon job={job} />
+                  <span className="tabular-nums text-muted-foreground/70">{index + 1}.</span>
+                  <span className="flex-1 truncate">{video.title}</span>
+                  {job?.status === "failed" && (
+                    <span className="text-destructive truncate max-w-[40%]">{job.error}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react";
+import { Bot, Loader2, MessagesSquare, Send, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useNoteChat } from "@/hooks/use-note-chat";
+import { parseTimestampSeconds } from "@/lib/youtube";
+
+interface ChatPanelProps {
+  /** Conversations are stored per saved note; unsaved notes get a sign-in hint */
+  noteId?: string;
+  enabled: boolean;
+  onSeek?: (seconds: number) => void;
+}
+
+const MAX_QUESTION_CHARS = 1000;
+const SUGGESTIONS = ["What are the main takeaways?", "Explain the hardest part in simpler terms", "What examples are given?"];
+
+// Answers mention their sources inline as [4:05]; those become jump links when there is a player
+function renderAnswer(content: string, onSeek?: (seconds: number) => void) {
+  return content.split(/(\[\d{1,2}(?::\d{2}){1,2}\])/).map((part, i) => {
+    const seconds = i % 2 === 1 ? parseTimestampSeconds(part) : null;
+    if (seconds === null) return part;
+    return onSeek ? (
+      <button
+        key={i}
+        type="button"
+        onClick={() => onSeek(seconds)}
+        className="text-primary font-medium hover:underline"
+      >
+        {part}
+      </button>
+    ) : (
+      <span key={i} className="text-primary font-medium">
+        {part}
+      </span>
+    );
+  });
+}
+
+export function ChatPanel({ noteId, enabled, onSeek }: ChatPanelProps) {
+  const { messages, isLoading, pendingQuestion, ask } = useNoteChat(noteId, enabled);
+  const [question, setQuestion] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [messages.length, pendingQuestion]);
+
+  if (!noteId) {
+    return (
+      <div className="text-center py-12">
+        <MessagesSquare className="w-10 h-10 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">Sign in and generate notes to ask questions about this video</p>
+      </div>
+    );
+  }
+
+  const submit = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pendingQuestion) return;
+    setQuestion("");
+    if (!(await ask(trimmed))) setQuestion(trimmed);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[32rem] overflow-y-auto space-y-3 pr-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : messages.length === 0 && !pendingQuestion ? (
+          <div className="text-center py-8 space-y-3">
+            <p className="text-sm text-muted-foreground">Ask anything about this video. Answers come from its transcript.</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {SUGGESTIONS.map((suggestion) => (
+                <Button
+                  key={suggestion}
+                  variant="outline"
+                  size="sm"
+                  className="rounded-full text-xs"
+                  onClick={() => submit(suggestion)}
+                >
+                  {suggestion}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <>
+            {messages.map((message) => (
+              <div key={message.id} className={`flex gap-2 ${message.role === "user" ? "justify-end" : ""}`}>
+                {message.role === "assistant" && <Bot className="w-5 h-5 text-primary flex-shrink-0 mt-1" />}
+                <div
+                  className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm leading-relaxed whitespace-pre-wrap ${
+                    message.role === "user" ? "bg-primary text-primary-foreground" : "bg-accent/40 text-foreground"
+                  }`}
+                >
+                  {message.role === "assistant" ? renderAnswer(message.content, onSeek) : message.content}
+                </div>
+                {message.role === "user" && <User className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-1" />}
+              </div>
+            ))}
+            {pendingQuestion && (
+              <>
+                <div className="flex gap-2 justify-end">
+                  <div className="max-w-[85%] rounded-2xl px-3 py-2 text-sm bg-primary/80 text-primary-foreground whitespace-pre-wrap">
+                    {pendingQuestion}
+                  </div>
+                  <User className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-1" />
+                </div>
+                <div className="flex gap-2 items-center text-sm text-muted-foreground">
+                  <Bot className="w-5 h-5 text-primary flex-shrink-0" />
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Reading the transcript...
+                </div>
+              </>
+            )}
+          </>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit(question);
+        }}
+        className="flex items-end gap-2"
+      >
+        <Textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value.slice(0, MAX_QUESTION_CHARS))}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              submit(question);
+            }
+          }}
+          placeholder="Ask a follow-up question"
+          rows={2}
+          className="min-h-[44px] resize-none text-sm"
+        />
+        <Button type="submit" size="icon" disabled={!question.trim() || !!pendingQuestion} className="h-11 w-11 flex-shrink-0">
+          {pendingQuestion ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </Button>
+      </form>
+    </div>
+  );
+}
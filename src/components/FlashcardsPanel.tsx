@@ -0,0 +1,103 @@
+import { Link } from "react-router-dom";
+import { Download, Layers, Loader2, Play, RefreshCw, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useNoteFlashcards } from "@/hooks/use-flashcards";
+import { parseTimestampSeconds } from "@/lib/youtube";
+import { downloadFlashcardsCsv } from "@/utils/exportFlashcards";
+
+interface FlashcardsPanelProps {
+  /** Cards are stored per saved note; unsaved notes get a sign-in hint */
+  noteId?: string;
+  noteTitle: string;
+  enabled: boolean;
+  onSeek?: (seconds: number) => void;
+}
+
+export function FlashcardsPanel({ noteId, noteTitle, enabled, onSeek }: FlashcardsPanelProps) {
+  const { cards, isLoading, isGenerating, generate } = useNoteFlashcards(noteId, enabled);
+
+  if (!noteId) {
+    return (
+      <div className="text-center py-12">
+        <Layers className="w-10 h-10 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">Sign in and generate notes to study them as flashcards</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!cards.length) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <Layers className="w-10 h-10 mx-auto text-muted-foreground/50" />
+        <p className="text-sm text-muted-foreground max-w-sm mx-auto">
+          Turn the key points and sections into question/answer cards and review them with spaced repetition.
+        </p>
+        <Button onClick={generate} disabled={isGenerating} className="gap-2">
+          {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          {isGenerating ? "Creating flashcards..." : "Create flashcards"}
+        </Button>
+      </div>
+    );
+  }
+
+  const now = Date.now();
+  const due = cards.filter((card) => new Date(card.due_at).getTime() <= now).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {cards.length} card{cards.length === 1 ? "" : "s"} · {due} due now
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={generate} disabled={isGenerating} className="gap-1.5">
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Regenerate
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => downloadFlashcardsCsv(cards, noteTitle)} className="gap-1.5">
+            <Download className="w-4 h-4" />
+            Export for Anki
+          </Button>
+          <Button asChild size="sm" className="gap-1.5">
+            <Link to="/review">
+              <Layers className="w-4 h-4" />
+              Review
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <ol className="space-y-2">
+        {cards.map((card) => {
+          const seconds = card.timestamp ? parseTimestampSeconds(card.timestamp) : null;
+          return (
+            <li key={card.id} className="rounded-xl border border-border bg-card p-3 sm:p-4">
+              <div className="flex items-start justify-between gap-3">
+                <p className="font-medium text-sm text-foreground">{card.front}</p>
+                {seconds !== null && onSeek && (
+                  <button
+                    type="button"
+                    onClick={() => onSeek(seconds)}
+                    className="flex items-center gap-1 text-xs text-primary hover:underline flex-shrink-0"
+                  >
+                    <Play className="w-3 h-3" />
+                    {card.timestamp}
+                  </button>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground mt-1.5">{card.back}</p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
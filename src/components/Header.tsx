@@ -1,5 +1,6 @@
 import { motion } from "framer-motion";
-import { BookOpen, History, User, LogOut, Menu } from "lucide-react";
+import { BookOpen, History, Layers, LayoutGrid, User, LogOut, Menu } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { ThemeToggle } from "./ThemeToggle";
 import { OnlineUsers } from "./OnlineUsers";
 import { Button } from "@/components/ui/button";
@@ -18,6 +19,7 @@ interface HeaderProps {
 
 export function Header({ onOpenHistory, onOpenAuth }: HeaderProps) {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
 
   return (
     <motion.header
@@ -51,6 +53,30 @@ export function Header({ onOpenHistory, onOpenAuth }: HeaderProps) {
               <span>History</span>
             </Button>
           )}
+
+          {user && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/library")}
+              className="flex items-center gap-2"
+            >
+              <LayoutGrid className="w-4 h-4" />
+              <span>Library</span>
+            </Button>
+          )}
+
+          {user && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/review")}
+              className="flex items-center gap-2"
+            >
+              <Layers className="w-4 h-4" />
+              <span>Review</span>
+            </Button>
+          )}
           
           {user ? (
             <div className="flex items-center gap-2">
@@ -102,6 +128,14 @@ export function Header({ onOpenHistory, onOpenAuth }: HeaderProps) {
                     <History className="w-4 h-4 mr-2" />
                     History
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate("/library")}>
+                    <LayoutGrid className="w-4 h-4 mr-2" />
+                    Library
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate("/review")}>
+                    <Layers className="w-4 h-4 mr-2" />
+                    Review flashcards
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={signOut}>
                     <LogOut className="w-4 h-4 mr-2" />
                     Sign Out
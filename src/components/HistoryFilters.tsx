@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { FolderPlus, Plus, Search, SlidersHorizontal, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VIDEO_TYPES } from "@/lib/videoTypes";
+import { EMPTY_LIBRARY_FILTERS, LibraryFilters, NoteFolder, NoteTag } from "@/types/library";
+
+interface HistoryFiltersProps {
+  filters: LibraryFilters;
+  onChange: (filters: LibraryFilters) => void;
+  folders: NoteFolder[];
+  tags: NoteTag[];
+  onCreateFolder: (name: string) => Promise<NoteFolder | null>;
+  onDeleteFolder: (id: string) => void;
+  onCreateTag: (name: string) => Promise<NoteTag | null>;
+  onDeleteTag: (id: string) => void;
+}
+
+const ALL_FOLDERS = "all";
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export function HistoryFilters({
+  filters,
+  onChange,
+  folders,
+  tags,
+  onCreateFolder,
+  onDeleteFolder,
+  onCreateTag,
+  onDeleteTag,
+}: HistoryFiltersProps) {
+  const [newFolder, setNewFolder] = useState("");
+  const [isFolderFormOpen, setIsFolderFormOpen] = useState(false);
+  const [newTag, setNewTag] = useState("");
+
+  const update = (patch: Partial<LibraryFilters>) => onChange({ ...filters, ...patch });
+  const activeCount =
+    filters.tagIds.length + filters.videoTypes.length + (filters.from ? 1 : 0) + (filters.to ? 1 : 0);
+
+  const submitFolder = async () => {
+    if (!newFolder.trim()) return;
+    const folder = await onCreateFolder(newFolder);
+    if (!folder) return;
+    setNewFolder("");
+    setIsFolderFormOpen(false);
+    update({ folderId: folder.id });
+  };
+
+  const submitTag = async () => {
+    if (!newTag.trim()) return;
+    if (await onCreateTag(newTag)) setNewTag("");
+  };
+
+  return (
+    <div className="p-4 border-b border-border space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search titles, summaries, notes..."
+          className="pl-9 pr-8 h-9 text-sm"
+        />
+        {filters.query && (
+          <button
+            type="button"
+            onClick={() => update({ query: "" })}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select
+          value={filters.folderId ?? ALL_FOLDERS}
+          onValueChange={(value) => update({ folderId: value === ALL_FOLDERS ? null : value })}
+        >
+          <SelectTrigger className="h-9 text-sm flex-1 min-w-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+            {folders.map((folder) => (
+              <SelectItem key={folder.id} value={folder.id}>
+                {folder.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {filters.folderId ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9 flex-shrink-0"
+            title="Delete this folder (its notes are kept)"
+            onClick={() => {
+              onDeleteFolder(filters.folderId!);
+              update({ folderId: null });
+            }}
+          >
+            <Trash2 className="w-4 h-4 text-destructive" />
+          </Button>
+        ) : (
+          <Popover open={isFolderFormOpen} onOpenChange={setIsFolderFormOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" title="New folder">
+                <FolderPlus className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 p-3">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitFolder();
+                }}
+                className="flex gap-2"
+              >
+                <Input
+                  value={newFolder}
+                  onChange={(e) => setNewFolder(e.target.value.slice(0, 60))}
+                  placeholder="Folder name"
+                  className="h-8 text-sm"
+                  autoFocus
+                />
+                <Button type="submit" size="sm" className="h-8" disabled={!newFolder.trim()}>
+                  Add
+                </Button>
+              </form>
+            </PopoverContent>
+          </Popover>
+        )}
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-9 gap-1.5 flex-shrink-0">
+              <SlidersHorizontal className="w-4 h-4" />
+              {activeCount > 0 && <span className="text-xs text-primary">{activeCount}</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 p-4 space-y-4">
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Video type</p>
+              {VIDEO_TYPES.map((type) => (
+                <div key={type.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`history-type-${type.value}`}
+                    checked={filters.videoTypes.includes(type.value)}
+                    onCheckedChange={() => update({ videoTypes: toggle(filters.videoTypes, type.value) })}
+                  />
+                  <Label htmlFor={`history-type-${type.value}`} className="text-sm font-normal cursor-pointer">
+                    {type.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Created</p>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => update({ from: e.target.value })}
+                  className="h-8 text-xs"
+                  aria-label="From"
+                />
+                <Input
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => update({ to: e.target.value })}
+                  className="h-8 text-xs"
+                  aria-label="To"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Tags</p>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {tags.map((tag) => {
+                    const active = filters.tagIds.includes(tag.id);
+                    return (
+                      <span
+                        key={tag.id}
+                        className={`group inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+                          active ? "bg-primary text-primary-foreground border-primary" : "border-border"
+                        }`}
+                      >
+                        <button type="button" onClick={() => update({ tagIds: toggle(filters.tagIds, tag.id) })}>
+                          {tag.name}
+                        </button>
+                        <button
+                          type="button"
+                          title="Delete tag"
+                          onClick={() => {
+                            onDeleteTag(tag.id);
+                            update({ tagIds: filters.tagIds.filter((id) => id !== tag.id) });
+                          }}
+                          className="opacity-0 group-hover:opacity-70 hover:opacity-100"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitTag();
+                }}
+                className="flex gap-2"
+              >
+                <div className="relative flex-1">
+                  <Tag className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+                  <Input
+                    value={newTag}
+                    onChange={(e) => setNewTag(e.target.value.slice(0, 40))}
+                    placeholder="New tag"
+                    className="h-8 text-sm pl-7"
+                  />
+                </div>
+                <Button type="submit" size="icon" variant="outline" className="h-8 w-8" disabled={!newTag.trim()}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </form>
+            </div>
+
+            {activeCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={() => onChange({ ...EMPTY_LIBRARY_FILTERS, query: filters.query, folderId: filters.folderId })}
+              >
+                Clear filters
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+}
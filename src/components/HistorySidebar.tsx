@@ -1,13 +1,51 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { History, X, Trash2, FileText, Clock, Loader2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { History, X, FileText, Loader2, ListVideo, LayoutGrid } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { HistoryFilters } from "@/components/HistoryFilters";
+import { NoteCard } from "@/components/NoteCard";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { Note, dbNoteToNote } from "@/types/note";
-import { toast } from "sonner";
-import { format } from "date-fns";
+import { useNoteLibrary } from "@/hooks/use-note-library";
+import { Note } from "@/types/note";
+import { EMPTY_LIBRARY_FILTERS, LibraryFilters } from "@/types/library";
+
+type HistoryEntry =
+  | { kind: "note"; note: Note }
+  | { kind: "group"; id: string; title: string; notes: Note[] };
+
+/**
+ * Notes from one playlist batch are folded into a single entry where the newest of them sits,
+ * course note first and the videos in playlist order.
+ */
+function groupHistory(notes: Note[], groupTitles: Map<string, string>): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  const groups = new Map<string, Note[]>();
+
+  for (const note of notes) {
+    if (!note.groupId) {
+      entries.push({ kind: "note", note });
+      continue;
+    }
+    const members = groups.get(note.groupId);
+    if (members) {
+      members.push(note);
+    } else {
+      groups.set(note.groupId, [note]);
+      entries.push({ kind: "group", id: note.groupId, title: groupTitles.get(note.groupId) ?? note.title, notes: [] });
+    }
+  }
+
+  for (const entry of entries) {
+    if (entry.kind !== "group") continue;
+    entry.notes = (groups.get(entry.id) ?? []).sort(
+      (a, b) => (a.groupPosition ?? -1) - (b.groupPosition ?? -1),
+    );
+  }
+  return entries;
+}
 
 interface HistorySidebarProps {
   isOpen: boolean;
@@ -17,66 +55,45 @@ interface HistorySidebarProps {
 
 export function HistorySidebar({ isOpen, onClose, onSelectNote }: HistorySidebarProps) {
   const { user } = useAuth();
-  const [notes, setNotes] = useState<Note[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
+  const [groupTitles, setGroupTitles] = useState<Map<string, string>>(new Map());
+  const library = useNoteLibrary(user?.id, isOpen, filters);
+  const { notes, folders, tags } = library;
+
+  const isFiltered =
+    !!filters.query.trim() ||
+    !!filters.folderId ||
+    filters.tagIds.length > 0 ||
+    filters.videoTypes.length > 0 ||
+    !!filters.from ||
+    !!filters.to;
 
   useEffect(() => {
-    if (isOpen && user) {
-      fetchNotes();
-    }
+    if (!isOpen || !user) return;
+    supabase
+      .from("note_groups")
+      .select("id, title")
+      .eq("user_id", user.id)
+      .then(({ data }) => setGroupTitles(new Map((data ?? []).map((g) => [g.id, g.title]))));
   }, [isOpen, user]);
 
-  const fetchNotes = async () => {
-    if (!user) return;
-    setIsLoading(true);
-
-    try {
-      const { data, error } = await supabase
-        .from("notes")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-
-      const formattedNotes = (data || []).map((dbNote: any) => 
-        dbNoteToNote({
-          ...dbNote,
-          key_points: Array.isArray(dbNote.key_points) ? dbNote.key_points : [],
-          sections: Array.isArray(dbNote.sections) ? dbNote.sections : [],
-        })
-      );
-      setNotes(formattedNotes);
-    } catch (error) {
-      console.error("Error fetching notes:", error);
-      toast.error("Failed to load notes history");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const handleDelete = async (noteId: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    setDeletingId(noteId);
-
-    try {
-      const { error } = await supabase
-        .from("notes")
-        .delete()
-        .eq("id", noteId);
-
-      if (error) throw error;
-
-      setNotes((prev) => prev.filter((n) => n.id !== noteId));
-      toast.success("Note deleted");
-    } catch (error) {
-      console.error("Error deleting note:", error);
-      toast.error("Failed to delete note");
-    } finally {
-      setDeletingId(null);
-    }
-  };
+  const renderNote = (note: Note) => (
+    <NoteCard
+      key={note.id}
+      note={note}
+      folders={folders}
+      tags={tags}
+      showFolder={!filters.folderId}
+      isDeleting={library.deletingId === note.id}
+      onOpen={(selected) => {
+        onSelectNote(selected);
+        onClose();
+      }}
+      onDelete={library.deleteNote}
+      onMoveToFolder={library.moveToFolder}
+      onToggleTag={library.toggleTag}
+    />
+  );
 
   return (
     <AnimatePresence>
@@ -90,70 +107,100 @@ export function HistorySidebar({ isOpen, onClose, onSelectNote }: HistorySidebar
             onClick={onClose}
           />
           <motion.aside
-            initial={{ x: -320 }}
+            initial={{ x: -384 }}
             animate={{ x: 0 }}
-            exit={{ x: -320 }}
+            exit={{ x: -384 }}
             transition={{ type: "spring", damping: 25, stiffness: 300 }}
-            className="fixed left-0 top-0 h-full w-80 bg-card border-r border-border z-50 flex flex-col"
+            className="fixed left-0 top-0 h-full w-full max-w-sm bg-card border-r border-border z-50 flex flex-col"
           >
             <div className="p-4 border-b border-border flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <History className="w-5 h-5 text-primary" />
                 <h2 className="font-display font-semibold text-lg">SummarIQ History</h2>
               </div>
-              <Button variant="ghost" size="icon" onClick={onClose}>
-                <X className="w-5 h-5" />
-              </Button>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" asChild title="Open the full library">
+                  <Link to="/library" onClick={onClose}>
+                    <LayoutGrid className="w-5 h-5" />
+                  </Link>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={onClose}>
+                  <X className="w-5 h-5" />
+                </Button>
+              </div>
             </div>
 
+            <HistoryFilters
+              filters={filters}
+              onChange={setFilters}
+              folders={folders}
+              tags={tags}
+              onCreateFolder={library.createFolder}
+              onDeleteFolder={library.deleteFolder}
+              onCreateTag={library.createTag}
+              onDeleteTag={library.deleteTag}
+            />
+
             <ScrollArea className="flex-1 p-4">
-              {isLoading ? (
+              {library.isLoading && notes.length === 0 ? (
                 <div className="flex items-center justify-center py-8">
                   <Loader2 className="w-6 h-6 animate-spin text-primary" />
                 </div>
               ) : notes.length === 0 ? (
                 <div className="text-center py-8">
                   <FileText className="w-12 h-12 mx-auto text-muted-foreground/50 mb-3" />
-                  <p className="text-muted-foreground">No saved notes yet</p>
-                  <p className="text-sm text-muted-foreground/70 mt-1">
-                    Generate notes to see them here
-                  </p>
+                  {isFiltered ? (
+                    <>
+                      <p className="text-muted-foreground">No notes match</p>
+                      <p className="text-sm text-muted-foreground/70 mt-1">
+                        Try other words or clear some filters
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-muted-foreground">No saved notes yet</p>
+                      <p className="text-sm text-muted-foreground/70 mt-1">
+                        Generate notes to see them here
+                      </p>
+                    </>
+                  )}
                 </div>
               ) : (
-                <div className="space-y-3">
-                  {notes.map((note) => (
-                    <motion.div
-                      key={note.id}
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      className="group relative p-3 rounded-xl bg-secondary/50 hover:bg-secondary transition-colors cursor-pointer"
-                      onClick={() => {
-                        onSelectNote(note);
-                        onClose();
-                      }}
-                    >
-                      <h3 className="font-medium text-sm text-foreground line-clamp-2 pr-8">
-                        {note.title}
-                      </h3>
-                      <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
-                        <Clock className="w-3 h-3" />
-                        {note.created_at && format(new Date(note.created_at), "MMM d, yyyy")}
+                <div className={`space-y-3 transition-opacity ${library.isLoading ? "opacity-60" : ""}`}>
+                  {groupHistory(notes, groupTitles).map((entry) =>
+                    entry.kind === "note" ? (
+                      renderNote(entry.note)
+                    ) : (
+                      <div key={entry.id} className="space-y-2">
+                        <div className="flex items-center gap-2 px-1 text-xs font-medium text-muted-foreground">
+                          <ListVideo className="w-3.5 h-3.5 text-primary" />
+                          <span className="truncate">{entry.title}</span>
+                          <span className="ml-auto flex-shrink-0">{entry.notes.length}</span>
+                        </div>
+                        <div className="space-y-2 pl-3 border-l-2 border-primary/20">
+                          {entry.notes.map(renderNote)}
+                        </div>
                       </div>
+                    ),
+                  )}
+
+                  <div className="pt-2 text-center space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      {notes.length} of {library.total} note{library.total === 1 ? "" : "s"}
+                    </p>
+                    {library.hasMore && (
                       <Button
-                        variant="ghost"
-                        size="icon"
-                        className="absolute top-2 right-2 h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
-                        onClick={(e) => handleDelete(note.id!, e)}
-                        disabled={deletingId === note.id}
+                        variant="outline"
+                        size="sm"
+                        onClick={library.loadMore}
+                        disabled={library.isLoadingMore}
+                        className="w-full"
                       >
-                        {deletingId === note.id ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="w-4 h-4 text-destructive" />
-                        )}
+                        {library.isLoadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Load more
                       </Button>
-                    </motion.div>
-                  ))}
+                    )}
+                  </div>
                 </div>
               )}
             </ScrollArea>
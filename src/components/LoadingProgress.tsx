@@ -1,57 +1,26 @@
-import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
+import { Check, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-
-const loadingStages = [
-  { progress: 5, message: "Connecting to video...", duration: 800 },
-  { progress: 15, message: "Fetching transcript...", duration: 2500 },
-  { progress: 30, message: "Analyzing content...", duration: 2000 },
-  { progress: 45, message: "Identifying key topics...", duration: 2500 },
-  { progress: 60, message: "Synthesizing notes...", duration: 3000 },
-  { progress: 75, message: "Structuring sections...", duration: 2500 },
-  { progress: 85, message: "Formatting content...", duration: 2000 },
-  { progress: 92, message: "Preparing detailed PDF...", duration: 1500 },
-  { progress: 96, message: "Almost there...", duration: 3000 },
-];
+import { GenerationProgress } from "@/types/generation";
 
 interface LoadingProgressProps {
   isLoading: boolean;
+  events: GenerationProgress[];
+  /** Shown as a "Stop waiting" action for background jobs */
+  onDismiss?: () => void;
 }
 
-export function LoadingProgress({ isLoading }: LoadingProgressProps) {
-  const [currentStage, setCurrentStage] = useState(0);
-  const [progress, setProgress] = useState(0);
-
-  useEffect(() => {
-    if (!isLoading) {
-      setCurrentStage(0);
-      setProgress(0);
-      return;
-    }
-
-    let stageIndex = 0;
-    let timeoutId: ReturnType<typeof setTimeout>;
-
-    const advanceStage = () => {
-      if (stageIndex < loadingStages.length) {
-        const stage = loadingStages[stageIndex];
-        setCurrentStage(stageIndex);
-        setProgress(stage.progress);
-        stageIndex++;
-        timeoutId = setTimeout(advanceStage, stage.duration);
-      }
-    };
-
-    advanceStage();
-
-    return () => {
-      clearTimeout(timeoutId);
-    };
-  }, [isLoading]);
+function formatElapsed(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
 
+export function LoadingProgress({ isLoading, events, onDismiss }: LoadingProgressProps) {
   if (!isLoading) return null;
 
-  const currentMessage = loadingStages[currentStage]?.message || "Processing...";
+  const current = events[events.length - 1];
+  const progress = current?.progress ?? 0;
+  const currentMessage = current?.message || "Starting...";
 
   return (
     <motion.div
@@ -86,10 +55,35 @@ export function LoadingProgress({ isLoading }: LoadingProgressProps) {
             </div>
           </div>
 
-          {/* Tip */}
-          <p className="text-xs text-muted-foreground/70 text-center mt-2">
-            This may take 15-45 seconds depending on video length
-          </p>
+          {/* Stage log: each step completes when the next one starts */}
+          {events.length > 0 && (
+            <ul className="w-full space-y-1.5 text-xs">
+              {events.map((event, index) => {
+                const next = events[index + 1];
+                return (
+                  <li key={`${event.stage}-${index}`} className="flex items-center gap-2 text-muted-foreground">
+                    {next ? (
+                      <Check className="w-3.5 h-3.5 text-success flex-shrink-0" />
+                    ) : (
+                      <Loader2 className="w-3.5 h-3.5 animate-spin text-primary flex-shrink-0" />
+                    )}
+                    <span className="flex-1 truncate">{event.message}</span>
+                    {next && (
+                      <span className="tabular-nums text-muted-foreground/70">
+                        {formatElapsed(next.elapsedMs - event.elapsedMs)}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {onDismiss && (
+            <Button variant="ghost" size="sm" onClick={onDismiss} className="text-muted-foreground">
+              Stop waiting
+            </Button>
+          )}
         </div>
       </div>
     </motion.div>
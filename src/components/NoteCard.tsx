@@ -0,0 +1,151 @@
+import { motion } from "framer-motion";
+import { Clock, Folder, Loader2, MoreVertical, Tag, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Note } from "@/types/note";
+import { NoteFolder, NoteTag } from "@/types/library";
+
+interface NoteCardProps {
+  note: Note;
+  folders: NoteFolder[];
+  tags: NoteTag[];
+  /** Hidden while the list is already narrowed to one folder */
+  showFolder: boolean;
+  /** Library cards also show the video type and the start of the summary */
+  detailed?: boolean;
+  isDeleting: boolean;
+  onOpen: (note: Note) => void;
+  onDelete: (noteId: string) => void;
+  onMoveToFolder: (noteId: string, folderId: string | null) => void;
+  onToggleTag: (note: Note, tagId: string) => void;
+}
+
+export function NoteCard({
+  note,
+  folders,
+  tags,
+  showFolder,
+  detailed = false,
+  isDeleting,
+  onOpen,
+  onDelete,
+  onMoveToFolder,
+  onToggleTag,
+}: NoteCardProps) {
+  const folder = showFolder ? folders.find((f) => f.id === note.folderId) : undefined;
+  const noteTags = tags.filter((t) => note.tagIds?.includes(t.id));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`group relative p-3 rounded-xl bg-secondary/50 hover:bg-secondary transition-colors cursor-pointer ${
+        detailed ? "sm:p-4 flex flex-col" : ""
+      }`}
+      onClick={() => onOpen(note)}
+    >
+      <h3 className="font-medium text-sm text-foreground line-clamp-2 pr-8">
+        {note.title}
+      </h3>
+      {detailed && <p className="text-xs text-muted-foreground line-clamp-3 mt-2 flex-1">{note.summary}</p>}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          {note.created_at && format(new Date(note.created_at), "MMM d, yyyy")}
+        </span>
+        {detailed && note.videoType && <span>{note.videoType}</span>}
+        {folder && (
+          <span className="flex items-center gap-1 min-w-0">
+            <Folder className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{folder.name}</span>
+          </span>
+        )}
+      </div>
+      {noteTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {noteTags.map((tag) => (
+            <span key={tag.id} className="rounded-full bg-primary/10 text-primary px-2 py-0.5 text-[11px]">
+              {tag.name}
+            </span>
+          ))}
+        </div>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute top-2 right-2 h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+            onClick={(e) => e.stopPropagation()}
+            disabled={isDeleting}
+          >
+            {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <MoreVertical className="w-4 h-4" />}
+          </Button>
+        </DropdownMenuTrigger>
+        {/* Menu clicks bubble through the portal in React's tree; they must not open the note */}
+        <DropdownMenuContent align="end" className="w-48" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Folder className="w-4 h-4 mr-2" />
+              Move to folder
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-44">
+              <DropdownMenuCheckboxItem checked={!note.folderId} onCheckedChange={() => onMoveToFolder(note.id!, null)}>
+                No folder
+              </DropdownMenuCheckboxItem>
+              {folders.map((f) => (
+                <DropdownMenuCheckboxItem
+                  key={f.id}
+                  checked={note.folderId === f.id}
+                  onCheckedChange={() => onMoveToFolder(note.id!, f.id)}
+                >
+                  {f.name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Tag className="w-4 h-4 mr-2" />
+              Tags
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-44">
+              {tags.length === 0 ? (
+                <DropdownMenuItem disabled className="text-xs">
+                  Create tags from the filters menu
+                </DropdownMenuItem>
+              ) : (
+                tags.map((tag) => (
+                  <DropdownMenuCheckboxItem
+                    key={tag.id}
+                    checked={!!note.tagIds?.includes(tag.id)}
+                    onSelect={(e) => e.preventDefault()}
+                    onCheckedChange={() => onToggleTag(note, tag.id)}
+                  >
+                    {tag.name}
+                  </DropdownMenuCheckboxItem>
+                ))
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => onDelete(note.id!)} className="text-destructive focus:text-destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </motion.div>
+  );
+}
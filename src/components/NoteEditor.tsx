@@ -0,0 +1,503 @@
+import { KeyboardEvent, ReactNode, useEffect, useRef, useState } from "react";
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import {
+  AlertTriangle,
+  Bold,
+  Check,
+  Code,
+  GripVertical,
+  Italic,
+  Link2,
+  Loader2,
+  Plus,
+  Redo2,
+  Scissors,
+  Sigma,
+  Trash2,
+  Undo2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { AutosaveStatus, useNoteEditor } from "@/hooks/use-note-editor";
+import {
+  DraftKeyPoint,
+  DraftSection,
+  InlineFormat,
+  NoteDraft,
+  applyInlineFormat,
+  newKeyPoint,
+  newSection,
+  splitKeyPoint,
+  splitSection,
+} from "@/lib/noteDraft";
+import { Note } from "@/types/note";
+import { NoteSaveOptions } from "@/types/revision";
+import { toast } from "sonner";
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+type FieldUpdate = (draft: NoteDraft, value: string) => NoteDraft;
+
+const FORMAT_SHORTCUTS: Record<string, InlineFormat> = {
+  b: "bold",
+  i: "italic",
+  e: "code",
+  m: "math",
+  k: "link",
+};
+
+const FORMAT_BUTTONS: { format: InlineFormat; label: string; icon: typeof Bold }[] = [
+  { format: "bold", label: "Bold (Ctrl+B)", icon: Bold },
+  { format: "italic", label: "Italic (Ctrl+I)", icon: Italic },
+  { format: "code", label: "Code (Ctrl+E)", icon: Code },
+  { format: "math", label: "Math (Ctrl+M)", icon: Sigma },
+  { format: "link", label: "Link (Ctrl+K)", icon: Link2 },
+];
+
+const updateKeyPoint = (draft: NoteDraft, id: string, change: Partial<DraftKeyPoint>): NoteDraft => ({
+  ...draft,
+  keyPoints: draft.keyPoints.map((point) => (point.id === id ? { ...point, ...change } : point)),
+});
+
+const updateSection = (draft: NoteDraft, id: string, change: Partial<DraftSection>): NoteDraft => ({
+  ...draft,
+  sections: draft.sections.map((section) => (section.id === id ? { ...section, ...change } : section)),
+});
+
+function SortableItem({ id, children }: { id: string; children: (handle: ReactNode) => ReactNode }) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } =
+    useSortable({ id });
+
+  // Only the grip starts a drag, so selecting text in the fields still works
+  const handle = (
+    <button
+      type="button"
+      ref={setActivatorNodeRef}
+      {...attributes}
+      {...listeners}
+      aria-label="Drag to reorder"
+      className="p-1 -ml-1 rounded cursor-grab active:cursor-grabbing touch-none text-muted-foreground hover:text-foreground"
+    >
+      <GripVertical className="w-4 h-4" />
+    </button>
+  );
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={isDragging ? "relative z-10 opacity-80" : undefined}
+    >
+      {children(handle)}
+    </div>
+  );
+}
+
+function SaveStatus({ status, onRetry }: { status: AutosaveStatus; onRetry: () => void }) {
+  switch (status) {
+    case "saving":
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Saving…
+        </span>
+      );
+    case "unsaved":
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <span className="w-2 h-2 rounded-full bg-amber-500" />
+          Unsaved changes
+        </span>
+      );
+    case "error":
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-destructive">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          Couldn't save
+          <button type="button" onClick={onRetry} className="underline underline-offset-2">
+            Retry
+          </button>
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Check className="w-3.5 h-3.5 text-primary" />
+          All changes saved
+        </span>
+      );
+  }
+}
+
+interface NoteEditorProps {
+  note: Note;
+  /** Resolves to whether the change was stored */
+  onSave: (note: Note, options: NoteSaveOptions) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/**
+ * Structured editing for a note: key points and sections can be added, removed, split and dragged
+ * into a new order, text gets Markdown formatting from the toolbar, and every change autosaves.
+ */
+export function NoteEditor({ note, onSave, onClose }: NoteEditorProps) {
+  const editor = useNoteEditor(note, onSave);
+  const { draft, update, undo, redo } = editor;
+  const [isClosing, setIsClosing] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ id: string; caret: number } | null>(null);
+  // The toolbar formats whichever field was focused last
+  const activeField = useRef<{ element: TextField; apply: FieldUpdate } | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
+  );
+
+  // Fields created by a split or an add are focused once they have rendered
+  useEffect(() => {
+    if (!focusRequest) return;
+    const element = document.getElementById(focusRequest.id) as TextField | null;
+    if (!element) return;
+    element.focus();
+    element.setSelectionRange(focusRequest.caret, focusRequest.caret);
+    setFocusRequest(null);
+  }, [focusRequest, draft]);
+
+  const applyFormat = (element: TextField, apply: FieldUpdate, format: InlineFormat) => {
+    const result = applyInlineFormat(element.value, element.selectionStart ?? 0, element.selectionEnd ?? 0, format);
+    update((current) => apply(current, result.value));
+    requestAnimationFrame(() => {
+      element.focus();
+      element.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const field = (id: string, value: string, apply: FieldUpdate) => ({
+    id,
+    value,
+    onChange: (e: { target: { value: string } }) => update((current) => apply(current, e.target.value), id),
+    onFocus: (e: { currentTarget: TextField }) => {
+      activeField.current = { element: e.currentTarget, apply };
+    },
+    onKeyDown: (e: KeyboardEvent<TextField>) => {
+      const format = (e.metaKey || e.ctrlKey) && !e.shiftKey ? FORMAT_SHORTCUTS[e.key.toLowerCase()] : undefined;
+      if (!format) return;
+      e.preventDefault();
+      applyFormat(e.currentTarget, apply, format);
+    },
+  });
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    // The fields' own undo would fight the editor's history, so both shortcuts go to the editor
+    if (key === "z") {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    } else if (key === "y") {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  const handleKeyPointKeyDown = (e: KeyboardEvent<HTMLInputElement>, point: DraftKeyPoint, index: number) => {
+    const caret = e.currentTarget.selectionStart ?? point.text.length;
+    if (e.key === "Enter") {
+      e.preventDefault();
+      const [head, tail] = splitKeyPoint(point, caret);
+      update((current) => ({
+        ...current,
+        keyPoints: current.keyPoints.flatMap((p) => (p.id === point.id ? [head, tail] : [p])),
+      }));
+      setFocusRequest({ id: `${tail.id}-text`, caret: 0 });
+    } else if (e.key === "Backspace" && !point.text && index > 0) {
+      e.preventDefault();
+      const previous = draft.keyPoints[index - 1];
+      update((current) => ({ ...current, keyPoints: current.keyPoints.filter((p) => p.id !== point.id) }));
+      setFocusRequest({ id: `${previous.id}-text`, caret: previous.text.length });
+    }
+  };
+
+  const addKeyPoint = () => {
+    const point = newKeyPoint();
+    update((current) => ({ ...current, keyPoints: [...current.keyPoints, point] }));
+    setFocusRequest({ id: `${point.id}-text`, caret: 0 });
+  };
+
+  const addSection = () => {
+    const section = newSection();
+    update((current) => ({ ...current, sections: [...current.sections, section] }));
+    setFocusRequest({ id: `${section.id}-title`, caret: 0 });
+  };
+
+  const handleSplitSection = (section: DraftSection) => {
+    const contentId = `${section.id}-content`;
+    const element = activeField.current?.element;
+    // Without a cursor in this section's text the split happens at its end, which adds an empty section
+    const caret =
+      element?.id === contentId ? (element.selectionStart ?? section.content.length) : section.content.length;
+    const [head, tail] = splitSection(section, caret);
+    update((current) => ({
+      ...current,
+      sections: current.sections.flatMap((s) => (s.id === section.id ? [head, tail] : [s])),
+    }));
+    setFocusRequest({ id: `${tail.id}-content`, caret: 0 });
+  };
+
+  const reorder = (list: "keyPoints" | "sections") => ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    update((current) => {
+      const items: { id: string }[] = current[list];
+      const from = items.findIndex((item) => item.id === active.id);
+      const to = items.findIndex((item) => item.id === over.id);
+      if (from < 0 || to < 0) return current;
+      return { ...current, [list]: arrayMove(items, from, to) };
+    });
+  };
+
+  const handleDone = async () => {
+    setIsClosing(true);
+    const saved = await editor.flush();
+    setIsClosing(false);
+    if (saved) onClose();
+    else toast.error("Failed to save changes");
+  };
+
+  return (
+    <div className="space-y-6 sm:space-y-8" onKeyDown={handleKeyDown}>
+      {/* Toolbar */}
+      <div className="sticky top-0 z-20 -mx-1 flex flex-wrap items-center gap-1 rounded-xl border border-border bg-card/95 backdrop-blur p-1.5">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={undo}
+          disabled={!editor.canUndo}
+          title="Undo (Ctrl+Z)"
+          aria-label="Undo"
+        >
+          <Undo2 className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={redo}
+          disabled={!editor.canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+          aria-label="Redo"
+        >
+          <Redo2 className="w-4 h-4" />
+        </Button>
+        <div className="w-px h-5 bg-border mx-1" />
+        {FORMAT_BUTTONS.map(({ format, label, icon: Icon }) => (
+          <Button
+            key={format}
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title={label}
+            aria-label={label}
+            // Keeps the focus (and the selection) in the field being formatted
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => {
+              const active = activeField.current;
+              if (active?.element.isConnected) applyFormat(active.element, active.apply, format);
+            }}
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+        <div className="ml-auto flex items-center gap-3 pl-2">
+          <SaveStatus status={editor.status} onRetry={() => editor.flush()} />
+          <Button size="sm" className="h-8" onClick={handleDone} disabled={isClosing}>
+            {isClosing ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Check className="w-4 h-4 mr-1.5" />}
+            Done
+          </Button>
+        </div>
+      </div>
+
+      {/* Title */}
+      <section>
+        <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-2 sm:mb-3 flex items-center gap-2">
+          <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
+          Title
+        </h3>
+        <Input
+          {...field("note-title", draft.title, (current, title) => ({ ...current, title }))}
+          className="font-semibold text-sm sm:text-base"
+        />
+      </section>
+
+      {/* Summary */}
+      <section>
+        <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-2 sm:mb-3 flex items-center gap-2">
+          <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
+          Summary
+        </h3>
+        <Textarea
+          {...field("note-summary", draft.summary, (current, summary) => ({ ...current, summary }))}
+          className="min-h-[100px] sm:min-h-[120px] text-sm sm:text-base"
+        />
+      </section>
+
+      {/* Key Points */}
+      <section>
+        <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-3 sm:mb-4 flex items-center gap-2">
+          <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
+          Key Points
+        </h3>
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={reorder("keyPoints")}>
+          <SortableContext items={draft.keyPoints.map((point) => point.id)} strategy={verticalListSortingStrategy}>
+            <div className="space-y-2">
+              {draft.keyPoints.map((point, index) => {
+                const textField = field(`${point.id}-text`, point.text, (current, text) =>
+                  updateKeyPoint(current, point.id, { text }),
+                );
+                return (
+                  <SortableItem key={point.id} id={point.id}>
+                    {(handle) => (
+                      <div className="flex items-center gap-1.5 sm:gap-2">
+                        {handle}
+                        <Input
+                          {...textField}
+                          onKeyDown={(e) => {
+                            textField.onKeyDown(e);
+                            if (!e.defaultPrevented) handleKeyPointKeyDown(e, point, index);
+                          }}
+                          placeholder="Key point"
+                          className="flex-1 text-sm sm:text-base"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 flex-shrink-0 text-muted-foreground hover:text-destructive"
+                          aria-label="Remove key point"
+                          onClick={() =>
+                            update((current) => ({
+                              ...current,
+                              keyPoints: current.keyPoints.filter((p) => p.id !== point.id),
+                            }))
+                          }
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </SortableItem>
+                );
+              })}
+            </div>
+          </SortableContext>
+        </DndContext>
+        <Button variant="ghost" size="sm" className="mt-2 gap-1.5 text-muted-foreground" onClick={addKeyPoint}>
+          <Plus className="w-4 h-4" />
+          Add key point
+        </Button>
+      </section>
+
+      {/* Detailed Sections */}
+      <section>
+        <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-3 sm:mb-4 flex items-center gap-2">
+          <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
+          Detailed Notes
+        </h3>
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={reorder("sections")}>
+          <SortableContext items={draft.sections.map((section) => section.id)} strategy={verticalListSortingStrategy}>
+            <div className="space-y-3 sm:space-y-4">
+              {draft.sections.map((section, index) => (
+                <SortableItem key={section.id} id={section.id}>
+                  {(handle) => (
+                    <div className="border border-border rounded-xl overflow-hidden bg-card">
+                      <div className="flex items-center gap-1.5 sm:gap-2 p-2 sm:p-3 bg-accent/30">
+                        {handle}
+                        <span className="text-xs sm:text-sm font-medium text-primary bg-primary/10 px-2 py-0.5 rounded">
+                          {index + 1}
+                        </span>
+                        <Input
+                          {...field(`${section.id}-title`, section.title, (current, title) =>
+                            updateSection(current, section.id, { title }),
+                          )}
+                          placeholder="Section title"
+                          className="flex-1 font-semibold text-sm sm:text-base"
+                        />
+                        <Input
+                          value={section.timestamp ?? ""}
+                          onChange={(e) =>
+                            update(
+                              (current) =>
+                                updateSection(current, section.id, { timestamp: e.target.value.trim() || undefined }),
+                              `${section.id}-timestamp`,
+                            )
+                          }
+                          placeholder="m:ss"
+                          aria-label="Timestamp"
+                          className="w-16 sm:w-20 text-xs sm:text-sm hidden sm:block"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 flex-shrink-0 text-muted-foreground"
+                          title="Split at the cursor"
+                          aria-label="Split section at the cursor"
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => handleSplitSection(section)}
+                        >
+                          <Scissors className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 flex-shrink-0 text-muted-foreground hover:text-destructive"
+                          aria-label="Remove section"
+                          onClick={() =>
+                            update((current) => ({
+                              ...current,
+                              sections: current.sections.filter((s) => s.id !== section.id),
+                            }))
+                          }
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <div className="p-2 sm:p-3 border-t border-border">
+                        <Textarea
+                          {...field(`${section.id}-content`, section.content, (current, content) =>
+                            updateSection(current, section.id, { content }),
+                          )}
+                          placeholder="Section notes (Markdown, $math$ and code are supported)"
+                          className="min-h-[80px] sm:min-h-[100px] text-sm sm:text-base"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </SortableItem>
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+        <Button variant="ghost" size="sm" className="mt-2 gap-1.5 text-muted-foreground" onClick={addSection}>
+          <Plus className="w-4 h-4" />
+          Add section
+        </Button>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNoteRevisions } from "@/hooks/use-note-revisions";
+import { DiffPart, diffRevisions, SectionChange } from "@/lib/revisionDiff";
+import { NoteRevision, RevisionSource } from "@/types/revision";
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  created: "Generated",
+  edit: "Edited",
+  regenerate: "Regenerated",
+  restore: "Restored",
+};
+
+const CHANGE_LABELS: Record<SectionChange["kind"], string> = {
+  unchanged: "Unchanged",
+  changed: "Changed",
+  added: "Added",
+  removed: "Removed",
+};
+
+function revisionLabel(revision: NoteRevision) {
+  return `${format(new Date(revision.created_at), "MMM d, yyyy HH:mm")} · ${SOURCE_LABELS[revision.source] ?? revision.source}`;
+}
+
+function DiffText({ parts }: { parts: DiffPart<string>[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.kind === "same" ? (
+          <span key={index}>{part.value}</span>
+        ) : part.kind === "added" ? (
+          <ins key={index} className="no-underline bg-primary/15 text-primary rounded-sm">
+            {part.value}
+          </ins>
+        ) : (
+          <del key={index} className="bg-destructive/10 text-destructive rounded-sm">
+            {part.value}
+          </del>
+        ),
+      )}
+    </>
+  );
+}
+
+interface NoteHistoryPanelProps {
+  noteId?: string;
+  enabled: boolean;
+  /** Called after a restore with the content now on the note */
+  onRestored: (revision: NoteRevision) => void;
+}
+
+export function NoteHistoryPanel({ noteId, enabled, onRestored }: NoteHistoryPanelProps) {
+  const { revisions, isLoading, restoringId, restore } = useNoteRevisions(noteId, enabled);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  // Defaults to the latest change: the version before it against the current one
+  const to = revisions.find((r) => r.id === toId) ?? revisions[0];
+  const from = revisions.find((r) => r.id === fromId) ?? revisions[1] ?? revisions[0];
+  const diff = useMemo(() => (from && to ? diffRevisions(from, to) : null), [from, to]);
+
+  if (!noteId) {
+    return (
+      <div className="text-center py-10 text-sm text-muted-foreground">
+        <History className="w-10 h-10 mx-auto text-muted-foreground/50 mb-3" />
+        Sign in and save this note to keep its version history
+      </div>
+    );
+  }
+
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-center py-10 text-sm text-muted-foreground">No versions recorded yet</p>;
+  }
+
+  const handleRestore = async (revision: NoteRevision) => {
+    if (await restore(revision)) {
+      setFromId(null);
+      setToId(null);
+      onRestored(revision);
+    }
+  };
+
+  const unchangedSections = diff?.sections.filter((change) => change.kind === "unchanged").length ?? 0;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+      <ol className="space-y-2">
+        {revisions.map((revision, index) => (
+          <li key={revision.id} className="rounded-xl border border-border p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{SOURCE_LABELS[revision.source] ?? revision.source}</span>
+              {index === 0 ? (
+                <span className="text-xs text-primary">Current</span>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 gap-1 text-xs"
+                  onClick={() => handleRestore(revision)}
+                  disabled={!!restoringId}
+                >
+                  {restoringId === revision.id ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  )}
+                  Restore
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {format(new Date(revision.created_at), "MMM d, yyyy HH:mm")}
+            </p>
+          </li>
+        ))}
+      </ol>
+
+      <div className="space-y-5 min-w-0">
+        <div className="grid gap-2 sm:grid-cols-2">
+          <Select value={from?.id} onValueChange={setFromId}>
+            <SelectTrigger aria-label="Compare from">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.id} value={revision.id}>
+                  {revisionLabel(revision)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={to?.id} onValueChange={setToId}>
+            <SelectTrigger aria-label="Compare to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.id} value={revision.id}>
+                  {revisionLabel(revision)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!diff?.changed ? (
+          <p className="text-sm text-muted-foreground">These versions have the same content.</p>
+        ) : (
+          <>
+            {diff.title && (
+              <section>
+                <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Title</h4>
+                <p className="text-sm">
+                  <DiffText parts={diff.title} />
+                </p>
+              </section>
+            )}
+
+            {diff.summary && (
+              <section>
+                <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Summary</h4>
+                <p className="text-sm leading-relaxed">
+                  <DiffText parts={diff.summary} />
+                </p>
+              </section>
+            )}
+
+            {diff.keyPoints.some((part) => part.kind !== "same") && (
+              <section>
+                <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                  Key points
+                </h4>
+                <ul className="space-y-1 text-sm">
+                  {diff.keyPoints.map((part, index) => (
+                    <li
+                      key={index}
+                      className={
+                        part.kind === "added"
+                          ? "text-primary"
+                          : part.kind === "removed"
+                            ? "text-destructive line-through"
+                            : "text-muted-foreground"
+                      }
+                    >
+                      {part.kind === "added" ? "+ " : part.kind === "removed" ? "− " : "  "}
+                      {part.value}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section className="space-y-3">
+              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Sections</h4>
+              {diff.sections
+                .filter((change) => change.kind !== "unchanged")
+                .map((change, index) => (
+                  <div key={index} className="rounded-xl border border-border p-3 text-sm space-y-1">
+                    <span
+                      className={`text-xs font-medium ${
+                        change.kind === "added"
+                          ? "text-primary"
+                          : change.kind === "removed"
+                            ? "text-destructive"
+                            : "text-muted-foreground"
+                      }`}
+                    >
+                      {CHANGE_LABELS[change.kind]}
+                    </span>
+                    {change.kind === "changed" ? (
+                      <>
+                        <p className="font-medium">
+                          <DiffText parts={change.title ?? []} />
+                        </p>
+                        <p className="leading-relaxed whitespace-pre-wrap">
+                          <DiffText parts={change.content ?? []} />
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="font-medium">{(change.after ?? change.before)?.title}</p>
+                        <p
+                          className={`leading-relaxed whitespace-pre-wrap ${
+                            change.kind === "removed" ? "line-through text-muted-foreground" : ""
+                          }`}
+                        >
+                          {(change.after ?? change.before)?.content}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                ))}
+              {unchangedSections > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {unchangedSections} unchanged section{unchangedSections === 1 ? "" : "s"}
+                </p>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
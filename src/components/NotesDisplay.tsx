@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import {
   FileText,
@@ -7,59 +7,120 @@ import {
   BookOpen,
   CheckCircle,
   Edit3,
-  Save,
-  X,
   FileDown,
   FileType,
   FileCode,
   ChevronDown,
   ChevronUp,
+  Languages,
+  Play,
+  ScrollText,
+  ShieldCheck,
+  AlertTriangle,
+  MessagesSquare,
+  Layers,
+  GraduationCap,
+  History,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuCheckboxItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Note } from "@/types/note";
+import { languageLabel } from "@/lib/languages";
+import { activeSectionIndex, extractYouTubeVideoId, parseTimestampSeconds } from "@/lib/youtube";
+import { VideoPlayer, VideoPlayerHandle } from "@/components/VideoPlayer";
+import { TranscriptViewer } from "@/components/TranscriptViewer";
+import { SourceCitation } from "@/components/SourceCitation";
+import { ChatPanel } from "@/components/ChatPanel";
+import { FlashcardsPanel } from "@/components/FlashcardsPanel";
+import { QuizPanel } from "@/components/QuizPanel";
+import { NoteEditor } from "@/components/NoteEditor";
+import { ShareNoteDialog } from "@/components/ShareNoteDialog";
+import { NoteHistoryPanel } from "@/components/NoteHistoryPanel";
+import { RichContent } from "@/components/RichContent";
+import { AnnotatedText, TextSelection } from "@/components/AnnotatedText";
+import { SectionAnnotations, StarToggle, UnanchoredAnnotations } from "@/components/SectionAnnotations";
+import { RegenerateMenu } from "@/components/RegenerateMenu";
+import { useNoteTranscript } from "@/hooks/use-note-transcript";
+import { useAnnotations } from "@/hooks/use-annotations";
+import { anchorAnnotations } from "@/lib/annotations";
+import { applyRegenerated, regenerateNotePart, RegenerateTarget } from "@/lib/regenerate";
+import { HighlightColor } from "@/types/annotation";
+import { NoteSaveOptions } from "@/types/revision";
 import { downloadAsPDF, downloadAsMarkdown, downloadAsText } from "@/utils/exportNotes";
 import { toast } from "sonner";
 
+type NotesTab = "notes" | "transcript" | "ask" | "flashcards" | "quiz" | "history";
+
 interface NotesDisplayProps {
   notes: Note;
-  onUpdate?: (notes: Note) => void;
+  /** Resolves to whether the change was stored; the editor autosaves through it */
+  onUpdate?: (notes: Note, options?: NoteSaveOptions) => Promise<boolean>;
+  /** A previous version was restored server-side; only local state needs replacing */
+  onRestore?: (notes: Note) => void;
+  /** Shared notes: no editing, sharing or per-user study tabs */
+  readOnly?: boolean;
 }
 
-export function NotesDisplay({ notes, onUpdate }: NotesDisplayProps) {
+export function NotesDisplay({ notes, onUpdate, onRestore, readOnly = false }: NotesDisplayProps) {
   const [isEditing, setIsEditing] = useState(false);
-  const [editedNotes, setEditedNotes] = useState<Note>(notes);
   const [expandedSections, setExpandedSections] = useState<Set<number>>(new Set([0, 1, 2]));
+  const [activeSection, setActiveSection] = useState(-1);
+  const [tab, setTab] = useState<NotesTab>("notes");
+  const [scrollToSection, setScrollToSection] = useState<number | null>(null);
+  const { transcript, isLoading: isTranscriptLoading } = useNoteTranscript(notes, tab === "transcript");
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  const {
+    annotations,
+    canAnnotate,
+    add: addAnnotation,
+    updateComment,
+    remove: removeAnnotation,
+  } = useAnnotations(notes.id, !readOnly);
+  const anchored = useMemo(() => anchorAnnotations(notes.sections, annotations), [notes.sections, annotations]);
+  const [includeAnnotations, setIncludeAnnotations] = useState(true);
+  const [regenerating, setRegenerating] = useState<RegenerateTarget | null>(null);
+  // Regenerated parts are applied to the note as it is when the answer arrives, not when it was asked for
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const canRegenerate = !readOnly && !!onUpdate && !!notes.id;
+  // Uploaded files and playlist course notes have nothing to embed
+  const videoId = extractYouTubeVideoId(notes.videoUrl);
 
-  const handleSave = () => {
-    if (onUpdate) {
-      onUpdate(editedNotes);
-    }
-    setIsEditing(false);
-    toast.success("Notes updated!");
-  };
+  useEffect(() => setActiveSection(-1), [notes.videoUrl]);
+  // The editor belongs to the note it was opened on
+  useEffect(() => setIsEditing(false), [notes.id, notes.videoUrl]);
 
-  const handleCancel = () => {
-    setEditedNotes(notes);
-    setIsEditing(false);
-  };
+  // The notes tab mounts on switch, so the scroll waits for the render that shows the section
+  useEffect(() => {
+    if (scrollToSection === null || tab !== "notes") return;
+    document.getElementById(`note-section-${scrollToSection}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setScrollToSection(null);
+  }, [scrollToSection, tab]);
 
-  const handleDownload = (format: "pdf" | "markdown" | "text") => {
-    const noteToExport = isEditing ? editedNotes : notes;
+  const handleDownload = async (format: "pdf" | "markdown" | "text") => {
+    // The editor autosaves into `notes`, so this is current while editing too
+    const noteToExport = notes;
+    const exportOptions = { annotations: includeAnnotations ? annotations : undefined };
     switch (format) {
       case "pdf":
-        downloadAsPDF(noteToExport);
-        toast.success("PDF downloaded!");
+        try {
+          await downloadAsPDF(noteToExport, exportOptions);
+          toast.success("PDF downloaded!");
+        } catch (error) {
+          console.error("Error exporting PDF:", error);
+          toast.error("Failed to create the PDF");
+        }
         break;
       case "markdown":
-        downloadAsMarkdown(noteToExport);
+        downloadAsMarkdown(noteToExport, exportOptions);
         toast.success("Markdown file downloaded!");
         break;
       case "text":
@@ -69,18 +130,55 @@ export function NotesDisplay({ notes, onUpdate }: NotesDisplayProps) {
     }
   };
 
-  const updateSection = (index: number, field: "title" | "content", value: string) => {
-    const newSections = [...editedNotes.sections];
-    newSections[index] = { ...newSections[index], [field]: value };
-    setEditedNotes({ ...editedNotes, sections: newSections });
+  const highlightSection = (index: number) => (selection: TextSelection, color: HighlightColor, comment?: string) =>
+    addAnnotation(
+      {
+        section_index: index,
+        kind: "highlight",
+        start_offset: selection.start,
+        end_offset: selection.end,
+        quote: selection.quote,
+        color,
+        comment: comment ?? null,
+      },
+      notes.sections[index].title,
+    );
+
+  const toggleStar = (index: number) => {
+    const star = anchored.bySection[index]?.star;
+    if (star) removeAnnotation(star.id);
+    else addAnnotation({ section_index: index, kind: "star" }, notes.sections[index].title);
   };
 
-  const updateKeyPoint = (index: number, value: string) => {
-    const newKeyPoints = [...editedNotes.keyPoints];
-    newKeyPoints[index] = value;
-    setEditedNotes({ ...editedNotes, keyPoints: newKeyPoints });
+  const regeneratePart = async (target: RegenerateTarget, instruction: string) => {
+    if (!onUpdate) return;
+    const label = target.kind === "section" ? "section" : "key point";
+    setRegenerating(target);
+    try {
+      const result = await regenerateNotePart(notes, target, instruction);
+      const current = notesRef.current;
+      if (current.id !== notes.id) return;
+      const updated = applyRegenerated(current, notes, target, result);
+      if (!updated) {
+        toast.error(`The ${label} was changed while it was regenerating, so the new version was dropped`);
+        return;
+      }
+      if (await onUpdate(updated, { source: "regenerate" })) {
+        toast.success(`The ${label} was regenerated`);
+      } else {
+        toast.error(`Failed to save the regenerated ${label}`);
+      }
+    } catch (error) {
+      console.error("Error regenerating:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to regenerate. Please try again.");
+    } finally {
+      setRegenerating(null);
+    }
   };
 
+  const isRegenerating = (kind: RegenerateTarget["kind"], index: number) =>
+    regenerating?.kind === kind && regenerating.index === index;
+
   const toggleSection = (index: number) => {
     const newExpanded = new Set(expandedSections);
     if (newExpanded.has(index)) {
@@ -91,15 +189,70 @@ export function NotesDisplay({ notes, onUpdate }: NotesDisplayProps) {
     setExpandedSections(newExpanded);
   };
 
-  const displayNotes = isEditing ? editedNotes : notes;
+  const seekPlayer = videoId ? (seconds: number) => playerRef.current?.seekTo(seconds) : undefined;
+
+  const seekToSection = (index: number) => {
+    const seconds = parseTimestampSeconds(notes.sections[index].timestamp);
+    if (seconds === null) return;
+    playerRef.current?.seekTo(seconds);
+    setActiveSection(index);
+  };
+
+  const showSection = (index: number) => {
+    setTab("notes");
+    setExpandedSections((prev) => new Set(prev).add(index));
+    setActiveSection(index);
+    setScrollToSection(index);
+    if (videoId) seekToSection(index);
+  };
+
+  const renderTimestamp = (timestamp: string, index: number, className: string) =>
+    videoId && parseTimestampSeconds(timestamp) !== null ? (
+      <span
+        role="button"
+        tabIndex={0}
+        title="Play from here"
+        onClick={(e) => {
+          e.stopPropagation();
+          seekToSection(index);
+        }}
+        onKeyDown={(e) => {
+          if (e.key !== "Enter" && e.key !== " ") return;
+          e.preventDefault();
+          e.stopPropagation();
+          seekToSection(index);
+        }}
+        className={`${className} items-center gap-1 cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors`}
+      >
+        <Play className="w-3 h-3" />
+        {timestamp}
+      </span>
+    ) : (
+      <span className={className}>{timestamp}</span>
+    );
 
   return (
     <motion.div
       initial={{ opacity: 0, y: 30 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.6 }}
-      className="w-full max-w-4xl mx-auto"
+      className={
+        videoId
+          ? "w-full max-w-6xl mx-auto grid gap-4 sm:gap-6 lg:grid-cols-[minmax(0,1fr)_24rem] lg:items-start"
+          : "w-full max-w-4xl mx-auto"
+      }
     >
+      {videoId && (
+        <aside className="lg:order-2 lg:sticky lg:top-6 space-y-2">
+          <VideoPlayer
+            ref={playerRef}
+            videoId={videoId}
+            onTimeUpdate={(seconds) => setActiveSection(activeSectionIndex(notes.sections, seconds))}
+          />
+          <p className="text-xs text-muted-foreground text-center">Click a section timestamp to jump there</p>
+        </aside>
+      )}
+
       <div className="bg-card rounded-2xl sm:rounded-3xl shadow-card border border-border overflow-hidden">
         {/* Header */}
         <div className="gradient-primary p-4 sm:p-6 text-primary-foreground">
@@ -109,221 +262,351 @@ export function NotesDisplay({ notes, onUpdate }: NotesDisplayProps) {
                 <FileText className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
                 <span>AI Generated Notes</span>
               </div>
-              {isEditing ? (
-                <Input
-                  value={editedNotes.title}
-                  onChange={(e) => setEditedNotes({ ...editedNotes, title: e.target.value })}
-                  className="text-lg sm:text-2xl font-display font-bold bg-primary-foreground/20 border-primary-foreground/30 text-primary-foreground placeholder:text-primary-foreground/50"
-                />
-              ) : (
-                <h2 className="text-lg sm:text-2xl font-display font-bold leading-tight break-words">
-                  {displayNotes.title}
-                </h2>
-              )}
+              <h2 className="text-lg sm:text-2xl font-display font-bold leading-tight break-words">
+                {notes.title}
+              </h2>
               <div className="flex flex-wrap items-center gap-3 sm:gap-4 mt-2 sm:mt-3 text-xs sm:text-sm text-primary-foreground/80">
                 <span className="flex items-center gap-1.5">
                   <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-                  {displayNotes.duration}
+                  {notes.duration}
                 </span>
                 <span className="flex items-center gap-1.5">
                   <BookOpen className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-                  {displayNotes.sections.length} sections
+                  {notes.sections.length} sections
                 </span>
+                {(notes.sourceLanguage || notes.outputLanguage) && (
+                  <span className="flex items-center gap-1.5">
+                    <Languages className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    {notes.sourceLanguage && notes.outputLanguage &&
+                    languageLabel(notes.sourceLanguage) !== languageLabel(notes.outputLanguage)
+                      ? `${languageLabel(notes.sourceLanguage)} → ${languageLabel(notes.outputLanguage)}`
+                      : languageLabel(notes.outputLanguage || notes.sourceLanguage || "")}
+                  </span>
+                )}
+                {notes.grounding?.verified && (
+                  <span className="flex items-center gap-1.5">
+                    {notes.grounding.unsupported ? (
+                      <AlertTriangle className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    ) : (
+                      <ShieldCheck className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    )}
+                    {notes.grounding.unsupported
+                      ? `${notes.grounding.unsupported} unverified statement${notes.grounding.unsupported === 1 ? "" : "s"}`
+                      : "All statements cite the transcript"}
+                  </span>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2 flex-shrink-0">
-              {isEditing ? (
-                <>
-                  <Button
-                    onClick={handleCancel}
-                    variant="ghost"
-                    size="sm"
-                    className="bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground text-xs sm:text-sm h-8 sm:h-9"
-                  >
-                    <X className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-                    <span className="hidden sm:inline">Cancel</span>
-                  </Button>
-                  <Button
-                    onClick={handleSave}
-                    size="sm"
-                    className="bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground text-xs sm:text-sm h-8 sm:h-9"
-                  >
-                    <Save className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-                    <span className="hidden sm:inline">Save</span>
-                  </Button>
-                </>
-              ) : (
-                <>
-                  <Button
-                    onClick={() => setIsEditing(true)}
-                    variant="ghost"
+              {!readOnly && onUpdate && !isEditing && (
+                <Button
+                  disabled={!!regenerating}
+                  onClick={() => {
+                    setIsEditing(true);
+                    setTab("notes");
+                  }}
+                  variant="ghost"
+                  size="sm"
+                  className="bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground text-xs sm:text-sm h-8 sm:h-9"
+                >
+                  <Edit3 className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Edit</span>
+                </Button>
+              )}
+              {!readOnly && notes.id && (
+                <ShareNoteDialog
+                  noteId={notes.id}
+                  triggerClassName="bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground text-xs sm:text-sm h-8 sm:h-9"
+                />
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button 
                     size="sm"
-                    className="bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground text-xs sm:text-sm h-8 sm:h-9"
+                    className="bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground backdrop-blur-sm border border-primary-foreground/20 text-xs sm:text-sm h-8 sm:h-9"
                   >
-                    <Edit3 className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-2" />
-                    <span className="hidden sm:inline">Edit</span>
+                    <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Export</span>
                   </Button>
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button 
-                        size="sm"
-                        className="bg-primary-foreground/20 hover:bg-primary-foreground/30 text-primary-foreground backdrop-blur-sm border border-primary-foreground/20 text-xs sm:text-sm h-8 sm:h-9"
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-48 bg-popover border-border z-50">
+                  <DropdownMenuItem onClick={() => handleDownload("pdf")}>
+                    <FileDown className="w-4 h-4 mr-2" />
+                    Download as PDF
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleDownload("markdown")}>
+                    <FileCode className="w-4 h-4 mr-2" />
+                    Download as Markdown
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleDownload("text")}>
+                    <FileType className="w-4 h-4 mr-2" />
+                    Download as Text
+                  </DropdownMenuItem>
+                  {annotations.length > 0 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuCheckboxItem
+                        checked={includeAnnotations}
+                        onCheckedChange={(checked) => setIncludeAnnotations(checked === true)}
+                        // Keeps the menu open so the format can be picked next
+                        onSelect={(e) => e.preventDefault()}
                       >
-                        <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-2" />
-                        <span className="hidden sm:inline">Export</span>
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end" className="w-48 bg-popover border-border z-50">
-                      <DropdownMenuItem onClick={() => handleDownload("pdf")}>
-                        <FileDown className="w-4 h-4 mr-2" />
-                        Download as PDF
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleDownload("markdown")}>
-                        <FileCode className="w-4 h-4 mr-2" />
-                        Download as Markdown
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleDownload("text")}>
-                        <FileType className="w-4 h-4 mr-2" />
-                        Download as Text
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </>
-              )}
+                        Include my annotations
+                      </DropdownMenuCheckboxItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
 
         {/* Content */}
-        <div className="p-4 sm:p-6 space-y-6 sm:space-y-8">
-          {/* Summary */}
-          <section>
-            <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-2 sm:mb-3 flex items-center gap-2">
-              <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
-              Summary
-            </h3>
-            {isEditing ? (
-              <Textarea
-                value={editedNotes.summary}
-                onChange={(e) => setEditedNotes({ ...editedNotes, summary: e.target.value })}
-                className="min-h-[100px] sm:min-h-[120px] text-sm sm:text-base"
-              />
-            ) : (
-              <p className="text-sm sm:text-base text-muted-foreground leading-relaxed">{displayNotes.summary}</p>
+        <Tabs value={tab} onValueChange={(value) => setTab(value as NotesTab)} className="p-4 sm:p-6">
+          <TabsList className="mb-4 sm:mb-6 max-w-full overflow-x-auto justify-start">
+            <TabsTrigger value="notes" className="gap-1.5">
+              <BookOpen className="w-4 h-4" />
+              Notes
+            </TabsTrigger>
+            <TabsTrigger value="transcript" className="gap-1.5" disabled={isEditing}>
+              <ScrollText className="w-4 h-4" />
+              Transcript
+            </TabsTrigger>
+            {!readOnly && (
+              <>
+                <TabsTrigger value="ask" className="gap-1.5" disabled={isEditing}>
+                  <MessagesSquare className="w-4 h-4" />
+                  Ask
+                </TabsTrigger>
+                <TabsTrigger value="flashcards" className="gap-1.5" disabled={isEditing}>
+                  <Layers className="w-4 h-4" />
+                  Flashcards
+                </TabsTrigger>
+                <TabsTrigger value="quiz" className="gap-1.5" disabled={isEditing}>
+                  <GraduationCap className="w-4 h-4" />
+                  Quiz
+                </TabsTrigger>
+                <TabsTrigger value="history" className="gap-1.5" disabled={isEditing}>
+                  <History className="w-4 h-4" />
+                  History
+                </TabsTrigger>
+              </>
             )}
-          </section>
+          </TabsList>
 
-          {/* Key Points */}
-          <section>
-            <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-3 sm:mb-4 flex items-center gap-2">
-              <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
-              Key Points
-            </h3>
-            <ul className="space-y-2 sm:space-y-3">
-              {displayNotes.keyPoints.map((point, index) => (
-                <motion.li
-                  key={index}
-                  initial={{ opacity: 0, x: -10 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className="flex items-start gap-2 sm:gap-3"
-                >
-                  <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-primary mt-0.5 flex-shrink-0" />
-                  {isEditing ? (
-                    <Input
-                      value={point}
-                      onChange={(e) => updateKeyPoint(index, e.target.value)}
-                      className="flex-1 text-sm sm:text-base"
-                    />
-                  ) : (
-                    <span className="text-sm sm:text-base text-foreground">{point}</span>
-                  )}
-                </motion.li>
-              ))}
-            </ul>
-          </section>
+          <TabsContent value="notes" className="mt-0 space-y-6 sm:space-y-8">
+            {isEditing && onUpdate ? (
+              <NoteEditor note={notes} onSave={onUpdate} onClose={() => setIsEditing(false)} />
+            ) : (
+              <>
+              {/* Summary */}
+              <section>
+                <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-2 sm:mb-3 flex items-center gap-2">
+                  <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
+                  Summary
+                </h3>
+                <RichContent className="text-sm sm:text-base text-muted-foreground leading-relaxed">
+                  {notes.summary}
+                </RichContent>
+              </section>
 
-          {/* Detailed Sections */}
-          <section>
-            <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-3 sm:mb-4 flex items-center gap-2">
-              <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
-              Detailed Notes
-            </h3>
-            <div className="space-y-3 sm:space-y-4">
-              {displayNotes.sections.map((section, index) => (
-                <motion.div
-                  key={index}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.1 + index * 0.05 }}
-                  className="border border-border rounded-xl overflow-hidden"
-                >
-                  <button
-                    onClick={() => !isEditing && toggleSection(index)}
-                    className="w-full flex items-center justify-between p-3 sm:p-4 bg-accent/30 hover:bg-accent/50 transition-colors text-left"
-                    disabled={isEditing}
-                  >
-                    <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
-                      <span className="text-xs sm:text-sm font-medium text-primary bg-primary/10 px-2 py-0.5 rounded">
-                        {index + 1}
+              {/* Key Points */}
+              <section>
+                <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-3 sm:mb-4 flex items-center gap-2">
+                  <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
+                  Key Points
+                </h3>
+                <ul className="space-y-2 sm:space-y-3">
+                  {notes.keyPoints.map((point, index) => (
+                    <motion.li
+                      key={index}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      className="group flex items-start gap-2 sm:gap-3"
+                    >
+                      <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-primary mt-0.5 flex-shrink-0" />
+                      <span className="flex-1 text-sm sm:text-base text-foreground">
+                        <SourceCitation citation={notes.grounding?.keyPoints[index]} onSeek={seekPlayer}>
+                          <RichContent inline>{point}</RichContent>
+                        </SourceCitation>
                       </span>
-                      {isEditing ? (
-                        <Input
-                          value={section.title}
-                          onChange={(e) => updateSection(index, "title", e.target.value)}
-                          className="font-semibold text-sm sm:text-base"
-                          onClick={(e) => e.stopPropagation()}
-                        />
-                      ) : (
-                        <h4 className="font-semibold text-sm sm:text-base text-foreground truncate">{section.title}</h4>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-2 flex-shrink-0">
-                      {section.timestamp && (
-                        <span className="text-xs px-2 py-0.5 rounded-full bg-accent text-accent-foreground hidden sm:inline">
-                          {section.timestamp}
-                        </span>
-                      )}
-                      {!isEditing && (
-                        expandedSections.has(index) ? (
-                          <ChevronUp className="w-4 h-4 text-muted-foreground" />
-                        ) : (
-                          <ChevronDown className="w-4 h-4 text-muted-foreground" />
-                        )
+                      {canRegenerate && (
+                        <div
+                          className={`-my-1 flex-shrink-0 transition-opacity ${
+                            isRegenerating("keyPoint", index)
+                              ? ""
+                              : "opacity-0 group-hover:opacity-100 focus-within:opacity-100"
+                          }`}
+                        >
+                          <RegenerateMenu
+                            label="key point"
+                            compact
+                            isRegenerating={isRegenerating("keyPoint", index)}
+                            disabled={!!regenerating}
+                            onRegenerate={(instruction) => regeneratePart({ kind: "keyPoint", index }, instruction)}
+                          />
+                        </div>
                       )}
-                    </div>
-                  </button>
-                  
-                  {(isEditing || expandedSections.has(index)) && (
+                    </motion.li>
+                  ))}
+                </ul>
+              </section>
+
+              {/* Detailed Sections */}
+              <section>
+                <h3 className="text-base sm:text-lg font-display font-semibold text-foreground mb-3 sm:mb-4 flex items-center gap-2">
+                  <div className="w-1 sm:w-1.5 h-4 sm:h-5 rounded-full gradient-primary" />
+                  Detailed Notes
+                </h3>
+                <div className="space-y-3 sm:space-y-4">
+                  {notes.sections.map((section, index) => (
                     <motion.div
-                      initial={{ height: 0, opacity: 0 }}
-                      animate={{ height: "auto", opacity: 1 }}
-                      exit={{ height: 0, opacity: 0 }}
-                      className="p-3 sm:p-4 border-t border-border"
+                      key={index}
+                      id={`note-section-${index}`}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.1 + index * 0.05 }}
+                      className={`border rounded-xl overflow-hidden transition-colors ${
+                        activeSection === index ? "border-primary ring-1 ring-primary" : "border-border"
+                      }`}
                     >
-                      {section.timestamp && (
-                        <span className="text-xs px-2 py-0.5 rounded-full bg-accent text-accent-foreground sm:hidden inline-block mb-2">
-                          {section.timestamp}
-                        </span>
-                      )}
-                      {isEditing ? (
-                        <Textarea
-                          value={section.content}
-                          onChange={(e) => updateSection(index, "content", e.target.value)}
-                          className="min-h-[80px] sm:min-h-[100px] text-sm sm:text-base"
-                        />
-                      ) : (
-                        <p className="text-sm sm:text-base text-muted-foreground leading-relaxed whitespace-pre-wrap">
-                          {section.content}
-                        </p>
+                      <button
+                        onClick={() => toggleSection(index)}
+                        className="w-full flex items-center justify-between p-3 sm:p-4 bg-accent/30 hover:bg-accent/50 transition-colors text-left"
+                      >
+                        <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
+                          <span className="text-xs sm:text-sm font-medium text-primary bg-primary/10 px-2 py-0.5 rounded">
+                            {index + 1}
+                          </span>
+                          <h4 className="font-semibold text-sm sm:text-base text-foreground truncate">
+                            <RichContent inline>{section.title}</RichContent>
+                          </h4>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          {canAnnotate && (
+                            <StarToggle
+                              starred={!!anchored.bySection[index]?.star}
+                              onToggle={() => toggleStar(index)}
+                            />
+                          )}
+                          {section.timestamp &&
+                            renderTimestamp(
+                              section.timestamp,
+                              index,
+                              "text-xs px-2 py-0.5 rounded-full bg-accent text-accent-foreground hidden sm:inline-flex",
+                            )}
+                          {expandedSections.has(index) ? (
+                            <ChevronUp className="w-4 h-4 text-muted-foreground" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                          )}
+                        </div>
+                      </button>
+                  
+                      {expandedSections.has(index) && (
+                        <motion.div
+                          initial={{ height: 0, opacity: 0 }}
+                          animate={{ height: "auto", opacity: 1 }}
+                          exit={{ height: 0, opacity: 0 }}
+                          className="p-3 sm:p-4 border-t border-border"
+                        >
+                          {section.timestamp &&
+                            renderTimestamp(
+                              section.timestamp,
+                              index,
+                              "text-xs px-2 py-0.5 rounded-full bg-accent text-accent-foreground sm:hidden inline-flex mb-2",
+                            )}
+                          <SourceCitation citation={notes.grounding?.sections[index]} onSeek={seekPlayer} block>
+                            <AnnotatedText
+                              content={section.content}
+                              className="text-sm sm:text-base text-muted-foreground leading-relaxed"
+                              annotations={anchored.bySection[index]?.highlights ?? []}
+                              onHighlight={canAnnotate ? highlightSection(index) : undefined}
+                            />
+                          </SourceCitation>
+                          {canRegenerate && (
+                            <div className="mt-3 flex justify-end">
+                              <RegenerateMenu
+                                label="section"
+                                isRegenerating={isRegenerating("section", index)}
+                                disabled={!!regenerating}
+                                onRegenerate={(instruction) => regeneratePart({ kind: "section", index }, instruction)}
+                              />
+                            </div>
+                          )}
+                          {canAnnotate && anchored.bySection[index] && (
+                            <SectionAnnotations
+                              annotations={anchored.bySection[index]}
+                              onAddComment={(comment) =>
+                                addAnnotation({ section_index: index, kind: "comment", comment }, section.title)
+                              }
+                              onUpdateComment={updateComment}
+                              onRemove={removeAnnotation}
+                            />
+                          )}
+                        </motion.div>
                       )}
                     </motion.div>
-                  )}
-                </motion.div>
-              ))}
-            </div>
-          </section>
-        </div>
+                  ))}
+                </div>
+              </section>
+
+              {canAnnotate && anchored.detached.length > 0 && (
+                <UnanchoredAnnotations annotations={anchored.detached} onRemove={removeAnnotation} />
+              )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="transcript" className="mt-0">
+            <TranscriptViewer
+              transcript={transcript}
+              isLoading={isTranscriptLoading}
+              onSeek={seekPlayer}
+            />
+          </TabsContent>
+
+          <TabsContent value="ask" className="mt-0">
+            <ChatPanel noteId={notes.id} enabled={tab === "ask"} onSeek={seekPlayer} />
+          </TabsContent>
+
+          <TabsContent value="flashcards" className="mt-0">
+            <FlashcardsPanel
+              noteId={notes.id}
+              noteTitle={notes.title}
+              enabled={tab === "flashcards"}
+              onSeek={seekPlayer}
+            />
+          </TabsContent>
+
+          <TabsContent value="quiz" className="mt-0">
+            <QuizPanel
+              noteId={notes.id}
+              sectionTitles={notes.sections.map((section) => section.title)}
+              enabled={tab === "quiz"}
+              onShowSection={showSection}
+            />
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-0">
+            <NoteHistoryPanel
+              noteId={notes.id}
+              enabled={tab === "history"}
+              onRestored={(revision) => {
+                onRestore?.({
+                  ...notes,
+                  title: revision.video_title,
+                  summary: revision.summary,
+                  keyPoints: revision.key_points,
+                  sections: revision.sections,
+                  grounding: revision.grounding ?? undefined,
+                });
+                toast.success("Version restored");
+              }}
+            />
+          </TabsContent>
+        </Tabs>
       </div>
     </motion.div>
   );
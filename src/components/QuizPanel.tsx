@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, GraduationCap, Loader2, RotateCcw, Sparkles, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useQuiz } from "@/hooks/use-quiz";
+import { QuizAnswer, QuizAttempt } from "@/types/quiz";
+
+interface QuizPanelProps {
+  /** Quizzes are stored per saved note; unsaved notes get a sign-in hint */
+  noteId?: string;
+  sectionTitles: string[];
+  enabled: boolean;
+  /** Opens the notes tab at the section that explains a missed question */
+  onShowSection: (index: number) => void;
+}
+
+const percent = (attempt: Pick<QuizAttempt, "score" | "total">) =>
+  attempt.total ? Math.round((attempt.score / attempt.total) * 100) : 0;
+
+function AttemptHistory({ attempts }: { attempts: QuizAttempt[] }) {
+  const recent = attempts.slice(-12);
+  const best = Math.max(...attempts.map(percent));
+
+  return (
+    <div className="rounded-xl border border-border p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-foreground">Your progress</span>
+        <span className="text-muted-foreground">
+          {attempts.length} attempt{attempts.length === 1 ? "" : "s"} · best {best}%
+        </span>
+      </div>
+      <div className="flex items-end gap-1.5 h-20">
+        {recent.map((attempt) => (
+          <div
+            key={attempt.id}
+            title={`${new Date(attempt.created_at).toLocaleDateString()}: ${attempt.score}/${attempt.total}`}
+            className="flex-1 max-w-8 rounded-t bg-primary/70"
+            style={{ height: `${Math.max(percent(attempt), 4)}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function QuizPanel({ noteId, sectionTitles, enabled, onShowSection }: QuizPanelProps) {
+  const { attempts, isLoading, quiz, results, isGenerating, isSubmitting, start, submit, reset } = useQuiz(
+    noteId,
+    enabled,
+  );
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+
+  useEffect(() => {
+    setAnswers(quiz ? quiz.questions.map(() => null) : []);
+  }, [quiz]);
+
+  if (!noteId) {
+    return (
+      <div className="text-center py-12">
+        <GraduationCap className="w-10 h-10 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">Sign in and generate notes to quiz yourself on them</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!quiz) {
+    return (
+      <div className="space-y-4">
+        {attempts.length > 0 && <AttemptHistory attempts={attempts} />}
+        <div className="text-center py-8 space-y-4">
+          <GraduationCap className="w-10 h-10 mx-auto text-muted-foreground/50" />
+          <p className="text-sm text-muted-foreground max-w-sm mx-auto">
+            Test yourself with multiple-choice and short-answer questions. Each quiz is new, and missed questions
+            point you back to the section that explains them.
+          </p>
+          <Button onClick={() => start()} disabled={isGenerating} className="gap-2">
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            {isGenerating ? "Writing questions..." : attempts.length ? "Take a new quiz" : "Start quiz"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const setAnswer = (index: number, value: QuizAnswer) =>
+    setAnswers((prev) => prev.map((a, i) => (i === index ? value : a)));
+  const answered = answers.filter((a) => a !== null && a !== "").length;
+  const score = results?.filter((r) => r.correct).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {results && (
+        <div className="rounded-xl border border-border bg-accent/30 p-4 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-lg font-display font-semibold text-foreground">
+              {score} / {results.length} correct
+            </p>
+            <p className="text-sm text-muted-foreground">{percent({ score, total: results.length })}%</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={reset} className="gap-1.5">
+              Done
+            </Button>
+            <Button size="sm" onClick={() => start()} disabled={isGenerating} className="gap-1.5">
+              {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              New quiz
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {quiz.questions.map((question, index) => {
+          const result = results?.[index];
+          return (
+            <li
+              key={index}
+              className={`rounded-xl border p-3 sm:p-4 space-y-3 ${
+                result ? (result.correct ? "border-green-500/40" : "border-destructive/40") : "border-border"
+              }`}
+            >
+              <div className="flex items-start gap-2">
+                <span className="text-xs font-medium text-primary bg-primary/10 px-2 py-0.5 rounded mt-0.5">
+                  {index + 1}
+                </span>
+                <p className="flex-1 text-sm font-medium text-foreground">{question.question}</p>
+                {result &&
+                  (result.correct ? (
+                    <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                  ))}
+              </div>
+
+              {question.type === "multiple_choice" ? (
+                <RadioGroup
+                  value={answers[index] === null || answers[index] === undefined ? "" : String(answers[index])}
+                  onValueChange={(value) => setAnswer(index, Number(value))}
+                  disabled={!!results}
+                  className="gap-2"
+                >
+                  {question.options.map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center gap-2">
+                      <RadioGroupItem value={String(optionIndex)} id={`quiz-${index}-${optionIndex}`} />
+                      <Label htmlFor={`quiz-${index}-${optionIndex}`} className="text-sm font-normal cursor-pointer">
+                        {option}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <Input
+                  value={typeof answers[index] === "string" ? (answers[index] as string) : ""}
+                  onChange={(e) => setAnswer(index, e.target.value)}
+                  disabled={!!results}
+                  placeholder="Your answer"
+                  className="text-sm"
+                />
+              )}
+
+              {result && !result.correct && (
+                <div className="text-sm space-y-1.5 border-t border-border pt-3">
+                  <p>
+                    <span className="text-muted-foreground">Answer: </span>
+                    <span className="font-medium text-foreground">{result.expected}</span>
+                  </p>
+                  {result.explanation && <p className="text-muted-foreground">{result.explanation}</p>}
+                  <button
+                    type="button"
+                    onClick={() => onShowSection(result.sectionIndex)}
+                    className="text-primary hover:underline text-left"
+                  >
+                    Review “{sectionTitles[result.sectionIndex] ?? `Section ${result.sectionIndex + 1}`}”
+                    {result.timestamp ? ` (${result.timestamp})` : ""}
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {!results && (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-muted-foreground">
+            {answered} of {quiz.questions.length} answered
+          </span>
+          <Button onClick={() => submit(answers)} disabled={isSubmitting || answered === 0} className="gap-2">
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Check answers
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
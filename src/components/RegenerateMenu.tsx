@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_INSTRUCTION_CHARS, REGENERATE_PRESETS } from "@/lib/regenerate";
+
+interface RegenerateMenuProps {
+  /** What is being regenerated, for labels: "section", "key point" */
+  label: string;
+  isRegenerating: boolean;
+  /** Another part is being regenerated */
+  disabled?: boolean;
+  /** Icon-only trigger, for key points */
+  compact?: boolean;
+  onRegenerate: (instruction: string) => void;
+}
+
+/** Regenerates one part of a note, with a preset or custom instruction, from its part of the transcript */
+export function RegenerateMenu({ label, isRegenerating, disabled = false, compact = false, onRegenerate }: RegenerateMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [instruction, setInstruction] = useState("");
+
+  const run = (value: string) => {
+    setOpen(false);
+    setInstruction("");
+    onRegenerate(value);
+  };
+
+  const icon = isRegenerating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        {compact ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-muted-foreground"
+            aria-label={`Regenerate ${label}`}
+            title={`Regenerate ${label}`}
+            disabled={disabled || isRegenerating}
+          >
+            {icon}
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 gap-1 text-xs text-muted-foreground"
+            disabled={disabled || isRegenerating}
+          >
+            {icon}
+            {isRegenerating ? "Regenerating..." : `Regenerate ${label}`}
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <p className="text-sm font-medium text-foreground">Regenerate this {label}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {REGENERATE_PRESETS.map((preset) => (
+            <Button key={preset} variant="outline" size="sm" className="h-7 text-xs" onClick={() => run(preset)}>
+              {preset}
+            </Button>
+          ))}
+        </div>
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            run(instruction);
+          }}
+        >
+          <Textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            maxLength={MAX_INSTRUCTION_CHARS}
+            placeholder="Or describe what to change (optional)"
+            className="min-h-[60px] text-sm"
+          />
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">Only this {label} is replaced.</p>
+            <Button type="submit" size="sm" className="h-7 text-xs">
+              Regenerate
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,76 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import "katex/dist/katex.min.css";
+import { normalizeMath } from "@/lib/richText";
+import { cn } from "@/lib/utils";
+
+const blockComponents: Components = {
+  p: ({ node: _node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  ul: ({ node: _node, ...props }) => <ul className="my-2 ml-5 list-disc space-y-1" {...props} />,
+  ol: ({ node: _node, ...props }) => <ol className="my-2 ml-5 list-decimal space-y-1" {...props} />,
+  h1: ({ node: _node, ...props }) => <h4 className="mt-3 mb-1 font-semibold text-foreground" {...props} />,
+  h2: ({ node: _node, ...props }) => <h4 className="mt-3 mb-1 font-semibold text-foreground" {...props} />,
+  h3: ({ node: _node, ...props }) => <h5 className="mt-3 mb-1 font-semibold text-foreground" {...props} />,
+  h4: ({ node: _node, ...props }) => <h5 className="mt-3 mb-1 font-medium text-foreground" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote className="my-2 border-l-2 border-primary/40 pl-3 italic" {...props} />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre className="my-3 overflow-x-auto rounded-lg bg-muted p-3 text-xs sm:text-sm leading-relaxed" {...props} />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full border-collapse text-sm" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => <th className="border border-border px-2 py-1 text-left font-medium" {...props} />,
+  td: ({ node: _node, ...props }) => <td className="border border-border px-2 py-1 align-top" {...props} />,
+};
+
+const inlineComponents: Components = {
+  // Key points and titles are one line: paragraphs collapse into the surrounding element
+  p: ({ node: _node, ...props }) => <span {...props} />,
+};
+
+const sharedComponents: Components = {
+  strong: ({ node: _node, ...props }) => <strong className="font-semibold text-foreground" {...props} />,
+  a: ({ node: _node, ...props }) => (
+    <a className="text-primary underline underline-offset-2" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  code: ({ node: _node, className, ...props }) => (
+    // Fenced blocks carry a language class (hljs); bare inline code gets the pill styling
+    <code
+      className={cn(className ?? "rounded bg-muted px-1 py-0.5 font-mono text-[0.9em] text-foreground", "font-mono")}
+      {...props}
+    />
+  ),
+};
+
+interface RichContentProps {
+  children: string;
+  /** Single-line content (key points, titles): no paragraph margins or block wrapper */
+  inline?: boolean;
+  className?: string;
+}
+
+/** Markdown with GFM tables and lists, KaTeX math and highlighted code, as the notes view shows it */
+export function RichContent({ children, inline = false, className }: RichContentProps) {
+  const markdown = (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: false }]]}
+      components={{ ...blockComponents, ...sharedComponents, ...(inline ? inlineComponents : {}) }}
+    >
+      {normalizeMath(children)}
+    </ReactMarkdown>
+  );
+
+  return inline ? (
+    <span className={className}>{markdown}</span>
+  ) : (
+    <div className={cn("rich-content", className)}>{markdown}</div>
+  );
+}
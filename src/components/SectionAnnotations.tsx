@@ -0,0 +1,222 @@
+import { KeyboardEvent, MouseEvent, useState } from "react";
+import { MessageSquare, MessageSquarePlus, Pencil, Star, Trash2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { HIGHLIGHT_COLORS, SectionAnnotations as SectionAnnotationSet } from "@/lib/annotations";
+import { Annotation } from "@/types/annotation";
+
+const swatch = (annotation: Annotation) =>
+  `rgb(${(HIGHLIGHT_COLORS.find((c) => c.value === annotation.color) ?? HIGHLIGHT_COLORS[0]).rgb.join(",")})`;
+
+interface StarToggleProps {
+  starred: boolean;
+  onToggle: () => void;
+}
+
+/** Sits inside the section's header button, so it is a span with a button role rather than a button */
+export function StarToggle({ starred, onToggle }: StarToggleProps) {
+  const toggle = (e: MouseEvent | KeyboardEvent) => {
+    e.stopPropagation();
+    onToggle();
+  };
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-pressed={starred}
+      title={starred ? "Unstar section" : "Star section"}
+      onClick={toggle}
+      onKeyDown={(e) => {
+        if (e.key !== "Enter" && e.key !== " ") return;
+        e.preventDefault();
+        toggle(e);
+      }}
+      className="p-1 rounded hover:bg-accent transition-colors"
+    >
+      <Star className={`w-4 h-4 ${starred ? "fill-amber-400 text-amber-400" : "text-muted-foreground"}`} />
+    </span>
+  );
+}
+
+function CommentForm({
+  initial = "",
+  onSubmit,
+  onCancel,
+}: {
+  initial?: string;
+  onSubmit: (comment: string) => Promise<unknown>;
+  onCancel: () => void;
+}) {
+  const [comment, setComment] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        setIsSaving(true);
+        await onSubmit(comment);
+        setIsSaving(false);
+      }}
+    >
+      <Textarea
+        autoFocus
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Private comment"
+        className="min-h-[60px] text-sm"
+      />
+      <div className="flex justify-end gap-1">
+        <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" className="h-7 text-xs" disabled={isSaving || (!initial && !comment.trim())}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface SectionAnnotationsProps {
+  annotations: SectionAnnotationSet;
+  onAddComment: (comment: string) => Promise<unknown>;
+  onUpdateComment: (id: string, comment: string) => Promise<boolean>;
+  onRemove: (id: string) => Promise<boolean>;
+}
+
+/** The highlights and comments on one section, listed under its text. Only their author sees them. */
+export function SectionAnnotations({ annotations, onAddComment, onUpdateComment, onRemove }: SectionAnnotationsProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const items = [...annotations.highlights, ...annotations.comments];
+
+  return (
+    <div className="mt-4 space-y-2">
+      {items.map((annotation) => (
+        <div key={annotation.id} className="group rounded-lg bg-accent/30 p-2.5 text-sm space-y-1.5">
+          <div className="flex items-start gap-2">
+            {annotation.kind === "highlight" ? (
+              <span
+                className="mt-1 w-1 self-stretch rounded-full flex-shrink-0"
+                style={{ backgroundColor: swatch(annotation) }}
+              />
+            ) : (
+              <MessageSquare className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0 space-y-1">
+              {annotation.quote && <p className="italic text-muted-foreground break-words">“{annotation.quote}”</p>}
+              {editingId === annotation.id ? (
+                <CommentForm
+                  initial={annotation.comment ?? ""}
+                  onCancel={() => setEditingId(null)}
+                  onSubmit={async (comment) => {
+                    await onUpdateComment(annotation.id, comment);
+                    setEditingId(null);
+                  }}
+                />
+              ) : (
+                annotation.comment && <p className="text-foreground whitespace-pre-wrap break-words">{annotation.comment}</p>
+              )}
+            </div>
+            {editingId !== annotation.id && (
+              <div className="flex flex-shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={annotation.comment ? "Edit comment" : "Add comment"}
+                  onClick={() => setEditingId(annotation.id)}
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 hover:text-destructive"
+                  aria-label="Delete annotation"
+                  onClick={() => onRemove(annotation.id)}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {isAdding ? (
+        <CommentForm
+          onCancel={() => setIsAdding(false)}
+          onSubmit={async (comment) => {
+            await onAddComment(comment);
+            setIsAdding(false);
+          }}
+        />
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 gap-1 text-xs text-muted-foreground"
+          onClick={() => setIsAdding(true)}
+        >
+          <MessageSquarePlus className="w-3.5 h-3.5" />
+          Comment on this section
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface UnanchoredAnnotationsProps {
+  annotations: Annotation[];
+  onRemove: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Annotations whose section was removed from the note. They are kept until deleted here, so an edit
+ * that drops a section by mistake does not take the user's comments with it.
+ */
+export function UnanchoredAnnotations({ annotations, onRemove }: UnanchoredAnnotationsProps) {
+  return (
+    <section className="border border-dashed border-border rounded-xl p-3 sm:p-4 space-y-2">
+      <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+        <Unlink className="w-4 h-4 text-muted-foreground" />
+        Unanchored annotations
+      </h3>
+      <p className="text-xs text-muted-foreground">Their sections are no longer in these notes.</p>
+      {annotations.map((annotation) => (
+        <div key={annotation.id} className="group rounded-lg bg-accent/30 p-2.5 text-sm flex items-start gap-2">
+          {annotation.kind === "highlight" ? (
+            <span
+              className="mt-1 w-1 self-stretch rounded-full flex-shrink-0"
+              style={{ backgroundColor: swatch(annotation) }}
+            />
+          ) : annotation.kind === "star" ? (
+            <Star className="w-4 h-4 mt-0.5 fill-amber-400 text-amber-400 flex-shrink-0" />
+          ) : (
+            <MessageSquare className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+          )}
+          <div className="flex-1 min-w-0 space-y-1">
+            {annotation.section_title && (
+              <p className="text-xs text-muted-foreground truncate">{annotation.section_title}</p>
+            )}
+            {annotation.quote && <p className="italic text-muted-foreground break-words">“{annotation.quote}”</p>}
+            {annotation.comment && <p className="text-foreground whitespace-pre-wrap break-words">{annotation.comment}</p>}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 flex-shrink-0 hover:text-destructive"
+            aria-label="Delete annotation"
+            onClick={() => onRemove(annotation.id)}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Copy, Link2, Loader2, Share2, X } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNoteShares } from "@/hooks/use-note-shares";
+import { SHARE_EXPIRY_OPTIONS, shareUrl } from "@/lib/share";
+import { toast } from "sonner";
+
+interface ShareNoteDialogProps {
+  noteId: string;
+  triggerClassName?: string;
+}
+
+async function copyLink(token: string) {
+  try {
+    await navigator.clipboard.writeText(shareUrl(token));
+    toast.success("Link copied");
+  } catch {
+    toast.error("Couldn't copy the link");
+  }
+}
+
+export function ShareNoteDialog({ noteId, triggerClassName }: ShareNoteDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expiry, setExpiry] = useState(SHARE_EXPIRY_OPTIONS[0].value);
+  const { shares, isLoading, isCreating, create, revoke } = useNoteShares(noteId, isOpen);
+
+  const handleCreate = async () => {
+    const days = SHARE_EXPIRY_OPTIONS.find((option) => option.value === expiry)?.days ?? null;
+    const share = await create(days);
+    if (share) await copyLink(share.token);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className={triggerClassName}>
+          <Share2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Share</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share this note</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read the note without signing in. Turn a link off to stop it working.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SHARE_EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={isCreating} className="gap-2">
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">This note has no active links</p>
+          ) : (
+            shares.map((share) => {
+              const expired = !!share.expires_at && new Date(share.expires_at) <= new Date();
+              return (
+                <div key={share.id} className="rounded-lg border border-border p-2 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Input readOnly value={shareUrl(share.token)} className="h-8 text-xs font-mono" />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0"
+                      title="Copy link"
+                      onClick={() => copyLink(share.token)}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0"
+                      title="Turn this link off"
+                      onClick={() => revoke(share.id)}
+                    >
+                      <X className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                  <p className={`text-xs px-1 ${expired ? "text-destructive" : "text-muted-foreground"}`}>
+                    Created {format(new Date(share.created_at), "MMM d, yyyy")} ·{" "}
+                    {share.expires_at
+                      ? `${expired ? "expired" : "expires"} ${format(new Date(share.expires_at), "MMM d, yyyy HH:mm")}`
+                      : "never expires"}
+                  </p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
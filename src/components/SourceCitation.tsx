@@ -0,0 +1,84 @@
+import { ReactNode } from "react";
+import { AlertTriangle, Quote } from "lucide-react";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { NoteCitation } from "@/types/note";
+import { parseTimestampSeconds } from "@/lib/youtube";
+
+interface SourceCitationProps {
+  citation?: NoteCitation;
+  /** Jumps the embedded player; omitted when there is no player */
+  onSeek?: (seconds: number) => void;
+  /** Wraps block content (rendered Markdown) in a div instead of a span */
+  block?: boolean;
+  children: ReactNode;
+}
+
+/**
+ * Shows the transcript excerpt a statement cites on hover. Statements the server could not match
+ * to their cited transcript get a warning marker.
+ */
+export function SourceCitation({ citation, onSeek, block = false, children }: SourceCitationProps) {
+  const unsupported = citation?.supported === false;
+  // Statements added in the editor have an empty citation: nothing to show
+  if (!citation || (!unsupported && !citation.timestamps.length && !citation.excerpt)) return <>{children}</>;
+
+  const Trigger = block ? "div" : "span";
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <Trigger
+          className={`cursor-help decoration-dotted underline-offset-4 hover:underline ${
+            unsupported ? "decoration-destructive" : "decoration-muted-foreground"
+          }`}
+        >
+          {children}
+          {unsupported && (
+            <AlertTriangle
+              className="inline w-3.5 h-3.5 ml-1.5 -mt-0.5 text-destructive"
+              aria-label="Not supported by the cited transcript"
+            />
+          )}
+        </Trigger>
+      </HoverCardTrigger>
+      <HoverCardContent align="start" className="w-80 space-y-2">
+        {unsupported && (
+          <p className="flex items-center gap-1.5 text-xs font-medium text-destructive">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {citation.timestamps.length
+              ? "Could not find this in the cited part of the transcript"
+              : "No transcript passage was cited for this"}
+          </p>
+        )}
+        {citation.timestamps.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+            <span>Source</span>
+            {citation.timestamps.map((timestamp) => {
+              const seconds = parseTimestampSeconds(timestamp);
+              return onSeek && seconds !== null ? (
+                <button
+                  key={timestamp}
+                  type="button"
+                  onClick={() => onSeek(seconds)}
+                  className="px-1.5 py-0.5 rounded bg-accent text-accent-foreground hover:bg-primary hover:text-primary-foreground transition-colors"
+                >
+                  {timestamp}
+                </button>
+              ) : (
+                <span key={timestamp} className="px-1.5 py-0.5 rounded bg-accent text-accent-foreground">
+                  {timestamp}
+                </span>
+              );
+            })}
+          </div>
+        )}
+        {citation.excerpt && (
+          <blockquote className="flex gap-2 text-xs text-muted-foreground leading-relaxed">
+            <Quote className="w-3.5 h-3.5 flex-shrink-0 mt-0.5 text-primary" />
+            <span className="italic">{citation.excerpt}</span>
+          </blockquote>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
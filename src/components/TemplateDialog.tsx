@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  EMPTY_TEMPLATE,
+  MAX_TEMPLATE_DESCRIPTION_CHARS,
+  MAX_TEMPLATE_NAME_CHARS,
+  MAX_TEMPLATE_PROMPT_CHARS,
+  TEMPLATE_LENGTHS,
+  TEMPLATE_TONES,
+  parseRequiredSections,
+  templateDraftError,
+} from "@/lib/templates";
+import { NoteTemplate, NoteTemplateDraft, TemplateLength, TemplateTone } from "@/types/template";
+
+interface TemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The template being edited; null creates a new one */
+  template: NoteTemplate | null;
+  onSave: (draft: NoteTemplateDraft) => Promise<boolean>;
+  onDelete?: () => Promise<boolean>;
+}
+
+/** Creates or edits one of the user's note templates */
+export function TemplateDialog({ open, onOpenChange, template, onSave, onDelete }: TemplateDialogProps) {
+  const [draft, setDraft] = useState<NoteTemplateDraft>(EMPTY_TEMPLATE);
+  // Kept as typed so blank lines can be entered; parsed on save
+  const [sectionsText, setSectionsText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (template) {
+      const { name, description, system_prompt, required_sections, target_length, tone } = template;
+      setDraft({ name, description, system_prompt, required_sections, target_length, tone });
+    } else {
+      setDraft(EMPTY_TEMPLATE);
+    }
+    setSectionsText((template?.required_sections ?? []).join("\n"));
+  }, [open, template]);
+
+  const update = (patch: Partial<NoteTemplateDraft>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const parsed = { ...draft, required_sections: parseRequiredSections(sectionsText) };
+  const error = templateDraftError(parsed);
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsSaving(true);
+    const done = await action();
+    setIsSaving(false);
+    if (done) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit template" : "New template"}</DialogTitle>
+          <DialogDescription>
+            A video type of your own. Notes made with it follow these instructions, and still only use
+            what is in the transcript.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="note-template-form"
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!error) run(() => onSave(parsed));
+          }}
+        >
+          <div className="space-y-1.5">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={draft.name}
+              maxLength={MAX_TEMPLATE_NAME_CHARS}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="Meeting minutes"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-description">Description</Label>
+            <Input
+              id="template-description"
+              value={draft.description}
+              maxLength={MAX_TEMPLATE_DESCRIPTION_CHARS}
+              onChange={(e) => update({ description: e.target.value })}
+              placeholder="Team calls and stand-ups"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-prompt">Instructions</Label>
+            <Textarea
+              id="template-prompt"
+              value={draft.system_prompt}
+              maxLength={MAX_TEMPLATE_PROMPT_CHARS}
+              onChange={(e) => update({ system_prompt: e.target.value })}
+              placeholder="You are an assistant writing meeting minutes. Focus on decisions and who owns each task."
+              className="min-h-[100px] text-sm"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-sections">Required sections</Label>
+            <Textarea
+              id="template-sections"
+              value={sectionsText}
+              onChange={(e) => setSectionsText(e.target.value)}
+              placeholder={"Definitions\nAction items"}
+              className="min-h-[72px] text-sm"
+            />
+            <p className="text-xs text-muted-foreground">One section title per line, in the order they should appear.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Length</Label>
+              <Select value={draft.target_length} onValueChange={(value) => update({ target_length: value as TemplateLength })}>
+                <SelectTrigger aria-label="Length">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_LENGTHS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Tone</Label>
+              <Select value={draft.tone} onValueChange={(value) => update({ tone: value as TemplateTone })}>
+                <SelectTrigger aria-label="Tone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_TONES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {error && draft.name.trim() && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {template && onDelete ? (
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-destructive hover:text-destructive"
+              disabled={isSaving}
+              onClick={() => run(onDelete)}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button type="submit" form="note-template-form" disabled={isSaving || !!error}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, Loader2, Search, ScrollText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NoteTranscript, TranscriptSegment } from "@/types/note";
+import { formatTimestamp } from "@/lib/youtube";
+import { languageLabel } from "@/lib/languages";
+
+interface TranscriptViewerProps {
+  transcript: NoteTranscript | null;
+  isLoading: boolean;
+  /** Set when there is a player to jump; uploads and course notes only show the times */
+  onSeek?: (seconds: number) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  override: "Pasted transcript",
+  upload: "Transcribed from your file",
+};
+
+function escapeRegExp(input: string): string {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function TranscriptViewer({ transcript, isLoading, onSeek }: TranscriptViewerProps) {
+  const [query, setQuery] = useState("");
+  const [activeMatch, setActiveMatch] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Plain pastes have no segments; they are shown as one untimed block
+  const segments: TranscriptSegment[] = useMemo(() => {
+    if (!transcript) return [];
+    if (transcript.segments.length) return transcript.segments;
+    return transcript.text ? [{ text: transcript.text, start: -1, duration: 0 }] : [];
+  }, [transcript]);
+
+  const pattern = useMemo(() => {
+    const trimmed = query.trim();
+    return trimmed ? new RegExp(`(${escapeRegExp(trimmed)})`, "gi") : null;
+  }, [query]);
+
+  const matchCount = useMemo(
+    () => (pattern ? segments.reduce((sum, s) => sum + (s.text.match(pattern)?.length ?? 0), 0) : 0),
+    [pattern, segments],
+  );
+
+  useEffect(() => setActiveMatch(0), [pattern]);
+
+  useEffect(() => {
+    if (!matchCount) return;
+    listRef.current
+      ?.querySelector(`[data-match="${activeMatch}"]`)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [activeMatch, matchCount]);
+
+  const stepMatch = (delta: number) => {
+    if (!matchCount) return;
+    setActiveMatch((current) => (current + delta + matchCount) % matchCount);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!segments.length) {
+    return (
+      <div className="text-center py-12">
+        <ScrollText className="w-10 h-10 mx-auto text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">No transcript was saved with these notes</p>
+      </div>
+    );
+  }
+
+  // Matches are numbered across the whole transcript so next/previous can walk them in order
+  let matchIndex = 0;
+  const highlight = (text: string) => {
+    if (!pattern) return text;
+    return text.split(pattern).map((part, i) => {
+      if (i % 2 === 0) return part;
+      const index = matchIndex++;
+      return (
+        <mark
+          key={i}
+          data-match={index}
+          className={`rounded px-0.5 text-foreground ${index === activeMatch ? "bg-primary/40" : "bg-primary/15"}`}
+        >
+          {part}
+        </mark>
+      );
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== "Enter") return;
+              e.preventDefault();
+              stepMatch(e.shiftKey ? -1 : 1);
+            }}
+            placeholder="Search the transcript"
+            className="pl-9 text-sm"
+          />
+        </div>
+        {pattern && (
+          <>
+            <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap">
+              {matchCount ? `${activeMatch + 1} / ${matchCount}` : "No matches"}
+            </span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepMatch(-1)} disabled={!matchCount}>
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepMatch(1)} disabled={!matchCount}>
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {SOURCE_LABELS[transcript?.source ?? ""] ?? "YouTube captions"}
+        {transcript?.language ? ` · ${languageLabel(transcript.language)}` : ""}
+      </p>
+
+      <div ref={listRef} className="max-h-[32rem] overflow-y-auto space-y-1 pr-1">
+        {segments.map((segment, index) => (
+          <div key={index} className="flex items-start gap-3 rounded-lg px-2 py-1 hover:bg-accent/40">
+            {segment.start >= 0 &&
+              (onSeek ? (
+                <button
+                  type="button"
+                  onClick={() => onSeek(segment.start)}
+                  className="text-xs font-medium text-primary tabular-nums pt-0.5 w-14 flex-shrink-0 text-left hover:underline"
+                >
+                  {formatTimestamp(segment.start)}
+                </button>
+              ) : (
+                <span className="text-xs text-muted-foreground tabular-nums pt-0.5 w-14 flex-shrink-0">
+                  {formatTimestamp(segment.start)}
+                </span>
+              ))}
+            <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{highlight(segment.text)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
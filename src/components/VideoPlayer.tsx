@@ -0,0 +1,132 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+
+// Only the parts of the IFrame Player API we use
+interface YTPlayer {
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  playVideo(): void;
+  getCurrentTime(): number;
+  getPlayerState(): number;
+  destroy(): void;
+}
+
+interface YTNamespace {
+  Player: new (
+    element: HTMLElement,
+    options: {
+      videoId: string;
+      width?: string | number;
+      height?: string | number;
+      playerVars?: Record<string, string | number>;
+      events?: { onReady?: () => void; onStateChange?: (event: { data: number }) => void };
+    },
+  ) => YTPlayer;
+  PlayerState: { PLAYING: number };
+}
+
+declare global {
+  interface Window {
+    YT?: YTNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+const IFRAME_API_SRC = "https://www.youtube.com/iframe_api";
+const TIME_POLL_MS = 500;
+
+let apiPromise: Promise<YTNamespace> | null = null;
+
+/** Injects the IFrame API script once; every player waits on the same promise. */
+function loadIframeApi(): Promise<YTNamespace> {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+  if (apiPromise) return apiPromise;
+
+  apiPromise = new Promise((resolve, reject) => {
+    const previous = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      previous?.();
+      resolve(window.YT!);
+    };
+
+    const script = document.createElement("script");
+    script.src = IFRAME_API_SRC;
+    script.async = true;
+    script.onerror = () => {
+      apiPromise = null;
+      reject(new Error("Failed to load the YouTube player"));
+    };
+    document.head.appendChild(script);
+  });
+  return apiPromise;
+}
+
+export interface VideoPlayerHandle {
+  seekTo: (seconds: number) => void;
+}
+
+interface VideoPlayerProps {
+  videoId: string;
+  /** Called about twice a second while the video plays */
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+export const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(function VideoPlayer(
+  { videoId, onTimeUpdate },
+  ref,
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<YTPlayer | null>(null);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds: number) => {
+      playerRef.current?.seekTo(seconds, true);
+      playerRef.current?.playVideo();
+    },
+  }));
+
+  useEffect(() => {
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    loadIframeApi()
+      .then((YT) => {
+        if (cancelled || !containerRef.current) return;
+
+        // The API replaces the element it is given, so it gets a child rather than the React-owned node
+        const mount = document.createElement("div");
+        containerRef.current.replaceChildren(mount);
+
+        playerRef.current = new YT.Player(mount, {
+          videoId,
+          width: "100%",
+          height: "100%",
+          playerVars: { rel: 0, modestbranding: 1, playsinline: 1 },
+          events: {
+            onStateChange: ({ data }) => {
+              clearInterval(interval);
+              if (data !== YT.PlayerState.PLAYING) return;
+              interval = setInterval(() => {
+                const seconds = playerRef.current?.getCurrentTime();
+                if (seconds !== undefined) onTimeUpdateRef.current?.(seconds);
+              }, TIME_POLL_MS);
+            },
+          },
+        });
+      })
+      .catch((error) => console.error("Error loading YouTube player:", error));
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      playerRef.current?.destroy();
+      playerRef.current = null;
+    };
+  }, [videoId]);
+
+  return (
+    <div className="aspect-video w-full overflow-hidden rounded-xl bg-black">
+      <div ref={containerRef} className="h-full w-full" />
+    </div>
+  );
+});
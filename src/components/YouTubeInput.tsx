@@ -1,6 +1,19 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Youtube, Sparkles, Loader2, Check, ChevronDown, GraduationCap, Heart, Wrench, BookOpen, MessageSquare, FileText, ClipboardPaste } from "lucide-react";
+import {
+  Youtube,
+  Sparkles,
+  Loader2,
+  Check,
+  ChevronDown,
+  ClipboardPaste,
+  Languages,
+  Upload,
+  FileUp,
+  LayoutTemplate,
+  Pencil,
+  Plus,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -8,6 +21,8 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -15,36 +30,64 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { listCaptionTracks } from "@/lib/generateNotes";
+import { OUTPUT_LANGUAGES, languageLabel } from "@/lib/languages";
+import { MAX_MEDIA_BYTES, isSupportedMediaFile } from "@/lib/mediaUpload";
+import { isCollectionUrl } from "@/lib/youtube";
+import { VIDEO_TYPES } from "@/lib/videoTypes";
+import { TemplateDialog } from "@/components/TemplateDialog";
+import { useNoteTemplates } from "@/hooks/use-note-templates";
+import { CaptionTrack, GenerateNotesRequest } from "@/types/generation";
+import { NoteTemplate } from "@/types/template";
 import { toast } from "sonner";
 
 interface YouTubeInputProps {
-  onGenerate: (url: string, videoType: string, transcriptOverride?: string) => void;
+  onGenerate: (request: GenerateNotesRequest) => void;
+  onUpload: (file: File, options: Pick<GenerateNotesRequest, "videoType" | "templateId" | "outputLanguage">) => void;
   isLoading: boolean;
 }
 
-const videoTypes = [
-  { value: "Academic Lecture", label: "Academic Lecture", description: "University courses, educational content", icon: GraduationCap },
-  { value: "Motivational", label: "Motivational", description: "Inspirational, humanitarian talks", icon: Heart },
-  { value: "Tutorial", label: "Tutorial", description: "How-to guides, practical lessons", icon: Wrench },
-  { value: "Review Session", label: "Review Session", description: "Revision, exam preparation", icon: BookOpen },
-  { value: "Q&A Format", label: "Q&A Format", description: "Question and answer sessions", icon: MessageSquare },
-  { value: "General", label: "General", description: "No specific category", icon: FileText },
-];
+const AUTO_LANGUAGE = "auto";
+const SUBTITLE_EXTENSIONS = [".srt", ".vtt", ".sbv", ".txt"];
+// Subtitle files are a few hundred KB at most; anything bigger is not a transcript
+const MAX_SUBTITLE_BYTES = 2 * 1024 * 1024;
 
-export function YouTubeInput({ onGenerate, isLoading }: YouTubeInputProps) {
+export function YouTubeInput({ onGenerate, onUpload, isLoading }: YouTubeInputProps) {
   const [url, setUrl] = useState("");
   const [videoType, setVideoType] = useState("General");
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  // undefined while closed; null for a new template
+  const [editingTemplate, setEditingTemplate] = useState<NoteTemplate | null | undefined>(undefined);
+  const { templates, canUseTemplates, create: createTemplate, update: updateTemplate, remove: removeTemplate } =
+    useNoteTemplates();
   const [isValid, setIsValid] = useState<boolean | null>(null);
   const [showTranscript, setShowTranscript] = useState(false);
   const [transcriptOverride, setTranscriptOverride] = useState("");
+  const [captionTracks, setCaptionTracks] = useState<CaptionTrack[] | null>(null);
+  const [isLoadingTracks, setIsLoadingTracks] = useState(false);
+  const [captionLanguage, setCaptionLanguage] = useState(AUTO_LANGUAGE);
+  const [outputLanguage, setOutputLanguage] = useState(AUTO_LANGUAGE);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const [isDraggingSubtitle, setIsDraggingSubtitle] = useState(false);
 
   const validateYouTubeUrl = (url: string): boolean => {
     const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com\/(watch\?v=|embed\/|v\/)|youtu\.be\/)[\w-]+/;
-    return youtubeRegex.test(url);
+    return youtubeRegex.test(url) || isCollectionUrl(url);
   };
 
   const handleUrlChange = (value: string) => {
     setUrl(value);
+    // Tracks belong to the previous video
+    setCaptionTracks(null);
+    setCaptionLanguage(AUTO_LANGUAGE);
     if (value.trim()) {
       setIsValid(validateYouTubeUrl(value));
     } else {
@@ -65,10 +108,87 @@ export function YouTubeInput({ onGenerate, isLoading }: YouTubeInputProps) {
       return;
     }
 
-    onGenerate(url, videoType, transcriptOverride.trim() || undefined);
+    onGenerate({
+      videoUrl: url,
+      ...typeSelection,
+      transcriptOverride: transcriptOverride.trim() || undefined,
+      captionLanguages: captionLanguage === AUTO_LANGUAGE ? undefined : [captionLanguage],
+      outputLanguage: outputLanguage === AUTO_LANGUAGE ? undefined : outputLanguage,
+    });
   };
 
-  const selectedType = videoTypes.find(t => t.value === videoType) || videoTypes[5];
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    e.target.value = "";
+    if (!file) return;
+
+    if (!isSupportedMediaFile(file)) {
+      toast.error("Please choose an audio or video file");
+      return;
+    }
+    if (file.size > MAX_MEDIA_BYTES) {
+      toast.error("Files up to 25 MB are supported. Try a compressed audio file.");
+      return;
+    }
+
+    onUpload(file, {
+      ...typeSelection,
+      outputLanguage: outputLanguage === AUTO_LANGUAGE ? undefined : outputLanguage,
+    });
+  };
+
+  // The file is only read here; format detection and timestamp parsing happen in generate-notes
+  const loadSubtitleFile = async (file: File) => {
+    const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+    if (!SUBTITLE_EXTENSIONS.includes(extension)) {
+      toast.error("Drop an .srt, .vtt, .sbv or .txt transcript file");
+      return;
+    }
+    if (file.size > MAX_SUBTITLE_BYTES) {
+      toast.error("That file is too large to be a transcript");
+      return;
+    }
+
+    setTranscriptOverride(await file.text());
+    toast.success(`Loaded ${file.name}`);
+  };
+
+  const handleSubtitleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (isLoading || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingSubtitle(true);
+  };
+
+  const handleSubtitleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingSubtitle(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && !isLoading) loadSubtitleFile(file);
+  };
+
+  const handleLoadTracks = async () => {
+    setIsLoadingTracks(true);
+    try {
+      const tracks = await listCaptionTracks(url);
+      setCaptionTracks(tracks);
+      if (!tracks.length) {
+        toast.info("No caption tracks found for this video. You can still paste a transcript.");
+      }
+    } catch (error) {
+      console.error("Error loading caption tracks:", error);
+      toast.error("Couldn't load caption languages for this video");
+    } finally {
+      setIsLoadingTracks(false);
+    }
+  };
+
+  const selectedType = VIDEO_TYPES.find(t => t.value === videoType) || VIDEO_TYPES[5];
+  // A deleted template (or signing out) falls back to the built-in type picked before it
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+  const typeSelection = selectedTemplate
+    ? { videoType: selectedTemplate.name, templateId: selectedTemplate.id }
+    : { videoType };
 
   return (
     <motion.div
@@ -140,7 +260,7 @@ export function YouTubeInput({ onGenerate, isLoading }: YouTubeInputProps) {
               {isValid ? (
                 <span className="text-sm text-success flex items-center gap-1">
                   <Check className="w-4 h-4" />
-                  Valid YouTube link
+                  {isCollectionUrl(url) ? "Valid YouTube playlist · one note per video" : "Valid YouTube link"}
                 </span>
               ) : (
                 <span className="text-sm text-destructive">
@@ -159,11 +279,19 @@ export function YouTubeInput({ onGenerate, isLoading }: YouTubeInputProps) {
               className="w-full justify-between h-12 sm:h-14 rounded-xl border-border bg-card hover:bg-accent/50 transition-all"
               disabled={isLoading}
             >
-              <div className="flex items-center gap-3">
-                <selectedType.icon className="w-5 h-5 text-primary" />
-                <div className="text-left">
-                  <div className="font-medium text-foreground">{selectedType.label}</div>
-                  <div className="text-xs text-muted-foreground hidden sm:block">{selectedType.description}</div>
+              <div className="flex items-center gap-3 min-w-0">
+                {selectedTemplate ? (
+                  <LayoutTemplate className="w-5 h-5 text-primary flex-shrink-0" />
+                ) : (
+                  <selectedType.icon className="w-5 h-5 text-primary flex-shrink-0" />
+                )}
+                <div className="text-left min-w-0">
+                  <div className="font-medium text-foreground truncate">
+                    {selectedTemplate ? selectedTemplate.name : selectedType.label}
+                  </div>
+                  <div className="text-xs text-muted-foreground hidden sm:block truncate">
+                    {selectedTemplate ? selectedTemplate.description || "Your template" : selectedType.description}
+                  </div>
                 </div>
               </div>
               <ChevronDown className="w-4 h-4 text-muted-foreground" />
@@ -173,12 +301,15 @@ export function YouTubeInput({ onGenerate, isLoading }: YouTubeInputProps) {
             align="start" 
             className="w-[calc(100vw-3rem)] sm:w-[500px] p-2 bg-popover border-border z-50"
           >
-            {videoTypes.map((type) => (
+            {VIDEO_TYPES.map((type) => (
               <DropdownMenuItem
                 key={type.value}
-                onClick={() => setVideoType(type.value)}
+                onClick={() => {
+                  setVideoType(type.value);
+                  setTemplateId(null);
+                }}
                 className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer ${
-                  videoType === type.value ? 'bg-accent' : 'hover:bg-accent/50'
+                  !selectedTemplate && videoType === type.value ? 'bg-accent' : 'hover:bg-accent/50'
                 }`}
               >
                 <type.icon className="w-5 h-5 text-primary flex-shrink-0" />
@@ -186,14 +317,115 @@ export function YouTubeInput({ onGenerate, isLoading }: YouTubeInputProps) {
                   <div className="font-medium text-foreground">{type.label}</div>
                   <div className="text-xs text-muted-foreground">{type.description}</div>
                 </div>
-                {videoType === type.value && (
+                {!selectedTemplate && videoType === type.value && (
                   <Check className="w-4 h-4 text-primary flex-shrink-0" />
                 )}
               </DropdownMenuItem>
             ))}
+            {canUseTemplates && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">My templates</DropdownMenuLabel>
+                {templates.map((template) => (
+                  <DropdownMenuItem
+                    key={template.id}
+                    onClick={() => setTemplateId(template.id)}
+                    className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer ${
+                      selectedTemplate?.id === template.id ? 'bg-accent' : 'hover:bg-accent/50'
+                    }`}
+                  >
+                    <LayoutTemplate className="w-5 h-5 text-primary flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-foreground truncate">{template.name}</div>
+                      {template.description && (
+                        <div className="text-xs text-muted-foreground truncate">{template.description}</div>
+                      )}
+                    </div>
+                    {selectedTemplate?.id === template.id && <Check className="w-4 h-4 text-primary flex-shrink-0" />}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 flex-shrink-0"
+                      aria-label={`Edit ${template.name}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingTemplate(template);
+                      }}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem
+                  onClick={() => setEditingTemplate(null)}
+                  className="flex items-center gap-3 p-3 rounded-lg cursor-pointer hover:bg-accent/50"
+                >
+                  <Plus className="w-5 h-5 text-primary flex-shrink-0" />
+                  <div className="font-medium text-foreground">New template...</div>
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
 
+        <TemplateDialog
+          open={editingTemplate !== undefined}
+          onOpenChange={(open) => !open && setEditingTemplate(undefined)}
+          template={editingTemplate ?? null}
+          onSave={async (draft) => {
+            const saved = editingTemplate
+              ? await updateTemplate(editingTemplate.id, draft)
+              : await createTemplate(draft);
+            if (saved) setTemplateId(saved.id);
+            return !!saved;
+          }}
+          onDelete={editingTemplate ? () => removeTemplate(editingTemplate.id) : undefined}
+        />
+
+        {/* Caption and output languages */}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex flex-1 gap-2">
+            <Select value={captionLanguage} onValueChange={setCaptionLanguage} disabled={isLoading || !captionTracks?.length}>
+              <SelectTrigger className="h-10 rounded-xl bg-card border-border text-sm" aria-label="Caption language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_LANGUAGE}>Captions: auto (English first)</SelectItem>
+                {captionTracks?.map((track) => (
+                  <SelectItem key={`${track.lang}-${track.kind ?? "manual"}`} value={track.lang}>
+                    {track.name || languageLabel(track.lang)}
+                    {track.kind === "asr" ? " · auto-generated" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleLoadTracks}
+              disabled={isLoading || isLoadingTracks || !isValid || isCollectionUrl(url)}
+              className="h-10 rounded-xl flex-shrink-0"
+            >
+              {isLoadingTracks ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+              <span className="ml-2 hidden sm:inline">Check captions</span>
+            </Button>
+          </div>
+          <Select value={outputLanguage} onValueChange={setOutputLanguage} disabled={isLoading}>
+            <SelectTrigger className="h-10 rounded-xl bg-card border-border text-sm sm:w-56" aria-label="Notes language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_LANGUAGE}>Notes: same as captions</SelectItem>
+              {OUTPUT_LANGUAGES.map((language) => (
+                <SelectItem key={language} value={language}>
+                  Notes in {language}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Transcript Override (collapsible) */}
         <Collapsible open={showTranscript} onOpenChange={setShowTranscript}>
           <CollapsibleTrigger asChild>
@@ -214,19 +446,71 @@ export function YouTubeInput({ onGenerate, isLoading }: YouTubeInputProps) {
               animate={{ opacity: 1, y: 0 }}
               className="pt-2"
             >
-              <Textarea
-                placeholder="If YouTube captions aren't available, paste the video transcript here..."
-                value={transcriptOverride}
-                onChange={(e) => setTranscriptOverride(e.target.value)}
-                className="min-h-[120px] text-sm bg-card border-border resize-y"
-                disabled={isLoading}
+              <div
+                onDragOver={handleSubtitleDragOver}
+                onDragLeave={() => setIsDraggingSubtitle(false)}
+                onDrop={handleSubtitleDrop}
+                className={`relative rounded-md transition-shadow ${isDraggingSubtitle ? "ring-2 ring-primary" : ""}`}
+              >
+                <Textarea
+                  placeholder="If YouTube captions aren't available, paste the video transcript here or drop an .srt/.vtt file..."
+                  value={transcriptOverride}
+                  onChange={(e) => setTranscriptOverride(e.target.value)}
+                  className="min-h-[120px] text-sm bg-card border-border resize-y"
+                  disabled={isLoading}
+                />
+                {isDraggingSubtitle && (
+                  <div className="pointer-events-none absolute inset-0 flex items-center justify-center gap-2 rounded-md bg-primary/10 text-sm font-medium text-primary">
+                    <FileUp className="w-4 h-4" />
+                    Drop subtitle file
+                  </div>
+                )}
+              </div>
+              <input
+                ref={subtitleInputRef}
+                type="file"
+                accept={SUBTITLE_EXTENSIONS.join(",")}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) loadSubtitleFile(file);
+                }}
               />
               <p className="text-xs text-muted-foreground mt-2">
                 Use this if the video doesn't have captions or if you want to use a custom transcript.
+                SRT, WebVTT, SBV and YouTube&apos;s &quot;Show transcript&quot; text keep their timestamps.{" "}
+                <button
+                  type="button"
+                  onClick={() => subtitleInputRef.current?.click()}
+                  className="text-primary hover:underline"
+                  disabled={isLoading}
+                >
+                  Choose a subtitle file
+                </button>
               </p>
             </motion.div>
           </CollapsibleContent>
         </Collapsible>
+
+        {/* Audio/video upload for videos without captions */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*,video/*"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="ghost"
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full justify-start gap-2 text-muted-foreground hover:text-foreground text-sm h-9"
+          disabled={isLoading}
+        >
+          <Upload className="w-4 h-4" />
+          Upload audio or video instead (up to 25 MB)
+        </Button>
       </form>
       
       <p className="text-center text-xs sm:text-sm text-muted-foreground mt-4">
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Annotation, NewAnnotation } from "@/types/annotation";
+import { toast } from "sonner";
+
+const ANNOTATION_COLUMNS =
+  "id, note_id, section_index, kind, start_offset, end_offset, quote, color, comment, section_title, created_at, updated_at";
+
+const NO_ANNOTATIONS: Annotation[] = [];
+
+/** The signed-in user's private highlights, comments and stars on one of their notes */
+export function useAnnotations(noteId: string | undefined, enabled: boolean) {
+  const { user } = useAuth();
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const active = enabled && !!noteId && !!user;
+  const needsFetch = active && loadedFor !== noteId;
+
+  useEffect(() => {
+    if (!needsFetch || !noteId) return;
+
+    let cancelled = false;
+    supabase
+      .from("annotations")
+      .select(ANNOTATION_COLUMNS)
+      .eq("note_id", noteId)
+      .order("created_at", { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading annotations:", error);
+          toast.error("Failed to load your annotations");
+        }
+        setAnnotations((data ?? []) as Annotation[]);
+        setLoadedFor(noteId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFetch, noteId]);
+
+  /** `sectionTitle` is stored so the annotation can find its section again after edits */
+  const add = useCallback(
+    async (annotation: NewAnnotation, sectionTitle: string): Promise<Annotation | null> => {
+      if (!noteId || !user) return null;
+
+      const { data, error } = await supabase
+        .from("annotations")
+        .insert({ ...annotation, note_id: noteId, user_id: user.id, section_title: sectionTitle })
+        .select(ANNOTATION_COLUMNS)
+        .single();
+
+      // The section is already starred (a second click or another tab got there first)
+      if (error?.code === "23505" && annotation.kind === "star") return null;
+      if (error || !data) {
+        console.error("Error saving annotation:", error);
+        toast.error("Failed to save the annotation");
+        return null;
+      }
+
+      setAnnotations((prev) => [...prev, data as Annotation]);
+      return data as Annotation;
+    },
+    [noteId, user],
+  );
+
+  const remove = useCallback(async (id: string): Promise<boolean> => {
+    const { error } = await supabase.from("annotations").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting annotation:", error);
+      toast.error("Failed to delete the annotation");
+      return false;
+    }
+
+    setAnnotations((prev) => prev.filter((a) => a.id !== id));
+    return true;
+  }, []);
+
+  /** A section comment whose text is cleared is deleted; a highlight just loses its comment */
+  const updateComment = useCallback(
+    async (id: string, comment: string): Promise<boolean> => {
+      const text = comment.trim() || null;
+      if (!text && annotations.find((a) => a.id === id)?.kind === "comment") return remove(id);
+
+      const { error } = await supabase.from("annotations").update({ comment: text }).eq("id", id);
+
+      if (error) {
+        console.error("Error updating annotation:", error);
+        toast.error("Failed to update the comment");
+        return false;
+      }
+
+      setAnnotations((prev) => prev.map((a) => (a.id === id ? { ...a, comment: text } : a)));
+      return true;
+    },
+    [annotations, remove],
+  );
+
+  return {
+    annotations: active && loadedFor === noteId ? annotations : NO_ANNOTATIONS,
+    /** False when signed out or the note is not saved */
+    canAnnotate: active,
+    isLoading: needsFetch,
+    add,
+    updateComment,
+    remove,
+  };
+}
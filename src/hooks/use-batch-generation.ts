@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Note, NoteFromDB, dbNoteToNote } from "@/types/note";
+import { GenerateNotesRequest, GenerationJob, NoteGroup } from "@/types/generation";
+
+const STORAGE_KEY = "summariq:active-note-group";
+const POLL_INTERVAL_MS = 4000;
+// A group whose jobs have not moved for this long is handed to a fresh worker
+const RESUME_AFTER_MS = 60 * 1000;
+
+interface UseBatchGenerationOptions {
+  onFinished: (overview: Note | null, group: NoteGroup) => void;
+  onFailed: (error: string, errorCode?: string) => void;
+}
+
+/**
+ * Runs a playlist or channel as a server-side batch: one background job per video, then a course note.
+ * Like useGenerationJob, the group id survives reloads; a group that stops moving is resumed.
+ */
+export function useBatchGeneration({ onFinished, onFailed }: UseBatchGenerationOptions) {
+  const [groupId, setGroupId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+  const [group, setGroup] = useState<NoteGroup | null>(null);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+
+  const callbacks = useRef({ onFinished, onFailed });
+  callbacks.current = { onFinished, onFailed };
+
+  const clear = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setGroupId(null);
+    setGroup(null);
+    setJobs([]);
+  }, []);
+
+  const submit = useCallback(async (request: GenerateNotesRequest) => {
+    setJobs([]);
+    const { data, error } = await supabase.functions.invoke("generate-notes", {
+      body: { ...request, mode: "batch" },
+    });
+
+    if (error || !data?.success) {
+      callbacks.current.onFailed(error?.message || data?.error || "Failed to start playlist", data?.errorCode);
+      return;
+    }
+
+    localStorage.setItem(STORAGE_KEY, data.groupId);
+    setGroupId(data.groupId);
+  }, []);
+
+  useEffect(() => {
+    if (!groupId) return;
+
+    let finished = false;
+    let lastActivity = Date.now();
+    let lastSignature = "";
+
+    const loadOverview = async (next: NoteGroup) => {
+      if (!next.overview_note_id) return null;
+      const { data } = await supabase.from("notes").select("*").eq("id", next.overview_note_id).maybeSingle();
+      if (!data) return null;
+
+      const dbNote = data as unknown as NoteFromDB;
+      return dbNoteToNote({
+        ...dbNote,
+        key_points: Array.isArray(dbNote.key_points) ? dbNote.key_points : [],
+        sections: Array.isArray(dbNote.sections) ? dbNote.sections : [],
+      });
+    };
+
+    const poll = async () => {
+      if (finished) return;
+
+      const [{ data: groupRow, error }, { data: jobRows }] = await Promise.all([
+        supabase.from("note_groups").select("*").eq("id", groupId).maybeSingle(),
+        supabase
+          .from("generation_jobs")
+          .select("*")
+          .eq("group_id", groupId)
+          .order("group_position", { ascending: true }),
+      ]);
+
+      // A stored id that is gone or belongs to another account is dropped silently
+      if (error || !groupRow) {
+        clear();
+        return;
+      }
+      if (finished) return;
+
+      const next = groupRow as unknown as NoteGroup;
+      const nextJobs = (jobRows ?? []) as GenerationJob[];
+      setGroup(next);
+      setJobs(nextJobs);
+
+      if (next.status !== "running" && next.status !== "finishing") {
+        finished = true;
+        callbacks.current.onFinished(await loadOverview(next), next);
+        clear();
+        return;
+      }
+
+      const signature = nextJobs.map((j) => `${j.status}:${j.progress}`).join(",");
+      if (signature !== lastSignature) {
+        lastSignature = signature;
+        lastActivity = Date.now();
+      } else if (Date.now() - lastActivity > RESUME_AFTER_MS) {
+        lastActivity = Date.now();
+        await supabase.functions.invoke("generate-notes", { body: { mode: "batch_resume", groupId } });
+      }
+    };
+
+    const channel = supabase
+      .channel(`note-group-${groupId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "generation_jobs", filter: `group_id=eq.${groupId}` },
+        () => poll(),
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "note_groups", filter: `id=eq.${groupId}` },
+        () => poll(),
+      )
+      .subscribe();
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      finished = true;
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, clear]);
+
+  return { group, jobs, isActive: groupId !== null, submit };
+}
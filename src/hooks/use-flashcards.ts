@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Flashcard, FlashcardsResponse, ReviewCard } from "@/types/flashcard";
+import { ReviewGrade, scheduleReview } from "@/lib/srs";
+import { toast } from "sonner";
+
+const FLASHCARD_COLUMNS =
+  "id, note_id, front, back, source_kind, source_index, timestamp, ease_factor, interval_days, repetitions, due_at, last_reviewed_at, created_at";
+// One session's worth; the rest are picked up by the next visit
+const REVIEW_LIMIT = 100;
+
+function toFlashcard<T extends { source_kind: string; ease_factor: number | string }>(row: T) {
+  return {
+    ...row,
+    source_kind: row.source_kind === "section" ? "section" : "key_point",
+    ease_factor: Number(row.ease_factor),
+  } as T & Pick<Flashcard, "source_kind" | "ease_factor">;
+}
+
+/** The cards made from one saved note, and the generate-flashcards call that (re)creates them. */
+export function useNoteFlashcards(noteId: string | undefined, enabled: boolean) {
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const needsFetch = enabled && !!noteId && loadedFor !== noteId;
+
+  useEffect(() => {
+    if (!needsFetch || !noteId) return;
+
+    let cancelled = false;
+    supabase
+      .from("flashcards")
+      .select(FLASHCARD_COLUMNS)
+      .eq("note_id", noteId)
+      .order("created_at", { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading flashcards:", error);
+          toast.error("Failed to load flashcards");
+        }
+        setCards((data ?? []).map(toFlashcard));
+        setLoadedFor(noteId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFetch, noteId]);
+
+  const generate = useCallback(async () => {
+    if (!noteId) return;
+    setIsGenerating(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke("generate-flashcards", {
+        body: { noteId },
+      });
+
+      if (error || !data?.success) {
+        toast.error(error?.message || data?.error || "Failed to create flashcards. Please try again.");
+        return;
+      }
+
+      const result = data as Extract<FlashcardsResponse, { success: true }>;
+      setCards(result.cards.map(toFlashcard));
+      toast.success(
+        result.created
+          ? `${result.created} flashcard${result.created === 1 ? "" : "s"} ready to review`
+          : "Your reviewed cards already cover this note",
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [noteId]);
+
+  return {
+    cards: loadedFor === noteId ? cards : [],
+    isLoading: needsFetch,
+    isGenerating,
+    generate,
+  };
+}
+
+/** Cards due now across every note, oldest due first, for the review page. */
+export function useDueFlashcards(userId: string | undefined) {
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!userId) {
+      setCards([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("flashcards")
+      .select(`${FLASHCARD_COLUMNS}, notes(video_title, video_url)`)
+      .lte("due_at", new Date().toISOString())
+      .order("due_at", { ascending: true })
+      .limit(REVIEW_LIMIT);
+
+    if (error) {
+      console.error("Error loading due flashcards:", error);
+      toast.error("Failed to load flashcards");
+    }
+    setCards(
+      (data ?? []).map(({ notes, ...row }) => ({
+        ...toFlashcard(row),
+        noteTitle: notes?.video_title ?? "",
+        videoUrl: notes?.video_url ?? "",
+      })),
+    );
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /**
+   * Saves the new schedule and takes the card off the queue. Cards failed with "again" go to the back
+   * so they come up once more before the session ends.
+   */
+  const review = useCallback(async (card: ReviewCard, grade: ReviewGrade) => {
+    const update = scheduleReview(card, grade);
+    setCards((prev) => {
+      const rest = prev.filter((c) => c.id !== card.id);
+      return grade === "again" ? [...rest, { ...card, ...update }] : rest;
+    });
+
+    const { error } = await supabase.rpc("review_flashcard", {
+      card_id: card.id,
+      new_ease_factor: update.ease_factor,
+      new_interval_days: update.interval_days,
+      new_repetitions: update.repetitions,
+      new_due_at: update.due_at,
+    });
+    if (error) {
+      console.error("Error saving review:", error);
+      toast.error("Failed to save your answer");
+    }
+  }, []);
+
+  return { cards, isLoading, review, reload: load };
+}
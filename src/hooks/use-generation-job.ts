@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Note, NoteFromDB, dbNoteToNote } from "@/types/note";
+import { GenerateNotesRequest, GenerationJob, GenerationProgress } from "@/types/generation";
+
+const STORAGE_KEY = "summariq:active-generation-job";
+const POLL_INTERVAL_MS = 4000;
+// Same window generate-notes uses to fail jobs whose worker was shut down
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+interface UseGenerationJobOptions {
+  onSucceeded: (note: Note) => void;
+  onFailed: (error: string, errorCode?: string) => void;
+}
+
+function isTerminal(job: GenerationJob) {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+// Workers write progress as they go, so a job that stopped changing has lost its worker
+function isStalled(job: GenerationJob) {
+  return !isTerminal(job) && Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS;
+}
+
+/**
+ * Runs generate-notes as a background job. The active job id is kept in localStorage so a reload
+ * resumes watching it; updates arrive over realtime with polling as a fallback.
+ */
+export function useGenerationJob({ onSucceeded, onFailed }: UseGenerationJobOptions) {
+  const [jobId, setJobId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+  const [job, setJob] = useState<GenerationJob | null>(null);
+  const [events, setEvents] = useState<GenerationProgress[]>([]);
+
+  const callbacks = useRef({ onSucceeded, onFailed });
+  callbacks.current = { onSucceeded, onFailed };
+
+  const clear = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setJobId(null);
+    setJob(null);
+  }, []);
+
+  const submit = useCallback(async (request: GenerateNotesRequest) => {
+    setEvents([]);
+    const { data, error } = await supabase.functions.invoke("generate-notes", {
+      body: { ...request, mode: "job" },
+    });
+
+    if (error || !data?.success) {
+      callbacks.current.onFailed(error?.message || data?.error || "Failed to start generation", data?.errorCode);
+      return;
+    }
+
+    localStorage.setItem(STORAGE_KEY, data.jobId);
+    setJobId(data.jobId);
+  }, []);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    let finished = false;
+
+    const handleUpdate = async (next: GenerationJob) => {
+      if (finished) return;
+      setJob(next);
+
+      if (next.message) {
+        setEvents((prev) => {
+          if (prev[prev.length - 1]?.message === next.message) return prev;
+          return [
+            ...prev,
+            {
+              stage: next.stage ?? "start",
+              message: next.message,
+              progress: next.progress,
+              elapsedMs: Date.now() - new Date(next.created_at).getTime(),
+            },
+          ];
+        });
+      }
+
+      if (isStalled(next)) {
+        finished = true;
+        callbacks.current.onFailed("Generation was interrupted. Please try again.", "JOB_STALLED");
+        clear();
+        return;
+      }
+
+      if (!isTerminal(next)) return;
+      finished = true;
+
+      if (next.status === "failed") {
+        callbacks.current.onFailed(next.error || "Failed to generate notes", next.error_code ?? undefined);
+        clear();
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("notes")
+        .select("*")
+        .eq("id", next.result_note_id)
+        .maybeSingle();
+
+      if (error || !data) {
+        callbacks.current.onFailed("Notes were generated but could not be loaded. Check your history.");
+      } else {
+        const dbNote = data as unknown as NoteFromDB;
+        callbacks.current.onSucceeded(
+          dbNoteToNote({
+            ...dbNote,
+            key_points: Array.isArray(dbNote.key_points) ? dbNote.key_points : [],
+            sections: Array.isArray(dbNote.sections) ? dbNote.sections : [],
+          }),
+        );
+      }
+      clear();
+    };
+
+    const poll = async () => {
+      const { data, error } = await supabase
+        .from("generation_jobs")
+        .select("*")
+        .eq("id", jobId)
+        .maybeSingle();
+
+      // A stored id that is gone or belongs to another account is dropped silently
+      if (error || !data) {
+        clear();
+        return;
+      }
+      await handleUpdate(data as GenerationJob);
+    };
+
+    const channel = supabase
+      .channel(`generation-job-${jobId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "generation_jobs", filter: `id=eq.${jobId}` },
+        (payload) => handleUpdate(payload.new as GenerationJob),
+      )
+      .subscribe();
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      finished = true;
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, clear]);
+
+  // Stops watching without stopping the job; if it still finishes, the notes land in the history
+  const dismiss = clear;
+
+  return { job, events, isActive: jobId !== null, submit, dismiss };
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { ChatMessage, ChatResponse } from "@/types/chat";
+import { toast } from "sonner";
+
+/**
+ * The stored conversation for a saved note. Questions show up right away and are replaced by the
+ * saved pair once chat-with-video answers.
+ */
+export function useNoteChat(noteId: string | undefined, enabled: boolean) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+
+  const needsFetch = enabled && !!noteId && loadedFor !== noteId;
+
+  useEffect(() => {
+    if (!needsFetch || !noteId) return;
+
+    let cancelled = false;
+    supabase
+      .from("note_chat_messages")
+      .select("id, note_id, role, content, citations, created_at")
+      .eq("note_id", noteId)
+      .order("created_at", { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading conversation:", error);
+          toast.error("Failed to load the conversation");
+        }
+        setMessages(
+          (data ?? []).map((m) => ({
+            ...m,
+            role: m.role === "user" ? "user" : "assistant",
+            citations: Array.isArray(m.citations) ? m.citations.map(String) : [],
+          })),
+        );
+        setLoadedFor(noteId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFetch, noteId]);
+
+  const ask = useCallback(
+    async (question: string) => {
+      if (!noteId) return false;
+      setPendingQuestion(question);
+
+      try {
+        const { data, error } = await supabase.functions.invoke("chat-with-video", {
+          body: { noteId, question },
+        });
+
+        if (error || !data?.success) {
+          toast.error(error?.message || data?.error || "Failed to answer. Please try again.");
+          return false;
+        }
+
+        const saved = data as Extract<ChatResponse, { success: true }>;
+        setMessages((prev) => [...prev, saved.question, saved.answer]);
+        return true;
+      } finally {
+        setPendingQuestion(null);
+      }
+    },
+    [noteId],
+  );
+
+  return {
+    messages: loadedFor === noteId ? messages : [],
+    isLoading: needsFetch,
+    pendingQuestion,
+    ask,
+  };
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Note } from "@/types/note";
+import { NoteSaveOptions } from "@/types/revision";
+import { NoteDraft, draftToNote, noteToDraft } from "@/lib/noteDraft";
+
+export type AutosaveStatus = "saved" | "unsaved" | "saving" | "error";
+
+const AUTOSAVE_DELAY_MS = 1500;
+// Keystrokes in the same field this close together are one undo step
+const COALESCE_MS = 1000;
+const MAX_HISTORY = 200;
+
+interface History {
+  past: NoteDraft[];
+  present: NoteDraft;
+  future: NoteDraft[];
+  lastKey?: string;
+  lastAt: number;
+}
+
+/**
+ * Working copy, undo/redo and autosave for the notes editor. `save` resolves to whether the change
+ * was stored; edits made while a save is in flight are picked up by the next one.
+ */
+export function useNoteEditor(note: Note, save: (note: Note, options: NoteSaveOptions) => Promise<boolean>) {
+  const [history, setHistory] = useState<History>(() => ({
+    past: [],
+    present: noteToDraft(note),
+    future: [],
+    lastAt: 0,
+  }));
+  const [status, setStatus] = useState<AutosaveStatus>("saved");
+  // Saves while the editor stays open share one revision in the note's history
+  const [editSession] = useState(() => crypto.randomUUID());
+  const draft = history.present;
+
+  // The note as it was opened: fields the editor does not touch (id, transcript, ...) come from it
+  const baseRef = useRef(note);
+  const savedRef = useRef(draft);
+  const latestRef = useRef(draft);
+  const savingRef = useRef<Promise<boolean> | null>(null);
+  const saveRef = useRef(save);
+  saveRef.current = save;
+  latestRef.current = draft;
+
+  /**
+   * `key` names the field being typed in, so a burst of typing undoes as one step. Structural
+   * changes (add, remove, move, split) pass none and always get their own step.
+   */
+  const update = useCallback((recipe: (draft: NoteDraft) => NoteDraft, key?: string) => {
+    setHistory((prev) => {
+      const next = recipe(prev.present);
+      if (next === prev.present) return prev;
+      const now = Date.now();
+      const coalesce = !!key && key === prev.lastKey && now - prev.lastAt < COALESCE_MS;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKey: key,
+        lastAt: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) =>
+      prev.past.length
+        ? {
+            past: prev.past.slice(0, -1),
+            present: prev.past[prev.past.length - 1],
+            future: [prev.present, ...prev.future],
+            lastAt: 0,
+          }
+        : prev,
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) =>
+      prev.future.length
+        ? {
+            past: [...prev.past, prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1),
+            lastAt: 0,
+          }
+        : prev,
+    );
+  }, []);
+
+  const runSave = useCallback(async (): Promise<boolean> => {
+    // One save at a time; a save requested meanwhile runs after it with whatever is newest then
+    while (savingRef.current) await savingRef.current;
+    const target = latestRef.current;
+    if (target === savedRef.current) return true;
+
+    setStatus("saving");
+    const pending = saveRef.current(draftToNote(baseRef.current, target), { source: "edit", editSession });
+    savingRef.current = pending;
+    const ok = await pending.catch(() => false);
+    savingRef.current = null;
+
+    if (ok) savedRef.current = target;
+    setStatus(ok ? (latestRef.current === target ? "saved" : "unsaved") : "error");
+    return ok;
+  }, [editSession]);
+
+  useEffect(() => {
+    if (draft === savedRef.current) return;
+    setStatus((prev) => (prev === "saving" ? prev : "unsaved"));
+    const timer = setTimeout(runSave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, runSave]);
+
+  // Closing the editor or switching notes must not drop the last few keystrokes
+  useEffect(
+    () => () => {
+      if (latestRef.current !== savedRef.current) void runSave();
+    },
+    [runSave],
+  );
+
+  const isDirty = status !== "saved";
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [isDirty]);
+
+  return {
+    draft,
+    update,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    status,
+    isDirty,
+    /** Saves now instead of waiting for the autosave delay */
+    flush: runSave,
+  };
+}
+
+export type NoteEditorState = ReturnType<typeof useNoteEditor>;
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Note, NoteFromDB, dbNoteToNote } from "@/types/note";
+import { LibraryFilters, NoteFolder, NoteTag } from "@/types/library";
+import { toast } from "sonner";
+
+export const LIBRARY_PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type SearchRow = Database["public"]["Functions"]["search_notes"]["Returns"][number];
+
+function rowToNote(row: SearchRow): Note {
+  const dbNote = row as unknown as NoteFromDB;
+  const note = dbNoteToNote({
+    ...dbNote,
+    key_points: Array.isArray(dbNote.key_points) ? dbNote.key_points : [],
+    sections: Array.isArray(dbNote.sections) ? dbNote.sections : [],
+  });
+  return { ...note, tagIds: row.note_tag_ids ?? [] };
+}
+
+// Date inputs give local calendar days; the upper bound is exclusive so the whole "to" day is included
+function dayStart(day: string, offsetDays = 0): string | undefined {
+  if (!day) return undefined;
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString();
+}
+
+/**
+ * The signed-in user's notes, searched and filtered in Postgres (`search_notes`) and loaded a page at a
+ * time, plus their folders and tags.
+ */
+export function useNoteLibrary(userId: string | undefined, enabled: boolean, filters: LibraryFilters) {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [total, setTotal] = useState(0);
+  const [folders, setFolders] = useState<NoteFolder[]>([]);
+  const [tags, setTags] = useState<NoteTag[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [query, setQuery] = useState(filters.query);
+  // Responses to superseded searches are dropped
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(filters.query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.query]);
+
+  const { folderId, tagIds, videoTypes, from, to } = filters;
+
+  const fetchPage = useCallback(
+    (offset: number) =>
+      supabase.rpc("search_notes", {
+        search_query: query.trim() || undefined,
+        folder: folderId ?? undefined,
+        tag_ids: tagIds.length ? tagIds : undefined,
+        video_types: videoTypes.length ? videoTypes : undefined,
+        created_from: dayStart(from),
+        created_to: dayStart(to, 1),
+        page_size: LIBRARY_PAGE_SIZE,
+        page_offset: offset,
+      }),
+    [query, folderId, tagIds, videoTypes, from, to],
+  );
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    fetchPage(0).then(({ data, error }) => {
+      if (request !== requestRef.current) return;
+      if (error) {
+        console.error("Error fetching notes:", error);
+        toast.error("Failed to load notes history");
+      }
+      const rows = data ?? [];
+      setNotes(rows.map(rowToNote));
+      setTotal(rows[0]?.total_count ?? 0);
+      setIsLoading(false);
+    });
+  }, [enabled, userId, fetchPage]);
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    Promise.all([
+      supabase.from("note_folders").select("id, name").order("name"),
+      supabase.from("note_tags").select("id, name").order("name"),
+    ]).then(([folderResult, tagResult]) => {
+      setFolders(folderResult.data ?? []);
+      setTags(tagResult.data ?? []);
+    });
+  }, [enabled, userId]);
+
+  const loadMore = useCallback(async () => {
+    const request = requestRef.current;
+    setIsLoadingMore(true);
+    const { data, error } = await fetchPage(notes.length);
+    setIsLoadingMore(false);
+    if (request !== requestRef.current) return;
+    if (error) {
+      console.error("Error fetching notes:", error);
+      toast.error("Failed to load more notes");
+      return;
+    }
+    const rows = data ?? [];
+    setNotes((prev) => [...prev, ...rows.map(rowToNote).filter((n) => !prev.some((p) => p.id === n.id))]);
+    if (rows.length) setTotal(rows[0].total_count);
+  }, [fetchPage, notes.length]);
+
+  const updateNote = (noteId: string, update: (note: Note) => Note) =>
+    setNotes((prev) => prev.map((n) => (n.id === noteId ? update(n) : n)));
+
+  const deleteNote = async (noteId: string) => {
+    setDeletingId(noteId);
+    const { error } = await supabase.from("notes").delete().eq("id", noteId);
+    setDeletingId(null);
+    if (error) {
+      console.error("Error deleting note:", error);
+      toast.error("Failed to delete note");
+      return;
+    }
+    setNotes((prev) => prev.filter((n) => n.id !== noteId));
+    setTotal((t) => Math.max(0, t - 1));
+    toast.success("Note deleted");
+  };
+
+  const moveToFolder = async (noteId: string, targetFolderId: string | null) => {
+    const { error } = await supabase.from("notes").update({ folder_id: targetFolderId }).eq("id", noteId);
+    if (error) {
+      console.error("Error moving note:", error);
+      toast.error("Failed to move note");
+      return;
+    }
+    if (folderId && targetFolderId !== folderId) {
+      setNotes((prev) => prev.filter((n) => n.id !== noteId));
+      setTotal((t) => Math.max(0, t - 1));
+    } else {
+      updateNote(noteId, (n) => ({ ...n, folderId: targetFolderId ?? undefined }));
+    }
+  };
+
+  const toggleTag = async (note: Note, tagId: string) => {
+    if (!userId || !note.id) return;
+    const tagged = note.tagIds?.includes(tagId);
+    const { error } = tagged
+      ? await supabase.from("note_tag_links").delete().eq("note_id", note.id).eq("tag_id", tagId)
+      : await supabase.from("note_tag_links").insert({ note_id: note.id, tag_id: tagId, user_id: userId });
+    if (error) {
+      console.error("Error updating tags:", error);
+      toast.error("Failed to update tags");
+      return;
+    }
+    updateNote(note.id, (n) => ({
+      ...n,
+      tagIds: tagged ? (n.tagIds ?? []).filter((id) => id !== tagId) : [...(n.tagIds ?? []), tagId],
+    }));
+  };
+
+  const createFolder = async (name: string): Promise<NoteFolder | null> => {
+    if (!userId) return null;
+    const { data, error } = await supabase
+      .from("note_folders")
+      .insert({ name: name.trim(), user_id: userId })
+      .select("id, name")
+      .single();
+    if (error || !data) {
+      toast.error(error?.code === "23505" ? "A folder with that name already exists" : "Failed to create folder");
+      return null;
+    }
+    setFolders((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data;
+  };
+
+  const deleteFolder = async (id: string) => {
+    const { error } = await supabase.from("note_folders").delete().eq("id", id);
+    if (error) {
+      toast.error("Failed to delete folder");
+      return;
+    }
+    setFolders((prev) => prev.filter((f) => f.id !== id));
+    setNotes((prev) => prev.map((n) => (n.folderId === id ? { ...n, folderId: undefined } : n)));
+  };
+
+  const createTag = async (name: string): Promise<NoteTag | null> => {
+    if (!userId) return null;
+    const { data, error } = await supabase
+      .from("note_tags")
+      .insert({ name: name.trim(), user_id: userId })
+      .select("id, name")
+      .single();
+    if (error || !data) {
+      toast.error(error?.code === "23505" ? "That tag already exists" : "Failed to create tag");
+      return null;
+    }
+    setTags((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data;
+  };
+
+  const deleteTag = async (id: string) => {
+    const { error } = await supabase.from("note_tags").delete().eq("id", id);
+    if (error) {
+      toast.error("Failed to delete tag");
+      return;
+    }
+    setTags((prev) => prev.filter((t) => t.id !== id));
+    setNotes((prev) => prev.map((n) => ({ ...n, tagIds: n.tagIds?.filter((t) => t !== id) })));
+  };
+
+  return {
+    notes,
+    total,
+    hasMore: notes.length < total,
+    folders,
+    tags,
+    isLoading,
+    isLoadingMore,
+    deletingId,
+    loadMore,
+    deleteNote,
+    moveToFolder,
+    toggleTag,
+    createFolder,
+    deleteFolder,
+    createTag,
+    deleteTag,
+  };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { NoteRevision } from "@/types/revision";
+import { toast } from "sonner";
+
+/**
+ * The saved versions of a note, newest first. Reloaded every time the history opens, since any save
+ * elsewhere adds a revision.
+ */
+export function useNoteRevisions(noteId: string | undefined, enabled: boolean) {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!noteId) return;
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("note_revisions")
+      .select("id, note_id, source, restored_from, video_title, summary, key_points, sections, grounding, created_at")
+      .eq("note_id", noteId)
+      .order("created_at", { ascending: false });
+    setIsLoading(false);
+
+    if (error) {
+      console.error("Error loading note history:", error);
+      toast.error("Failed to load version history");
+      return;
+    }
+    setRevisions((data ?? []) as unknown as NoteRevision[]);
+  }, [noteId]);
+
+  useEffect(() => {
+    if (enabled) load();
+  }, [enabled, load]);
+
+  /** Resolves to whether the note now holds the revision's content */
+  const restore = useCallback(
+    async (revision: NoteRevision): Promise<boolean> => {
+      setRestoringId(revision.id);
+      const { error } = await supabase.rpc("restore_note_revision", { revision_id: revision.id });
+      setRestoringId(null);
+
+      if (error) {
+        console.error("Error restoring revision:", error);
+        toast.error("Failed to restore this version");
+        return false;
+      }
+      await load();
+      return true;
+    },
+    [load],
+  );
+
+  return { revisions, isLoading, restoringId, restore };
+}
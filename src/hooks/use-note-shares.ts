@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { NoteShare } from "@/types/share";
+import { toast } from "sonner";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The live share links of a note the user owns. Revoked links are kept server-side but not listed. */
+export function useNoteShares(noteId: string | undefined, enabled: boolean) {
+  const { user } = useAuth();
+  const [shares, setShares] = useState<NoteShare[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const needsFetch = enabled && !!noteId && loadedFor !== noteId;
+
+  useEffect(() => {
+    if (!needsFetch || !noteId) return;
+
+    let cancelled = false;
+    supabase
+      .from("note_shares")
+      .select("id, note_id, token, expires_at, revoked_at, created_at")
+      .eq("note_id", noteId)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading share links:", error);
+          toast.error("Failed to load share links");
+        }
+        setShares(data ?? []);
+        setLoadedFor(noteId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFetch, noteId]);
+
+  const create = useCallback(
+    async (expiresInDays: number | null): Promise<NoteShare | null> => {
+      if (!noteId || !user) return null;
+      setIsCreating(true);
+
+      try {
+        const { data, error } = await supabase
+          .from("note_shares")
+          .insert({
+            note_id: noteId,
+            user_id: user.id,
+            expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS).toISOString() : null,
+          })
+          .select("id, note_id, token, expires_at, revoked_at, created_at")
+          .single();
+
+        if (error || !data) {
+          console.error("Error creating share link:", error);
+          toast.error("Failed to create a share link");
+          return null;
+        }
+
+        setShares((prev) => [data, ...prev]);
+        return data;
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [noteId, user],
+  );
+
+  const revoke = useCallback(async (shareId: string) => {
+    const { error } = await supabase
+      .from("note_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", shareId);
+
+    if (error) {
+      console.error("Error revoking share link:", error);
+      toast.error("Failed to turn off the link");
+      return;
+    }
+
+    setShares((prev) => prev.filter((s) => s.id !== shareId));
+    toast.success("Link turned off");
+  }, []);
+
+  return { shares, isLoading: needsFetch, isCreating, create, revoke };
+}
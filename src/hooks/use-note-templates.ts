@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { NoteTemplate, NoteTemplateDraft } from "@/types/template";
+import { toast } from "sonner";
+
+const TEMPLATE_COLUMNS =
+  "id, name, description, system_prompt, required_sections, target_length, tone, created_at, updated_at";
+
+const NO_TEMPLATES: NoteTemplate[] = [];
+
+// The unique (user_id, name) constraint
+const isDuplicateName = (error: { code?: string } | null) => error?.code === "23505";
+
+const clean = (draft: NoteTemplateDraft): NoteTemplateDraft => ({
+  ...draft,
+  name: draft.name.trim(),
+  description: draft.description.trim(),
+  system_prompt: draft.system_prompt.trim(),
+});
+
+const sortByName = (list: NoteTemplate[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+/** The signed-in user's note templates, by name */
+export function useNoteTemplates() {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const userId = user?.id;
+  const needsFetch = !!userId && loadedFor !== userId;
+
+  useEffect(() => {
+    if (!needsFetch || !userId) return;
+
+    let cancelled = false;
+    supabase
+      .from("note_templates")
+      .select(TEMPLATE_COLUMNS)
+      .order("name", { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading templates:", error);
+          toast.error("Failed to load your templates");
+        }
+        setTemplates((data ?? []) as NoteTemplate[]);
+        setLoadedFor(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFetch, userId]);
+
+  const create = useCallback(
+    async (draft: NoteTemplateDraft): Promise<NoteTemplate | null> => {
+      if (!userId) return null;
+
+      const { data, error } = await supabase
+        .from("note_templates")
+        .insert({ ...clean(draft), user_id: userId })
+        .select(TEMPLATE_COLUMNS)
+        .single();
+
+      if (error || !data) {
+        console.error("Error creating template:", error);
+        toast.error(isDuplicateName(error) ? "You already have a template with that name" : "Failed to save the template");
+        return null;
+      }
+
+      setTemplates((prev) => sortByName([...prev, data as NoteTemplate]));
+      return data as NoteTemplate;
+    },
+    [userId],
+  );
+
+  const update = useCallback(async (id: string, draft: NoteTemplateDraft): Promise<NoteTemplate | null> => {
+    const { data, error } = await supabase
+      .from("note_templates")
+      .update(clean(draft))
+      .eq("id", id)
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("Error updating template:", error);
+      toast.error(isDuplicateName(error) ? "You already have a template with that name" : "Failed to save the template");
+      return null;
+    }
+
+    setTemplates((prev) => sortByName(prev.map((t) => (t.id === id ? (data as NoteTemplate) : t))));
+    return data as NoteTemplate;
+  }, []);
+
+  const remove = useCallback(async (id: string): Promise<boolean> => {
+    const { error } = await supabase.from("note_templates").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting template:", error);
+      toast.error("Failed to delete the template");
+      return false;
+    }
+
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+    return true;
+  }, []);
+
+  return {
+    templates: userId && loadedFor === userId ? templates : NO_TEMPLATES,
+    /** False when signed out */
+    canUseTemplates: !!userId,
+    create,
+    update,
+    remove,
+  };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Note, NoteTranscript, TranscriptSegment } from "@/types/note";
+
+/**
+ * The transcript behind a note: carried on unsaved notes, loaded from note_transcripts for saved ones.
+ * Nothing is fetched until `enabled`, so notes that never open the transcript tab cost no extra query.
+ */
+export function useNoteTranscript(note: Note, enabled: boolean) {
+  const [loaded, setLoaded] = useState<{ noteId: string; transcript: NoteTranscript | null } | null>(null);
+
+  const noteId = note.transcript ? undefined : note.id;
+  const needsFetch = enabled && !!noteId && loaded?.noteId !== noteId;
+
+  useEffect(() => {
+    if (!needsFetch || !noteId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from("note_transcripts")
+      .select("source, language, segments, text")
+      .eq("note_id", noteId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading transcript:", error);
+        setLoaded({
+          noteId,
+          transcript: data
+            ? {
+                ...data,
+                segments: Array.isArray(data.segments) ? (data.segments as unknown as TranscriptSegment[]) : [],
+              }
+            : null,
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFetch, noteId]);
+
+  const transcript = note.transcript ?? (loaded?.noteId === note.id ? loaded.transcript : null);
+  return { transcript, isLoading: needsFetch };
+}
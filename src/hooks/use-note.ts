@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Note, NoteFromDB, dbNoteToNote } from "@/types/note";
+
+/**
+ * "unauthorized" when signed out; "not-found" covers both missing notes and other users' notes, which
+ * row-level security makes indistinguishable (and that is the point).
+ */
+export type NoteLoadStatus = "idle" | "loading" | "ready" | "not-found" | "unauthorized" | "error";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Loads a saved note by id for /notes/:id. A note the caller already has is used as is. */
+export function useNote(id: string | undefined, known: Note | null) {
+  const { user, loading: authLoading } = useAuth();
+  const [note, setNote] = useState<Note | null>(null);
+  const [status, setStatus] = useState<NoteLoadStatus>("idle");
+
+  const alreadyKnown = !!id && known?.id === id;
+
+  useEffect(() => {
+    if (!id) {
+      setNote(null);
+      setStatus("idle");
+      return;
+    }
+    if (alreadyKnown) {
+      setStatus("ready");
+      return;
+    }
+    if (authLoading) {
+      setStatus("loading");
+      return;
+    }
+    if (!user) {
+      setNote(null);
+      setStatus("unauthorized");
+      return;
+    }
+    if (!UUID_RE.test(id)) {
+      setNote(null);
+      setStatus("not-found");
+      return;
+    }
+
+    let cancelled = false;
+    setStatus("loading");
+    supabase
+      .from("notes")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading note:", error);
+          setStatus("error");
+          return;
+        }
+        if (!data) {
+          setNote(null);
+          setStatus("not-found");
+          return;
+        }
+        const dbNote = data as unknown as NoteFromDB;
+        setNote(
+          dbNoteToNote({
+            ...dbNote,
+            key_points: Array.isArray(dbNote.key_points) ? dbNote.key_points : [],
+            sections: Array.isArray(dbNote.sections) ? dbNote.sections : [],
+          }),
+        );
+        setStatus("ready");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, alreadyKnown, user, authLoading]);
+
+  // The previous id's note must not flash while the next one loads
+  return { note: alreadyKnown ? known : note?.id === id ? note : null, status };
+}
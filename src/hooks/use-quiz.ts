@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Quiz, QuizAnswer, QuizAttempt, QuizAttemptResponse, QuizResponse, QuizResult } from "@/types/quiz";
+import { toast } from "sonner";
+
+/**
+ * Past attempts on a saved note plus the quiz currently being taken. Starting and submitting both go
+ * through generate-quiz, which keeps the answers server-side until the attempt is graded.
+ */
+export function useQuiz(noteId: string | undefined, enabled: boolean) {
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [results, setResults] = useState<QuizResult[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const needsFetch = enabled && !!noteId && loadedFor !== noteId;
+
+  useEffect(() => {
+    if (!needsFetch || !noteId) return;
+
+    let cancelled = false;
+    setQuiz(null);
+    setResults(null);
+    supabase
+      .from("quiz_attempts")
+      .select("id, quiz_id, note_id, score, total, created_at")
+      .eq("note_id", noteId)
+      .order("created_at", { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading quiz history:", error);
+          toast.error("Failed to load quiz history");
+        }
+        setAttempts(data ?? []);
+        setLoadedFor(noteId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFetch, noteId]);
+
+  const start = useCallback(
+    async (count?: number) => {
+      if (!noteId) return;
+      setIsGenerating(true);
+
+      try {
+        const { data, error } = await supabase.functions.invoke("generate-quiz", {
+          body: { action: "generate", noteId, count },
+        });
+
+        if (error || !data?.success) {
+          toast.error(error?.message || data?.error || "Failed to create a quiz. Please try again.");
+          return;
+        }
+
+        setQuiz((data as Extract<QuizResponse, { success: true }>).quiz);
+        setResults(null);
+      } finally {
+        setIsGenerating(false);
+      }
+    },
+    [noteId],
+  );
+
+  const submit = useCallback(
+    async (answers: QuizAnswer[]) => {
+      if (!quiz) return;
+      setIsSubmitting(true);
+
+      try {
+        const { data, error } = await supabase.functions.invoke("generate-quiz", {
+          body: { action: "submit", quizId: quiz.id, answers },
+        });
+
+        if (error || !data?.success) {
+          toast.error(error?.message || data?.error || "Failed to grade the quiz. Please try again.");
+          return;
+        }
+
+        const graded = data as Extract<QuizAttemptResponse, { success: true }>;
+        setResults(graded.results);
+        setAttempts((prev) => [...prev, graded.attempt]);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [quiz],
+  );
+
+  const reset = useCallback(() => {
+    setQuiz(null);
+    setResults(null);
+  }, []);
+
+  return {
+    attempts: loadedFor === noteId ? attempts : [],
+    isLoading: needsFetch,
+    quiz,
+    results,
+    isGenerating,
+    isSubmitting,
+    start,
+    submit,
+    reset,
+  };
+}
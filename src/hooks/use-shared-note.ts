@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { DuplicateNoteResponse, SharedNoteResponse } from "@/types/share";
+import { toast } from "sonner";
+
+type SharedNoteState =
+  | { status: "loading" }
+  | { status: "error"; error: string; errorCode?: string }
+  | Extract<SharedNoteResponse, { success: true }> & { status: "ready" };
+
+/** A note opened through a share link. Works signed out; signing in enables "Duplicate to my library". */
+export function useSharedNote(token: string | undefined) {
+  const { user, loading: authLoading } = useAuth();
+  const [state, setState] = useState<SharedNoteState>({ status: "loading" });
+  const [isDuplicating, setIsDuplicating] = useState(false);
+
+  // Refetched on sign-in so the owner check reflects the new session
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!token || authLoading) return;
+
+    let cancelled = false;
+    setState({ status: "loading" });
+    supabase.functions
+      .invoke("shared-note", { body: { action: "view", token } })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error || !data?.success) {
+          setState({
+            status: "error",
+            error: error?.message || data?.error || "Failed to load this note",
+            errorCode: data?.errorCode,
+          });
+          return;
+        }
+        setState({ ...(data as Extract<SharedNoteResponse, { success: true }>), status: "ready" });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, userId, authLoading]);
+
+  /** Resolves to the id of the viewer's copy (or of the note itself, for its owner) */
+  const duplicate = useCallback(async (): Promise<string | null> => {
+    if (!token) return null;
+    setIsDuplicating(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke("shared-note", {
+        body: { action: "duplicate", token },
+      });
+
+      if (error || !data?.success) {
+        toast.error(error?.message || data?.error || "Failed to copy the note. Please try again.");
+        return null;
+      }
+
+      return (data as Extract<DuplicateNoteResponse, { success: true }>).noteId;
+    } finally {
+      setIsDuplicating(false);
+    }
+  }, [token]);
+
+  return { ...state, isDuplicating, duplicate };
+}
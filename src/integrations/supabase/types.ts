@@ -14,44 +14,666 @@ export type Database = {
   }
   public: {
     Tables: {
+      annotations: {
+        Row: {
+          color: string | null
+          comment: string | null
+          created_at: string
+          end_offset: number | null
+          id: string
+          kind: string
+          note_id: string
+          quote: string | null
+          section_index: number
+          section_title: string
+          start_offset: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string | null
+          comment?: string | null
+          created_at?: string
+          end_offset?: number | null
+          id?: string
+          kind: string
+          note_id: string
+          quote?: string | null
+          section_index: number
+          section_title?: string
+          start_offset?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string | null
+          comment?: string | null
+          created_at?: string
+          end_offset?: number | null
+          id?: string
+          kind?: string
+          note_id?: string
+          quote?: string | null
+          section_index?: number
+          section_title?: string
+          start_offset?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "annotations_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chunk_summaries_cache: {
+        Row: {
+          chunk_hash: string
+          chunk_key_points: Json
+          chunk_summary: string
+          created_at: string
+          id: string
+          level: number
+          updated_at: string
+          video_id: string
+        }
+        Insert: {
+          chunk_hash: string
+          chunk_key_points?: Json
+          chunk_summary: string
+          created_at?: string
+          id?: string
+          level?: number
+          updated_at?: string
+          video_id: string
+        }
+        Update: {
+          chunk_hash?: string
+          chunk_key_points?: Json
+          chunk_summary?: string
+          created_at?: string
+          id?: string
+          level?: number
+          updated_at?: string
+          video_id?: string
+        }
+        Relationships: []
+      }
+      flashcards: {
+        Row: {
+          back: string
+          created_at: string
+          due_at: string
+          ease_factor: number
+          front: string
+          id: string
+          interval_days: number
+          last_reviewed_at: string | null
+          note_id: string
+          repetitions: number
+          source_index: number
+          source_kind: string
+          timestamp: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          back: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          front: string
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          note_id: string
+          repetitions?: number
+          source_index?: number
+          source_kind: string
+          timestamp?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          back?: string
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          front?: string
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          note_id?: string
+          repetitions?: number
+          source_index?: number
+          source_kind?: string
+          timestamp?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcards_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_jobs: {
+        Row: {
+          created_at: string
+          error: string | null
+          error_code: string | null
+          group_id: string | null
+          group_position: number | null
+          id: string
+          message: string | null
+          progress: number
+          result_note_id: string | null
+          stage: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          video_type: string
+          video_url: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          group_id?: string | null
+          group_position?: number | null
+          id?: string
+          message?: string | null
+          progress?: number
+          result_note_id?: string | null
+          stage?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+          video_type?: string
+          video_url: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          group_id?: string | null
+          group_position?: number | null
+          id?: string
+          message?: string | null
+          progress?: number
+          result_note_id?: string | null
+          stage?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+          video_type?: string
+          video_url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "note_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_result_note_id_fkey"
+            columns: ["result_note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_chat_messages: {
+        Row: {
+          citations: Json
+          content: string
+          created_at: string
+          id: string
+          note_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          created_at?: string
+          id?: string
+          note_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          created_at?: string
+          id?: string
+          note_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_chat_messages_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      note_groups: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          options: Json
+          overview_note_id: string | null
+          source_url: string
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+          video_count: number
+          videos: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          options?: Json
+          overview_note_id?: string | null
+          source_url: string
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+          video_count?: number
+          videos?: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          options?: Json
+          overview_note_id?: string | null
+          source_url?: string
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          video_count?: number
+          videos?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_groups_overview_note_id_fkey"
+            columns: ["overview_note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_revisions: {
+        Row: {
+          created_at: string
+          edit_session: string | null
+          grounding: Json | null
+          id: string
+          key_points: Json
+          note_id: string
+          restored_from: string | null
+          sections: Json
+          source: string
+          summary: string
+          user_id: string
+          video_title: string
+        }
+        Insert: {
+          created_at?: string
+          edit_session?: string | null
+          grounding?: Json | null
+          id?: string
+          key_points?: Json
+          note_id: string
+          restored_from?: string | null
+          sections?: Json
+          source?: string
+          summary: string
+          user_id: string
+          video_title: string
+        }
+        Update: {
+          created_at?: string
+          edit_session?: string | null
+          grounding?: Json | null
+          id?: string
+          key_points?: Json
+          note_id?: string
+          restored_from?: string | null
+          sections?: Json
+          source?: string
+          summary?: string
+          user_id?: string
+          video_title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_revisions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "note_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_shares: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          note_id: string
+          revoked_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          note_id: string
+          revoked_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          note_id?: string
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_shares_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_tag_links: {
+        Row: {
+          created_at: string
+          note_id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          note_id: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          note_id?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_tag_links_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_tag_links_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "note_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      note_templates: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          name: string
+          required_sections: string[]
+          system_prompt: string
+          target_length: string
+          tone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id?: string
+          name: string
+          required_sections?: string[]
+          system_prompt?: string
+          target_length?: string
+          tone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          name?: string
+          required_sections?: string[]
+          system_prompt?: string
+          target_length?: string
+          tone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      note_transcripts: {
+        Row: {
+          created_at: string
+          id: string
+          language: string | null
+          note_id: string
+          segments: Json
+          source: string
+          text: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          language?: string | null
+          note_id: string
+          segments?: Json
+          source: string
+          text: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          language?: string | null
+          note_id?: string
+          segments?: Json
+          source?: string
+          text?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_transcripts_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: true
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notes: {
         Row: {
           created_at: string
           duration: string | null
+          folder_id: string | null
+          grounding: Json | null
+          group_id: string | null
+          group_position: number | null
           id: string
           key_points: Json
+          output_language: string | null
+          search_vector: unknown
           sections: Json
           summary: string
+          template_id: string | null
+          transcript_language: string | null
           updated_at: string
           user_id: string
           video_title: string
+          video_type: string
           video_url: string
         }
         Insert: {
           created_at?: string
           duration?: string | null
+          folder_id?: string | null
+          grounding?: Json | null
+          group_id?: string | null
+          group_position?: number | null
           id?: string
           key_points?: Json
+          output_language?: string | null
+          search_vector?: never
           sections?: Json
           summary: string
+          template_id?: string | null
+          transcript_language?: string | null
           updated_at?: string
           user_id: string
           video_title: string
+          video_type?: string
           video_url: string
         }
         Update: {
           created_at?: string
           duration?: string | null
+          folder_id?: string | null
+          grounding?: Json | null
+          group_id?: string | null
+          group_position?: number | null
           id?: string
           key_points?: Json
+          output_language?: string | null
+          search_vector?: never
           sections?: Json
           summary?: string
+          template_id?: string | null
+          transcript_language?: string | null
           updated_at?: string
           user_id?: string
           video_title?: string
+          video_type?: string
           video_url?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notes_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "note_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notes_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "note_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notes_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "note_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -77,6 +699,89 @@ export type Database = {
         }
         Relationships: []
       }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          created_at: string
+          id: string
+          note_id: string
+          quiz_id: string
+          results: Json
+          score: number
+          total: number
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string
+          id?: string
+          note_id: string
+          quiz_id: string
+          results?: Json
+          score: number
+          total: number
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          id?: string
+          note_id?: string
+          quiz_id?: string
+          results?: Json
+          score?: number
+          total?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          created_at: string
+          id: string
+          note_id: string
+          questions: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note_id: string
+          questions?: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note_id?: string
+          questions?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_transcripts_cache: {
         Row: {
           created_at: string
@@ -115,7 +820,69 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      note_search_text: {
+        Args: { key_points: Json; sections: Json }
+        Returns: string
+      }
+      restore_note_revision: {
+        Args: { revision_id: string }
+        Returns: undefined
+      }
+      review_flashcard: {
+        Args: {
+          card_id: string
+          new_due_at: string
+          new_ease_factor: number
+          new_interval_days: number
+          new_repetitions: number
+        }
+        Returns: undefined
+      }
+      save_note_content: {
+        Args: {
+          edit_session?: string
+          new_grounding: Json
+          new_key_points: Json
+          new_sections: Json
+          new_summary: string
+          new_title: string
+          revision_source?: string
+          target_note_id: string
+        }
+        Returns: undefined
+      }
+      search_notes: {
+        Args: {
+          created_from?: string
+          created_to?: string
+          folder?: string
+          page_offset?: number
+          page_size?: number
+          search_query?: string
+          tag_ids?: string[]
+          video_types?: string[]
+        }
+        Returns: {
+          created_at: string
+          duration: string
+          folder_id: string
+          grounding: Json
+          group_id: string
+          group_position: number
+          id: string
+          key_points: Json
+          note_tag_ids: string[]
+          output_language: string
+          sections: Json
+          summary: string
+          total_count: number
+          transcript_language: string
+          updated_at: string
+          video_title: string
+          video_type: string
+          video_url: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,116 @@
+import { Note } from "@/types/note";
+import { Annotation, HighlightColor } from "@/types/annotation";
+import { richTextToPlain } from "@/lib/richText";
+
+export const HIGHLIGHT_COLORS: { value: HighlightColor; label: string; rgb: [number, number, number] }[] = [
+  { value: "yellow", label: "Yellow", rgb: [254, 240, 138] },
+  { value: "green", label: "Green", rgb: [187, 247, 208] },
+  { value: "blue", label: "Blue", rgb: [191, 219, 254] },
+  { value: "pink", label: "Pink", rgb: [251, 207, 232] },
+];
+
+export interface SectionAnnotations {
+  star: Annotation | null;
+  highlights: Annotation[];
+  comments: Annotation[];
+}
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+// Rendered text and Markdown source differ in whitespace and markers; comparing without it is close enough
+const squash = (text: string) => text.replace(/[\s•]+/g, "");
+
+/**
+ * Annotations are stored against a section index, but the note can be edited after they were made.
+ * Each one goes to the section at its index if that section still has the title it was made on,
+ * otherwise to a section with that title, otherwise (highlights) to the section that still contains
+ * the highlighted text, otherwise back to its index. Ones whose section is gone are `detached`.
+ */
+export function anchorAnnotations(
+  sections: Note["sections"],
+  annotations: Annotation[],
+): { bySection: SectionAnnotations[]; detached: Annotation[] } {
+  const bySection = sections.map((): SectionAnnotations => ({ star: null, highlights: [], comments: [] }));
+  const detached: Annotation[] = [];
+  let plainTexts: string[] | null = null;
+
+  const locate = (annotation: Annotation): number => {
+    const key = titleKey(annotation.section_title);
+    if (sections[annotation.section_index] && titleKey(sections[annotation.section_index].title) === key) {
+      return annotation.section_index;
+    }
+    const byTitle = key ? sections.findIndex((section) => titleKey(section.title) === key) : -1;
+    if (byTitle >= 0) return byTitle;
+    if (annotation.kind === "highlight" && annotation.quote) {
+      plainTexts ??= sections.map((section) => squash(richTextToPlain(section.content)));
+      const quote = squash(annotation.quote);
+      const byQuote = plainTexts.findIndex((text) => text.includes(quote));
+      if (byQuote >= 0) return byQuote;
+    }
+    return annotation.section_index < sections.length ? annotation.section_index : -1;
+  };
+
+  for (const annotation of annotations) {
+    const index = locate(annotation);
+    if (index < 0) {
+      detached.push(annotation);
+      continue;
+    }
+    const target = bySection[index];
+    if (annotation.kind === "star") target.star ??= annotation;
+    else if (annotation.kind === "highlight") target.highlights.push(annotation);
+    else target.comments.push(annotation);
+  }
+
+  for (const target of bySection) {
+    target.highlights.sort((a, b) => (a.start_offset ?? 0) - (b.start_offset ?? 0));
+  }
+  return { bySection, detached };
+}
+
+/** Character offsets of `range` within the text of `container`, as `textContent` counts them */
+export function rangeToOffsets(container: Node, range: Range): { start: number; end: number } {
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  return { start, end: start + range.toString().length };
+}
+
+function offsetsToRange(container: Node, start: number, end: number): Range | null {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let position = 0;
+  let started = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (!started && start <= position + length) {
+      range.setStart(node, start - position);
+      started = true;
+    }
+    if (started && end <= position + length) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position += length;
+  }
+  return null;
+}
+
+/**
+ * The DOM range a highlight covers in the rendered section. When the text at the stored offsets no
+ * longer matches (the section was edited), the occurrence of the quote nearest to them is used.
+ */
+export function highlightRange(container: Node, annotation: Annotation): Range | null {
+  const { start_offset: start, end_offset: end, quote } = annotation;
+  if (start === null || end === null || !quote) return null;
+
+  const text = container.textContent ?? "";
+  if (text.slice(start, end) === quote) return offsetsToRange(container, start, end);
+
+  let best = -1;
+  for (let at = text.indexOf(quote); at >= 0; at = text.indexOf(quote, at + 1)) {
+    if (best < 0 || Math.abs(at - start) < Math.abs(best - start)) best = at;
+  }
+  return best < 0 ? null : offsetsToRange(container, best, best + quote.length);
+}
@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client";
+import { CaptionTrack, GenerateNotesRequest, GenerateNotesResponse, GenerationProgress } from "@/types/generation";
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-notes`;
+const PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+type StreamLine =
+  | ({ type: "progress" } & GenerationProgress)
+  | { type: "result"; payload: GenerateNotesResponse };
+
+/**
+ * Calls generate-notes in streaming mode and reports each stage as the edge function reaches it.
+ * `supabase.functions.invoke` buffers the whole body, so this reads the NDJSON stream with fetch.
+ */
+export async function streamGenerateNotes(
+  request: GenerateNotesRequest,
+  onProgress: (progress: GenerationProgress) => void,
+): Promise<GenerateNotesResponse> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const res = await fetch(FUNCTION_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+  });
+
+  if (!res.ok || !res.body) {
+    throw new Error(`generate-notes request failed (${res.status})`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: GenerateNotesResponse | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const parsed = JSON.parse(line) as StreamLine;
+    if (parsed.type === "progress") {
+      const { type: _type, ...progress } = parsed;
+      onProgress(progress);
+    } else if (parsed.type === "result") {
+      result = parsed.payload;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      handleLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+  handleLine(buffer + decoder.decode());
+
+  if (!result) {
+    throw new Error("generate-notes stream ended without a result");
+  }
+  return result;
+}
+
+/** Lists the caption tracks YouTube offers for a video so a language can be picked before generating. */
+export async function listCaptionTracks(videoUrl: string): Promise<CaptionTrack[]> {
+  const { data, error } = await supabase.functions.invoke("generate-notes", {
+    body: { videoUrl, mode: "tracks" },
+  });
+
+  if (error || !data?.success) {
+    throw new Error(error?.message || data?.error || "Could not load caption languages");
+  }
+  return data.tracks as CaptionTrack[];
+}
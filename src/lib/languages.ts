@@ -0,0 +1,27 @@
+// Offered as output languages; the edge function takes any language name, these are just the common ones
+export const OUTPUT_LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Portuguese",
+  "Italian",
+  "Dutch",
+  "Hindi",
+  "Arabic",
+  "Russian",
+  "Japanese",
+  "Korean",
+  "Chinese (Simplified)",
+];
+
+const displayNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/** Readable name for a caption language code ("pt-BR" → "Brazilian Portuguese"); names pass through. */
+export function languageLabel(lang: string): string {
+  try {
+    return displayNames.of(lang) ?? lang;
+  } catch {
+    return lang;
+  }
+}
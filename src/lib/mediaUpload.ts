@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const MEDIA_BUCKET = "media-uploads";
+// Same limit as the bucket and the speech-to-text backend
+export const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+const UPLOAD_PREFIX = "upload:";
+
+/** Notes generated from an upload store `upload:<storage path>` where a YouTube URL would go. */
+export function mediaSourceUrl(mediaPath: string): string {
+  return `${UPLOAD_PREFIX}${mediaPath}`;
+}
+
+export function isUploadedSource(videoUrl: string): boolean {
+  return videoUrl.startsWith(UPLOAD_PREFIX);
+}
+
+export function isSupportedMediaFile(file: File): boolean {
+  return file.type.startsWith("audio/") || file.type.startsWith("video/");
+}
+
+/** Uploads into the user's own folder (required by the bucket policies) and returns the storage path. */
+export async function uploadMedia(file: File, userId: string): Promise<string> {
+  const safeName = file.name.replace(/[^\w.-]+/g, "_").slice(-120);
+  const path = `${userId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error } = await supabase.storage.from(MEDIA_BUCKET).upload(path, file, {
+    contentType: file.type,
+    upsert: false,
+  });
+
+  if (error) throw error;
+  return path;
+}
@@ -0,0 +1,169 @@
+import { Note, NoteCitation } from "@/types/note";
+
+/**
+ * The editor's working copy of a note. Key points and sections carry a stable id so drag-and-drop and
+ * React keys survive reordering, and their citation so grounding (matched by index) moves with them.
+ * `citedText` is the text the citation was checked against; once the user changes it, the citation
+ * no longer says anything about what is written and is dropped on save.
+ */
+export interface DraftKeyPoint {
+  id: string;
+  text: string;
+  citation?: NoteCitation;
+  citedText?: string;
+}
+
+export interface DraftSection {
+  id: string;
+  title: string;
+  content: string;
+  timestamp?: string;
+  citation?: NoteCitation;
+  citedText?: string;
+}
+
+export interface NoteDraft {
+  title: string;
+  summary: string;
+  keyPoints: DraftKeyPoint[];
+  sections: DraftSection[];
+}
+
+let nextId = 0;
+const draftId = () => `draft-${++nextId}`;
+
+// Stands in for statements the user added; SourceCitation shows nothing for it
+const UNCITED: NoteCitation = { timestamps: [], excerpt: "", score: 0, supported: null };
+
+const citationOf = (citation: NoteCitation | undefined, citedText: string | undefined, text: string) =>
+  citation && citedText === text ? citation : UNCITED;
+
+export function noteToDraft(note: Note): NoteDraft {
+  return {
+    title: note.title,
+    summary: note.summary,
+    keyPoints: note.keyPoints.map((text, index) => ({
+      id: draftId(),
+      text,
+      citation: note.grounding?.keyPoints[index],
+      citedText: text,
+    })),
+    sections: note.sections.map((section, index) => ({
+      id: draftId(),
+      title: section.title,
+      content: section.content,
+      timestamp: section.timestamp,
+      citation: note.grounding?.sections[index],
+      citedText: section.content,
+    })),
+  };
+}
+
+export function draftToNote(note: Note, draft: NoteDraft): Note {
+  const grounding = note.grounding && {
+    ...note.grounding,
+    keyPoints: draft.keyPoints.map((point) => citationOf(point.citation, point.citedText, point.text)),
+    sections: draft.sections.map((section) => citationOf(section.citation, section.citedText, section.content)),
+  };
+  if (grounding) {
+    grounding.unsupported = [...grounding.keyPoints, ...grounding.sections].filter(
+      (citation) => citation.supported === false,
+    ).length;
+  }
+
+  return {
+    ...note,
+    title: draft.title,
+    summary: draft.summary,
+    keyPoints: draft.keyPoints.map((point) => point.text),
+    sections: draft.sections.map(({ title, content, timestamp }) =>
+      timestamp ? { title, content, timestamp } : { title, content },
+    ),
+    grounding,
+  };
+}
+
+export function newKeyPoint(text = ""): DraftKeyPoint {
+  return { id: draftId(), text };
+}
+
+export function newSection(fields: Partial<Omit<DraftSection, "id" | "citation" | "citedText">> = {}): DraftSection {
+  return { id: draftId(), title: "", content: "", ...fields };
+}
+
+/** The key point is cut at the cursor; the text after it becomes a new key point below */
+export function splitKeyPoint(point: DraftKeyPoint, at: number): [DraftKeyPoint, DraftKeyPoint] {
+  return [
+    { ...point, text: point.text.slice(0, at).trimEnd() },
+    newKeyPoint(point.text.slice(at).trimStart()),
+  ];
+}
+
+/** The content after the cursor moves to a new section that keeps the timestamp it started under */
+export function splitSection(section: DraftSection, at: number): [DraftSection, DraftSection] {
+  return [
+    { ...section, content: section.content.slice(0, at).trimEnd() },
+    newSection({
+      title: section.title ? `${section.title} (continued)` : "",
+      content: section.content.slice(at).trimStart(),
+      timestamp: section.timestamp,
+    }),
+  ];
+}
+
+export type InlineFormat = "bold" | "italic" | "code" | "math" | "link";
+
+const MARKERS: Record<Exclude<InlineFormat, "link">, [string, string]> = {
+  bold: ["**", "**"],
+  italic: ["*", "*"],
+  code: ["`", "`"],
+  math: ["$", "$"],
+};
+
+export interface FormattedText {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Wraps the selection in the Markdown the notes view renders. A selection that is already wrapped
+ * is unwrapped, so the toolbar buttons and shortcuts toggle.
+ */
+export function applyInlineFormat(value: string, start: number, end: number, format: InlineFormat): FormattedText {
+  const selected = value.slice(start, end);
+
+  if (format === "link") {
+    const label = selected || "link text";
+    const inserted = `[${label}](https://)`;
+    // The URL placeholder is selected so typing replaces it
+    const urlStart = start + label.length + 3;
+    return {
+      value: value.slice(0, start) + inserted + value.slice(end),
+      selectionStart: selected ? urlStart : start + 1,
+      selectionEnd: selected ? urlStart + "https://".length : start + 1 + label.length,
+    };
+  }
+
+  const [open, close] = MARKERS[format];
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  // "**bold**" would otherwise read as wrapped in italics too
+  const wrapped =
+    before.endsWith(open) &&
+    after.startsWith(close) &&
+    !(format === "italic" && before.endsWith("**") && after.startsWith("**"));
+
+  if (wrapped) {
+    return {
+      value: before.slice(0, -open.length) + selected + after.slice(close.length),
+      selectionStart: start - open.length,
+      selectionEnd: end - open.length,
+    };
+  }
+  return {
+    value: before + open + selected + close + after,
+    selectionStart: start + open.length,
+    selectionEnd: end + open.length,
+  };
+}
@@ -0,0 +1,114 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Note, NoteCitation } from "@/types/note";
+import { RegenerateRequest, RegenerateResponse } from "@/types/generation";
+import { parseTimestampSeconds } from "@/lib/youtube";
+
+export const REGENERATE_PRESETS = ["More detail", "Add examples", "Simplify"];
+// Same limit generate-notes enforces
+export const MAX_INSTRUCTION_CHARS = 300;
+
+export type RegenerateTarget = { kind: "section" | "keyPoint"; index: number };
+
+// What generate-notes read after each cited timestamp for notes that do not record it
+const DEFAULT_SPAN_SECONDS = 60;
+
+const EMPTY_CITATION: NoteCitation = { timestamps: [], excerpt: "", score: 0, supported: null };
+
+function citedRange(note: Note, citation: NoteCitation | undefined): { start: number | null; end: number | null } {
+  const cited = (citation?.timestamps ?? []).map(parseTimestampSeconds).filter((s): s is number => s !== null);
+  if (!cited.length) return { start: null, end: null };
+  return { start: Math.min(...cited), end: Math.max(...cited) + (note.grounding?.spanSeconds ?? DEFAULT_SPAN_SECONDS) };
+}
+
+/**
+ * The transcript range, in seconds, a section or key point was written from. A section runs from its
+ * timestamp to the next section that starts later; without a timestamp, and for key points, the range
+ * spans what it cites. Both ends are null when nothing says, so the whole transcript is used.
+ */
+export function regenerateRange(note: Note, target: RegenerateTarget): { start: number | null; end: number | null } {
+  if (target.kind === "keyPoint") return citedRange(note, note.grounding?.keyPoints[target.index]);
+
+  const start = parseTimestampSeconds(note.sections[target.index]?.timestamp);
+  if (start === null) return citedRange(note, note.grounding?.sections[target.index]);
+
+  const later = note.sections
+    .map((section) => parseTimestampSeconds(section.timestamp))
+    .filter((s): s is number => s !== null && s > start);
+  return { start, end: later.length ? Math.min(...later) : null };
+}
+
+export async function regenerateNotePart(
+  note: Note,
+  target: RegenerateTarget,
+  instruction: string,
+): Promise<Extract<RegenerateResponse, { success: true }>> {
+  if (!note.id) throw new Error("Save the note before regenerating parts of it");
+
+  const request: RegenerateRequest = {
+    noteId: note.id,
+    target: target.kind,
+    ...(target.kind === "section"
+      ? { section: { ...note.sections[target.index], timestamp: note.sections[target.index].timestamp ?? "" } }
+      : { keyPoint: note.keyPoints[target.index] }),
+    ...regenerateRange(note, target),
+    instruction: instruction.trim(),
+  };
+
+  const { data, error } = await supabase.functions.invoke("generate-notes", {
+    body: { ...request, mode: "regenerate" },
+  });
+
+  if (error || !data?.success) {
+    throw new Error(error?.message || data?.error || "Failed to regenerate. Please try again.");
+  }
+  return data as Extract<RegenerateResponse, { success: true }>;
+}
+
+/**
+ * Where the part regenerated from `original` sits in `note` now. The note can be edited or reordered
+ * while the request is out, so the part is found by its text, preferring its old position; -1 when
+ * it was changed or removed.
+ */
+function currentIndex(note: Note, original: Note, target: RegenerateTarget): number {
+  const matches =
+    target.kind === "section"
+      ? (i: number) =>
+          note.sections[i]?.title === original.sections[target.index]?.title &&
+          note.sections[i]?.content === original.sections[target.index]?.content
+      : (i: number) => note.keyPoints[i] === original.keyPoints[target.index];
+  if (matches(target.index)) return target.index;
+  const count = target.kind === "section" ? note.sections.length : note.keyPoints.length;
+  return Array.from({ length: count }, (_, i) => i).find(matches) ?? -1;
+}
+
+/**
+ * `note` with only the regenerated part and its citation replaced, or null when the part that was
+ * regenerated from `original` is no longer in it
+ */
+export function applyRegenerated(
+  note: Note,
+  original: Note,
+  target: RegenerateTarget,
+  result: Extract<RegenerateResponse, { success: true }>,
+): Note | null {
+  const index = currentIndex(note, original, target);
+  if (index === -1) return null;
+
+  const updated: Note = { ...note };
+  if (target.kind === "section" && result.section) {
+    updated.sections = note.sections.map((section, i) => (i === index ? result.section! : section));
+  } else if (target.kind === "keyPoint" && result.keyPoint) {
+    updated.keyPoints = note.keyPoints.map((point, i) => (i === index ? result.keyPoint! : point));
+  }
+
+  if (note.grounding) {
+    const list = target.kind === "section" ? "sections" : "keyPoints";
+    const citations = [...note.grounding[list]];
+    // The old citation is about the old text; an empty one renders as no citation
+    citations[index] = result.citation ?? EMPTY_CITATION;
+    const grounding = { ...note.grounding, [list]: citations };
+    grounding.unsupported = [...grounding.keyPoints, ...grounding.sections].filter((c) => c?.supported === false).length;
+    updated.grounding = grounding;
+  }
+  return updated;
+}
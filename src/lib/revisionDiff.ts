@@ -0,0 +1,161 @@
+import { NoteRevision } from "@/types/revision";
+
+export type DiffKind = "same" | "added" | "removed";
+
+export interface DiffPart<T> {
+  kind: DiffKind;
+  value: T;
+}
+
+type Section = NoteRevision["sections"][number];
+
+export interface SectionChange {
+  kind: "unchanged" | "changed" | "added" | "removed";
+  before?: Section;
+  after?: Section;
+  /** Word-level diffs, only on "changed" */
+  title?: DiffPart<string>[];
+  content?: DiffPart<string>[];
+}
+
+export interface RevisionDiff {
+  /** null when unchanged */
+  title: DiffPart<string>[] | null;
+  summary: DiffPart<string>[] | null;
+  keyPoints: DiffPart<string>[];
+  sections: SectionChange[];
+  changed: boolean;
+}
+
+// Past this many cells the LCS table gets slow enough to freeze the tab; the text is shown replaced instead
+const MAX_LCS_CELLS = 250_000;
+
+function lcsDiff<T>(before: T[], after: T[], equal: (a: T, b: T) => boolean): DiffPart<T>[] {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    return [
+      ...before.map((value) => ({ kind: "removed" as const, value })),
+      ...after.map((value) => ({ kind: "added" as const, value })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(before[i], after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (equal(before[i], after[j])) {
+      parts.push({ kind: "same", value: after[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ kind: "removed", value: before[i++] });
+    } else {
+      parts.push({ kind: "added", value: after[j++] });
+    }
+  }
+  while (i < before.length) parts.push({ kind: "removed", value: before[i++] });
+  while (j < after.length) parts.push({ kind: "added", value: after[j++] });
+  return parts;
+}
+
+/** Word-level diff; whitespace is kept as its own tokens so the parts join back into the text */
+export function diffWords(before: string, after: string): DiffPart<string>[] {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  const parts = lcsDiff(tokenize(before), tokenize(after), (a, b) => a === b);
+
+  // Adjacent parts of the same kind are merged so the view renders a few spans, not one per word
+  const merged: DiffPart<string>[] = [];
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (last && last.kind === part.kind) last.value += part.value;
+    else merged.push({ ...part });
+  }
+  return merged;
+}
+
+const sectionKey = (section: Section) => section.title.trim().toLowerCase();
+
+function compareSections(before: Section, after: Section): SectionChange {
+  if (before.title === after.title && before.content === after.content && before.timestamp === after.timestamp) {
+    return { kind: "unchanged", before, after };
+  }
+  return {
+    kind: "changed",
+    before,
+    after,
+    title: diffWords(before.title, after.title),
+    content: diffWords(before.content, after.content),
+  };
+}
+
+/**
+ * Sections are lined up by title. A removed run directly followed by an added run is read as the same
+ * sections renamed, so retitling a section shows as a change rather than a delete plus an add.
+ */
+function diffSections(before: Section[], after: Section[]): SectionChange[] {
+  const parts = lcsDiff(
+    before.map((section, index) => ({ section, index })),
+    after.map((section, index) => ({ section, index })),
+    (a, b) => sectionKey(a.section) === sectionKey(b.section),
+  );
+
+  const changes: SectionChange[] = [];
+  let i = 0;
+  let beforeIndex = 0;
+  while (i < parts.length) {
+    const part = parts[i];
+    if (part.kind === "same") {
+      changes.push(compareSections(before[beforeIndex++], part.value.section));
+      i++;
+      continue;
+    }
+
+    const removed: Section[] = [];
+    const added: Section[] = [];
+    while (i < parts.length && parts[i].kind !== "same") {
+      if (parts[i].kind === "removed") {
+        removed.push(parts[i].value.section);
+        beforeIndex++;
+      } else {
+        added.push(parts[i].value.section);
+      }
+      i++;
+    }
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) changes.push(compareSections(removed[k], added[k]));
+    for (const section of removed.slice(paired)) changes.push({ kind: "removed", before: section });
+    for (const section of added.slice(paired)) changes.push({ kind: "added", after: section });
+  }
+  return changes;
+}
+
+export function diffRevisions(
+  before: Pick<NoteRevision, "video_title" | "summary" | "key_points" | "sections">,
+  after: Pick<NoteRevision, "video_title" | "summary" | "key_points" | "sections">,
+): RevisionDiff {
+  const title = before.video_title === after.video_title ? null : diffWords(before.video_title, after.video_title);
+  const summary = before.summary === after.summary ? null : diffWords(before.summary, after.summary);
+  const keyPoints = lcsDiff(before.key_points, after.key_points, (a, b) => a === b);
+  const sections = diffSections(before.sections, after.sections);
+
+  return {
+    title,
+    summary,
+    keyPoints,
+    sections,
+    changed:
+      !!title ||
+      !!summary ||
+      keyPoints.some((part) => part.kind !== "same") ||
+      sections.some((change) => change.kind !== "unchanged"),
+  };
+}
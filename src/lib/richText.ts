@@ -0,0 +1,100 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import type { Nodes, Root } from "mdast";
+
+const CURRENCY_RE = /(^|[\s(])\$(?=\d+(?:[.,]\d+)*(?:[kKmMbB]|bn)?(?:[\s.,;:!?)]|$))/gm;
+
+/**
+ * Models write math as `\(…\)` / `\[…\]` about as often as `$…$` / `$$…$$`; remark-math only knows the
+ * dollar forms. Prices ("$5 to $10") are escaped so they do not pair up into a formula. Code spans and
+ * fences are left alone.
+ */
+export function normalizeMath(text: string): string {
+  if (!text) return "";
+  return text
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/g)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part
+            .replace(/\\\[([\s\S]+?)\\\]/g, (_, tex: string) => `$$${tex}$$`)
+            .replace(/\\\(([\s\S]+?)\\\)/g, (_, tex: string) => `$${tex}$`)
+            .replace(CURRENCY_RE, "$1\\$"),
+    )
+    .join("");
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath);
+
+/** The Markdown syntax tree that the PDF and text exports walk, parsed the same way the notes view renders */
+export function parseRichText(text: string): Root {
+  return parser.parse(normalizeMath(text)) as Root;
+}
+
+function inlineToPlain(node: Nodes): string {
+  switch (node.type) {
+    case "text":
+      return node.value;
+    case "inlineCode":
+      return node.value;
+    case "inlineMath":
+      return `$${node.value}$`;
+    case "break":
+      return "\n";
+    case "image":
+      return node.alt ?? "";
+    default:
+      return "children" in node ? node.children.map((child) => inlineToPlain(child as Nodes)).join("") : "";
+  }
+}
+
+function blockToPlain(node: Nodes, indent: string): string[] {
+  switch (node.type) {
+    case "paragraph":
+      if (node.children.length === 1 && node.children[0].type === "inlineMath") {
+        return [`${indent}$$${node.children[0].value}$$`];
+      }
+      return inlineToPlain(node).split("\n").map((line) => indent + line);
+    case "heading":
+      return inlineToPlain(node).split("\n").map((line) => indent + line);
+    case "code":
+      return node.value.split("\n").map((line) => `${indent}    ${line}`);
+    case "math":
+      return [`${indent}$$`, ...node.value.split("\n").map((line) => indent + line), `${indent}$$`];
+    case "list":
+      return node.children.flatMap((item, index) => {
+        const marker = node.ordered ? `${(node.start ?? 1) + index}. ` : "• ";
+        const lines = item.children.flatMap((child) => blockToPlain(child, " ".repeat(marker.length)));
+        const [first = "", ...rest] = lines;
+        return [indent + marker + first.trimStart(), ...rest.map((line) => indent + line)];
+      });
+    case "blockquote":
+      return node.children.flatMap((child) => blockToPlain(child, `${indent}> `));
+    case "table":
+      return node.children.map((row) => indent + row.children.map((cell) => inlineToPlain(cell)).join(" | "));
+    case "thematicBreak":
+      return [`${indent}---`];
+    default:
+      return inlineToPlain(node) ? [indent + inlineToPlain(node)] : [];
+  }
+}
+
+/**
+ * Readable plain text that keeps the structure: list markers, indented code and math as its LaTeX
+ * source between `$` signs, so nothing the model wrote is lost.
+ */
+export function richTextToPlain(text: string): string {
+  const root = parseRichText(text);
+  return root.children
+    .map((block) => blockToPlain(block, "").join("\n"))
+    .join("\n\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+}
+
+/** One line of plain text for titles, headings and file names */
+export function richTextToInline(text: string): string {
+  return richTextToPlain(text).replace(/\s+/g, " ").trim();
+}
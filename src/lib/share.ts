@@ -0,0 +1,11 @@
+/** Choices offered when creating a share link; null never expires */
+export const SHARE_EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "Expires in 1 day", days: 1 },
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+];
+
+export function shareUrl(token: string): string {
+  return `${window.location.origin}/s/${token}`;
+}
@@ -0,0 +1,65 @@
+import { Flashcard } from "@/types/flashcard";
+
+/** The four answer buttons, mapped onto SM-2's 0-5 recall quality */
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A lapsed card comes back within the same session instead of tomorrow
+const RELEARN_MS = 10 * 60 * 1000;
+
+export type ScheduleUpdate = Pick<
+  Flashcard,
+  "ease_factor" | "interval_days" | "repetitions" | "due_at" | "last_reviewed_at"
+>;
+
+/** SM-2: the next interval grows with the card's ease; a failed recall starts the card over. */
+export function scheduleReview(
+  card: Pick<Flashcard, "ease_factor" | "interval_days" | "repetitions">,
+  grade: ReviewGrade,
+  now = new Date(),
+): ScheduleUpdate {
+  const quality = QUALITY[grade];
+  const ease = Math.max(
+    MIN_EASE,
+    Number(card.ease_factor) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  );
+
+  if (quality < 3) {
+    return {
+      ease_factor: round(ease),
+      interval_days: 0,
+      repetitions: 0,
+      due_at: new Date(now.getTime() + RELEARN_MS).toISOString(),
+      last_reviewed_at: now.toISOString(),
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval_days * ease);
+  if (grade === "hard") interval = Math.max(1, Math.round(interval * 0.8));
+  if (grade === "easy") interval = Math.round(interval * 1.3) || 1;
+
+  return {
+    ease_factor: round(ease),
+    interval_days: interval,
+    repetitions,
+    due_at: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** "10m", "1d", "3mo" — shown under each answer button */
+export function formatInterval(update: ScheduleUpdate, now = new Date()): string {
+  const ms = new Date(update.due_at).getTime() - now.getTime();
+  const days = Math.round(ms / DAY_MS);
+  if (days < 1) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+}
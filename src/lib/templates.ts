@@ -0,0 +1,65 @@
+import { VIDEO_TYPES } from "@/lib/videoTypes";
+import { NoteTemplateDraft, TemplateLength, TemplateTone } from "@/types/template";
+
+// Same limits as the note_templates table and generate-notes' checks
+export const MAX_TEMPLATE_NAME_CHARS = 60;
+export const MAX_TEMPLATE_DESCRIPTION_CHARS = 200;
+export const MAX_TEMPLATE_PROMPT_CHARS = 2000;
+export const MAX_REQUIRED_SECTIONS = 10;
+export const MAX_SECTION_TITLE_CHARS = 80;
+
+export const TEMPLATE_LENGTHS: { value: TemplateLength; label: string }[] = [
+  { value: "brief", label: "Brief" },
+  { value: "standard", label: "Standard" },
+  { value: "detailed", label: "Detailed" },
+];
+
+export const TEMPLATE_TONES: { value: TemplateTone; label: string }[] = [
+  { value: "neutral", label: "Neutral" },
+  { value: "formal", label: "Formal" },
+  { value: "conversational", label: "Conversational" },
+  { value: "academic", label: "Academic" },
+];
+
+export const EMPTY_TEMPLATE: NoteTemplateDraft = {
+  name: "",
+  description: "",
+  system_prompt: "",
+  required_sections: [],
+  target_length: "standard",
+  tone: "neutral",
+};
+
+/** One section title per line; blank lines and repeats are dropped */
+export function parseRequiredSections(text: string): string[] {
+  const titles: string[] = [];
+  for (const line of text.split("\n")) {
+    const title = line.trim();
+    if (title && !titles.some((t) => t.toLowerCase() === title.toLowerCase())) titles.push(title);
+  }
+  return titles;
+}
+
+/** The first problem with a draft, or null when it can be saved */
+export function templateDraftError(draft: NoteTemplateDraft): string | null {
+  const name = draft.name.trim();
+  if (!name) return "Give the template a name";
+  if (name.length > MAX_TEMPLATE_NAME_CHARS) return `Names are limited to ${MAX_TEMPLATE_NAME_CHARS} characters`;
+  // The name is saved as the note's video type, so it must not pass for a built-in one
+  if (VIDEO_TYPES.some((type) => type.value.toLowerCase() === name.toLowerCase())) {
+    return `"${name}" is a built-in video type; pick another name`;
+  }
+  if (draft.description.length > MAX_TEMPLATE_DESCRIPTION_CHARS) {
+    return `Descriptions are limited to ${MAX_TEMPLATE_DESCRIPTION_CHARS} characters`;
+  }
+  if (draft.system_prompt.length > MAX_TEMPLATE_PROMPT_CHARS) {
+    return `Instructions are limited to ${MAX_TEMPLATE_PROMPT_CHARS} characters`;
+  }
+  if (draft.required_sections.length > MAX_REQUIRED_SECTIONS) {
+    return `Up to ${MAX_REQUIRED_SECTIONS} required sections`;
+  }
+  if (draft.required_sections.some((title) => title.length > MAX_SECTION_TITLE_CHARS)) {
+    return `Section titles are limited to ${MAX_SECTION_TITLE_CHARS} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,11 @@
+import { BookOpen, FileText, GraduationCap, Heart, MessageSquare, Wrench } from "lucide-react";
+
+// The values are sent to generate-notes as `videoType` and saved on the note
+export const VIDEO_TYPES = [
+  { value: "Academic Lecture", label: "Academic Lecture", description: "University courses, educational content", icon: GraduationCap },
+  { value: "Motivational", label: "Motivational", description: "Inspirational, humanitarian talks", icon: Heart },
+  { value: "Tutorial", label: "Tutorial", description: "How-to guides, practical lessons", icon: Wrench },
+  { value: "Review Session", label: "Review Session", description: "Revision, exam preparation", icon: BookOpen },
+  { value: "Q&A Format", label: "Q&A Format", description: "Question and answer sessions", icon: MessageSquare },
+  { value: "General", label: "General", description: "No specific category", icon: FileText },
+];
@@ -0,0 +1,69 @@
+/**
+ * Playlist (`list=`) and channel URLs are expanded into one note per video by generate-notes.
+ * Mirrors `parseCollectionUrl` in the edge function: auto-generated mixes (`list=RD…`) stay single videos.
+ */
+export function isCollectionUrl(input: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//.test(input.trim()) ? input.trim() : `https://${input.trim()}`);
+  } catch {
+    return false;
+  }
+  if (!/(^|\.)youtube\.com$/.test(url.hostname)) return false;
+
+  const listId = url.searchParams.get("list");
+  if (listId && !listId.startsWith("RD")) return true;
+
+  return /^\/(channel\/UC[\w-]{22}|@[\w.-]+|c\/[\w.-]+|user\/[\w.-]+)/.test(url.pathname);
+}
+
+/** The 11-character id from watch, youtu.be, embed, shorts and live URLs; null for uploads and playlists. */
+export function extractYouTubeVideoId(input: string): string | null {
+  const match = input.match(
+    /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|v\/|shorts\/|live\/)|youtu\.be\/)([\w-]{11})/,
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * Section timestamps come from the model as "12:34", "1:02:03" or a range like "0:00 - 5:30";
+ * the first clock time is where the section starts.
+ */
+export function parseTimestampSeconds(timestamp: string | undefined): number | null {
+  const match = timestamp?.match(/(?:(\d+):)?(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const [, hours, minutes, seconds] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+export function youtubeDeepLink(videoUrl: string, seconds: number): string | null {
+  const videoId = extractYouTubeVideoId(videoUrl);
+  if (!videoId) return null;
+  return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+}
+
+/** The last section that has started by `currentSeconds`, or -1 before the first one. */
+export function activeSectionIndex(sections: { timestamp?: string }[], currentSeconds: number): number {
+  let active = -1;
+  let activeStart = -1;
+  sections.forEach((section, index) => {
+    const start = parseTimestampSeconds(section.timestamp);
+    if (start !== null && start <= currentSeconds && start >= activeStart) {
+      active = index;
+      activeStart = start;
+    }
+  });
+  return active;
+}
+
+/** Same clock format generate-notes uses in timestamped transcripts: "4:05", "1:02:03". */
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
@@ -1,79 +1,161 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useNavigate, useParams } from "react-router-dom";
+import { FileQuestion, Loader2, LogIn } from "lucide-react";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
 import { HeroSection } from "@/components/HeroSection";
 import { YouTubeInput } from "@/components/YouTubeInput";
 import { NotesDisplay } from "@/components/NotesDisplay";
 import { LoadingProgress } from "@/components/LoadingProgress";
+import { BatchProgress } from "@/components/BatchProgress";
 import { AuthModal } from "@/components/AuthModal";
 import { HistorySidebar } from "@/components/HistorySidebar";
+import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Note } from "@/types/note";
+import { GenerateNotesRequest, GenerationProgress } from "@/types/generation";
+import { NoteSaveOptions } from "@/types/revision";
+import { streamGenerateNotes } from "@/lib/generateNotes";
+import { useGenerationJob } from "@/hooks/use-generation-job";
+import { useBatchGeneration } from "@/hooks/use-batch-generation";
+import { useNote } from "@/hooks/use-note";
+import { mediaSourceUrl, uploadMedia } from "@/lib/mediaUpload";
+import { isCollectionUrl } from "@/lib/youtube";
 import { toast } from "sonner";
 
 const Index = () => {
   const { user } = useAuth();
   const [notes, setNotes] = useState<Note | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [progressEvents, setProgressEvents] = useState<GenerationProgress[]>([]);
   const [isAuthOpen, setIsAuthOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { id: routeNoteId } = useParams();
+  const navigate = useNavigate();
+  const routed = useNote(routeNoteId, notes);
+  const routeNoteIdRef = useRef(routeNoteId);
+  routeNoteIdRef.current = routeNoteId;
 
-  const handleGenerate = async (url: string, videoType: string, transcriptOverride?: string) => {
-    setIsLoading(true);
+  // Going back to "/" leaves the saved note; an unsaved (signed-out) result has no URL and stays
+  useEffect(() => {
+    if (!routeNoteId) setNotes((prev) => (prev?.id ? null : prev));
+  }, [routeNoteId]);
+
+  const openNote = (note: Note) => {
+    setNotes(note);
+    if (note.id) navigate(`/notes/${note.id}`);
+  };
+
+  // A new generation starts from "/" so the previous note's URL is not left in the address bar
+  const leaveNote = () => {
     setNotes(null);
+    if (routeNoteId) navigate("/");
+  };
 
-    try {
-      const { data, error } = await supabase.functions.invoke("generate-notes", {
-        body: { videoUrl: url, videoType, transcriptOverride },
+  const showGenerationError = (errorMsg: string, errorCode?: string) => {
+    if (errorCode === "NO_TRANSCRIPT") {
+      toast.error("This video doesn't have captions. Try a video with captions enabled, or upload its audio.", {
+        duration: 6000,
+      });
+    } else if (errorCode === "RATE_LIMIT") {
+      toast.error("Rate limit reached. Please wait a moment and try again.", {
+        duration: 5000,
+      });
+    } else if (errorCode === "PAYMENT_REQUIRED") {
+      toast.error("Usage limit reached. Please add credits to continue.", {
+        duration: 5000,
       });
+    } else {
+      toast.error(errorMsg);
+    }
+  };
+
+  // Signed-in users get a background job that is saved server-side and survives reloads
+  const generationJob = useGenerationJob({
+    onSucceeded: (note) => {
+      openNote(note);
+      toast.success("Notes generated and saved to your history!");
+    },
+    onFailed: showGenerationError,
+  });
+
+  // Playlists and channels run as a server-side batch; the course note is shown when it finishes
+  const batch = useBatchGeneration({
+    onFinished: (overview, group) => {
+      if (overview) openNote(overview);
+      if (group.status === "succeeded") {
+        toast.success(`Notes for ${group.video_count} videos saved to your history!`);
+      } else if (group.status === "partial") {
+        toast.warning("Some videos could not be processed. The rest are saved to your history.");
+      } else {
+        toast.error("None of the videos in this playlist could be processed.");
+      }
+    },
+    onFailed: showGenerationError,
+  });
 
-      if (error) {
-        console.error("Edge function error:", error);
-        toast.error(error.message || "Failed to generate notes");
+  const handleGenerate = async (request: GenerateNotesRequest) => {
+    if (isCollectionUrl(request.videoUrl)) {
+      if (!user) {
+        toast.error("Sign in to generate notes for a whole playlist or channel");
+        setIsAuthOpen(true);
         return;
       }
 
+      leaveNote();
+      setIsLoading(true);
+      try {
+        await batch.submit(request);
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
+    leaveNote();
+
+    setIsLoading(true);
+    setProgressEvents([]);
+
+    if (user) {
+      try {
+        await generationJob.submit(request);
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
+    try {
+      const data = await streamGenerateNotes(
+        request,
+        (event) => setProgressEvents((prev) => [...prev, event]),
+      );
+
       // Handle structured response
-      if (!data?.success) {
-        const errorMsg = data?.error || "Failed to generate notes";
-        const errorCode = data?.errorCode;
-        
-        if (errorCode === "NO_TRANSCRIPT") {
-          toast.error("This video doesn't have captions. Try a video with captions enabled.", {
-            duration: 6000,
-          });
-        } else if (errorCode === "RATE_LIMIT") {
-          toast.error("Rate limit reached. Please wait a moment and try again.", {
-            duration: 5000,
-          });
-        } else if (errorCode === "PAYMENT_REQUIRED") {
-          toast.error("Usage limit reached. Please add credits to continue.", {
-            duration: 5000,
-          });
-        } else {
-          toast.error(errorMsg);
-        }
+      if (data.success === false) {
+        showGenerationError(data.error || "Failed to generate notes", data.errorCode);
         return;
       }
 
       const generatedNote: Note = {
-        videoUrl: url,
+        videoUrl: request.videoUrl,
         title: data.notes.title,
         duration: data.notes.duration || "Unknown",
         summary: data.notes.summary,
         keyPoints: data.notes.keyPoints || [],
         sections: data.notes.sections || [],
+        sourceLanguage: data.notes.sourceLanguage ?? undefined,
+        outputLanguage: data.notes.outputLanguage ?? undefined,
+        grounding: data.notes.grounding ?? undefined,
+        transcript: data.transcript,
       };
 
       setNotes(generatedNote);
       toast.success("Notes generated successfully!");
-
-      // Save to database if user is logged in
-      if (user) {
-        await saveNote(generatedNote);
-      }
     } catch (error) {
       console.error("Error generating notes:", error);
       toast.error("Failed to generate notes. Please try again.");
@@ -82,56 +164,78 @@ const Index = () => {
     }
   };
 
-  const saveNote = async (note: Note) => {
-    if (!user) return;
+  // Uploads are transcribed server-side from Storage, so they always run as a signed-in background job
+  const handleUpload = async (file: File, options: Pick<GenerateNotesRequest, "videoType" | "templateId" | "outputLanguage">) => {
+    if (!user) {
+      toast.error("Sign in to generate notes from your own files");
+      setIsAuthOpen(true);
+      return;
+    }
+
+    leaveNote();
+    setIsLoading(true);
+    setProgressEvents([]);
 
     try {
-      const { data, error } = await supabase.from("notes").insert({
-        user_id: user.id,
-        video_url: note.videoUrl,
-        video_title: note.title,
-        duration: note.duration,
-        summary: note.summary,
-        key_points: note.keyPoints,
-        sections: note.sections,
-      }).select().single();
-
-      if (error) throw error;
-
-      // Update local note with ID from database
-      setNotes({ ...note, id: data.id, created_at: data.created_at });
-      toast.success("Note saved to your history!");
+      const mediaPath = await uploadMedia(file, user.id);
+      await generationJob.submit({
+        ...options,
+        videoUrl: mediaSourceUrl(mediaPath),
+        mediaPath,
+        mediaTitle: file.name.replace(/\.[^.]+$/, ""),
+      });
     } catch (error) {
-      console.error("Error saving note:", error);
+      console.error("Error uploading media:", error);
+      toast.error("Failed to upload the file. Please try again.");
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const handleUpdateNote = async (updatedNote: Note) => {
-    setNotes(updatedNote);
+  const dismissGenerationJob = () => {
+    generationJob.dismiss();
+    toast.info("If the notes still finish, they will be in your history.");
+  };
 
-    if (user && updatedNote.id) {
-      try {
-        const { error } = await supabase
-          .from("notes")
-          .update({
-            video_title: updatedNote.title,
-            summary: updatedNote.summary,
-            key_points: updatedNote.keyPoints,
-            sections: updatedNote.sections,
-          })
-          .eq("id", updatedNote.id);
-
-        if (error) throw error;
-      } catch (error) {
-        console.error("Error updating note:", error);
-        toast.error("Failed to save changes");
-      }
+  const isGenerating = isLoading || generationJob.isActive || batch.isActive;
+  const loadingEvents = generationJob.isActive ? generationJob.events : progressEvents;
+
+  /** Resolves to whether the change was stored; the editor shows failures next to its autosave status */
+  const handleUpdateNote = async (
+    updatedNote: Note,
+    options: NoteSaveOptions = { source: "edit" },
+  ): Promise<boolean> => {
+    // The editor flushes when it closes, so a save can land after the user moved to another note
+    setNotes((current) =>
+      (current ? current.id === updatedNote.id : !!updatedNote.id && updatedNote.id === routeNoteIdRef.current)
+        ? updatedNote
+        : current,
+    );
+
+    if (!user || !updatedNote.id) return true;
+
+    // Through an RPC rather than an update so the history knows how the change was made
+    const { error } = await supabase.rpc("save_note_content", {
+      target_note_id: updatedNote.id,
+      new_title: updatedNote.title,
+      new_summary: updatedNote.summary,
+      new_key_points: updatedNote.keyPoints,
+      new_sections: updatedNote.sections,
+      // NoteGrounding is an interface, which the generated Json type does not accept without a cast
+      new_grounding: (updatedNote.grounding ?? null) as unknown as Json,
+      revision_source: options.source,
+      edit_session: options.editSession,
+    });
+
+    if (error) {
+      console.error("Error updating note:", error);
+      return false;
     }
+    return true;
   };
 
-  const handleSelectNote = (note: Note) => {
-    setNotes(note);
-  };
+  // On /notes/:id the note comes from the route; elsewhere it is whatever was just generated
+  const shownNote = routeNoteId ? routed.note : notes;
 
   return (
     <div className="min-h-screen gradient-hero flex flex-col">
@@ -140,9 +244,9 @@ const Index = () => {
       <main className="flex-1 px-4 sm:px-6 py-6 sm:py-12">
         <div className="max-w-6xl mx-auto">
           <HeroSection />
-          <YouTubeInput onGenerate={handleGenerate} isLoading={isLoading} />
+          <YouTubeInput onGenerate={handleGenerate} onUpload={handleUpload} isLoading={isGenerating} />
 
-          {!user && !isLoading && !notes && (
+          {!user && !isGenerating && !shownNote && !routeNoteId && (
             <motion.p
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -156,18 +260,85 @@ const Index = () => {
           )}
 
           <AnimatePresence mode="wait">
-            {isLoading && (
+            {batch.isActive && (
+              <motion.div
+                key="batch"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+              >
+                <BatchProgress group={batch.group} jobs={batch.jobs} />
+              </motion.div>
+            )}
+
+            {isGenerating && !batch.isActive && (
               <motion.div
                 key="loading"
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
               >
-                <LoadingProgress isLoading={isLoading} />
+                <LoadingProgress
+                  isLoading={isGenerating}
+                  events={loadingEvents}
+                  onDismiss={generationJob.isActive ? dismissGenerationJob : undefined}
+                />
+              </motion.div>
+            )}
+
+            {routeNoteId && routed.status === "loading" && !isGenerating && (
+              <motion.div
+                key="note-loading"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="mt-10 sm:mt-16 flex justify-center"
+              >
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </motion.div>
+            )}
+
+            {routeNoteId && ["not-found", "unauthorized", "error"].includes(routed.status) && !isGenerating && (
+              <motion.div
+                key="note-unavailable"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="mt-10 sm:mt-16 max-w-md mx-auto text-center bg-card border border-border rounded-2xl p-8"
+              >
+                <FileQuestion className="w-12 h-12 mx-auto text-muted-foreground/50 mb-3" />
+                {routed.status === "unauthorized" ? (
+                  <>
+                    <h2 className="font-display font-semibold text-lg">Sign in to open this note</h2>
+                    <p className="text-sm text-muted-foreground mt-1">Saved notes are only visible to their owner.</p>
+                    <Button onClick={() => setIsAuthOpen(true)} className="mt-4 gap-2">
+                      <LogIn className="w-4 h-4" />
+                      Sign in
+                    </Button>
+                  </>
+                ) : routed.status === "not-found" ? (
+                  <>
+                    <h2 className="font-display font-semibold text-lg">Note not found</h2>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      This note doesn't exist, was deleted, or belongs to another account.
+                    </p>
+                    <Button variant="outline" onClick={() => navigate("/")} className="mt-4">
+                      Back to Home
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <h2 className="font-display font-semibold text-lg">Couldn't load this note</h2>
+                    <p className="text-sm text-muted-foreground mt-1">Check your connection and try again.</p>
+                    <Button variant="outline" onClick={() => window.location.reload()} className="mt-4">
+                      Retry
+                    </Button>
+                  </>
+                )}
               </motion.div>
             )}
 
-            {notes && !isLoading && (
+            {shownNote && !isGenerating && (
               <motion.div
                 key="notes"
                 initial={{ opacity: 0 }}
@@ -175,7 +346,7 @@ const Index = () => {
                 exit={{ opacity: 0 }}
                 className="mt-10 sm:mt-16"
               >
-                <NotesDisplay notes={notes} onUpdate={handleUpdateNote} />
+                <NotesDisplay notes={shownNote} onUpdate={handleUpdateNote} onRestore={setNotes} />
               </motion.div>
             )}
           </AnimatePresence>
@@ -188,7 +359,7 @@ const Index = () => {
       <HistorySidebar
         isOpen={isHistoryOpen}
         onClose={() => setIsHistoryOpen(false)}
-        onSelectNote={handleSelectNote}
+        onSelectNote={openNote}
       />
     </div>
   );
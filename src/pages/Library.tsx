@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { ArrowLeft, FileText, LayoutGrid, Loader2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { HistoryFilters } from "@/components/HistoryFilters";
+import { NoteCard } from "@/components/NoteCard";
+import { useAuth } from "@/contexts/AuthContext";
+import { useNoteLibrary } from "@/hooks/use-note-library";
+import { EMPTY_LIBRARY_FILTERS, LibraryFilters } from "@/types/library";
+
+export default function Library() {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
+  const library = useNoteLibrary(user?.id, !!user, filters);
+  const { notes, folders, tags } = library;
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate("/auth", { replace: true });
+    }
+  }, [user, loading, navigate]);
+
+  if (loading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="p-4 sm:p-6 flex items-center justify-between gap-3">
+        <Button
+          variant="ghost"
+          onClick={() => navigate("/")}
+          className="gap-2 text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Home
+        </Button>
+        {library.total > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {library.total} note{library.total === 1 ? "" : "s"}
+          </span>
+        )}
+      </header>
+
+      <main className="flex-1 px-4 sm:px-6 pb-12">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex items-center gap-2 mb-4">
+            <LayoutGrid className="w-6 h-6 text-primary" />
+            <h1 className="font-display text-2xl sm:text-3xl font-bold">Library</h1>
+          </div>
+
+          <div className="rounded-2xl border border-border bg-card mb-6 [&>div]:border-b-0">
+            <HistoryFilters
+              filters={filters}
+              onChange={setFilters}
+              folders={folders}
+              tags={tags}
+              onCreateFolder={library.createFolder}
+              onDeleteFolder={library.deleteFolder}
+              onCreateTag={library.createTag}
+              onDeleteTag={library.deleteTag}
+            />
+          </div>
+
+          {library.isLoading && notes.length === 0 ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : notes.length === 0 ? (
+            <div className="text-center py-16">
+              <FileText className="w-12 h-12 mx-auto text-muted-foreground/50 mb-3" />
+              <p className="text-muted-foreground">No notes match</p>
+            </div>
+          ) : (
+            <>
+              <div
+                className={`grid gap-4 sm:grid-cols-2 lg:grid-cols-3 transition-opacity ${
+                  library.isLoading ? "opacity-60" : ""
+                }`}
+              >
+                {notes.map((note) => (
+                  <NoteCard
+                    key={note.id}
+                    note={note}
+                    folders={folders}
+                    tags={tags}
+                    showFolder={!filters.folderId}
+                    detailed
+                    isDeleting={library.deletingId === note.id}
+                    onOpen={(selected) => navigate(`/notes/${selected.id}`)}
+                    onDelete={library.deleteNote}
+                    onMoveToFolder={library.moveToFolder}
+                    onToggleTag={library.toggleTag}
+                  />
+                ))}
+              </div>
+
+              <div className="pt-6 text-center space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {notes.length} of {library.total}
+                </p>
+                {library.hasMore && (
+                  <Button variant="outline" onClick={library.loadMore} disabled={library.isLoadingMore}>
+                    {library.isLoadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Load more
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
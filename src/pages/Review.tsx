@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, CheckCircle, ExternalLink, Layers, Loader2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDueFlashcards } from "@/hooks/use-flashcards";
+import { formatInterval, ReviewGrade, scheduleReview } from "@/lib/srs";
+import { parseTimestampSeconds, youtubeDeepLink } from "@/lib/youtube";
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: "again", label: "Again", className: "border-destructive/40 text-destructive hover:bg-destructive/10" },
+  { grade: "hard", label: "Hard", className: "" },
+  { grade: "good", label: "Good", className: "" },
+  { grade: "easy", label: "Easy", className: "border-primary/40 text-primary hover:bg-primary/10" },
+];
+
+export default function Review() {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const { cards, isLoading, review } = useDueFlashcards(user?.id);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const card = cards[0];
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate("/auth", { replace: true });
+    }
+  }, [user, loading, navigate]);
+
+  const answer = (grade: ReviewGrade) => {
+    if (!card) return;
+    setShowAnswer(false);
+    setReviewed((n) => n + 1);
+    review(card, grade);
+  };
+
+  // Space flips the card, 1-4 answer it
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!card || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === " " && !showAnswer) {
+        e.preventDefault();
+        setShowAnswer(true);
+      } else if (showAnswer && ["1", "2", "3", "4"].includes(e.key)) {
+        answer(GRADES[Number(e.key) - 1].grade);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const seconds = card?.timestamp ? parseTimestampSeconds(card.timestamp) : null;
+  const sourceLink = card ? youtubeDeepLink(card.videoUrl, seconds ?? 0) : null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="p-4 sm:p-6 flex items-center justify-between gap-3">
+        <Button
+          variant="ghost"
+          onClick={() => navigate("/")}
+          className="gap-2 text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Home
+        </Button>
+        {card && (
+          <span className="text-sm text-muted-foreground">
+            {cards.length} due · {reviewed} reviewed
+          </span>
+        )}
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 flex items-center justify-center p-4">
+        {!card ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-center space-y-4 max-w-sm"
+          >
+            {reviewed ? (
+              <CheckCircle className="w-12 h-12 mx-auto text-primary" />
+            ) : (
+              <Layers className="w-12 h-12 mx-auto text-muted-foreground/50" />
+            )}
+            <h1 className="text-2xl font-display font-bold text-foreground">
+              {reviewed ? "All caught up!" : "No cards due"}
+            </h1>
+            <p className="text-muted-foreground">
+              {reviewed
+                ? `You reviewed ${reviewed} card${reviewed === 1 ? "" : "s"}. Come back later for the next ones.`
+                : "Create flashcards from a note's Flashcards tab and they will show up here when they are due."}
+            </p>
+            <Button onClick={() => navigate("/")}>Go to my notes</Button>
+          </motion.div>
+        ) : (
+          <motion.div
+            key={`${card.id}-${card.repetitions}-${reviewed}`}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.25 }}
+            className="w-full max-w-2xl"
+          >
+            <div className="bg-card rounded-2xl shadow-xl border border-border p-6 sm:p-8 min-h-[18rem] flex flex-col">
+              <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground mb-6">
+                <span className="truncate">{card.noteTitle}</span>
+                {showAnswer && sourceLink && (
+                  <a
+                    href={sourceLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-primary hover:underline flex-shrink-0"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                    {card.timestamp ?? "Watch"}
+                  </a>
+                )}
+              </div>
+
+              <p className="text-lg sm:text-xl font-medium text-foreground text-center">{card.front}</p>
+
+              {showAnswer && (
+                <>
+                  <div className="border-t border-border my-6" />
+                  <p className="text-base text-foreground/90 text-center leading-relaxed">{card.back}</p>
+                </>
+              )}
+            </div>
+
+            <div className="mt-6">
+              {showAnswer ? (
+                <div className="grid grid-cols-4 gap-2">
+                  {GRADES.map(({ grade, label, className }, i) => (
+                    <Button
+                      key={grade}
+                      variant="outline"
+                      onClick={() => answer(grade)}
+                      className={`h-auto py-2 flex flex-col gap-0.5 ${className}`}
+                    >
+                      <span className="font-medium">{label}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatInterval(scheduleReview(card, grade))} · {i + 1}
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <Button onClick={() => setShowAnswer(true)} className="w-full h-12">
+                  Show answer
+                </Button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, CopyPlus, FileQuestion, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { AuthModal } from "@/components/AuthModal";
+import { NotesDisplay } from "@/components/NotesDisplay";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSharedNote } from "@/hooks/use-shared-note";
+import { toast } from "sonner";
+
+const UNAVAILABLE_TITLES: Record<string, string> = {
+  SHARE_EXPIRED: "This link has expired",
+  SHARE_REVOKED: "This link was turned off",
+  NOT_FOUND: "Link not found",
+};
+
+export default function SharedNote() {
+  const { token } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const shared = useSharedNote(token);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+
+  const handleDuplicate = async () => {
+    if (!user) {
+      setIsAuthOpen(true);
+      return;
+    }
+    const noteId = await shared.duplicate();
+    if (!noteId) return;
+    if (shared.status === "ready" && !shared.isOwner) toast.success("Saved to your library");
+    navigate(`/notes/${noteId}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="p-4 sm:p-6 flex items-center justify-between gap-3">
+        <Button
+          variant="ghost"
+          onClick={() => navigate("/")}
+          className="gap-2 text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Home
+        </Button>
+        {shared.status === "ready" &&
+          (shared.isOwner ? (
+            <Button variant="outline" onClick={handleDuplicate} disabled={shared.isDuplicating}>
+              Open in my library
+            </Button>
+          ) : (
+            <Button onClick={handleDuplicate} disabled={shared.isDuplicating} className="gap-2">
+              {shared.isDuplicating ? <Loader2 className="w-4 h-4 animate-spin" /> : <CopyPlus className="w-4 h-4" />}
+              Duplicate to my library
+            </Button>
+          ))}
+      </header>
+
+      <main className="flex-1 px-4 sm:px-6 pb-12">
+        <div className="max-w-6xl mx-auto">
+          {shared.status === "loading" ? (
+            <div className="flex justify-center py-24">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : shared.status === "error" ? (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="mt-10 max-w-md mx-auto text-center bg-card border border-border rounded-2xl p-8"
+            >
+              <FileQuestion className="w-12 h-12 mx-auto text-muted-foreground/50 mb-3" />
+              <h1 className="font-display font-semibold text-lg">
+                {UNAVAILABLE_TITLES[shared.errorCode ?? ""] ?? "Couldn't load this note"}
+              </h1>
+              <p className="text-sm text-muted-foreground mt-1">{shared.error}</p>
+            </motion.div>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground text-center mb-4">
+                Shared read-only copy
+                {shared.expiresAt && ` · available until ${format(new Date(shared.expiresAt), "MMM d, yyyy HH:mm")}`}
+              </p>
+              <NotesDisplay notes={shared.note} readOnly />
+            </>
+          )}
+        </div>
+      </main>
+
+      <AuthModal isOpen={isAuthOpen} onClose={() => setIsAuthOpen(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+export type AnnotationKind = "highlight" | "comment" | "star";
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink";
+
+export interface Annotation {
+  id: string;
+  note_id: string;
+  section_index: number;
+  kind: AnnotationKind;
+  /** Highlights only: offsets into the section's displayed text */
+  start_offset: number | null;
+  end_offset: number | null;
+  quote: string | null;
+  color: HighlightColor | null;
+  comment: string | null;
+  section_title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewAnnotation = Pick<Annotation, "section_index" | "kind"> &
+  Partial<Pick<Annotation, "start_offset" | "end_offset" | "quote" | "color" | "comment">>;
@@ -0,0 +1,15 @@
+export type ChatRole = "user" | "assistant";
+
+export interface ChatMessage {
+  id: string;
+  note_id: string;
+  role: ChatRole;
+  content: string;
+  /** Transcript timestamps ("m:ss") the answer relies on */
+  citations: string[];
+  created_at: string;
+}
+
+export type ChatResponse =
+  | { success: true; question: ChatMessage; answer: ChatMessage }
+  | { success: false; error: string; errorCode?: string };
@@ -0,0 +1,28 @@
+export type FlashcardSourceKind = "key_point" | "section";
+
+export interface Flashcard {
+  id: string;
+  note_id: string;
+  front: string;
+  back: string;
+  source_kind: FlashcardSourceKind;
+  /** Index into the note's keyPoints or sections */
+  source_index: number;
+  timestamp: string | null;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+}
+
+/** A due card with the note it belongs to, as shown on the review page */
+export interface ReviewCard extends Flashcard {
+  noteTitle: string;
+  videoUrl: string;
+}
+
+export type FlashcardsResponse =
+  | { success: true; cards: Flashcard[]; created: number }
+  | { success: false; error: string; errorCode?: string };
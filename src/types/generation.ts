@@ -0,0 +1,125 @@
+import type { NoteCitation, NoteGrounding, NoteTranscript } from "@/types/note";
+
+export type GenerationStage =
+  | "start"
+  | "transcript_attempt"
+  | "cache_hit"
+  | "transcript_ready"
+  | "chunk"
+  | "synthesis"
+  | "validation"
+  | "done";
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  message: string;
+  progress: number;
+  elapsedMs: number;
+  detail?: Record<string, unknown>;
+}
+
+export interface GenerateNotesRequest {
+  videoUrl: string;
+  /** A built-in type, or the name of the template in `templateId` */
+  videoType: string;
+  /** One of the user's note templates; generate-notes checks it belongs to them */
+  templateId?: string;
+  transcriptOverride?: string;
+  /** Caption language codes to try in order, e.g. ["de", "en"] */
+  captionLanguages?: string[];
+  /** Language to write the notes in; defaults to the transcript's language */
+  outputLanguage?: string;
+  /** Storage path of an uploaded audio/video file to transcribe instead of YouTube captions */
+  mediaPath?: string;
+  mediaTitle?: string;
+}
+
+export interface GeneratedNotes {
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  sections: { title: string; timestamp: string; content: string }[];
+  duration: string;
+  sourceLanguage: string | null;
+  outputLanguage: string | null;
+  grounding: NoteGrounding | null;
+}
+
+export type GenerateNotesResponse =
+  | { success: true; notes: GeneratedNotes; transcript: NoteTranscript; debug?: Record<string, unknown> }
+  | { success: false; error: string; errorCode?: string; debug?: Record<string, unknown> };
+
+export interface RegeneratedSection {
+  title: string;
+  timestamp: string;
+  content: string;
+}
+
+/** `mode: "regenerate"`: one section or key point of a saved note, written again from its part of the transcript */
+export interface RegenerateRequest {
+  noteId: string;
+  target: "section" | "keyPoint";
+  /** The part as the user has it now */
+  section?: RegeneratedSection;
+  keyPoint?: string;
+  /** Transcript range in seconds; the whole transcript is used when missing */
+  start: number | null;
+  end: number | null;
+  /** e.g. "Add examples"; empty for a plain rewrite */
+  instruction: string;
+}
+
+/** `citation` is null when the transcript has no timestamps */
+export type RegenerateResponse =
+  | { success: true; section?: RegeneratedSection; keyPoint?: string; citation: NoteCitation | null }
+  | { success: false; error: string; errorCode?: string };
+
+export interface CaptionTrack {
+  lang: string;
+  name?: string;
+  /** "asr" for auto-generated captions */
+  kind?: string;
+}
+
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface GenerationJob {
+  id: string;
+  user_id: string;
+  video_url: string;
+  video_type: string;
+  status: GenerationJobStatus;
+  stage: GenerationStage | null;
+  message: string | null;
+  progress: number;
+  error: string | null;
+  error_code: string | null;
+  result_note_id: string | null;
+  group_id: string | null;
+  group_position: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlaylistVideo {
+  videoId: string;
+  title: string;
+  url: string;
+}
+
+/** "finishing" while the course note is written */
+export type NoteGroupStatus = "running" | "finishing" | "succeeded" | "partial" | "failed";
+
+export interface NoteGroup {
+  id: string;
+  user_id: string;
+  title: string;
+  source_url: string;
+  kind: "playlist" | "channel";
+  status: NoteGroupStatus;
+  video_count: number;
+  videos: PlaylistVideo[];
+  overview_note_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,30 @@
+export interface NoteFolder {
+  id: string;
+  name: string;
+}
+
+export interface NoteTag {
+  id: string;
+  name: string;
+}
+
+/** What the history sidebar narrows the library down to; empty values mean "any" */
+export interface LibraryFilters {
+  query: string;
+  folderId: string | null;
+  tagIds: string[];
+  videoTypes: string[];
+  /** yyyy-MM-dd, inclusive */
+  from: string;
+  /** yyyy-MM-dd, inclusive */
+  to: string;
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = {
+  query: "",
+  folderId: null,
+  tagIds: [],
+  videoTypes: [],
+  from: "",
+  to: "",
+};
@@ -1,3 +1,37 @@
+export interface TranscriptSegment {
+  text: string;
+  /** Seconds from the start of the video */
+  start: number;
+  duration: number;
+}
+
+export interface NoteTranscript {
+  /** Where generate-notes got it from: a caption endpoint, "override" for pastes, "upload" for files */
+  source: string;
+  language: string | null;
+  segments: TranscriptSegment[];
+  text: string;
+}
+
+export interface NoteCitation {
+  /** Transcript timestamps ("m:ss") the statement cites */
+  timestamps: string[];
+  excerpt: string;
+  score: number;
+  /** false when the cited transcript does not back the statement; null when it was not checked */
+  supported: boolean | null;
+}
+
+/** Citations for `keyPoints` and `sections`, matched by index */
+export interface NoteGrounding {
+  keyPoints: NoteCitation[];
+  sections: NoteCitation[];
+  unsupported: number;
+  verified: boolean;
+  /** Seconds of transcript each cited timestamp covers; missing on notes grounded before it was stored */
+  spanSeconds?: number;
+}
+
 export interface Note {
   id?: string;
   videoUrl: string;
@@ -10,6 +44,19 @@ export interface Note {
     content: string;
     timestamp?: string;
   }[];
+  sourceLanguage?: string;
+  outputLanguage?: string;
+  /** The video type the notes were generated for ("Tutorial", "Academic Lecture", ...) */
+  videoType?: string;
+  grounding?: NoteGrounding;
+  folderId?: string;
+  tagIds?: string[];
+  /** Set for notes that belong to a playlist/channel batch */
+  groupId?: string;
+  /** Position in the playlist; missing on the group's course note */
+  groupPosition?: number;
+  /** Only set on unsaved notes; saved ones load theirs from note_transcripts */
+  transcript?: NoteTranscript;
   created_at?: string;
   updated_at?: string;
 }
@@ -27,6 +74,13 @@ export interface NoteFromDB {
     content: string;
     timestamp?: string;
   }[];
+  transcript_language?: string | null;
+  output_language?: string | null;
+  video_type?: string | null;
+  grounding?: NoteGrounding | null;
+  folder_id?: string | null;
+  group_id?: string | null;
+  group_position?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -40,6 +94,13 @@ export function dbNoteToNote(dbNote: NoteFromDB): Note {
     summary: dbNote.summary,
     keyPoints: dbNote.key_points,
     sections: dbNote.sections,
+    sourceLanguage: dbNote.transcript_language ?? undefined,
+    outputLanguage: dbNote.output_language ?? undefined,
+    videoType: dbNote.video_type ?? undefined,
+    grounding: dbNote.grounding ?? undefined,
+    folderId: dbNote.folder_id ?? undefined,
+    groupId: dbNote.group_id ?? undefined,
+    groupPosition: dbNote.group_position ?? undefined,
     created_at: dbNote.created_at,
     updated_at: dbNote.updated_at,
   };
@@ -54,5 +115,7 @@ export function noteToDBNote(note: Note, userId: string): Omit<NoteFromDB, 'id'
     summary: note.summary,
     key_points: note.keyPoints,
     sections: note.sections,
+    transcript_language: note.sourceLanguage ?? null,
+    output_language: note.outputLanguage ?? null,
   };
 }
@@ -0,0 +1,47 @@
+export type QuizQuestionType = "multiple_choice" | "short_answer";
+
+/** A question as the quiz view gets it; answers only come back once the attempt is graded */
+export interface QuizQuestion {
+  type: QuizQuestionType;
+  question: string;
+  /** Empty for short-answer questions */
+  options: string[];
+  /** Section of the note that explains the answer */
+  sectionIndex: number;
+}
+
+export interface Quiz {
+  id: string;
+  note_id: string;
+  questions: QuizQuestion[];
+  created_at: string;
+}
+
+/** Option index for multiple choice, text for short answers, null when skipped */
+export type QuizAnswer = number | string | null;
+
+export interface QuizResult {
+  correct: boolean;
+  given: QuizAnswer;
+  expected: string;
+  explanation: string;
+  sectionIndex: number;
+  timestamp: string | null;
+}
+
+export interface QuizAttempt {
+  id: string;
+  quiz_id: string;
+  note_id: string;
+  score: number;
+  total: number;
+  created_at: string;
+}
+
+export type QuizResponse =
+  | { success: true; quiz: Quiz }
+  | { success: false; error: string; errorCode?: string };
+
+export type QuizAttemptResponse =
+  | { success: true; attempt: QuizAttempt; results: QuizResult[] }
+  | { success: false; error: string; errorCode?: string };
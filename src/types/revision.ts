@@ -0,0 +1,24 @@
+import { Note, NoteGrounding } from "@/types/note";
+
+export type RevisionSource = "created" | "edit" | "regenerate" | "restore";
+
+/** How a save from the app is recorded in the note's history */
+export interface NoteSaveOptions {
+  source: Extract<RevisionSource, "edit" | "regenerate">;
+  /** Autosaves from one editor session are folded into one revision */
+  editSession?: string;
+}
+
+export interface NoteRevision {
+  id: string;
+  note_id: string;
+  source: RevisionSource;
+  /** The revision a "restore" brought back */
+  restored_from: string | null;
+  video_title: string;
+  summary: string;
+  key_points: string[];
+  sections: Note["sections"];
+  grounding: NoteGrounding | null;
+  created_at: string;
+}
@@ -0,0 +1,18 @@
+import { Note } from "@/types/note";
+
+export interface NoteShare {
+  id: string;
+  note_id: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type SharedNoteResponse =
+  | { success: true; note: Note; expiresAt: string | null; isOwner: boolean }
+  | { success: false; error: string; errorCode?: string };
+
+export type DuplicateNoteResponse =
+  | { success: true; noteId: string }
+  | { success: false; error: string; errorCode?: string };
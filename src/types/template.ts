@@ -0,0 +1,23 @@
+export type TemplateLength = "brief" | "standard" | "detailed";
+
+export type TemplateTone = "neutral" | "formal" | "conversational" | "academic";
+
+/** A user's own video type; generate-notes uses it in place of the built-in prompts */
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** Empty keeps the general note-taker's instructions */
+  system_prompt: string;
+  /** Section titles every note made with it must have, in order */
+  required_sections: string[];
+  target_length: TemplateLength;
+  tone: TemplateTone;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NoteTemplateDraft = Pick<
+  NoteTemplate,
+  "name" | "description" | "system_prompt" | "required_sections" | "target_length" | "tone"
+>;
@@ -0,0 +1,32 @@
+import { Flashcard } from "@/types/flashcard";
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function tagOf(title: string): string {
+  return title.replace(/[^\p{L}\p{N}]+/gu, "_").replace(/^_|_$/g, "").substring(0, 60) || "SummarIQ";
+}
+
+/**
+ * Front, back and tags as CSV. The `#` header lines let Anki's "Import File" pick the separator and
+ * the tags column without any setup; other tools skip or show them as a first row.
+ */
+export function flashcardsToCsv(cards: Flashcard[], noteTitle: string): string {
+  const tag = tagOf(noteTitle);
+  const rows = cards.map((card) => {
+    const back = card.timestamp ? `${card.back} (${card.timestamp})` : card.back;
+    return [csvField(card.front), csvField(back), csvField(`SummarIQ ${tag}`)].join(",");
+  });
+  return ["#separator:Comma", "#html:false", "#tags column:3", ...rows].join("\n") + "\n";
+}
+
+export function downloadFlashcardsCsv(cards: Flashcard[], noteTitle: string) {
+  const blob = new Blob([flashcardsToCsv(cards, noteTitle)], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${noteTitle.replace(/[^a-z0-9]/gi, "_").substring(0, 50)}_flashcards.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,75 +1,58 @@
 import { Note } from "@/types/note";
+import { Annotation } from "@/types/annotation";
+import { isUploadedSource } from "@/lib/mediaUpload";
+import { parseTimestampSeconds, youtubeDeepLink } from "@/lib/youtube";
+import { normalizeMath, richTextToInline, richTextToPlain } from "@/lib/richText";
+import { anchorAnnotations, HIGHLIGHT_COLORS, SectionAnnotations } from "@/lib/annotations";
+import { createPdfRichText, PdfTextStyle } from "@/utils/pdfRichText";
 import { jsPDF } from "jspdf";
 
 const BRAND_NAME = "SummarIQ";
 
-function toPlainText(input: string): string {
-  if (!input) return "";
-
-  return (
-    input
-      .replace(/\r\n/g, "\n")
-      .replace(/\u00A0/g, " ")
-      // LaTeX formulas: \frac{a}{b} -> a/b
-      .replace(/\\frac\{([^}]*)\}\{([^}]*)\}/g, "($1/$2)")
-      // LaTeX subscript/superscript: x_{n} -> x_n, x^{2} -> x^2
-      .replace(/([_^])\{([^}]*)\}/g, "$1$2")
-      // Remove remaining backslash LaTeX commands like \times, \cdot, \sqrt, etc.
-      .replace(/\\(times|cdot|sqrt|sum|int|pi|alpha|beta|gamma|delta|theta|sigma|omega|infty|pm|mp|neq|leq|geq|approx|equiv|rightarrow|leftarrow|Rightarrow|Leftarrow)/g, (_, cmd) => {
-        const symbols: Record<string, string> = {
-          times: "×", cdot: "·", sqrt: "√", sum: "Σ", int: "∫",
-          pi: "π", alpha: "α", beta: "β", gamma: "γ", delta: "δ",
-          theta: "θ", sigma: "σ", omega: "ω", infty: "∞",
-          pm: "±", mp: "∓", neq: "≠", leq: "≤", geq: "≥",
-          approx: "≈", equiv: "≡", rightarrow: "→", leftarrow: "←",
-          Rightarrow: "⇒", Leftarrow: "⇐"
-        };
-        return symbols[cmd] || "";
-      })
-      // Remove dollar signs used for inline math: $x + y$ -> x + y
-      .replace(/\$([^$]+)\$/g, "$1")
-      // Remove double dollar signs for display math: $$formula$$ -> formula
-      .replace(/\$\$([^$]+)\$\$/g, "$1")
-      // Remove remaining backslashes before letters (cleanup)
-      .replace(/\\([a-zA-Z]+)/g, "$1")
-      // Remove curly braces
-      .replace(/[{}]/g, "")
-      // Markdown links: [text](url) -> text
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
-      // Inline code
-      .replace(/`([^`]*)`/g, "$1")
-      // Bold / italics
-      .replace(/\*\*([^*]+)\*\*/g, "$1")
-      .replace(/__([^_]+)__/g, "$1")
-      .replace(/\*([^*]+)\*/g, "$1")
-      .replace(/_([^_]+)_/g, "$1")
-      // Remove common list markers at line start
-      .replace(/^\s*[-*+]\s+/gm, "")
-      .replace(/^\s*\d+\.\s+/gm, "")
-      // Remove parentheses around timestamps like (12:34) or (1:02:03)
-      .replace(/\((\d{1,2}:\d{2}(?::\d{2})?)\)/g, "$1")
-      // Tidy whitespace
-      .replace(/[ \t]+\n/g, "\n")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim()
-  );
+function sourceOf(note: Note): string {
+  return isUploadedSource(note.videoUrl) ? "Uploaded file" : note.videoUrl;
 }
 
-export function downloadAsPDF(note: Note) {
+/** `&t=` link for a section timestamp; null for uploads and timestamps without a clock time. */
+function timestampLink(note: Note, timestamp: string): string | null {
+  const seconds = parseTimestampSeconds(timestamp);
+  return seconds === null ? null : youtubeDeepLink(note.videoUrl, seconds);
+}
+
+export interface ExportOptions {
+  /** The user's highlights, comments and stars; left out, the note is exported as generated */
+  annotations?: Annotation[];
+}
+
+/** Per-section annotations, or null when there are none to export */
+function exportedAnnotations(note: Note, options: ExportOptions): SectionAnnotations[] | null {
+  return options.annotations?.length ? anchorAnnotations(note.sections, options.annotations).bySection : null;
+}
+
+const oneLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const PDF_BODY_TEXT: PdfTextStyle = {
+  fontSize: 11,
+  lineHeight: 6,
+  color: [50, 50, 50],
+  linkColor: [20, 184, 166],
+};
+
+/** Math in the PDF is rendered with KaTeX first, so this resolves once the file has been saved */
+export async function downloadAsPDF(note: Note, options: ExportOptions = {}) {
   const doc = new jsPDF();
+  const annotated = exportedAnnotations(note, options);
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
   const margin = 20;
   const contentWidth = pageWidth - margin * 2;
   let yPosition = margin;
 
-  const safeTitle = toPlainText(note.title);
-  const safeSummary = toPlainText(note.summary);
-  const safeKeyPoints = (note.keyPoints || []).map((p) => toPlainText(p));
+  // Headings and the table of contents are drawn as plain text; bodies keep their formatting
+  const safeTitle = richTextToInline(note.title);
   const safeSections = (note.sections || []).map((s) => ({
     ...s,
-    title: toPlainText(s.title),
-    content: toPlainText(s.content),
+    title: richTextToInline(s.title),
   }));
 
   // Helper function to add a new page if needed
@@ -107,7 +90,7 @@ export function downloadAsPDF(note: Note) {
 
   // Video Info Box (wrap URL to avoid overflow)
   const urlLabel = "Video URL:";
-  const urlLines = doc.splitTextToSize(String(note.videoUrl || ""), contentWidth - 55);
+  const urlLines = doc.splitTextToSize(String(sourceOf(note) || ""), contentWidth - 55);
   const urlLineCount = Math.min(urlLines.length, 2);
   const infoBoxHeight = 18 + urlLineCount * 6;
 
@@ -174,6 +157,74 @@ export function downloadAsPDF(note: Note) {
   addPageHeader();
   yPosition = 20;
 
+  const richText = createPdfRichText(doc, {
+    bottomLimit: pageHeight - 30,
+    onNewPage: () => {
+      doc.addPage();
+      addPageHeader();
+      return 20;
+    },
+  });
+
+  const drawStar = (cx: number, cy: number, radius: number) => {
+    const points = Array.from({ length: 10 }, (_, i) => {
+      const r = i % 2 === 0 ? radius : radius * 0.45;
+      const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+      return [cx + r * Math.cos(angle), cy + r * Math.sin(angle)];
+    });
+    const segments = points.slice(1).map(([x, y], i) => [x - points[i][0], y - points[i][1]]);
+    doc.setFillColor(251, 191, 36);
+    doc.lines(segments, points[0][0], points[0][1], [1, 1], "F", true);
+  };
+
+  // Highlights and comments go under the section they belong to, each marked with its colour
+  const writeAnnotations = (marks: SectionAnnotations) => {
+    const items = [
+      ...marks.highlights.map((annotation) => ({
+        rgb: (HIGHLIGHT_COLORS.find((c) => c.value === annotation.color) ?? HIGHLIGHT_COLORS[0]).rgb,
+        quote: annotation.quote ? `"${oneLine(annotation.quote)}"` : "",
+        comment: annotation.comment ? oneLine(annotation.comment) : "",
+      })),
+      ...marks.comments.map((annotation) => ({
+        rgb: [20, 184, 166] as [number, number, number],
+        quote: "",
+        comment: oneLine(annotation.comment ?? ""),
+      })),
+    ];
+    if (!items.length) return;
+
+    if (checkNewPage(20)) {
+      addPageHeader();
+      yPosition = 20;
+    }
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(20, 184, 166);
+    doc.text("My annotations", margin + 5, yPosition);
+    yPosition += 6;
+
+    for (const item of items) {
+      doc.setFontSize(10);
+      const quoteLines: string[] = item.quote ? doc.splitTextToSize(item.quote, contentWidth - 20) : [];
+      const commentLines: string[] = item.comment ? doc.splitTextToSize(item.comment, contentWidth - 20) : [];
+      const height = (quoteLines.length + commentLines.length) * 5;
+      if (checkNewPage(height + 4)) {
+        addPageHeader();
+        yPosition = 20;
+      }
+
+      doc.setFillColor(...item.rgb);
+      doc.rect(margin + 5, yPosition - 4, 2, height, "F");
+      doc.setFont("helvetica", "italic");
+      doc.setTextColor(90, 90, 90);
+      doc.text(quoteLines, margin + 11, yPosition);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(40, 40, 40);
+      doc.text(commentLines, margin + 11, yPosition + quoteLines.length * 5);
+      yPosition += height + 3;
+    }
+  };
+
   // Summary Section
   doc.setFontSize(16);
   doc.setFont("helvetica", "bold");
@@ -181,16 +232,7 @@ export function downloadAsPDF(note: Note) {
   doc.text("Summary", margin, yPosition);
   yPosition += 10;
 
-  doc.setFontSize(11);
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(50, 50, 50);
-
-  const summaryLines = doc.splitTextToSize(safeSummary, contentWidth);
-  summaryLines.forEach((line: string) => {
-    checkNewPage(8);
-    doc.text(line, margin, yPosition);
-    yPosition += 6;
-  });
+  yPosition = await richText.write(note.summary, margin, yPosition, contentWidth, PDF_BODY_TEXT);
   yPosition += 10;
 
   // Key Points Section
@@ -201,28 +243,27 @@ export function downloadAsPDF(note: Note) {
   doc.text("Key Points", margin, yPosition);
   yPosition += 10;
 
-  doc.setFontSize(11);
-  safeKeyPoints.forEach((point) => {
-    checkNewPage(15);
+  for (const point of note.keyPoints || []) {
+    if (checkNewPage(15)) {
+      addPageHeader();
+      yPosition = 20;
+    }
 
     // Bullet point circle
     doc.setFillColor(20, 184, 166);
     doc.circle(margin + 3, yPosition - 2, 2, "F");
 
-    doc.setFont("helvetica", "normal");
-    doc.setTextColor(50, 50, 50);
-    const pointLines = doc.splitTextToSize(point, contentWidth - 15);
-    pointLines.forEach((line: string) => {
-      doc.text(line, margin + 10, yPosition);
-      yPosition += 6;
-    });
+    yPosition = await richText.write(point, margin + 10, yPosition, contentWidth - 15, PDF_BODY_TEXT);
     yPosition += 4;
-  });
+  }
   yPosition += 10;
 
   // Detailed Sections
-  safeSections.forEach((section, sectionIndex) => {
-    checkNewPage(40);
+  for (const [sectionIndex, section] of safeSections.entries()) {
+    if (checkNewPage(40)) {
+      addPageHeader();
+      yPosition = 20;
+    }
 
     if (yPosition > 30) {
       doc.setDrawColor(230, 230, 230);
@@ -236,7 +277,11 @@ export function downloadAsPDF(note: Note) {
     doc.setFontSize(13);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(20, 184, 166);
-    doc.text(`${sectionIndex + 1}. ${section.title || `Section ${sectionIndex + 1}`}`, margin + 5, yPosition + 5);
+    const heading = `${sectionIndex + 1}. ${section.title || `Section ${sectionIndex + 1}`}`;
+    doc.text(heading, margin + 5, yPosition + 5);
+    if (annotated?.[sectionIndex].star) {
+      drawStar(margin + 5 + doc.getTextWidth(heading) + 5, yPosition + 3.5, 2.5);
+    }
 
     if (section.timestamp) {
       doc.setFontSize(9);
@@ -244,27 +289,25 @@ export function downloadAsPDF(note: Note) {
       doc.setTextColor(100, 100, 100);
       const label = `${section.timestamp}`;
       const timestampWidth = doc.getTextWidth(label);
-      doc.text(label, pageWidth - margin - timestampWidth - 5, yPosition + 5);
+      const link = timestampLink(note, section.timestamp);
+      if (link) {
+        doc.setTextColor(20, 184, 166);
+        doc.textWithLink(label, pageWidth - margin - timestampWidth - 5, yPosition + 5, { url: link });
+      } else {
+        doc.text(label, pageWidth - margin - timestampWidth - 5, yPosition + 5);
+      }
     }
 
     yPosition += 20;
 
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    doc.setTextColor(50, 50, 50);
-
-    const contentLines = doc.splitTextToSize(section.content || "", contentWidth - 10);
-    contentLines.forEach((line: string) => {
-      if (checkNewPage(8)) {
-        addPageHeader();
-        yPosition = 20;
-      }
-      doc.text(line, margin + 5, yPosition);
-      yPosition += 6;
-    });
+    yPosition = await richText.write(section.content || "", margin + 5, yPosition, contentWidth - 10, PDF_BODY_TEXT);
+    if (annotated) {
+      yPosition += 4;
+      writeAnnotations(annotated[sectionIndex]);
+    }
 
     yPosition += 15;
-  });
+  }
 
   // ===== FOOTER ON ALL PAGES =====
   const pageCount = doc.getNumberOfPages();
@@ -285,12 +328,16 @@ export function downloadAsPDF(note: Note) {
   doc.save(fileName);
 }
 
-export function downloadAsMarkdown(note: Note) {
-  const safeTitle = toPlainText(note.title);
+/** Bodies are written as the model produced them (math normalized to `$` delimiters), so code and formulas survive */
+export function downloadAsMarkdown(note: Note, options: ExportOptions = {}) {
+  const safeTitle = richTextToInline(note.title);
+  const annotated = exportedAnnotations(note, options);
 
   let markdown = `# ${safeTitle}\n\n`;
   markdown += `> **Duration:** ${note.duration}\u00A0\u00A0\n`;
-  markdown += `> **Video URL:** [Watch Video](${note.videoUrl})\u00A0\u00A0\n`;
+  markdown += isUploadedSource(note.videoUrl)
+    ? `> **Source:** ${sourceOf(note)}\u00A0\u00A0\n`
+    : `> **Video URL:** [Watch Video](${note.videoUrl})\u00A0\u00A0\n`;
   markdown += `> **Generated by:** ${BRAND_NAME}\n\n`;
   markdown += `---\n\n`;
 
@@ -299,29 +346,43 @@ export function downloadAsMarkdown(note: Note) {
   markdown += `1. [Summary](#summary)\n`;
   markdown += `2. [Key Points](#key-points)\n`;
   note.sections.forEach((section, index) => {
-    const anchor = toPlainText(section.title).toLowerCase().replace(/[^a-z0-9]+/g, "-");
-    markdown += `${index + 3}. [${toPlainText(section.title)}](#${anchor})\n`;
+    const anchor = richTextToInline(section.title).toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    markdown += `${index + 3}. [${richTextToInline(section.title)}](#${anchor})\n`;
   });
   markdown += `\n---\n\n`;
 
   // Summary
-  markdown += `## Summary\n\n${note.summary}\n\n`;
+  markdown += `## Summary\n\n${normalizeMath(note.summary)}\n\n`;
 
   // Key Points
   markdown += `## Key Points\n\n`;
   note.keyPoints.forEach((point) => {
-    markdown += `- ${point}\n`;
+    markdown += `- ${normalizeMath(point)}\n`;
   });
   markdown += `\n`;
 
   // Detailed Notes
   markdown += `## Detailed Notes\n\n`;
   note.sections.forEach((section, index) => {
-    markdown += `### ${index + 1}. ${toPlainText(section.title)}`;
+    const marks = annotated?.[index];
+    markdown += `### ${index + 1}. ${normalizeMath(section.title)}`;
+    if (marks?.star) markdown += ` ⭐`;
     if (section.timestamp) {
-      markdown += ` \`[${section.timestamp}]\``;
+      const link = timestampLink(note, section.timestamp);
+      markdown += link ? ` [\`${section.timestamp}\`](${link})` : ` \`[${section.timestamp}]\``;
+    }
+    markdown += `\n\n${normalizeMath(section.content)}\n\n`;
+    if (marks && (marks.highlights.length || marks.comments.length)) {
+      markdown += `> **My annotations**\n>\n`;
+      marks.highlights.forEach((annotation) => {
+        markdown += `> - “${oneLine(annotation.quote ?? "")}”`;
+        markdown += annotation.comment ? ` — ${oneLine(annotation.comment)}\n` : `\n`;
+      });
+      marks.comments.forEach((annotation) => {
+        markdown += `> - ${oneLine(annotation.comment ?? "")}\n`;
+      });
+      markdown += `\n`;
     }
-    markdown += `\n\n${section.content}\n\n`;
   });
 
   markdown += `---\n\n`;
@@ -341,7 +402,8 @@ export function downloadAsText(note: Note) {
   const divider = "═".repeat(width);
   const thinDivider = "─".repeat(width);
 
-  const safeTitle = toPlainText(note.title);
+  const safeTitle = richTextToInline(note.title);
+  const indent = (value: string, prefix: string) => value.replace(/\n/g, `\n${prefix}`);
 
   let text = `\n${divider}\n`;
   text += `  ${BRAND_NAME.toUpperCase()} - AI YOUTUBE NOTES\n`;
@@ -351,7 +413,7 @@ export function downloadAsText(note: Note) {
   text += `${"─".repeat(safeTitle.length)}\n\n`;
 
   text += `Duration: ${note.duration}\n`;
-  text += `Video URL: ${note.videoUrl}\n\n`;
+  text += `Video URL: ${sourceOf(note)}\n\n`;
 
   text += `${thinDivider}\n`;
   text += `  TABLE OF CONTENTS\n`;
@@ -360,25 +422,26 @@ export function downloadAsText(note: Note) {
   text += `  1. Summary\n`;
   text += `  2. Key Points\n`;
   note.sections.forEach((section, index) => {
-    text += `  ${index + 3}. ${toPlainText(section.title)}\n`;
+    text += `  ${index + 3}. ${richTextToInline(section.title)}\n`;
   });
   text += `\n${thinDivider}\n\n`;
 
-  text += `SUMMARY\n${thinDivider}\n${toPlainText(note.summary)}\n\n`;
+  text += `SUMMARY\n${thinDivider}\n${richTextToPlain(note.summary)}\n\n`;
 
   text += `KEY POINTS\n${thinDivider}\n`;
   note.keyPoints.forEach((point, i) => {
-    text += `  ${i + 1}. ${toPlainText(point)}\n`;
+    text += `  ${i + 1}. ${indent(richTextToPlain(point), "     ")}\n`;
   });
   text += `\n`;
 
   text += `DETAILED NOTES\n${thinDivider}\n\n`;
   note.sections.forEach((section, index) => {
-    text += `[${index + 1}] ${toPlainText(section.title)}`;
+    const title = richTextToInline(section.title);
+    text += `[${index + 1}] ${title}`;
     if (section.timestamp) {
       text += ` [${section.timestamp}]`;
     }
-    text += `\n${"-".repeat(toPlainText(section.title).length + 4)}\n${toPlainText(section.content)}\n\n`;
+    text += `\n${"-".repeat(title.length + 4)}\n${richTextToPlain(section.content)}\n\n`;
   });
 
   text += `${divider}\n`;
@@ -0,0 +1,377 @@
+import type { jsPDF } from "jspdf";
+import html2canvas from "html2canvas";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import type { Nodes, PhrasingContent, RootContent } from "mdast";
+import { parseRichText } from "@/lib/richText";
+
+type Rgb = [number, number, number];
+type FontStyle = "normal" | "bold" | "italic" | "bolditalic";
+
+export interface PdfTextStyle {
+  fontSize: number;
+  /** Baseline to baseline, in mm */
+  lineHeight: number;
+  color: Rgb;
+  linkColor: Rgb;
+}
+
+interface MathImage {
+  dataUrl: string;
+  /** All in mm */
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+type Run =
+  | { kind: "text"; text: string; style: FontStyle; mono: boolean; link?: string }
+  | { kind: "math"; tex: string }
+  | { kind: "break" };
+
+type Piece =
+  | { kind: "text"; text: string; style: FontStyle; mono: boolean; link?: string; width: number; space: boolean }
+  | { kind: "math"; tex: string; image: MathImage | null; width: number }
+  | { kind: "break" };
+
+const PT_TO_MM = 25.4 / 72;
+const PX_TO_MM = 25.4 / 96;
+const RENDER_SCALE = 3;
+const BLOCK_GAP = 2;
+const LIST_INDENT = 6;
+const CODE_BACKGROUND: Rgb = [243, 244, 246];
+
+function combine(style: FontStyle, add: "bold" | "italic"): FontStyle {
+  if (style === "normal") return add;
+  if (style === add) return style;
+  return "bolditalic";
+}
+
+function collectRuns(nodes: PhrasingContent[], style: FontStyle = "normal", link?: string): Run[] {
+  return nodes.flatMap((node): Run[] => {
+    switch (node.type) {
+      case "text":
+        return [{ kind: "text", text: node.value, style, mono: false, link }];
+      case "inlineCode":
+        return [{ kind: "text", text: node.value, style, mono: true, link }];
+      case "inlineMath":
+        return [{ kind: "math", tex: node.value }];
+      case "break":
+        return [{ kind: "break" }];
+      case "strong":
+        return collectRuns(node.children, combine(style, "bold"), link);
+      case "emphasis":
+        return collectRuns(node.children, combine(style, "italic"), link);
+      case "link":
+        return collectRuns(node.children, style, node.url);
+      case "image":
+        return node.alt ? [{ kind: "text", text: node.alt, style, mono: false, link }] : [];
+      default:
+        if ("children" in node) return collectRuns(node.children as PhrasingContent[], style, link);
+        return "value" in node ? [{ kind: "text", text: String(node.value), style, mono: false, link }] : [];
+    }
+  });
+}
+
+/**
+ * Draws Markdown into a jsPDF document: emphasis, links, lists, quotes, tables and code with the
+ * built-in fonts, and math as KaTeX rendered to images, so formulas look the way they do on screen.
+ */
+export function createPdfRichText(doc: jsPDF, options: { bottomLimit: number; onNewPage: () => number }) {
+  const mathCache = new Map<string, Promise<MathImage | null>>();
+
+  const renderMath = (tex: string, fontSize: number, display: boolean): Promise<MathImage | null> => {
+    const key = `${display}|${fontSize}|${tex}`;
+    const cached = mathCache.get(key);
+    if (cached) return cached;
+
+    const rendering = (async () => {
+      const host = document.createElement("div");
+      host.style.cssText = [
+        "position:fixed",
+        "left:-10000px",
+        "top:0",
+        "display:inline-block",
+        "white-space:nowrap",
+        "padding:1px",
+        "color:#323232",
+        `font-size:${(fontSize * 4) / 3}px`,
+      ].join(";");
+      const formula = document.createElement("span");
+      // A zero-size inline box sits on the baseline, which is where the image has to line up with text
+      const baseline = document.createElement("span");
+      baseline.style.cssText = "display:inline-block;width:0;height:0;vertical-align:baseline";
+      host.append(formula, baseline);
+      document.body.appendChild(host);
+
+      try {
+        katex.render(display ? `\\displaystyle ${tex}` : tex, formula, { throwOnError: true, output: "html" });
+        await document.fonts?.ready;
+        const box = host.getBoundingClientRect();
+        const baselineTop = baseline.getBoundingClientRect().top - box.top;
+        const canvas = await html2canvas(host, { backgroundColor: null, scale: RENDER_SCALE, logging: false });
+        return {
+          dataUrl: canvas.toDataURL("image/png"),
+          width: box.width * PX_TO_MM,
+          ascent: baselineTop * PX_TO_MM,
+          descent: (box.height - baselineTop) * PX_TO_MM,
+        };
+      } catch (error) {
+        // Invalid TeX falls back to its source, which is still readable
+        console.warn("Could not render formula for PDF:", tex, error);
+        return null;
+      } finally {
+        host.remove();
+      }
+    })();
+
+    mathCache.set(key, rendering);
+    return rendering;
+  };
+
+  const setFont = (style: FontStyle, mono: boolean) => doc.setFont(mono ? "courier" : "helvetica", style);
+
+  async function toPieces(runs: Run[], style: PdfTextStyle, maxWidth: number): Promise<Piece[]> {
+    const pieces: Piece[] = [];
+    for (const run of runs) {
+      if (run.kind === "break") {
+        pieces.push(run);
+        continue;
+      }
+      if (run.kind === "math") {
+        const image = await renderMath(run.tex, style.fontSize, false);
+        if (image) {
+          pieces.push({ kind: "math", tex: run.tex, image, width: Math.min(image.width, maxWidth) });
+        } else {
+          setFont("normal", true);
+          const text = `$${run.tex}$`;
+          pieces.push({ kind: "text", text, style: "normal", mono: true, width: doc.getTextWidth(text), space: false });
+        }
+        continue;
+      }
+
+      setFont(run.style, run.mono);
+      for (const token of run.text.split(/(\s+)/)) {
+        if (!token) continue;
+        const space = /^\s+$/.test(token);
+        const text = space ? " " : token;
+        const width = doc.getTextWidth(text);
+        if (!space && width > maxWidth) {
+          // A single unbreakable token (a long URL) is split wherever it has to be
+          for (const part of doc.splitTextToSize(text, maxWidth) as string[]) {
+            pieces.push({ ...run, kind: "text", text: part, width: doc.getTextWidth(part), space: false });
+          }
+        } else {
+          pieces.push({ ...run, kind: "text", text, width, space });
+        }
+      }
+    }
+    return pieces;
+  }
+
+  async function writeInline(
+    runs: Run[],
+    x: number,
+    y: number,
+    width: number,
+    style: PdfTextStyle,
+  ): Promise<number> {
+    const pieces = await toPieces(runs, style, width);
+    const textAscent = style.fontSize * PT_TO_MM * 0.75;
+    const textDescent = style.fontSize * PT_TO_MM * 0.25;
+
+    const lines: Piece[][] = [[]];
+    let lineWidth = 0;
+    for (const piece of pieces) {
+      const line = lines[lines.length - 1];
+      if (piece.kind === "break") {
+        lines.push([]);
+        lineWidth = 0;
+        continue;
+      }
+      if (piece.kind === "text" && piece.space && line.length === 0) continue;
+      if (line.length > 0 && lineWidth + piece.width > width) {
+        lines.push([]);
+        lineWidth = 0;
+        if (piece.kind === "text" && piece.space) continue;
+      }
+      lines[lines.length - 1].push(piece);
+      lineWidth += piece.width;
+    }
+
+    for (const line of lines) {
+      // Trailing spaces would only matter for measuring, and nothing after them is drawn
+      while (line.length) {
+        const last = line[line.length - 1];
+        if (last.kind !== "text" || !last.space) break;
+        line.pop();
+      }
+      let ascent = textAscent;
+      let descent = textDescent;
+      for (const piece of line) {
+        if (piece.kind === "math" && piece.image) {
+          const scale = piece.width / piece.image.width;
+          ascent = Math.max(ascent, piece.image.ascent * scale);
+          descent = Math.max(descent, piece.image.descent * scale);
+        }
+      }
+
+      let baseline = y + (ascent - textAscent);
+      if (baseline + descent > options.bottomLimit) {
+        y = options.onNewPage();
+        baseline = y + (ascent - textAscent);
+      }
+
+      let cursor = x;
+      for (const piece of line) {
+        if (piece.kind === "break") continue;
+        if (piece.kind === "math" && piece.image) {
+          const scale = piece.width / piece.image.width;
+          doc.addImage(
+            piece.image.dataUrl,
+            "PNG",
+            cursor,
+            baseline - piece.image.ascent * scale,
+            piece.width,
+            (piece.image.ascent + piece.image.descent) * scale,
+          );
+        } else if (piece.kind === "text") {
+          setFont(piece.style, piece.mono);
+          if (piece.link) {
+            doc.setTextColor(...style.linkColor);
+            doc.textWithLink(piece.text, cursor, baseline, { url: piece.link });
+          } else {
+            doc.setTextColor(...style.color);
+            doc.text(piece.text, cursor, baseline);
+          }
+        }
+        cursor += piece.width;
+      }
+
+      y = baseline + style.lineHeight + Math.max(0, descent - textDescent);
+    }
+    return y;
+  }
+
+  function writeCode(value: string, x: number, y: number, width: number, style: PdfTextStyle): number {
+    const fontSize = style.fontSize - 1.5;
+    const lineHeight = style.lineHeight - 1;
+    doc.setFontSize(fontSize);
+    setFont("normal", true);
+    const lines = value.split("\n").flatMap((line) => (doc.splitTextToSize(line || " ", width - 6) as string[]));
+
+    for (const [index, line] of lines.entries()) {
+      if (y + 2 > options.bottomLimit) y = options.onNewPage();
+      const top = y - lineHeight + 1.5;
+      doc.setFillColor(...CODE_BACKGROUND);
+      doc.rect(x, index === 0 ? top - 1.5 : top, width, index === 0 ? lineHeight + 1.5 : lineHeight, "F");
+      setFont("normal", true);
+      doc.setTextColor(...style.color);
+      doc.text(line, x + 3, y);
+      y += lineHeight;
+    }
+    doc.setFillColor(...CODE_BACKGROUND);
+    doc.rect(x, y - lineHeight + 1.5, width, 1.5, "F");
+    doc.setFontSize(style.fontSize);
+    return y + 1.5;
+  }
+
+  async function writeDisplayMath(tex: string, x: number, y: number, width: number, style: PdfTextStyle) {
+    const image = await renderMath(tex, style.fontSize, true);
+    if (!image) return writeInline([{ kind: "text", text: `$$${tex}$$`, style: "normal", mono: true }], x, y, width, style);
+
+    const scale = Math.min(1, width / image.width);
+    const height = (image.ascent + image.descent) * scale;
+    let top = y - style.fontSize * PT_TO_MM * 0.75;
+    if (top + height > options.bottomLimit) {
+      y = options.onNewPage();
+      top = y - style.fontSize * PT_TO_MM * 0.75;
+    }
+    doc.addImage(image.dataUrl, "PNG", x + (width - image.width * scale) / 2, top, image.width * scale, height);
+    return top + height + style.lineHeight;
+  }
+
+  async function writeBlock(
+    node: RootContent,
+    x: number,
+    y: number,
+    width: number,
+    style: PdfTextStyle,
+    fontStyle: FontStyle,
+  ): Promise<number> {
+    switch (node.type) {
+      case "paragraph":
+        // `$$…$$` written on one line parses as inline math; on its own it is still a display formula
+        if (node.children.length === 1 && node.children[0].type === "inlineMath") {
+          return writeDisplayMath(node.children[0].value, x, y, width, style);
+        }
+        return writeInline(collectRuns(node.children, fontStyle), x, y, width, style);
+      case "heading":
+        return writeInline(collectRuns(node.children, combine(fontStyle, "bold")), x, y, width, style);
+      case "code":
+        return writeCode(node.value, x, y, width, style);
+      case "math":
+        return writeDisplayMath(node.value, x, y, width, style);
+      case "list": {
+        for (const [index, item] of node.children.entries()) {
+          const marker = node.ordered ? `${(node.start ?? 1) + index}.` : "•";
+          if (y > options.bottomLimit) y = options.onNewPage();
+          setFont(fontStyle, false);
+          doc.setTextColor(...style.color);
+          doc.text(marker, x + 1, y);
+          for (const [childIndex, child] of item.children.entries()) {
+            if (childIndex > 0) y += BLOCK_GAP;
+            y = await writeBlock(child, x + LIST_INDENT, y, width - LIST_INDENT, style, fontStyle);
+          }
+        }
+        return y;
+      }
+      case "blockquote": {
+        for (const [index, child] of node.children.entries()) {
+          if (index > 0) y += BLOCK_GAP;
+          y = await writeBlock(child, x + 5, y, width - 5, style, combine(fontStyle, "italic"));
+        }
+        return y;
+      }
+      case "table": {
+        for (const [rowIndex, row] of node.children.entries()) {
+          const runs = row.children.flatMap((cell, cellIndex): Run[] => [
+            ...(cellIndex > 0 ? [{ kind: "text" as const, text: "  |  ", style: fontStyle, mono: false }] : []),
+            ...collectRuns(cell.children, rowIndex === 0 ? combine(fontStyle, "bold") : fontStyle),
+          ]);
+          y = await writeInline(runs, x, y, width, style);
+        }
+        return y;
+      }
+      case "thematicBreak":
+        doc.setDrawColor(220, 220, 220);
+        doc.line(x, y - 2, x + width, y - 2);
+        return y + style.lineHeight / 2;
+      default:
+        if ("children" in node) {
+          return writeInline(collectRuns((node as { children: PhrasingContent[] }).children, fontStyle), x, y, width, style);
+        }
+        return "value" in node
+          ? writeInline([{ kind: "text", text: String((node as Nodes & { value: unknown }).value), style: fontStyle, mono: false }], x, y, width, style)
+          : y;
+    }
+  }
+
+  return {
+    /**
+     * Writes `markdown` starting with the first baseline at `y`; resolves to where the next line's
+     * baseline goes. Adds pages through `onNewPage` when the text runs past `bottomLimit`.
+     */
+    async write(markdown: string, x: number, y: number, width: number, style: PdfTextStyle, fontStyle: FontStyle = "normal") {
+      doc.setFontSize(style.fontSize);
+      const root = parseRichText(markdown);
+      for (const [index, block] of root.children.entries()) {
+        if (index > 0) y += BLOCK_GAP;
+        y = await writeBlock(block, x, y, width, style, fontStyle);
+      }
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(...style.color);
+      return y;
+    },
+  };
+}
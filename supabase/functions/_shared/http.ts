@@ -0,0 +1,49 @@
+import { corsHeaders } from "./cors.ts";
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  opts?: { retries?: number; baseDelayMs?: number; retryOn?: number[] },
+): Promise<Response> {
+  const retries = opts?.retries ?? 3;
+  const baseDelayMs = opts?.baseDelayMs ?? 600;
+  const retryOn = opts?.retryOn ?? [429, 500, 502, 503, 504];
+
+  let last: Response | null = null;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const res = await fetch(url, init);
+    last = res;
+
+    if (!retryOn.includes(res.status)) return res;
+
+    const delay = baseDelayMs * Math.pow(2, attempt);
+    console.log(`Retrying ${url} after status ${res.status} (attempt ${attempt + 1}/${retries + 1}) delay=${delay}ms`);
+    await sleep(delay);
+  }
+
+  return last!;
+}
+
+/**
+ * Function replies are always 200 with `success` in the body, so `supabase.functions.invoke` hands
+ * the error message and code to the client instead of a generic HTTP error.
+ */
+export function jsonResponse<T extends { success: boolean }>(payload: T): Response {
+  return new Response(JSON.stringify(payload), {
+    status: 200,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** The reply for an exception nothing else handled; provider errors carry their `code` */
+export function errorPayload(error: unknown): { success: false; error: string; errorCode?: string } {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : "An unexpected error occurred",
+    errorCode: (error as { code?: string } | null)?.code,
+  };
+}
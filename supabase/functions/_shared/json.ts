@@ -0,0 +1,21 @@
+export function extractJsonFromText(input: string): string | null {
+  const fenced = input.match(/```json\s*([\s\S]*?)\s*```/i);
+  if (fenced?.[1]) return fenced[1].trim();
+
+  const firstBrace = input.indexOf("{");
+  const lastBrace = input.lastIndexOf("}");
+  if (firstBrace >= 0 && lastBrace > firstBrace) return input.slice(firstBrace, lastBrace + 1);
+
+  return null;
+}
+
+export function parseJsonLenient<T>(input: string): T {
+  const raw = extractJsonFromText(input) ?? input;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    // Remove trailing commas
+    const cleaned = raw.replace(/,\s*([}\]])/g, "$1");
+    return JSON.parse(cleaned) as T;
+  }
+}
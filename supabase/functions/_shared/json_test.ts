@@ -0,0 +1,21 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseJsonLenient } from "./json.ts";
+
+Deno.test("parseJsonLenient reads fenced JSON blocks", () => {
+  assertEquals(parseJsonLenient('Here you go:\n```json\n{"a": 1}\n```'), { a: 1 });
+});
+
+Deno.test("parseJsonLenient pulls the outermost object out of surrounding prose", () => {
+  assertEquals(parseJsonLenient('Sure! {"title": "T", "nested": {"x": [1, 2]}} Hope that helps.'), {
+    title: "T",
+    nested: { x: [1, 2] },
+  });
+});
+
+Deno.test("parseJsonLenient tolerates trailing commas", () => {
+  assertEquals(parseJsonLenient('{"keyPoints": ["a", "b",], "n": 1,}'), { keyPoints: ["a", "b"], n: 1 });
+});
+
+Deno.test("parseJsonLenient still throws on text with no JSON", () => {
+  assertThrows(() => parseJsonLenient("no json here"));
+});
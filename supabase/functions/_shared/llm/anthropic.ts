@@ -0,0 +1,57 @@
+import { fetchWithRetry } from "../http.ts";
+import { parseJsonLenient } from "../json.ts";
+import { LlmConfig, LlmProvider, StructuredRequest, throwForStatus } from "./types.ts";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Anthropic-style Messages API, forcing a single tool_use block for structured output. */
+export function createAnthropicProvider(config: LlmConfig): LlmProvider {
+  return {
+    name: "anthropic",
+    modelFor: (tier) => config.models[tier],
+
+    async generateStructured<T>(req: StructuredRequest): Promise<T> {
+      const body = {
+        model: config.models[req.tier],
+        system: req.system,
+        messages: [{ role: "user", content: req.user }],
+        max_tokens: req.maxTokens,
+        tools: [
+          {
+            name: req.toolName,
+            description: req.toolDescription,
+            input_schema: req.schema,
+          },
+        ],
+        tool_choice: { type: "tool", name: req.toolName },
+      };
+
+      const res = await fetchWithRetry(`${config.baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": config.apiKey ?? "",
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+      }, { retries: req.retries ?? 0, baseDelayMs: 1000, retryOn: [429, 500, 502, 503, 504, 529] });
+
+      if (!res.ok) await throwForStatus(res, "anthropic", req.errorMessage);
+
+      const data = await res.json();
+      const blocks = Array.isArray(data?.content) ? data.content : [];
+
+      const toolUse = blocks.find((b: { type?: string }) => b?.type === "tool_use");
+      if (toolUse?.input && typeof toolUse.input === "object") return toolUse.input as T;
+
+      const text = blocks
+        .filter((b: { type?: string }) => b?.type === "text")
+        .map((b: { text?: string }) => b.text ?? "")
+        .join("");
+      if (text.trim()) return parseJsonLenient(text);
+
+      console.error("Empty AI response:", JSON.stringify(data).slice(0, 800));
+      throw new Error("AI returned an empty response.");
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { createAnthropicProvider } from "./anthropic.ts";
+import { createMockProvider } from "./mock.ts";
+import { createOllamaProvider } from "./ollama.ts";
+import { createOpenAiCompatibleProvider } from "./openai.ts";
+import { LlmProvider, ModelTier } from "./types.ts";
+
+export type { LlmProvider, ModelTier, StructuredRequest } from "./types.ts";
+export { createMockProvider } from "./mock.ts";
+
+const DEFAULT_MODELS: Record<string, Record<ModelTier, string>> = {
+  lovable: { notes: "google/gemini-3-flash-preview", chunk: "google/gemini-2.5-flash-lite" },
+  openai: { notes: "gpt-4.1", chunk: "gpt-4.1-mini" },
+  anthropic: { notes: "claude-sonnet-4-5", chunk: "claude-haiku-4-5" },
+  ollama: { notes: "llama3.1", chunk: "llama3.1" },
+};
+
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  lovable: "https://ai.gateway.lovable.dev/v1",
+  openai: "https://api.openai.com/v1",
+  anthropic: "https://api.anthropic.com/v1",
+  ollama: "http://localhost:11434",
+};
+
+/**
+ * Picks the model provider from the environment:
+ * - LLM_PROVIDER: lovable (default) | openai | anthropic | ollama | mock
+ * - LLM_BASE_URL, LLM_API_KEY: endpoint and key (LOVABLE_API_KEY is still read for lovable)
+ * - LLM_MODEL_NOTES, LLM_MODEL_CHUNK: per-tier model overrides
+ * - LLM_MOCK_FIXTURES: path to a JSON file of `{ [toolName]: response }` for the mock provider
+ *
+ * Returns null when the selected provider is missing its API key.
+ */
+export function getLlmProvider(env: { get(key: string): string | undefined } = Deno.env): LlmProvider | null {
+  const name = (env.get("LLM_PROVIDER") || "lovable").toLowerCase();
+
+  if (name === "mock") {
+    const fixturesPath = env.get("LLM_MOCK_FIXTURES");
+    const fixtures = fixturesPath ? JSON.parse(Deno.readTextFileSync(fixturesPath)) : {};
+    return createMockProvider(fixtures);
+  }
+
+  const defaults = DEFAULT_MODELS[name];
+  if (!defaults) {
+    console.error("Unknown LLM_PROVIDER:", name);
+    return null;
+  }
+
+  const apiKey = env.get("LLM_API_KEY") || (name === "lovable" ? env.get("LOVABLE_API_KEY") : undefined);
+  if (!apiKey && name !== "ollama") return null;
+
+  const config = {
+    baseUrl: (env.get("LLM_BASE_URL") || DEFAULT_BASE_URLS[name]).replace(/\/+$/, ""),
+    apiKey,
+    models: {
+      notes: env.get("LLM_MODEL_NOTES") || defaults.notes,
+      chunk: env.get("LLM_MODEL_CHUNK") || defaults.chunk,
+    },
+  };
+
+  switch (name) {
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "ollama":
+      return createOllamaProvider(config);
+    default:
+      return createOpenAiCompatibleProvider(name, config);
+  }
+}
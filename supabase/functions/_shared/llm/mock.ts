@@ -0,0 +1,67 @@
+import { LlmProvider, StructuredRequest } from "./types.ts";
+
+type JsonSchema = {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+};
+
+export interface MockLlmProvider extends LlmProvider {
+  /** Every request the pipeline made, in order, for assertions in tests. */
+  calls: StructuredRequest[];
+}
+
+const TIMESTAMP_RE = /\[(\d+:\d{2}(?::\d{2})?)/;
+
+/**
+ * Deterministic, offline stand-in for a real model. A fixture registered under the request's tool name
+ * wins; otherwise an answer is derived from the prompt text so that it matches the tool's JSON schema.
+ */
+export function createMockProvider(fixtures: Record<string, unknown> = {}): MockLlmProvider {
+  const calls: StructuredRequest[] = [];
+
+  return {
+    name: "mock",
+    calls,
+    modelFor: (tier) => `mock-${tier}`,
+
+    generateStructured<T>(req: StructuredRequest): Promise<T> {
+      calls.push(req);
+      if (req.toolName in fixtures) {
+        return Promise.resolve(structuredClone(fixtures[req.toolName]) as T);
+      }
+
+      const lines = req.user
+        .split("\n")
+        .map((l) => l.trim())
+        .filter((l) => l && !/^[A-Z_ ]+:/.test(l));
+      let cursor = 0;
+      const nextLine = () => (lines.length ? lines[cursor++ % lines.length] : "mock");
+
+      const fake = (schema: JsonSchema, key: string): unknown => {
+        if (schema.enum?.length) return schema.enum[0];
+        switch (schema.type) {
+          case "object":
+            return Object.fromEntries(
+              Object.entries(schema.properties ?? {}).map(([k, s]) => [k, fake(s, k)]),
+            );
+          case "array":
+            return [0, 1, 2].map(() => fake(schema.items ?? { type: "string" }, key));
+          case "number":
+          case "integer":
+            return 0;
+          case "boolean":
+            return true;
+          default: {
+            const line = nextLine();
+            if (/timestamp/i.test(key)) return line.match(TIMESTAMP_RE)?.[1] ?? "";
+            return line.replace(/^\[[^\]]*\]\s*/, "").slice(0, 240);
+          }
+        }
+      };
+
+      return Promise.resolve(fake(req.schema as JsonSchema, req.toolName) as T);
+    },
+  };
+}
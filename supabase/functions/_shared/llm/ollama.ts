@@ -0,0 +1,39 @@
+import { fetchWithRetry } from "../http.ts";
+import { parseJsonLenient } from "../json.ts";
+import { LlmConfig, LlmProvider, StructuredRequest, throwForStatus } from "./types.ts";
+
+/** Local Ollama server via its native /api/chat, using the JSON schema as the `format` constraint. */
+export function createOllamaProvider(config: LlmConfig): LlmProvider {
+  return {
+    name: "ollama",
+    modelFor: (tier) => config.models[tier],
+
+    async generateStructured<T>(req: StructuredRequest): Promise<T> {
+      const body = {
+        model: config.models[req.tier],
+        messages: [
+          { role: "system", content: `${req.system}\n\nRespond only with JSON for "${req.toolName}": ${req.toolDescription}` },
+          { role: "user", content: req.user },
+        ],
+        format: req.schema,
+        stream: false,
+        options: { num_predict: req.maxTokens },
+      };
+
+      const res = await fetchWithRetry(`${config.baseUrl}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }, { retries: req.retries ?? 0, baseDelayMs: 1000 });
+
+      if (!res.ok) await throwForStatus(res, "ollama", req.errorMessage);
+
+      const data = await res.json();
+      const content = data?.message?.content;
+      if (typeof content === "string" && content.trim()) return parseJsonLenient(content);
+
+      console.error("Empty AI response:", JSON.stringify(data).slice(0, 800));
+      throw new Error("AI returned an empty response.");
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { fetchWithRetry } from "../http.ts";
+import { parseJsonLenient } from "../json.ts";
+import { LlmConfig, LlmProvider, StructuredRequest, throwForStatus } from "./types.ts";
+
+/** Any OpenAI-compatible chat completions endpoint (Lovable AI gateway, OpenAI, vLLM, LM Studio...). */
+export function createOpenAiCompatibleProvider(name: string, config: LlmConfig): LlmProvider {
+  return {
+    name,
+    modelFor: (tier) => config.models[tier],
+
+    async generateStructured<T>(req: StructuredRequest): Promise<T> {
+      const body = {
+        model: config.models[req.tier],
+        messages: [
+          { role: "system", content: req.system },
+          { role: "user", content: req.user },
+        ],
+        max_completion_tokens: req.maxTokens,
+        tools: [
+          {
+            type: "function",
+            function: {
+              name: req.toolName,
+              description: req.toolDescription,
+              parameters: req.schema,
+            },
+          },
+        ],
+        tool_choice: { type: "function", function: { name: req.toolName } },
+      };
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+      const res = await fetchWithRetry(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+      }, { retries: req.retries ?? 0, baseDelayMs: 1000 });
+
+      if (!res.ok) await throwForStatus(res, name, req.errorMessage);
+
+      const data = await res.json();
+      const msg = data?.choices?.[0]?.message;
+
+      // Tool-call path
+      const toolArgs = msg?.tool_calls?.[0]?.function?.arguments;
+      if (typeof toolArgs === "string" && toolArgs.trim()) return parseJsonLenient(toolArgs);
+
+      // Fallback: parse content if tool calls were not returned
+      const content = msg?.content;
+      if (typeof content === "string" && content.trim()) return parseJsonLenient(content);
+
+      console.error("Empty AI response:", JSON.stringify(data).slice(0, 800));
+      throw new Error("AI returned an empty response.");
+    },
+  };
+}
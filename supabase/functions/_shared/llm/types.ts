@@ -0,0 +1,44 @@
+// "notes" is the final synthesis call; "chunk" is the cheaper model used for map-reduce chunk summaries.
+export type ModelTier = "notes" | "chunk";
+
+export interface StructuredRequest {
+  tier: ModelTier;
+  system: string;
+  user: string;
+  /** Function/tool name the model must call; also the key fixtures are looked up by in the mock provider. */
+  toolName: string;
+  toolDescription: string;
+  schema: Record<string, unknown>;
+  maxTokens: number;
+  /** Extra attempts on 429/5xx, with the shared fetchWithRetry backoff. */
+  retries?: number;
+  /** User-facing message for non-retryable failures. */
+  errorMessage: string;
+}
+
+export interface LlmProvider {
+  name: string;
+  modelFor(tier: ModelTier): string;
+  generateStructured<T>(req: StructuredRequest): Promise<T>;
+}
+
+export interface LlmConfig {
+  baseUrl: string;
+  apiKey?: string;
+  models: Record<ModelTier, string>;
+}
+
+export function llmError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+// Shared mapping of provider HTTP failures to the pipeline's error codes
+export async function throwForStatus(res: Response, provider: string, errorMessage: string): Promise<never> {
+  const errorText = await res.text().catch(() => "");
+  console.error(`AI provider error (${provider}):`, res.status, errorText.slice(0, 800));
+
+  if (res.status === 429) throw llmError("Rate limit exceeded. Please try again in a moment.", "RATE_LIMIT");
+  if (res.status === 402) throw llmError("Usage limit reached. Please add credits to continue.", "PAYMENT_REQUIRED");
+
+  throw new Error(errorMessage);
+}
@@ -0,0 +1,48 @@
+import { createMockSttProvider } from "./mock.ts";
+import { createWhisperCompatibleProvider } from "./openai.ts";
+import { SttProvider } from "./types.ts";
+
+export type { SttProvider, SttSegment, TranscriptionRequest, TranscriptionResult } from "./types.ts";
+export { createMockSttProvider } from "./mock.ts";
+
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: "whisper-1",
+  "whisper-local": "Systran/faster-whisper-small",
+};
+
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  openai: "https://api.openai.com/v1",
+  "whisper-local": "http://localhost:8000/v1",
+};
+
+/**
+ * Picks the speech-to-text backend for uploaded audio/video from the environment:
+ * - STT_PROVIDER: openai (default) | whisper-local | mock
+ * - STT_BASE_URL, STT_API_KEY, STT_MODEL: endpoint, key and model overrides
+ * - STT_MOCK_FIXTURES: path to a JSON file of `{ [fileName]: segments }` for the mock provider
+ *
+ * Returns null when the selected provider is missing its API key.
+ */
+export function getSttProvider(env: { get(key: string): string | undefined } = Deno.env): SttProvider | null {
+  const name = (env.get("STT_PROVIDER") || "openai").toLowerCase();
+
+  if (name === "mock") {
+    const fixturesPath = env.get("STT_MOCK_FIXTURES");
+    const fixtures = fixturesPath ? JSON.parse(Deno.readTextFileSync(fixturesPath)) : {};
+    return createMockSttProvider(fixtures);
+  }
+
+  if (!DEFAULT_MODELS[name]) {
+    console.error("Unknown STT_PROVIDER:", name);
+    return null;
+  }
+
+  const apiKey = env.get("STT_API_KEY");
+  if (!apiKey && name !== "whisper-local") return null;
+
+  return createWhisperCompatibleProvider(name, {
+    baseUrl: (env.get("STT_BASE_URL") || DEFAULT_BASE_URLS[name]).replace(/\/+$/, ""),
+    apiKey,
+    model: env.get("STT_MODEL") || DEFAULT_MODELS[name],
+  });
+}
@@ -0,0 +1,38 @@
+import { SttProvider, SttSegment, TranscriptionRequest } from "./types.ts";
+
+export interface MockSttProvider extends SttProvider {
+  /** File names that were transcribed, in order, for assertions in tests. */
+  calls: string[];
+}
+
+const SECONDS_PER_LINE = 4;
+
+/**
+ * Offline stand-in for Whisper. Segments registered under the file name win; otherwise the "audio" is read
+ * as UTF-8 text and every non-empty line becomes one segment, four seconds apart.
+ */
+export function createMockSttProvider(fixtures: Record<string, SttSegment[]> = {}): MockSttProvider {
+  const calls: string[] = [];
+
+  return {
+    name: "mock",
+    calls,
+
+    async transcribe(req: TranscriptionRequest) {
+      calls.push(req.fileName);
+      if (req.fileName in fixtures) {
+        return { segments: structuredClone(fixtures[req.fileName]), language: req.language };
+      }
+
+      const lines = (await req.audio.text())
+        .split("\n")
+        .map((l) => l.trim())
+        .filter(Boolean);
+
+      return {
+        segments: lines.map((text, i) => ({ text, start: i * SECONDS_PER_LINE, duration: SECONDS_PER_LINE })),
+        language: req.language ?? "en",
+      };
+    },
+  };
+}
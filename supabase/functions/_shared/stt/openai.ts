@@ -0,0 +1,44 @@
+import { fetchWithRetry } from "../http.ts";
+import { throwForStatus } from "../llm/types.ts";
+import { SttConfig, SttProvider, TranscriptionRequest } from "./types.ts";
+
+type VerboseSegment = { start?: number; end?: number; text?: string };
+
+/**
+ * OpenAI's /audio/transcriptions and servers that copy it (faster-whisper-server, whisper.cpp server...).
+ * `verbose_json` is what carries per-segment timestamps.
+ */
+export function createWhisperCompatibleProvider(name: string, config: SttConfig): SttProvider {
+  return {
+    name,
+
+    async transcribe(req: TranscriptionRequest) {
+      const form = new FormData();
+      form.append("file", req.audio, req.fileName);
+      form.append("model", config.model);
+      form.append("response_format", "verbose_json");
+      form.append("timestamp_granularities[]", "segment");
+      if (req.language) form.append("language", req.language.split("-")[0]);
+
+      const headers: Record<string, string> = {};
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+      const res = await fetchWithRetry(`${config.baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers,
+        body: form,
+      }, { retries: 2, baseDelayMs: 1500 });
+
+      if (!res.ok) await throwForStatus(res, name, "Failed to transcribe the uploaded file. Please try again.");
+
+      const data = await res.json();
+      const segments = ((data?.segments ?? []) as VerboseSegment[]).flatMap((s) => {
+        const text = s.text?.trim();
+        if (typeof s.start !== "number" || !text) return [];
+        return [{ text, start: s.start, duration: Math.max(0, (s.end ?? s.start) - s.start) }];
+      });
+
+      return { segments, language: req.language || data?.language || undefined };
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// Same shape as the caption segments the note pipeline already works with
+export interface SttSegment {
+  text: string;
+  start: number;
+  duration: number;
+}
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  fileName: string;
+  /** Language hint (ISO code); providers auto-detect when it is missing. */
+  language?: string;
+}
+
+export interface TranscriptionResult {
+  segments: SttSegment[];
+  language?: string;
+}
+
+export interface SttProvider {
+  name: string;
+  transcribe(req: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export interface SttConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
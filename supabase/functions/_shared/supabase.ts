@@ -0,0 +1,23 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1?target=deno";
+
+/** Service-role client for edge functions; null when the function runs without Supabase env (tests, local mocks). */
+export function getSupabaseAdmin(clientInfo = "SummarIQ-edge") {
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !key) return null;
+
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { "X-Client-Info": clientInfo } },
+  });
+}
+
+export async function getUserIdFromRequest(req: Request): Promise<string | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!token || !supabaseAdmin) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data?.user) return null;
+  return data.user.id;
+}
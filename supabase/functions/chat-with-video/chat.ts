@@ -0,0 +1,91 @@
+import type { LlmProvider } from "../_shared/llm/index.ts";
+import { normalizeCitedTimestamps } from "../generate-notes/grounding.ts";
+import type { TranscriptSegment } from "../generate-notes/types.ts";
+import { buildBlocks, formatBlocks, retrieveBlocks } from "./retrieval.ts";
+
+export const MAX_QUESTION_CHARS = 1000;
+// Earlier turns sent along so follow-ups like "why?" make sense
+export const HISTORY_TURNS = 6;
+const RETRIEVED_BLOCKS = 6;
+
+export type ChatRole = "user" | "assistant";
+
+export type ChatTurn = { role: ChatRole; content: string };
+
+export type ChatAnswer = {
+  answer: string;
+  /** Transcript timestamps ("m:ss") the answer relies on */
+  citations: string[];
+};
+
+export type ChatMessage = {
+  id: string;
+  note_id: string;
+  role: ChatRole;
+  content: string;
+  citations: string[];
+  created_at: string;
+};
+
+export type ChatSuccessResponse = {
+  success: true;
+  question: ChatMessage;
+  answer: ChatMessage;
+};
+
+export async function answerQuestion(args: {
+  llm: LlmProvider;
+  videoTitle: string;
+  segments: TranscriptSegment[];
+  transcriptText: string;
+  history: ChatTurn[];
+  question: string;
+}): Promise<ChatAnswer> {
+  const { llm, videoTitle, segments, transcriptText, history, question } = args;
+
+  // The previous question is part of the query so "and the second one?" still retrieves the right passage
+  const previousQuestion = [...history].reverse().find((t) => t.role === "user")?.content ?? "";
+  const blocks = retrieveBlocks(buildBlocks(segments, transcriptText), `${question} ${previousQuestion}`, RETRIEVED_BLOCKS);
+  const timed = blocks.some((b) => b.start >= 0);
+
+  const conversation = history
+    .slice(-HISTORY_TURNS)
+    .map((t) => `${t.role === "user" ? "USER" : "ASSISTANT"}: ${t.content}`)
+    .join("\n");
+
+  const system = `You answer questions about a video using only the transcript excerpts provided.
+- If the excerpts do not contain the answer, say so plainly instead of guessing.
+- Answer in the language of the question. Be concise; use short paragraphs or bullets.
+${timed ? '- Put the timestamps (e.g. "4:05") of the excerpts you used in "timestamps" and mention them inline like [4:05].' : '- The transcript has no timestamps; leave "timestamps" empty.'}`;
+
+  const user = `VIDEO: ${videoTitle}
+
+TRANSCRIPT EXCERPTS:
+${formatBlocks(blocks)}
+${conversation ? `\nCONVERSATION SO FAR:\n${conversation}\n` : ""}
+QUESTION: ${question}`;
+
+  const result = await llm.generateStructured<{ answer: string; timestamps: string[] }>({
+    tier: "notes",
+    system,
+    user,
+    toolName: "answer_question",
+    toolDescription: "Answer a question about the video from its transcript.",
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: ["answer", "timestamps"],
+      properties: {
+        answer: { type: "string" },
+        timestamps: { type: "array", items: { type: "string" } },
+      },
+    },
+    maxTokens: 1200,
+    errorMessage: "Failed to answer. Please try again.",
+  });
+
+  return {
+    answer: String(result?.answer ?? "").trim(),
+    citations: timed ? normalizeCitedTimestamps(result?.timestamps) : [],
+  };
+}
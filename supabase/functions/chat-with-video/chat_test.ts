@@ -0,0 +1,66 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMockProvider } from "../_shared/llm/index.ts";
+import { answerQuestion } from "./chat.ts";
+import type { TranscriptSegment } from "../generate-notes/types.ts";
+
+const segments: TranscriptSegment[] = [
+  { text: "Welcome to the course on databases.", start: 0, duration: 5 },
+  { text: "An index speeds up lookups by keeping keys sorted.", start: 90, duration: 5 },
+  { text: "Transactions are atomic, consistent, isolated and durable.", start: 200, duration: 5 },
+];
+
+Deno.test("answers come from retrieved excerpts and keep normalized citations", async () => {
+  const llm = createMockProvider({
+    answer_question: { answer: " Indexes keep keys sorted [1:30]. ", timestamps: ["[1:30]", "0:01:30", "later"] },
+  });
+
+  const answer = await answerQuestion({
+    llm,
+    videoTitle: "Databases 101",
+    segments,
+    transcriptText: "",
+    history: [],
+    question: "Why is an index faster?",
+  });
+
+  assertEquals(answer, { answer: "Indexes keep keys sorted [1:30].", citations: ["1:30"] });
+  assertEquals(llm.calls[0].toolName, "answer_question");
+  assert(llm.calls[0].user.includes("[1:30] An index speeds up lookups"));
+  assert(!llm.calls[0].user.includes("CONVERSATION SO FAR"));
+});
+
+Deno.test("follow-ups see the conversation and retrieve with the previous question", async () => {
+  const llm = createMockProvider({ answer_question: { answer: "Durable means it survives a crash.", timestamps: [] } });
+
+  await answerQuestion({
+    llm,
+    videoTitle: "Databases 101",
+    segments,
+    transcriptText: "",
+    history: [
+      { role: "user", content: "What properties do transactions have?" },
+      { role: "assistant", content: "Atomic, consistent, isolated and durable [3:20]." },
+    ],
+    question: "What does the last one mean?",
+  });
+
+  const prompt = llm.calls[0].user;
+  assert(prompt.includes("CONVERSATION SO FAR:\nUSER: What properties do transactions have?"));
+  assert(prompt.includes("[3:20] Transactions are atomic"));
+});
+
+Deno.test("untimed transcripts never produce citations", async () => {
+  const llm = createMockProvider({ answer_question: { answer: "It covers databases.", timestamps: ["0:10"] } });
+
+  const answer = await answerQuestion({
+    llm,
+    videoTitle: "Pasted notes",
+    segments: [],
+    transcriptText: "This course covers databases, indexes and transactions.",
+    history: [],
+    question: "What does it cover?",
+  });
+
+  assertEquals(answer.citations, []);
+  assert(llm.calls[0].system.includes("no timestamps"));
+});
@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorPayload, jsonResponse } from "../_shared/http.ts";
+import { getLlmProvider } from "../_shared/llm/index.ts";
+import { getSupabaseAdmin, getUserIdFromRequest } from "../_shared/supabase.ts";
+import { loadNoteTranscript } from "../generate-notes/cache.ts";
+import type { ErrorResponse } from "../generate-notes/types.ts";
+import { answerQuestion, HISTORY_TURNS, MAX_QUESTION_CHARS, type ChatSuccessResponse, type ChatTurn } from "./chat.ts";
+
+async function handleChat(req: Request, body: Record<string, unknown>): Promise<ErrorResponse | ChatSuccessResponse> {
+  const supabaseAdmin = getSupabaseAdmin("SummarIQ-chat-with-video");
+  const userId = await getUserIdFromRequest(req);
+  if (!supabaseAdmin || !userId) {
+    return { success: false, error: "Sign in to ask questions about your notes", errorCode: "UNAUTHORIZED" };
+  }
+
+  const noteId = typeof body?.noteId === "string" ? body.noteId : "";
+  const question = typeof body?.question === "string" ? body.question.trim() : "";
+  if (!noteId || !question) {
+    return { success: false, error: "A note and a question are required", errorCode: "BAD_REQUEST" };
+  }
+  if (question.length > MAX_QUESTION_CHARS) {
+    return { success: false, error: `Questions are limited to ${MAX_QUESTION_CHARS} characters`, errorCode: "BAD_REQUEST" };
+  }
+
+  const { data: note } = await supabaseAdmin
+    .from("notes")
+    .select("id, user_id, video_title, video_url")
+    .eq("id", noteId)
+    .maybeSingle();
+  if (!note || note.user_id !== userId) {
+    return { success: false, error: "Note not found", errorCode: "NOT_FOUND" };
+  }
+
+  const transcript = await loadNoteTranscript(note);
+  if (!transcript) {
+    return { success: false, error: "The transcript for this note is no longer available", errorCode: "NO_TRANSCRIPT" };
+  }
+
+  const llm = getLlmProvider();
+  if (!llm) {
+    return { success: false, error: "AI service not configured", errorCode: "AI_NOT_CONFIGURED" };
+  }
+
+  const { data: recent } = await supabaseAdmin
+    .from("note_chat_messages")
+    .select("role, content")
+    .eq("note_id", noteId)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_TURNS);
+  const history = ((recent ?? []) as ChatTurn[]).reverse();
+
+  const answer = await answerQuestion({
+    llm,
+    videoTitle: note.video_title,
+    segments: transcript.segments,
+    transcriptText: transcript.text,
+    history,
+    question,
+  });
+
+  // Both turns are written together so a failed answer never leaves a dangling question
+  const askedAt = new Date();
+  const { data: saved, error } = await supabaseAdmin
+    .from("note_chat_messages")
+    .insert([
+      { note_id: noteId, user_id: userId, role: "user", content: question, citations: [], created_at: askedAt.toISOString() },
+      {
+        note_id: noteId,
+        user_id: userId,
+        role: "assistant",
+        content: answer.answer,
+        citations: answer.citations,
+        created_at: new Date(askedAt.getTime() + 1).toISOString(),
+      },
+    ])
+    .select("id, note_id, role, content, citations, created_at")
+    .order("created_at", { ascending: true });
+
+  if (error || saved?.length !== 2) {
+    console.error("Failed to save chat messages:", noteId, error?.message);
+    return { success: false, error: "The answer could not be saved. Please try again.", errorCode: "SAVE_FAILED" };
+  }
+
+  return { success: true, question: saved[0], answer: saved[1] };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    return jsonResponse(await handleChat(req, body));
+  } catch (error) {
+    console.error("Chat failed:", error);
+    return jsonResponse(errorPayload(error));
+  }
+});
@@ -0,0 +1,96 @@
+import { formatTimestamp } from "../generate-notes/parse.ts";
+import type { TranscriptSegment } from "../generate-notes/types.ts";
+
+export type TranscriptBlock = {
+  /** Seconds; -1 for transcripts without timing */
+  start: number;
+  text: string;
+};
+
+// Roughly what a speaker says in a paragraph; small enough that a hit is a precise citation
+export const BLOCK_SECONDS = 45;
+const UNTIMED_BLOCK_CHARS = 1200;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can do does for from has have how i if in is it its me my of on or so " +
+    "that the their them there they this to was we were what when where which who why will with you your"
+  ).split(" "),
+);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((w) => w.length > 1 && !STOPWORDS.has(w));
+}
+
+/** Groups caption segments into ~45 second blocks; untimed transcripts are cut by length instead. */
+export function buildBlocks(segments: TranscriptSegment[], text: string): TranscriptBlock[] {
+  const blocks: TranscriptBlock[] = [];
+
+  if (!segments.length) {
+    const words = text.split(/\s+/).filter(Boolean);
+    let current: string[] = [];
+    let length = 0;
+    for (const word of words) {
+      current.push(word);
+      length += word.length + 1;
+      if (length >= UNTIMED_BLOCK_CHARS) {
+        blocks.push({ start: -1, text: current.join(" ") });
+        current = [];
+        length = 0;
+      }
+    }
+    if (current.length) blocks.push({ start: -1, text: current.join(" ") });
+    return blocks;
+  }
+
+  let current: TranscriptSegment[] = [];
+  for (const segment of segments) {
+    if (current.length && segment.start - current[0].start >= BLOCK_SECONDS) {
+      blocks.push({ start: current[0].start, text: current.map((s) => s.text).join(" ") });
+      current = [];
+    }
+    current.push(segment);
+  }
+  if (current.length) blocks.push({ start: current[0].start, text: current.map((s) => s.text).join(" ") });
+  return blocks;
+}
+
+/**
+ * BM25 over the blocks. The best `limit` blocks are returned in transcript order so the model reads
+ * them as a continuous (if gappy) passage.
+ */
+export function retrieveBlocks(blocks: TranscriptBlock[], query: string, limit: number): TranscriptBlock[] {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length || !blocks.length) return blocks.slice(0, limit);
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const docs = blocks.map((block) => tokenize(block.text));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of terms) {
+    documentFrequency.set(term, docs.filter((d) => d.includes(term)).length);
+  }
+
+  const scored = docs.map((doc, index) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = doc.filter((w) => w === term).length;
+      if (!tf) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * doc.length) / avgLength)));
+    }
+    return { index, score };
+  });
+
+  const hits = scored.filter((s) => s.score > 0).sort((x, y) => y.score - x.score).slice(0, limit);
+  // Nothing matched (e.g. "summarize this"): fall back to the opening of the video
+  if (!hits.length) return blocks.slice(0, limit);
+  return hits.sort((x, y) => x.index - y.index).map((h) => blocks[h.index]);
+}
+
+export function formatBlocks(blocks: TranscriptBlock[]): string {
+  return blocks.map((b) => (b.start >= 0 ? `[${formatTimestamp(b.start)}] ${b.text}` : b.text)).join("\n\n");
+}
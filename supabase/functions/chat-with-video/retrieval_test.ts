@@ -0,0 +1,41 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildBlocks, formatBlocks, retrieveBlocks } from "./retrieval.ts";
+import type { TranscriptSegment } from "../generate-notes/types.ts";
+
+const segments: TranscriptSegment[] = [
+  { text: "Today we look at sorting algorithms.", start: 0, duration: 5 },
+  { text: "Bubble sort swaps neighbours until nothing moves.", start: 20, duration: 5 },
+  { text: "Merge sort splits the list in half and merges sorted halves.", start: 50, duration: 5 },
+  { text: "Its running time is n log n in every case.", start: 60, duration: 5 },
+  { text: "Quicksort picks a pivot and partitions around it.", start: 100, duration: 5 },
+];
+
+Deno.test("segments are grouped into blocks of about 45 seconds", () => {
+  const blocks = buildBlocks(segments, "");
+  assertEquals(blocks.map((b) => b.start), [0, 50, 100]);
+  assertEquals(
+    blocks[1].text,
+    "Merge sort splits the list in half and merges sorted halves. Its running time is n log n in every case.",
+  );
+});
+
+Deno.test("untimed transcripts are split by length", () => {
+  const blocks = buildBlocks([], "word ".repeat(400));
+  assertEquals(blocks.length, 2);
+  assertEquals(blocks.every((b) => b.start === -1), true);
+});
+
+Deno.test("the blocks that best match the question are returned in transcript order", () => {
+  const blocks = buildBlocks(segments, "");
+  assertEquals(retrieveBlocks(blocks, "What is the running time of merge sort?", 1).map((b) => b.start), [50]);
+  assertEquals(retrieveBlocks(blocks, "pivot or bubble?", 2).map((b) => b.start), [0, 100]);
+});
+
+Deno.test("questions without matching words fall back to the start of the video", () => {
+  const blocks = buildBlocks(segments, "");
+  assertEquals(retrieveBlocks(blocks, "Summarize this", 2).map((b) => b.start), [0, 50]);
+});
+
+Deno.test("blocks are formatted with their timestamps", () => {
+  assertEquals(formatBlocks([{ start: 65, text: "Hello" }, { start: -1, text: "Untimed" }]), "[1:05] Hello\n\nUntimed");
+});
@@ -0,0 +1,122 @@
+import type { LlmProvider } from "../_shared/llm/index.ts";
+import { normalizeCitedTimestamps } from "../generate-notes/grounding.ts";
+import type { NoteGrounding } from "../generate-notes/types.ts";
+
+export const MAX_CARDS = 30;
+const MAX_SIDE_CHARS = 600;
+
+export type FlashcardSourceKind = "key_point" | "section";
+
+export type NoteContent = {
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  sections: { title: string; content: string; timestamp?: string }[];
+  outputLanguage: string | null;
+  grounding: NoteGrounding | null;
+};
+
+/** A card ready to insert; scheduling columns take their table defaults */
+export type FlashcardDraft = {
+  front: string;
+  back: string;
+  source_kind: FlashcardSourceKind;
+  source_index: number;
+  /** Where in the video the card's material is covered, when known */
+  timestamp: string | null;
+};
+
+type RawCard = { front?: unknown; back?: unknown; source?: unknown; sourceIndex?: unknown };
+
+function clean(value: unknown): string {
+  return String(value ?? "").replace(/\s+/g, " ").trim().slice(0, MAX_SIDE_CHARS);
+}
+
+function sourceTimestamp(note: NoteContent, kind: FlashcardSourceKind, index: number): string | null {
+  if (kind === "section") {
+    return normalizeCitedTimestamps([note.sections[index]?.timestamp])[0] ?? null;
+  }
+  return note.grounding?.keyPoints[index]?.timestamps[0] ?? null;
+}
+
+/**
+ * Drops cards the model left half-empty or pointed at a key point/section that does not exist, and
+ * repeated questions (case-insensitive).
+ */
+export function normalizeFlashcards(raw: unknown, note: NoteContent): FlashcardDraft[] {
+  const cards = Array.isArray(raw) ? (raw as RawCard[]) : [];
+  const seen = new Set<string>();
+  const drafts: FlashcardDraft[] = [];
+
+  for (const card of cards) {
+    const front = clean(card?.front);
+    const back = clean(card?.back);
+    const kind: FlashcardSourceKind = card?.source === "section" ? "section" : "key_point";
+    const index = Number(card?.sourceIndex);
+    const count = kind === "section" ? note.sections.length : note.keyPoints.length;
+    const key = front.toLowerCase();
+
+    if (!front || !back || seen.has(key)) continue;
+    if (!Number.isInteger(index) || index < 0 || index >= count) continue;
+
+    seen.add(key);
+    drafts.push({ front, back, source_kind: kind, source_index: index, timestamp: sourceTimestamp(note, kind, index) });
+    if (drafts.length >= MAX_CARDS) break;
+  }
+
+  return drafts;
+}
+
+export async function generateFlashcards(llm: LlmProvider, note: NoteContent): Promise<FlashcardDraft[]> {
+  const keyPoints = note.keyPoints.map((point, i) => `[K${i}] ${point}`).join("\n");
+  const sections = note.sections.map((s, i) => `[S${i}] ${s.title}\n${s.content}`).join("\n\n");
+
+  const system = `You write study flashcards from lecture notes.
+- One fact, definition or idea per card. The front is a question; the back answers it in one or two sentences.
+- Cover every key point, then the most important details of each section. At most ${MAX_CARDS} cards.
+- Use only what the notes say. Write the cards in the language of the notes.
+- Set "source" to "key_point" or "section" and "sourceIndex" to the number in the [K#]/[S#] label the card comes from.`;
+
+  const user = `TITLE: ${note.title}
+
+SUMMARY: ${note.summary}
+
+KEY POINTS:
+${keyPoints}
+
+SECTIONS:
+${sections}`;
+
+  const result = await llm.generateStructured<{ cards: RawCard[] }>({
+    tier: "notes",
+    system,
+    user,
+    toolName: "create_flashcards",
+    toolDescription: "Create question/answer flashcards from the notes.",
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: ["cards"],
+      properties: {
+        cards: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["front", "back", "source", "sourceIndex"],
+            properties: {
+              front: { type: "string" },
+              back: { type: "string" },
+              source: { type: "string", enum: ["key_point", "section"] },
+              sourceIndex: { type: "integer" },
+            },
+          },
+        },
+      },
+    },
+    maxTokens: 4000,
+    errorMessage: "Failed to create flashcards. Please try again.",
+  });
+
+  return normalizeFlashcards(result?.cards, note);
+}
@@ -0,0 +1,80 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMockProvider } from "../_shared/llm/index.ts";
+import { generateFlashcards, MAX_CARDS, normalizeFlashcards, type NoteContent } from "./flashcards.ts";
+
+const note: NoteContent = {
+  title: "Databases 101",
+  summary: "An introduction to indexes and transactions.",
+  keyPoints: ["Indexes keep keys sorted", "Transactions are ACID"],
+  sections: [
+    { title: "Indexes", content: "B-trees make lookups logarithmic.", timestamp: "01:30" },
+    { title: "Transactions", content: "Atomic, consistent, isolated, durable." },
+  ],
+  outputLanguage: "en",
+  grounding: {
+    keyPoints: [
+      { timestamps: ["1:30"], excerpt: "", score: 1, supported: true },
+      { timestamps: [], excerpt: "", score: 0, supported: null },
+    ],
+    sections: [],
+    unsupported: 0,
+    verified: true,
+  },
+};
+
+Deno.test("cards keep the timestamp of the key point or section they come from", async () => {
+  const llm = createMockProvider({
+    create_flashcards: {
+      cards: [
+        { front: "What do indexes keep sorted? ", back: "The keys.", source: "key_point", sourceIndex: 0 },
+        { front: "What makes lookups logarithmic?", back: "B-trees.", source: "section", sourceIndex: 0 },
+        { front: "What does ACID stand for?", back: "Atomic, consistent, isolated, durable.", source: "section", sourceIndex: 1 },
+      ],
+    },
+  });
+
+  const cards = await generateFlashcards(llm, note);
+
+  assertEquals(cards, [
+    { front: "What do indexes keep sorted?", back: "The keys.", source_kind: "key_point", source_index: 0, timestamp: "1:30" },
+    { front: "What makes lookups logarithmic?", back: "B-trees.", source_kind: "section", source_index: 0, timestamp: "1:30" },
+    {
+      front: "What does ACID stand for?",
+      back: "Atomic, consistent, isolated, durable.",
+      source_kind: "section",
+      source_index: 1,
+      timestamp: null,
+    },
+  ]);
+  assertEquals(llm.calls[0].toolName, "create_flashcards");
+  assert(llm.calls[0].user.includes("[K1] Transactions are ACID"));
+  assert(llm.calls[0].user.includes("[S0] Indexes"));
+});
+
+Deno.test("empty, duplicate and out-of-range cards are dropped", () => {
+  const cards = normalizeFlashcards(
+    [
+      { front: "Q1", back: "A1", source: "key_point", sourceIndex: 1 },
+      { front: "q1", back: "again", source: "key_point", sourceIndex: 1 },
+      { front: "", back: "no question", source: "key_point", sourceIndex: 0 },
+      { front: "Q2", back: "", source: "key_point", sourceIndex: 0 },
+      { front: "Q3", back: "A3", source: "section", sourceIndex: 7 },
+      { front: "Q4", back: "A4", source: "section", sourceIndex: 0.5 },
+    ],
+    note,
+  );
+
+  assertEquals(cards.map((c) => c.front), ["Q1"]);
+  assertEquals(normalizeFlashcards("not a list", note), []);
+});
+
+Deno.test("at most MAX_CARDS cards are kept", () => {
+  const raw = Array.from({ length: MAX_CARDS + 5 }, (_, i) => ({
+    front: `Question ${i}`,
+    back: `Answer ${i}`,
+    source: "key_point",
+    sourceIndex: 0,
+  }));
+
+  assertEquals(normalizeFlashcards(raw, note).length, MAX_CARDS);
+});
@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorPayload, jsonResponse } from "../_shared/http.ts";
+import { getLlmProvider } from "../_shared/llm/index.ts";
+import { getSupabaseAdmin, getUserIdFromRequest } from "../_shared/supabase.ts";
+import type { ErrorResponse } from "../generate-notes/types.ts";
+import { generateFlashcards } from "./flashcards.ts";
+
+type FlashcardsSuccessResponse = {
+  success: true;
+  /** Every card of the note after this run, oldest first */
+  cards: Record<string, unknown>[];
+  created: number;
+};
+
+const FLASHCARD_COLUMNS =
+  "id, note_id, front, back, source_kind, source_index, timestamp, ease_factor, interval_days, repetitions, due_at, last_reviewed_at, created_at";
+
+async function handleGenerate(req: Request, body: Record<string, unknown>): Promise<ErrorResponse | FlashcardsSuccessResponse> {
+  const supabaseAdmin = getSupabaseAdmin("SummarIQ-generate-flashcards");
+  const userId = await getUserIdFromRequest(req);
+  if (!supabaseAdmin || !userId) {
+    return { success: false, error: "Sign in to create flashcards", errorCode: "UNAUTHORIZED" };
+  }
+
+  const noteId = typeof body?.noteId === "string" ? body.noteId : "";
+  if (!noteId) {
+    return { success: false, error: "A note is required", errorCode: "BAD_REQUEST" };
+  }
+
+  const { data: note } = await supabaseAdmin
+    .from("notes")
+    .select("id, user_id, video_title, summary, key_points, sections, output_language, grounding")
+    .eq("id", noteId)
+    .maybeSingle();
+  if (!note || note.user_id !== userId) {
+    return { success: false, error: "Note not found", errorCode: "NOT_FOUND" };
+  }
+
+  const llm = getLlmProvider();
+  if (!llm) {
+    return { success: false, error: "AI service not configured", errorCode: "AI_NOT_CONFIGURED" };
+  }
+
+  const drafts = await generateFlashcards(llm, {
+    title: note.video_title,
+    summary: note.summary,
+    keyPoints: Array.isArray(note.key_points) ? note.key_points : [],
+    sections: Array.isArray(note.sections) ? note.sections : [],
+    outputLanguage: note.output_language,
+    grounding: note.grounding,
+  });
+  if (!drafts.length) {
+    return { success: false, error: "No flashcards could be made from this note", errorCode: "NO_CARDS" };
+  }
+
+  // Regenerating replaces cards that were never studied; reviewed ones keep their schedule
+  const { error: deleteError } = await supabaseAdmin
+    .from("flashcards")
+    .delete()
+    .eq("note_id", noteId)
+    .is("last_reviewed_at", null);
+  if (deleteError) throw new Error(deleteError.message);
+
+  const { data: kept } = await supabaseAdmin.from("flashcards").select("front").eq("note_id", noteId);
+  const keptFronts = new Set((kept ?? []).map((c: { front: string }) => c.front.toLowerCase()));
+  const fresh = drafts.filter((d) => !keptFronts.has(d.front.toLowerCase()));
+
+  if (fresh.length) {
+    const { error } = await supabaseAdmin
+      .from("flashcards")
+      .insert(fresh.map((d) => ({ ...d, note_id: noteId, user_id: userId })));
+    if (error) {
+      console.error("Failed to save flashcards:", noteId, error.message);
+      return { success: false, error: "The flashcards could not be saved. Please try again.", errorCode: "SAVE_FAILED" };
+    }
+  }
+
+  const { data: cards } = await supabaseAdmin
+    .from("flashcards")
+    .select(FLASHCARD_COLUMNS)
+    .eq("note_id", noteId)
+    .order("created_at", { ascending: true });
+
+  return { success: true, cards: cards ?? [], created: fresh.length };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    return jsonResponse(await handleGenerate(req, body));
+  } catch (error) {
+    console.error("Flashcard generation failed:", error);
+    return jsonResponse(errorPayload(error));
+  }
+});
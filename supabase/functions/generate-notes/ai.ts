@@ -0,0 +1,185 @@
+import type { LlmProvider } from "../_shared/llm/index.ts";
+import { getCachedChunkSummaries, saveCachedChunkSummary } from "./cache.ts";
+import { splitIntoChunks, timestampRangeOf, mapWithConcurrency } from "./chunking.ts";
+import type { ChunkSummary, ProgressEmitter } from "./types.ts";
+
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function callAiNotes(args: {
+  llm: LlmProvider;
+  system: string;
+  user: string;
+  maxCompletionTokens: number;
+}): Promise<{
+  title: string;
+  summary: string;
+  keyPoints: Array<{ text: string; timestamps: string[] } | string>;
+  sections: Array<{ title: string; timestamp: string; content: string; timestamps?: string[] }>;
+}> {
+  const schema = {
+    type: "object",
+    additionalProperties: false,
+    required: ["title", "summary", "keyPoints", "sections"],
+    properties: {
+      title: { type: "string" },
+      summary: { type: "string" },
+      keyPoints: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["text", "timestamps"],
+          properties: {
+            text: { type: "string" },
+            // Transcript timestamps the point is based on
+            timestamps: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+      sections: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["title", "timestamp", "content", "timestamps"],
+          properties: {
+            title: { type: "string" },
+            timestamp: { type: "string" },
+            content: { type: "string" },
+            timestamps: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+  };
+
+  return await args.llm.generateStructured({
+    tier: "notes",
+    system: args.system,
+    user: args.user,
+    toolName: "create_notes",
+    toolDescription: "Create structured notes from a transcript.",
+    schema,
+    maxTokens: args.maxCompletionTokens,
+    errorMessage: "Failed to generate notes. Please try again.",
+  });
+}
+
+export async function callAiChunkSummary(args: {
+  llm: LlmProvider;
+  chunk: string;
+  maxCompletionTokens: number;
+}): Promise<ChunkSummary> {
+  const schema = {
+    type: "object",
+    additionalProperties: false,
+    required: ["chunkSummary", "chunkKeyPoints"],
+    properties: {
+      chunkSummary: { type: "string" },
+      chunkKeyPoints: { type: "array", items: { type: "string" } },
+    },
+  };
+
+  // Chunks run in parallel, so transient 429/5xx are retried per chunk instead of failing the whole batch
+  return await args.llm.generateStructured({
+    tier: "chunk",
+    system:
+      "Summarize this transcript chunk faithfully. Only use what is present. Keep it dense and factual. Do not add anything not in the chunk.",
+    user: args.chunk,
+    toolName: "chunk_notes",
+    toolDescription: "Return a dense summary and key points for a transcript chunk.",
+    schema,
+    maxTokens: args.maxCompletionTokens,
+    retries: 3,
+    errorMessage: "Failed to summarize transcript. Please try again.",
+  });
+}
+
+const SUMMARY_SEPARATOR = "\n\n---\n\n";
+
+const MAX_SUMMARY_LEVELS = 4;
+
+/**
+ * Map-reduce over the whole transcript: summarize every chunk, then summarize the joined summaries
+ * again until they fit in a single synthesis request. Nothing is dropped, however long the video.
+ * Chunks within a level run concurrently; each finished chunk is cached by content hash, so a
+ * retry after a partial failure only re-runs the chunks that failed.
+ */
+export async function summarizeHierarchically(args: {
+  llm: LlmProvider;
+  videoId: string;
+  transcript: string;
+  maxInputChars: number;
+  chunkChars: number;
+  concurrency: number;
+  onProgress: ProgressEmitter;
+}): Promise<{ combined: string; levels: number; chunksPerLevel: number[]; cachedChunks: number }> {
+  const { llm, videoId, maxInputChars, chunkChars, concurrency, onProgress } = args;
+
+  let input = args.transcript;
+  let separator = "\n";
+  let cachedChunks = 0;
+  const chunksPerLevel: number[] = [];
+
+  while (chunksPerLevel.length === 0 || (input.length > maxInputChars && chunksPerLevel.length < MAX_SUMMARY_LEVELS)) {
+    const level = chunksPerLevel.length + 1;
+    const chunks = splitIntoChunks(input, chunkChars, separator);
+    chunksPerLevel.push(chunks.length);
+
+    const prompts = chunks.map((chunk, i) => {
+      const range = timestampRangeOf(chunk);
+      return {
+        range,
+        text: `${level === 1 ? "CHUNK" : "SUMMARY GROUP"} ${i + 1}/${chunks.length}${range ? ` ${range}` : ""}:\n${chunk}`,
+      };
+    });
+    const hashes = await Promise.all(prompts.map((p) => sha256Hex(`${llm.name}:${llm.modelFor("chunk")}\n${p.text}`)));
+    const cached = await getCachedChunkSummaries(hashes);
+    cachedChunks += cached.size;
+    console.log("Summarizing chunks:", { level, chunks: chunks.length, cached: cached.size, concurrency });
+
+    let done = cached.size;
+    const results = await mapWithConcurrency(prompts, concurrency, async (prompt, i) => {
+      const hit = cached.get(hashes[i]);
+      if (hit) return hit;
+
+      const chunkNotes = await callAiChunkSummary({
+        llm,
+        chunk: prompt.text,
+        maxCompletionTokens: 900,
+      });
+      await saveCachedChunkSummary({ chunkHash: hashes[i], videoId, level, summary: chunkNotes });
+
+      done++;
+      onProgress({
+        stage: "chunk",
+        message: level === 1
+          ? `Summarized ${done} of ${chunks.length} parts...`
+          : `Condensed ${done} of ${chunks.length} summary groups (pass ${level})...`,
+        progress: level === 1 ? 35 + Math.round((35 * done) / chunks.length) : 70 + Math.min(10, level * 2),
+        detail: { done, total: chunks.length, level },
+      });
+      return chunkNotes;
+    });
+
+    const failed = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failed.length) {
+      console.error("Chunk summaries failed:", { level, failed: failed.length, total: chunks.length });
+      throw failed[0].reason;
+    }
+
+    input = results
+      .map((r, i) => {
+        const c = (r as PromiseFulfilledResult<ChunkSummary>).value;
+        const range = prompts[i].range;
+        return `CHUNK ${i + 1}${range ? ` ${range}` : ""}:\nSUMMARY: ${c.chunkSummary}\nKEY POINTS:\n- ${c.chunkKeyPoints.join("\n- ")}`;
+      })
+      .join(SUMMARY_SEPARATOR);
+    separator = SUMMARY_SEPARATOR;
+  }
+
+  return { combined: input, levels: chunksPerLevel.length, chunksPerLevel, cachedChunks };
+}
@@ -0,0 +1,278 @@
+import { getUserIdFromRequest } from "../_shared/supabase.ts";
+import { getSupabaseAdmin } from "./cache.ts";
+import { keepAlive, runGenerationJob, STALE_JOB_MS, staleJobIds } from "./jobs.ts";
+import { buildCourseNote, expandCollection, parseCollectionUrl } from "./playlist.ts";
+import { jsonResponse } from "./responses.ts";
+import { loadNoteTemplate } from "./templates.ts";
+
+// Per-video request fields that are carried over from the batch request
+const BATCH_OPTION_KEYS = ["videoType", "templateId", "outputLanguage", "captionLanguages"] as const;
+
+/**
+ * Builds the course note from every video note in the group and closes the group.
+ * Groups where some videos failed still get a course note over the ones that worked. The group is
+ * claimed with a conditional update first, so a resumed worker and the original one racing to the
+ * end of the queue never both write a course note.
+ */
+export async function finishBatch(groupId: string) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return;
+
+  const { data: group } = await supabaseAdmin
+    .from("note_groups")
+    .update({ status: "finishing" })
+    .eq("id", groupId)
+    .eq("status", "running")
+    .is("overview_note_id", null)
+    .select("id, user_id, title, source_url, options")
+    .maybeSingle();
+  if (!group) return;
+
+  const { data: notes } = await supabaseAdmin
+    .from("notes")
+    .select("video_title, video_url, duration, summary, key_points")
+    .eq("group_id", groupId)
+    .not("group_position", "is", null)
+    .order("group_position", { ascending: true });
+
+  const { count: failed } = await supabaseAdmin
+    .from("generation_jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("group_id", groupId)
+    .eq("status", "failed");
+
+  if (!notes?.length) {
+    await supabaseAdmin.from("note_groups").update({ status: "failed" }).eq("id", groupId);
+    return;
+  }
+
+  const course = buildCourseNote(group.title, notes);
+  const options = (group.options ?? {}) as Record<string, unknown>;
+  const { data: overview, error } = await supabaseAdmin
+    .from("notes")
+    .insert({
+      user_id: group.user_id,
+      video_url: group.source_url,
+      video_title: course.title,
+      video_type: (options.videoType as string | undefined) || "General",
+      duration: course.duration,
+      summary: course.summary,
+      key_points: course.keyPoints,
+      sections: course.sections,
+      group_id: groupId,
+    })
+    .select("id")
+    .single();
+
+  if (error || !overview) {
+    console.error("Failed to save course note:", groupId, error?.message);
+  }
+
+  await supabaseAdmin
+    .from("note_groups")
+    .update({ status: failed ? "partial" : "succeeded", overview_note_id: overview?.id ?? null })
+    .eq("id", groupId);
+}
+
+/**
+ * Works through a group's queued jobs one video at a time. Each job is claimed with a conditional
+ * update so a resumed worker and a still-running one never take the same video.
+ */
+export async function runBatch(groupId: string) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return;
+
+  const { data: group } = await supabaseAdmin
+    .from("note_groups")
+    .select("user_id, options")
+    .eq("id", groupId)
+    .maybeSingle();
+  if (!group) return;
+
+  const options = (group.options ?? {}) as Record<string, unknown>;
+
+  for (;;) {
+    const { data: next } = await supabaseAdmin
+      .from("generation_jobs")
+      .select("id, video_url, group_position")
+      .eq("group_id", groupId)
+      .eq("status", "queued")
+      .order("group_position", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (!next) break;
+
+    const { data: claimed } = await supabaseAdmin
+      .from("generation_jobs")
+      .update({ status: "running", message: "Starting...", progress: 1 })
+      .eq("id", next.id)
+      .eq("status", "queued")
+      .select("id")
+      .maybeSingle();
+    if (!claimed) continue;
+
+    await runGenerationJob(next.id, group.user_id, { ...options, videoUrl: next.video_url }, {
+      id: groupId,
+      position: next.group_position ?? 0,
+    }).catch(async (e) => {
+      console.error("Batch job crashed:", next.id, e);
+      await supabaseAdmin
+        .from("generation_jobs")
+        .update({ status: "failed", error: "An unexpected error occurred", error_code: "JOB_CRASHED" })
+        .eq("id", next.id);
+    });
+  }
+
+  const { count: unfinished } = await supabaseAdmin
+    .from("generation_jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("group_id", groupId)
+    .in("status", ["queued", "running"]);
+
+  if (!unfinished) await finishBatch(groupId);
+}
+
+// Batch mode: expand a playlist/channel, queue one job per video and start working through them.
+export async function submitBatch(req: Request, body: Record<string, unknown>): Promise<Response> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const userId = await getUserIdFromRequest(req);
+
+  if (!supabaseAdmin || !userId) {
+    return jsonResponse({ success: false, error: "Sign in to generate notes for a playlist", errorCode: "UNAUTHORIZED" });
+  }
+
+  const sourceUrl = typeof body?.videoUrl === "string" ? body.videoUrl : "";
+  const source = parseCollectionUrl(sourceUrl);
+  if (!source) {
+    return jsonResponse({ success: false, error: "Not a YouTube playlist or channel URL", errorCode: "INVALID_URL" });
+  }
+
+  // Checked up front rather than failing every video's job the same way
+  if (typeof body.templateId === "string" && body.templateId && !(await loadNoteTemplate(body.templateId, userId))) {
+    return jsonResponse({
+      success: false,
+      error: "This template can no longer be used. Check it and try again.",
+      errorCode: "INVALID_TEMPLATE",
+    });
+  }
+
+  let collection;
+  try {
+    collection = await expandCollection(source, sourceUrl);
+  } catch (e) {
+    console.error("Failed to expand collection:", sourceUrl, e);
+    return jsonResponse({ success: false, error: "Could not read this playlist. Is it public?", errorCode: "PLAYLIST_UNAVAILABLE" });
+  }
+
+  if (!collection.videos.length) {
+    return jsonResponse({ success: false, error: "This playlist has no videos we can read", errorCode: "PLAYLIST_EMPTY" });
+  }
+
+  const options = Object.fromEntries(
+    BATCH_OPTION_KEYS.filter((key) => body[key] !== undefined).map((key) => [key, body[key]]),
+  );
+
+  const { data: group, error: groupError } = await supabaseAdmin
+    .from("note_groups")
+    .insert({
+      user_id: userId,
+      title: collection.title,
+      source_url: sourceUrl,
+      kind: collection.kind,
+      video_count: collection.videos.length,
+      videos: collection.videos,
+      options,
+    })
+    .select("id")
+    .single();
+
+  if (groupError || !group) {
+    console.error("Failed to create note group:", groupError?.message);
+    return jsonResponse({ success: false, error: "Could not start generation. Please try again.", errorCode: "JOB_CREATE_FAILED" });
+  }
+
+  const { error: jobsError } = await supabaseAdmin.from("generation_jobs").insert(
+    collection.videos.map((video, i) => ({
+      user_id: userId,
+      video_url: video.url,
+      video_type: (body.videoType as string | undefined) || "General",
+      group_id: group.id,
+      group_position: i,
+    })),
+  );
+
+  if (jobsError) {
+    console.error("Failed to queue batch jobs:", group.id, jobsError.message);
+    await supabaseAdmin.from("note_groups").delete().eq("id", group.id);
+    return jsonResponse({ success: false, error: "Could not start generation. Please try again.", errorCode: "JOB_CREATE_FAILED" });
+  }
+
+  keepAlive(runBatch(group.id).catch((e) => console.error("Batch crashed:", group.id, e)));
+
+  return jsonResponse({ success: true, groupId: group.id, videoCount: collection.videos.length });
+}
+
+/**
+ * Batch workers run the whole queue in one call and get shut down by the edge runtime's time limit
+ * on long playlists. Clients call this when a group stops moving: the video that was cut off goes
+ * back to the queue and a fresh worker picks up from there.
+ */
+export async function resumeBatch(req: Request, body: Record<string, unknown>): Promise<Response> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const userId = await getUserIdFromRequest(req);
+  const groupId = typeof body?.groupId === "string" ? body.groupId : "";
+
+  if (!supabaseAdmin || !userId) {
+    return jsonResponse({ success: false, error: "Sign in to resume this playlist", errorCode: "UNAUTHORIZED" });
+  }
+
+  const { data: group } = await supabaseAdmin
+    .from("note_groups")
+    .select("id, status")
+    .eq("id", groupId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!group) {
+    return jsonResponse({ success: false, error: "Playlist not found", errorCode: "NOT_FOUND" });
+  }
+
+  // A worker shut down while writing the course note leaves the group finishing; it gets another go
+  if (group.status === "finishing") {
+    const { data: reopened } = await supabaseAdmin
+      .from("note_groups")
+      .update({ status: "running" })
+      .eq("id", groupId)
+      .eq("status", "finishing")
+      .is("overview_note_id", null)
+      .lt("updated_at", new Date(Date.now() - STALE_JOB_MS).toISOString())
+      .select("status")
+      .maybeSingle();
+    if (reopened) group.status = reopened.status;
+  }
+
+  if (group.status === "running") {
+    const { data: running } = await supabaseAdmin
+      .from("generation_jobs")
+      .select("id, updated_at")
+      .eq("group_id", groupId)
+      .eq("status", "running");
+
+    const stale = staleJobIds(running ?? []);
+    if (stale.length) {
+      const { error } = await supabaseAdmin
+        .from("generation_jobs")
+        .update({ status: "queued", stage: null, message: null, progress: 0 })
+        .in("id", stale)
+        .eq("status", "running");
+      if (error) console.error("Failed to requeue stalled batch jobs:", groupId, error.message);
+    }
+
+    // Only start a worker when nothing is still in flight
+    if ((running ?? []).length === stale.length) {
+      keepAlive(runBatch(groupId).catch((e) => console.error("Batch crashed:", groupId, e)));
+    }
+  }
+
+  return jsonResponse({ success: true, groupId });
+}
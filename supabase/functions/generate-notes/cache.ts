@@ -0,0 +1,113 @@
+import { getSupabaseAdmin as getSharedSupabaseAdmin } from "../_shared/supabase.ts";
+import { extractVideoId } from "./parse.ts";
+import type { TranscriptSegment, TranscriptResult, ChunkSummary } from "./types.ts";
+
+export function getSupabaseAdmin() {
+  return getSharedSupabaseAdmin("SummarIQ-generate-notes");
+}
+
+export async function getCachedTranscript(videoId: string): Promise<TranscriptResult | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from("video_transcripts_cache")
+    .select("transcript, segments, lang, source, updated_at")
+    .eq("video_id", videoId)
+    .maybeSingle();
+
+  if (error || !data?.transcript) return null;
+
+  const segments = Array.isArray(data.segments) ? data.segments : [];
+
+  return {
+    transcript: data.transcript,
+    segments,
+    lang: data.lang ?? undefined,
+    source: "cache",
+    usedCache: true,
+  };
+}
+
+// Notes saved since transcripts are stored with them have their own copy; older ones fall back to the shared cache
+export async function loadNoteTranscript(
+  note: { id: string; video_url: string },
+): Promise<{ segments: TranscriptSegment[]; text: string } | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return null;
+
+  const { data } = await supabaseAdmin
+    .from("note_transcripts")
+    .select("segments, text")
+    .eq("note_id", note.id)
+    .maybeSingle();
+  if (data?.text) {
+    return { segments: Array.isArray(data.segments) ? data.segments : [], text: data.text };
+  }
+
+  const cacheKey = note.video_url.startsWith("upload:") ? note.video_url : extractVideoId(note.video_url);
+  const cached = cacheKey ? await getCachedTranscript(cacheKey) : null;
+  return cached ? { segments: cached.segments, text: cached.transcript } : null;
+}
+
+export async function saveCachedTranscript(args: {
+  videoId: string;
+  transcript: string;
+  segments: TranscriptSegment[];
+  lang?: string;
+  source: string;
+}) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return;
+
+  await supabaseAdmin
+    .from("video_transcripts_cache")
+    .upsert({
+      video_id: args.videoId,
+      transcript: args.transcript,
+      segments: args.segments,
+      lang: args.lang ?? null,
+      source: args.source,
+    }, { onConflict: "video_id" });
+}
+
+export async function getCachedChunkSummaries(hashes: string[]): Promise<Map<string, ChunkSummary>> {
+  const cached = new Map<string, ChunkSummary>();
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin || !hashes.length) return cached;
+
+  const { data, error } = await supabaseAdmin
+    .from("chunk_summaries_cache")
+    .select("chunk_hash, chunk_summary, chunk_key_points")
+    .in("chunk_hash", hashes);
+
+  if (error || !data) return cached;
+
+  for (const row of data) {
+    cached.set(row.chunk_hash, {
+      chunkSummary: row.chunk_summary,
+      chunkKeyPoints: Array.isArray(row.chunk_key_points) ? row.chunk_key_points : [],
+    });
+  }
+  return cached;
+}
+
+export async function saveCachedChunkSummary(args: {
+  chunkHash: string;
+  videoId: string;
+  level: number;
+  summary: ChunkSummary;
+}) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return;
+
+  await supabaseAdmin
+    .from("chunk_summaries_cache")
+    .upsert({
+      chunk_hash: args.chunkHash,
+      video_id: args.videoId,
+      level: args.level,
+      chunk_summary: args.summary.chunkSummary,
+      chunk_key_points: args.summary.chunkKeyPoints,
+    }, { onConflict: "chunk_hash" });
+}
@@ -0,0 +1,87 @@
+// Breaks one oversized unit (e.g. an untimestamped transcript) at sentence ends, hard-slicing only as a last resort
+function splitLongUnit(unit: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of unit.split(/(?<=[.!?])\s+/)) {
+    if (sentence.length > maxChars) {
+      if (current) pieces.push(current);
+      current = "";
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars));
+      }
+      continue;
+    }
+
+    const next = current ? `${current} ${sentence}` : sentence;
+    if (next.length > maxChars) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = next;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Packs whole units (timestamped `[m:ss]` blocks by default) into chunks of at most maxChars, keeping all of the text
+export function splitIntoChunks(text: string, maxChars: number, separator = "\n"): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const units = text.split(separator).flatMap((unit) => (unit.length > maxChars ? splitLongUnit(unit, maxChars) : [unit]));
+
+  for (const unit of units) {
+    if (!unit.trim()) continue;
+    const next = current ? `${current}${separator}${unit}` : unit;
+    if (next.length > maxChars && current) {
+      chunks.push(current);
+      current = unit;
+    } else {
+      current = next;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// "[0:00 - 12:34]" style range covering the timestamps found in a chunk, or "" when it has none
+export function timestampRangeOf(chunk: string): string {
+  const re = /\[(\d+:\d{2}(?::\d{2})?)(?:\s*-\s*(\d+:\d{2}(?::\d{2})?))?\]/g;
+  let first: string | null = null;
+  let last: string | null = null;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(chunk))) {
+    first ??= m[1];
+    last = m[2] ?? m[1];
+  }
+  if (!first || !last) return "";
+  return first === last ? `[${first}]` : `[${first} - ${last}]`;
+}
+
+// Runs fn over items with at most `limit` calls in flight; results keep the input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,58 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { mapWithConcurrency, splitIntoChunks, timestampRangeOf } from "./chunking.ts";
+
+const blocks = Array.from({ length: 60 }, (_, i) => `[${i}:00] ${"word ".repeat(40 + (i % 5)).trim()}.`);
+const transcript = blocks.join("\n");
+
+Deno.test("splitIntoChunks keeps the whole transcript and only splits between [m:ss] blocks", () => {
+  const chunks = splitIntoChunks(transcript, 1000);
+
+  assert(chunks.length > 1);
+  assertEquals(chunks.join("\n"), transcript);
+  for (const chunk of chunks) {
+    assert(chunk.length <= 1000);
+    assert(chunk.startsWith("["), "every chunk starts on a block boundary");
+  }
+});
+
+Deno.test("splitIntoChunks breaks an untimestamped transcript at sentence ends", () => {
+  const text = "This is one sentence. ".repeat(200).trim();
+  const chunks = splitIntoChunks(text, 500);
+
+  assertEquals(chunks.join(" "), text);
+  for (const chunk of chunks) {
+    assert(chunk.length <= 500);
+    assert(chunk.endsWith("."));
+  }
+});
+
+Deno.test("splitIntoChunks honours a custom separator", () => {
+  const text = ["A: one", "B: two", "C: three"].join("\n\n---\n\n");
+
+  assertEquals(splitIntoChunks(text, 20, "\n\n---\n\n"), ["A: one\n\n---\n\nB: two", "C: three"]);
+});
+
+Deno.test("timestampRangeOf spans the first and last timestamps, including ranges", () => {
+  assertEquals(timestampRangeOf("[0:00] a\n[4:30] b\n[12:05] c"), "[0:00 - 12:05]");
+  assertEquals(timestampRangeOf("CHUNK 1 [0:00 - 9:59]: x\nCHUNK 2 [10:00 - 1:02:03]: y"), "[0:00 - 1:02:03]");
+  assertEquals(timestampRangeOf("[3:15] only"), "[3:15]");
+  assertEquals(timestampRangeOf("no timestamps"), "");
+});
+
+Deno.test("mapWithConcurrency caps in-flight work, keeps order and isolates failures", async () => {
+  let inFlight = 0;
+  let peak = 0;
+
+  const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (n) => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight--;
+    if (n === 4) throw new Error("boom");
+    return n * 10;
+  });
+
+  assertEquals(peak, 2);
+  assertEquals(results.map((r) => r.status), ["fulfilled", "fulfilled", "fulfilled", "rejected", "fulfilled", "fulfilled"]);
+  assertEquals((results[5] as PromiseFulfilledResult<number>).value, 60);
+});
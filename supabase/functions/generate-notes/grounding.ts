@@ -0,0 +1,108 @@
+import { formatTimestamp } from "./parse.ts";
+import { parseClockTime } from "./subtitles.ts";
+import type { NoteCitation, NoteGrounding, TranscriptSegment } from "./types.ts";
+
+// A cited timestamp points at the start of a timestamped block; this much transcript after it is its span
+export const DEFAULT_SPAN_SECONDS = 60;
+// Share of a claim's content words that must appear in its cited spans
+export const SUPPORT_THRESHOLD = 0.35;
+const MAX_EXCERPT_CHARS = 400;
+
+const STOPWORDS = new Set(
+  (
+    "about above after again against also among because been before being below between both could does doing " +
+    "down during each from further have having here into itself just more most much must only other over same " +
+    "should some such than that their them then there these they this those through under until very were what " +
+    "when where which while will with would your"
+  ).split(" "),
+);
+
+export type CitedClaim = { text: string; timestamps: string[] };
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((w) => w.length > 3 && !STOPWORDS.has(w));
+}
+
+// Crude stemming: "recursion"/"recursive" and "trees"/"tree" should count as the same word
+const stem = (word: string) => word.slice(0, 6);
+
+/** Cited timestamps the model returned, normalized to "m:ss"; anything that is not a clock time is dropped. */
+export function normalizeCitedTimestamps(timestamps: unknown): string[] {
+  if (!Array.isArray(timestamps)) return [];
+  const seen = new Set<string>();
+  for (const value of timestamps) {
+    const clock = typeof value === "string" ? value.match(/\d{1,2}(?::\d{2}){1,2}/)?.[0] : undefined;
+    if (clock) seen.add(formatTimestamp(parseClockTime(clock)));
+  }
+  return [...seen];
+}
+
+/** The transcript text inside the spans starting at each cited timestamp. */
+export function citedExcerpt(segments: TranscriptSegment[], timestamps: string[], spanSeconds: number): string {
+  const starts = timestamps.map(parseClockTime);
+  return segments
+    .filter((s) => starts.some((start) => s.start >= start && s.start < start + spanSeconds))
+    .map((s) => s.text)
+    .join(" ");
+}
+
+/** Fraction of the claim's content words (by stem) that occur in the excerpt. */
+export function supportScore(claim: string, excerpt: string): number {
+  const claimStems = new Set(contentWords(claim).map(stem));
+  if (!claimStems.size) return 1;
+  const excerptStems = new Set(contentWords(excerpt).map(stem));
+  let found = 0;
+  for (const s of claimStems) if (excerptStems.has(s)) found++;
+  return Math.round((found / claimStems.size) * 100) / 100;
+}
+
+function checkClaim(
+  claim: CitedClaim,
+  segments: TranscriptSegment[],
+  spanSeconds: number,
+  verify: boolean,
+): NoteCitation {
+  const timestamps = normalizeCitedTimestamps(claim.timestamps);
+  const excerpt = citedExcerpt(segments, timestamps, spanSeconds);
+  const score = supportScore(claim.text, excerpt);
+  return {
+    timestamps,
+    excerpt: excerpt.length > MAX_EXCERPT_CHARS ? `${excerpt.slice(0, MAX_EXCERPT_CHARS)}…` : excerpt,
+    score,
+    // Word overlap means nothing across languages, so translated notes keep their citations unchecked
+    supported: verify ? timestamps.length > 0 && score >= SUPPORT_THRESHOLD : null,
+  };
+}
+
+/**
+ * Checks each key point and section against the transcript spans it cites. A claim with no citations,
+ * or whose cited spans share too few words with it, is marked unsupported.
+ */
+export function groundNotes(args: {
+  keyPoints: CitedClaim[];
+  sections: CitedClaim[];
+  segments: TranscriptSegment[];
+  spanSeconds?: number;
+  verify: boolean;
+}): NoteGrounding {
+  const spanSeconds = args.spanSeconds ?? DEFAULT_SPAN_SECONDS;
+  const keyPoints = args.keyPoints.map((c) => checkClaim(c, args.segments, spanSeconds, args.verify));
+  const sections = args.sections.map((c) => checkClaim(c, args.segments, spanSeconds, args.verify));
+  const unsupported = [...keyPoints, ...sections].filter((c) => c.supported === false).length;
+  return { keyPoints, sections, unsupported, verified: args.verify, spanSeconds };
+}
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/** Whether notes requested in `outputLanguage` (a name like "Spanish") are written in the transcript's own language. */
+export function isTranscriptLanguage(outputLanguage: string | null, transcriptLang: string | undefined): boolean {
+  if (!outputLanguage) return true;
+  if (!transcriptLang) return false;
+  const base = transcriptLang.split("-")[0].toLowerCase();
+  const requested = outputLanguage.trim().toLowerCase();
+  try {
+    return requested === base || requested.startsWith((languageNames.of(base) ?? base).toLowerCase());
+  } catch {
+    return requested === base;
+  }
+}
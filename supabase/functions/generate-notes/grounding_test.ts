@@ -0,0 +1,68 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { citedExcerpt, groundNotes, isTranscriptLanguage, normalizeCitedTimestamps, supportScore } from "./grounding.ts";
+import type { TranscriptSegment } from "./types.ts";
+
+const segments: TranscriptSegment[] = [
+  { text: "Photosynthesis turns light into chemical energy.", start: 0, duration: 4 },
+  { text: "It happens inside the chloroplasts of plant cells.", start: 4, duration: 4 },
+  { text: "Cellular respiration releases that energy again.", start: 120, duration: 4 },
+];
+
+Deno.test("cited timestamps are normalized and deduplicated", () => {
+  assertEquals(normalizeCitedTimestamps(["[2:00]", "0:02:00", "12:05 - 13:00", "soon", 42]), ["2:00", "12:05"]);
+  assertEquals(normalizeCitedTimestamps("2:00"), []);
+});
+
+Deno.test("a citation spans the transcript following the cited timestamp", () => {
+  assertEquals(
+    citedExcerpt(segments, ["0:00"], 60),
+    "Photosynthesis turns light into chemical energy. It happens inside the chloroplasts of plant cells.",
+  );
+  assertEquals(citedExcerpt(segments, ["1:00"], 60), "");
+});
+
+Deno.test("support is the share of content words found in the excerpt", () => {
+  assertEquals(supportScore("Photosynthesis happens in chloroplasts", segments[0].text + segments[1].text), 1);
+  assertEquals(supportScore("Mitochondria store glucose", segments[0].text), 0);
+  assertEquals(supportScore("It is", ""), 1);
+});
+
+Deno.test("claims without citations or support are flagged", () => {
+  const grounding = groundNotes({
+    keyPoints: [
+      { text: "Photosynthesis happens in chloroplasts", timestamps: ["0:00"] },
+      { text: "Mitochondria store glucose for winter", timestamps: ["2:00"] },
+      { text: "Respiration releases energy", timestamps: [] },
+    ],
+    sections: [{ text: "Respiration. Cellular respiration releases energy.", timestamps: ["2:00"] }],
+    segments,
+    verify: true,
+  });
+
+  assertEquals(grounding.keyPoints.map((c) => c.supported), [true, false, false]);
+  assertEquals(grounding.sections[0].supported, true);
+  assertEquals(grounding.sections[0].excerpt, "Cellular respiration releases that energy again.");
+  assertEquals(grounding.unsupported, 2);
+  assertEquals(grounding.spanSeconds, 60);
+});
+
+Deno.test("translated notes keep citations but are not checked", () => {
+  const grounding = groundNotes({
+    keyPoints: [{ text: "La fotosíntesis ocurre en los cloroplastos", timestamps: ["0:00"] }],
+    sections: [],
+    segments,
+    verify: false,
+  });
+
+  assertEquals(grounding.keyPoints[0].supported, null);
+  assert(grounding.keyPoints[0].excerpt.startsWith("Photosynthesis"));
+  assertEquals(grounding.unsupported, 0);
+});
+
+Deno.test("output language names are matched against caption codes", () => {
+  assert(isTranscriptLanguage(null, "de"));
+  assert(isTranscriptLanguage("English", "en-US"));
+  assert(isTranscriptLanguage("Chinese (Simplified)", "zh-Hans"));
+  assert(!isTranscriptLanguage("Spanish", "en"));
+  assert(!isTranscriptLanguage("Spanish", undefined));
+});
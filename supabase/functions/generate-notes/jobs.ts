@@ -0,0 +1,165 @@
+import { getUserIdFromRequest } from "../_shared/supabase.ts";
+import { getSupabaseAdmin } from "./cache.ts";
+import { mediaCacheKey } from "./media.ts";
+import { generateNotesSafely } from "./pipeline.ts";
+import { jsonResponse } from "./responses.ts";
+
+// Supabase edge runtime global; keeps a background promise alive after the response is sent.
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// A running job that has not reported progress for this long belonged to a worker that was shut down
+export const STALE_JOB_MS = 5 * 60 * 1000;
+
+export function keepAlive(work: Promise<unknown>) {
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(work);
+  }
+}
+
+// Uploads have no video URL; they are stored as `upload:<storage path>`
+function sourceUrlOf(body: Record<string, unknown>): string {
+  if (typeof body.videoUrl === "string" && body.videoUrl) return body.videoUrl;
+  return mediaCacheKey(String(body.mediaPath));
+}
+
+/** The jobs that stopped reporting progress, which a worker killed by a timeout or redeploy leaves behind */
+export function staleJobIds(jobs: { id: string; updated_at: string }[]): string[] {
+  const staleBefore = Date.now() - STALE_JOB_MS;
+  return jobs.filter((j) => new Date(j.updated_at).getTime() < staleBefore).map((j) => j.id);
+}
+
+/** Fails the stale ones among standalone jobs and returns their ids */
+export async function failStaleJobs(jobs: { id: string; updated_at: string }[]): Promise<string[]> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const stale = staleJobIds(jobs);
+  if (!supabaseAdmin || !stale.length) return stale;
+
+  const { error } = await supabaseAdmin
+    .from("generation_jobs")
+    .update({ status: "failed", error: "Generation was interrupted", error_code: "JOB_STALLED" })
+    .in("id", stale);
+  if (error) console.error("Failed to fail stalled jobs:", error.message);
+  return stale;
+}
+
+export async function runGenerationJob(
+  jobId: string,
+  userId: string,
+  body: Record<string, unknown>,
+  group?: { id: string; position: number },
+) {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return;
+
+  const updateJob = async (fields: Record<string, unknown>) => {
+    const { error } = await supabaseAdmin.from("generation_jobs").update(fields).eq("id", jobId);
+    if (error) console.error("Failed to update generation job:", jobId, error.message);
+  };
+
+  await updateJob({ status: "running" });
+
+  // Serialize progress writes so a slow update can never overwrite a later stage
+  let pendingUpdate: Promise<void> = Promise.resolve();
+  const payload = await generateNotesSafely(body, (event) => {
+    pendingUpdate = pendingUpdate.then(() =>
+      updateJob({ stage: event.stage, message: event.message, progress: event.progress })
+    );
+  }, { userId });
+  await pendingUpdate;
+
+  if (!payload.success) {
+    await updateJob({ status: "failed", error: payload.error, error_code: payload.errorCode ?? null });
+    return;
+  }
+
+  const { data: note, error: noteError } = await supabaseAdmin
+    .from("notes")
+    .insert({
+      user_id: userId,
+      video_url: sourceUrlOf(body),
+      video_title: payload.notes.title,
+      video_type: (body.videoType as string | undefined) || "General",
+      // The pipeline only succeeds with a template that belongs to this user
+      template_id: typeof body.templateId === "string" && body.templateId ? body.templateId : null,
+      duration: payload.notes.duration,
+      summary: payload.notes.summary,
+      key_points: payload.notes.keyPoints,
+      sections: payload.notes.sections,
+      transcript_language: payload.notes.sourceLanguage,
+      output_language: payload.notes.outputLanguage,
+      grounding: payload.notes.grounding,
+      group_id: group?.id ?? null,
+      group_position: group?.position ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (noteError || !note) {
+    console.error("Failed to save job note:", jobId, noteError?.message);
+    await updateJob({ status: "failed", error: "Notes were generated but could not be saved.", error_code: "SAVE_FAILED" });
+    return;
+  }
+
+  // The notes are still usable without it, so a failed transcript write only gets logged
+  const { error: transcriptError } = await supabaseAdmin.from("note_transcripts").insert({
+    note_id: note.id,
+    user_id: userId,
+    source: payload.transcript.source,
+    language: payload.transcript.language,
+    segments: payload.transcript.segments,
+    text: payload.transcript.text,
+  });
+  if (transcriptError) console.error("Failed to save job transcript:", jobId, transcriptError.message);
+
+  await updateJob({ status: "succeeded", progress: 100, result_note_id: note.id });
+}
+
+// Job mode: record the request, answer with its id right away and finish the pipeline in the background.
+export async function submitGenerationJob(req: Request, body: Record<string, unknown>): Promise<Response> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const userId = await getUserIdFromRequest(req);
+
+  if (!supabaseAdmin || !userId) {
+    return jsonResponse({ success: false, error: "Sign in to run generation in the background", errorCode: "UNAUTHORIZED" });
+  }
+
+  if (!body?.videoUrl && !body?.mediaPath) {
+    return jsonResponse({ success: false, error: "Video URL is required", errorCode: "BAD_REQUEST" });
+  }
+
+  // Jobs whose worker died are never finished by it; close them before starting another
+  const { data: unfinished } = await supabaseAdmin
+    .from("generation_jobs")
+    .select("id, updated_at")
+    .eq("user_id", userId)
+    .is("group_id", null)
+    .in("status", ["queued", "running"]);
+  await failStaleJobs(unfinished ?? []);
+
+  const { data: job, error } = await supabaseAdmin
+    .from("generation_jobs")
+    .insert({
+      user_id: userId,
+      video_url: sourceUrlOf(body),
+      video_type: (body.videoType as string | undefined) || "General",
+    })
+    .select("id")
+    .single();
+
+  if (error || !job) {
+    console.error("Failed to create generation job:", error?.message);
+    return jsonResponse({ success: false, error: "Could not start generation. Please try again.", errorCode: "JOB_CREATE_FAILED" });
+  }
+
+  const work = runGenerationJob(job.id, userId, body).catch(async (e) => {
+    console.error("Generation job crashed:", job.id, e);
+    await supabaseAdmin
+      .from("generation_jobs")
+      .update({ status: "failed", error: "An unexpected error occurred", error_code: "JOB_CRASHED" })
+      .eq("id", job.id);
+  });
+
+  keepAlive(work);
+
+  return jsonResponse({ success: true, jobId: job.id });
+}
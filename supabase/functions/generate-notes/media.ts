@@ -0,0 +1,100 @@
+import type { SttProvider } from "../_shared/stt/index.ts";
+import { getCachedTranscript, getSupabaseAdmin, saveCachedTranscript } from "./cache.ts";
+import { noopProgress, type ProgressEmitter, type TranscriptResult } from "./types.ts";
+
+export const MEDIA_BUCKET = "media-uploads";
+// Matches the bucket's file_size_limit and the Whisper API upload limit
+export const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+export type MediaDownloader = (mediaPath: string) => Promise<Blob | null>;
+
+export async function downloadMediaFromStorage(mediaPath: string): Promise<Blob | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return null;
+
+  const { data, error } = await supabaseAdmin.storage.from(MEDIA_BUCKET).download(mediaPath);
+  if (error || !data) {
+    console.error("Failed to download uploaded media:", mediaPath, error?.message);
+    return null;
+  }
+  return data;
+}
+
+// Uploads live under `<user id>/<uuid>-<file name>`; the display name is the part after the uuid
+export function mediaFileName(mediaPath: string): string {
+  const base = mediaPath.split("/").pop() ?? mediaPath;
+  return base.replace(/^[0-9a-f-]{36}-/i, "");
+}
+
+// Cache key for transcripts of uploads, kept apart from YouTube video ids
+export function mediaCacheKey(mediaPath: string): string {
+  return `upload:${mediaPath}`;
+}
+
+/**
+ * Transcript source for uploaded audio/video: download from Storage, run speech-to-text and hand back
+ * timestamped segments in the same shape YouTube captions produce.
+ */
+export async function transcribeUploadedMedia(args: {
+  mediaPath: string;
+  stt: SttProvider;
+  language?: string;
+  download?: MediaDownloader;
+  onProgress?: ProgressEmitter;
+}): Promise<{ result: TranscriptResult | null; debug: Record<string, unknown> }> {
+  const { mediaPath, stt, language } = args;
+  const download = args.download ?? downloadMediaFromStorage;
+  const onProgress = args.onProgress ?? noopProgress;
+  const cacheKey = mediaCacheKey(mediaPath);
+  const debug: Record<string, unknown> = { mediaPath, stt: stt.name };
+
+  onProgress({ stage: "transcript_attempt", message: "Checking transcript cache...", progress: 8, detail: { source: "cache" } });
+  const cached = await getCachedTranscript(cacheKey);
+  if (cached) {
+    onProgress({
+      stage: "cache_hit",
+      message: "Found cached transcript",
+      progress: 30,
+      detail: { segments: cached.segments.length },
+    });
+    return { result: cached, debug: { ...debug, mode: "cache", segments: cached.segments.length } };
+  }
+
+  onProgress({ stage: "transcript_attempt", message: "Loading your file...", progress: 10, detail: { source: "upload" } });
+  const audio = await download(mediaPath);
+  if (!audio) {
+    return { result: null, debug: { ...debug, mode: "none", error: "download_failed" } };
+  }
+  if (audio.size > MAX_MEDIA_BYTES) {
+    return { result: null, debug: { ...debug, mode: "none", error: "too_large", bytes: audio.size } };
+  }
+
+  onProgress({
+    stage: "transcript_attempt",
+    message: "Transcribing audio...",
+    progress: 14,
+    detail: { source: "stt", bytes: audio.size },
+  });
+  const startedAt = Date.now();
+  const transcription = await stt.transcribe({ audio, fileName: mediaFileName(mediaPath), language });
+  debug.transcriptionMs = Date.now() - startedAt;
+
+  const segments = transcription.segments;
+  const transcript = segments.map((s) => s.text).join(" ");
+  if (!segments.length) {
+    return { result: null, debug: { ...debug, mode: "none", error: "empty_transcription" } };
+  }
+
+  await saveCachedTranscript({
+    videoId: cacheKey,
+    transcript,
+    segments,
+    lang: transcription.language,
+    source: "upload",
+  });
+
+  return {
+    result: { transcript, segments, lang: transcription.language, source: "upload", usedCache: false },
+    debug: { ...debug, mode: "upload", transcriptChars: transcript.length, segments: segments.length },
+  };
+}
@@ -0,0 +1,163 @@
+import type { TranscriptSegment } from "./types.ts";
+
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function decodeXmlEntities(input: string): string {
+  let s = input
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\n/g, " ");
+
+  // Numeric entities
+  s = s.replace(/&#(\d+);/g, (_, num) => {
+    const code = Number(num);
+    return Number.isFinite(code) ? String.fromCharCode(code) : "";
+  });
+
+  // Trim + collapse whitespace
+  return s.replace(/\s+/g, " ").trim();
+}
+
+export function parseAttributes(attrString: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /(\w+)="([^"]*)"/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(attrString))) {
+    attrs[m[1]] = m[2];
+  }
+  return attrs;
+}
+
+export function extractVideoId(videoUrl: string): string | null {
+  const videoIdMatch = videoUrl.match(
+    /(?:youtube\.com\/(?:watch\?v=|embed\/|v\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/,
+  );
+  return videoIdMatch ? videoIdMatch[1] : null;
+}
+
+export function parseStartSecondsFromUrl(videoUrl: string): number {
+  try {
+    const u = new URL(videoUrl);
+    const t = u.searchParams.get("t") || u.searchParams.get("start");
+    if (!t) return 0;
+
+    // supports: 1706, 1706s, 1h2m3s
+    if (/^\d+$/.test(t)) return Number(t);
+    if (/^\d+s$/.test(t)) return Number(t.slice(0, -1));
+
+    const h = t.match(/(\d+)h/);
+    const m = t.match(/(\d+)m/);
+    const s = t.match(/(\d+)s/);
+
+    return (h ? Number(h[1]) * 3600 : 0) + (m ? Number(m[1]) * 60 : 0) + (s ? Number(s[1]) : 0);
+  } catch {
+    return 0;
+  }
+}
+
+export function parseTimedTextXml(xml: string): { transcript: string; segments: TranscriptSegment[] } {
+  const segments: TranscriptSegment[] = [];
+  let full = "";
+
+  const textRe = /<text\b([^>]*)>([\s\S]*?)<\/text>/g;
+  let m: RegExpExecArray | null;
+  while ((m = textRe.exec(xml))) {
+    const attrs = parseAttributes(m[1]);
+    const start = Number(attrs.start || 0);
+    const dur = Number(attrs.dur || 0);
+    const text = decodeXmlEntities(m[2] || "");
+    if (!text) continue;
+    segments.push({ text, start, duration: dur });
+    full += text + " ";
+  }
+
+  return { transcript: full.trim(), segments };
+}
+
+export function buildTimestampedTranscript(segments: TranscriptSegment[], groupSize = 12): string {
+  const blocks: string[] = [];
+  for (let i = 0; i < segments.length; i += groupSize) {
+    const group = segments.slice(i, i + groupSize);
+    if (!group.length) continue;
+    const start = group[0].start;
+    const text = group.map((s) => s.text).join(" ").replace(/\s+/g, " ").trim();
+    if (!text) continue;
+    blocks.push(`[${formatTimestamp(start)}] ${text}`);
+  }
+  return blocks.join("\n");
+}
+
+export function computeDurationFromSegments(segments: TranscriptSegment[]): string {
+  if (!segments.length) return "Unknown";
+  let maxEnd = 0;
+  for (const s of segments) {
+    const end = (s.start || 0) + (s.duration || 0);
+    if (end > maxEnd) maxEnd = end;
+  }
+  if (!Number.isFinite(maxEnd) || maxEnd <= 0) return "Unknown";
+  return formatTimestamp(maxEnd);
+}
+
+export function extractBalancedJsonObjectAfterMarker(html: string, marker: string): string | null {
+  const idx = html.indexOf(marker);
+  if (idx < 0) return null;
+
+  const startBrace = html.indexOf("{", idx);
+  if (startBrace < 0) return null;
+
+  let depth = 0;
+  let inStr = false;
+  let esc = false;
+
+  for (let i = startBrace; i < html.length; i++) {
+    const ch = html[i];
+
+    if (inStr) {
+      if (esc) {
+        esc = false;
+        continue;
+      }
+      if (ch === "\\") {
+        esc = true;
+        continue;
+      }
+      if (ch === '"') {
+        inStr = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inStr = true;
+      continue;
+    }
+
+    if (ch === "{") depth++;
+    if (ch === "}") {
+      depth--;
+      if (depth === 0) {
+        return html.slice(startBrace, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+export function extractQuotedValue(html: string, key: string): string | null {
+  const re = new RegExp(`"${key}":"([^"]+)"`);
+  const m = html.match(re);
+  return m?.[1] ?? null;
+}
@@ -0,0 +1,78 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildTimestampedTranscript,
+  computeDurationFromSegments,
+  decodeXmlEntities,
+  extractBalancedJsonObjectAfterMarker,
+  extractQuotedValue,
+  formatTimestamp,
+  parseStartSecondsFromUrl,
+  parseTimedTextXml,
+} from "./parse.ts";
+import { readFixture } from "./test_helpers.ts";
+
+Deno.test("formatTimestamp pads minutes and only shows hours when needed", () => {
+  assertEquals(formatTimestamp(0), "0:00");
+  assertEquals(formatTimestamp(65.9), "1:05");
+  assertEquals(formatTimestamp(3723), "1:02:03");
+});
+
+Deno.test("decodeXmlEntities handles named, numeric and double-encoded entities", () => {
+  assertEquals(decodeXmlEntities("it&#39;s &quot;fine&quot; &lt;b&gt;"), 'it\'s "fine" <b>');
+  assertEquals(decodeXmlEntities("a &#8212; b"), "a — b");
+  assertEquals(decodeXmlEntities("don&amp;#39;t"), "don't");
+  assertEquals(decodeXmlEntities("  two\nlines   here "), "two lines here");
+});
+
+Deno.test("parseStartSecondsFromUrl reads t= and start= in every YouTube format", () => {
+  assertEquals(parseStartSecondsFromUrl("https://www.youtube.com/watch?v=abcdefghijk&t=1706"), 1706);
+  assertEquals(parseStartSecondsFromUrl("https://youtu.be/abcdefghijk?t=90s"), 90);
+  assertEquals(parseStartSecondsFromUrl("https://www.youtube.com/watch?v=abcdefghijk&t=1h2m3s"), 3723);
+  assertEquals(parseStartSecondsFromUrl("https://www.youtube.com/embed/abcdefghijk?start=15"), 15);
+  assertEquals(parseStartSecondsFromUrl("https://www.youtube.com/watch?v=abcdefghijk"), 0);
+  assertEquals(parseStartSecondsFromUrl("not a url"), 0);
+});
+
+Deno.test("parseTimedTextXml decodes text, keeps timings and skips empty cues", async () => {
+  const { transcript, segments } = parseTimedTextXml(await readFixture("timedtext_en.xml"));
+
+  assertEquals(segments.length, 14);
+  assertEquals(segments[0], {
+    text: "Welcome back everyone, today we're covering binary search trees.",
+    start: 0,
+    duration: 3.2,
+  });
+  assertEquals(segments[2].text, "Every node's left subtree holds smaller keys & the right subtree holds larger ones.");
+  assertEquals(segments[13].text, "That is why we will look at AVL and red-black trees next week.");
+  assertEquals(transcript.startsWith("Welcome back everyone"), true);
+});
+
+Deno.test("buildTimestampedTranscript groups segments into [m:ss] blocks", () => {
+  const segments = Array.from({ length: 5 }, (_, i) => ({ text: `line ${i}`, start: i * 30, duration: 30 }));
+
+  assertEquals(buildTimestampedTranscript(segments, 2), "[0:00] line 0 line 1\n[1:00] line 2 line 3\n[2:00] line 4");
+  assertEquals(computeDurationFromSegments(segments), "2:30");
+  assertEquals(computeDurationFromSegments([]), "Unknown");
+});
+
+Deno.test("extractBalancedJsonObjectAfterMarker ignores braces and escaped quotes inside strings", async () => {
+  const html = await readFixture("watch_page.html");
+  const json = extractBalancedJsonObjectAfterMarker(html, "ytInitialPlayerResponse");
+  const player = JSON.parse(json!);
+
+  assertEquals(player.videoDetails.title, 'Lecture 7: "Binary {Search} Trees"');
+  assertEquals(player.captions.playerCaptionsTracklistRenderer.captionTracks.length, 2);
+});
+
+Deno.test("extractBalancedJsonObjectAfterMarker returns null for missing or unterminated objects", () => {
+  assertEquals(extractBalancedJsonObjectAfterMarker("<html></html>", "ytInitialPlayerResponse"), null);
+  assertEquals(extractBalancedJsonObjectAfterMarker('var ytInitialPlayerResponse = {"a":{"b":1}', "ytInitialPlayerResponse"), null);
+});
+
+Deno.test("extractQuotedValue reads ytcfg string values", async () => {
+  const html = await readFixture("watch_page_no_tracks.html");
+
+  assertEquals(extractQuotedValue(html, "INNERTUBE_API_KEY"), "AIzaSyInnertubeKey");
+  assertEquals(extractQuotedValue(html, "INNERTUBE_CLIENT_VERSION"), "2.20241001.00.00");
+  assertEquals(extractQuotedValue(html, "MISSING_KEY"), null);
+});
@@ -0,0 +1,366 @@
+import { errorPayload } from "../_shared/http.ts";
+import { getLlmProvider, type LlmProvider } from "../_shared/llm/index.ts";
+import { getSttProvider, type SttProvider } from "../_shared/stt/index.ts";
+import { callAiNotes, summarizeHierarchically } from "./ai.ts";
+import { formatTimestamp, extractVideoId, parseStartSecondsFromUrl, buildTimestampedTranscript, computeDurationFromSegments } from "./parse.ts";
+import { mediaCacheKey, mediaFileName, transcribeUploadedMedia, type MediaDownloader } from "./media.ts";
+import { DEFAULT_SPAN_SECONDS, groundNotes, isTranscriptLanguage, type CitedClaim } from "./grounding.ts";
+import { LENGTH_MAX_TOKENS, loadNoteTemplate, templateRequirements, type NoteTemplate } from "./templates.ts";
+import { getVideoTitleViaOEmbed, fetchTranscriptBestEffort, listAvailableCaptionTracks } from "./transcript.ts";
+import type { CaptionTracksResponse, ErrorResponse, SuccessResponse, ProgressEmitter, TranscriptResult } from "./types.ts";
+
+export type PipelineDeps = {
+  // Injected in tests; defaults to the provider selected by environment config
+  llm?: LlmProvider | null;
+  stt?: SttProvider | null;
+  downloadMedia?: MediaDownloader;
+  /** Authenticated caller; required for generating from uploaded media and with a template. */
+  userId?: string | null;
+  loadTemplate?: typeof loadNoteTemplate;
+};
+
+// Only BCP 47-looking codes are passed on to YouTube, and only a few of them
+function readCaptionLanguages(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((lang): lang is string => typeof lang === "string" && /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(lang))
+    .slice(0, 3);
+}
+
+function readOutputLanguage(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  return value.trim().slice(0, 40) || null;
+}
+
+// System prompt persona per video type
+export const VIDEO_TYPE_PROMPTS: Record<string, string> = {
+  "Academic Lecture":
+    "You are an expert academic note-taker. Produce university-grade notes with precise definitions, clear structure, and high fidelity to the transcript.",
+  Tutorial:
+    "You are an expert technical writer. Produce step-by-step tutorial notes with prerequisites, steps, pitfalls, and best practices strictly from the transcript.",
+  Motivational:
+    "You are an inspirational content summarizer. Produce actionable notes, key themes, and meaningful quotes strictly from the transcript.",
+  "Review Session":
+    "You are an exam prep specialist. Produce revision-focused notes, formulas/definitions, practice prompts, and common mistakes strictly from the transcript.",
+  "Q&A Format":
+    "You are a Q&A summarizer. Extract questions and answers, key insights, and unresolved questions strictly from the transcript.",
+  General:
+    "You are a comprehensive note-taker. Produce well-organized notes strictly from the transcript.",
+};
+
+/** The opening of the system prompt: the template's own instructions, else the video type's. */
+export function promptPersona(videoType: string, template: NoteTemplate | null): string {
+  if (template) return template.systemPrompt || VIDEO_TYPE_PROMPTS.General;
+  return VIDEO_TYPE_PROMPTS[videoType] || VIDEO_TYPE_PROMPTS.General;
+}
+
+/** The output-language line of the notes prompt; null keeps the transcript's language. */
+export function languageRequirement(outputLanguage: string | null): string {
+  return outputLanguage
+    ? `- Write all notes in ${outputLanguage}, translating from the transcript where needed. Keep timestamps unchanged.`
+    : "- Write the notes in the same language as the transcript.";
+}
+
+type LoadedSource = {
+  success: true;
+  videoId: string;
+  videoTitle: string;
+  startSeconds: number;
+  transcriptResult: TranscriptResult;
+  transcriptDebug: Record<string, unknown>;
+};
+
+async function loadYouTubeSource(args: {
+  videoUrl: string;
+  videoType: string;
+  transcriptOverride?: string;
+  captionLanguages: string[];
+  onProgress: ProgressEmitter;
+}): Promise<ErrorResponse | LoadedSource> {
+  const { videoUrl, videoType, transcriptOverride, captionLanguages, onProgress } = args;
+  const videoId = extractVideoId(videoUrl);
+
+  if (!videoId) {
+    return { success: false, error: "Invalid YouTube URL", errorCode: "INVALID_URL" };
+  }
+
+  const startSeconds = parseStartSecondsFromUrl(videoUrl);
+  console.log("Processing video:", { videoId, videoType, startSeconds, hasOverride: !!transcriptOverride });
+  onProgress({ stage: "start", message: "Connecting to video...", progress: 5, detail: { videoId } });
+
+  const videoTitle = await getVideoTitleViaOEmbed(videoId);
+
+  const { result: transcriptResult, debug: transcriptDebug } = await fetchTranscriptBestEffort({
+    videoId,
+    transcriptOverride,
+    captionLanguages,
+    onProgress,
+  });
+
+  if (!transcriptResult) {
+    return {
+      success: false,
+      error:
+        "Could not fetch captions/transcript for this video (YouTube may be rate-limiting or captions are disabled). Paste a transcript to continue.",
+      errorCode: "NO_TRANSCRIPT",
+      debug: transcriptDebug,
+    };
+  }
+
+  return { success: true, videoId, videoTitle, startSeconds, transcriptResult, transcriptDebug };
+}
+
+async function loadUploadedSource(args: {
+  body: Record<string, unknown>;
+  mediaPath: string;
+  captionLanguages: string[];
+  onProgress: ProgressEmitter;
+  deps: PipelineDeps;
+}): Promise<ErrorResponse | LoadedSource> {
+  const { body, mediaPath, captionLanguages, onProgress, deps } = args;
+
+  // Storage is read with the service role, so the path has to sit in the caller's own folder
+  if (!deps.userId || !mediaPath.startsWith(`${deps.userId}/`)) {
+    return { success: false, error: "Sign in to generate notes from an uploaded file", errorCode: "UNAUTHORIZED" };
+  }
+
+  const stt = deps.stt !== undefined ? deps.stt : getSttProvider();
+  if (!stt) {
+    return { success: false, error: "Transcription service not configured", errorCode: "STT_NOT_CONFIGURED" };
+  }
+
+  console.log("Processing upload:", { mediaPath, stt: stt.name });
+  onProgress({ stage: "start", message: "Preparing your upload...", progress: 5, detail: { mediaPath } });
+
+  const { result: transcriptResult, debug: transcriptDebug } = await transcribeUploadedMedia({
+    mediaPath,
+    stt,
+    language: captionLanguages[0],
+    download: deps.downloadMedia,
+    onProgress,
+  });
+
+  if (!transcriptResult) {
+    return {
+      success: false,
+      error:
+        transcriptDebug.error === "too_large"
+          ? "The uploaded file is larger than 25 MB. Please upload a shorter or compressed file."
+          : "Could not transcribe the uploaded file. Make sure it contains audible speech.",
+      errorCode: "TRANSCRIPTION_FAILED",
+      debug: transcriptDebug,
+    };
+  }
+
+  const mediaTitle = typeof body?.mediaTitle === "string" ? body.mediaTitle.trim() : "";
+
+  return {
+    success: true,
+    videoId: mediaCacheKey(mediaPath),
+    videoTitle: mediaTitle || mediaFileName(mediaPath),
+    startSeconds: 0,
+    transcriptResult,
+    transcriptDebug,
+  };
+}
+
+export async function generateNotes(
+  body: Record<string, unknown>,
+  onProgress: ProgressEmitter,
+  deps: PipelineDeps = {},
+): Promise<ErrorResponse | SuccessResponse> {
+  const videoUrl = body?.videoUrl as string | undefined;
+  const videoType = (body?.videoType as string | undefined) || "General";
+  const transcriptOverride = body?.transcriptOverride as string | undefined;
+  const captionLanguages = readCaptionLanguages(body?.captionLanguages);
+  const outputLanguage = readOutputLanguage(body?.outputLanguage);
+
+  const mediaPath = typeof body?.mediaPath === "string" ? body.mediaPath : undefined;
+
+  if (!videoUrl && !mediaPath) {
+    return { success: false, error: "Video URL is required", errorCode: "BAD_REQUEST" };
+  }
+
+  let template: NoteTemplate | null = null;
+  if (typeof body?.templateId === "string" && body.templateId) {
+    if (!deps.userId) {
+      return { success: false, error: "Sign in to use your templates", errorCode: "UNAUTHORIZED" };
+    }
+    template = await (deps.loadTemplate ?? loadNoteTemplate)(body.templateId, deps.userId);
+    if (!template) {
+      return { success: false, error: "This template can no longer be used. Check it and try again.", errorCode: "INVALID_TEMPLATE" };
+    }
+  }
+
+  const llm = deps.llm !== undefined ? deps.llm : getLlmProvider();
+  if (!llm) {
+    return { success: false, error: "AI service not configured", errorCode: "AI_NOT_CONFIGURED" };
+  }
+
+  const source = mediaPath
+    ? await loadUploadedSource({ body, mediaPath, captionLanguages, onProgress, deps })
+    : await loadYouTubeSource({ videoUrl: videoUrl ?? "", videoType, transcriptOverride, captionLanguages, onProgress });
+  if (!source.success) return source;
+
+  const { videoId, videoTitle, startSeconds, transcriptResult, transcriptDebug } = source;
+
+  let segments = transcriptResult.segments;
+  let transcript = transcriptResult.transcript;
+
+  // Apply timestamp offset if URL includes t=... (only if we have real timestamps)
+  if (startSeconds > 0 && segments.length) {
+    const filtered = segments.filter((s) => s.start >= startSeconds);
+    if (filtered.length) {
+      segments = filtered;
+      transcript = filtered.map((s) => s.text).join(" ");
+    }
+  }
+
+  const hasTimestamps = segments.length > 10;
+  const duration = hasTimestamps ? computeDurationFromSegments(segments) : "Unknown";
+
+  onProgress({
+    stage: "transcript_ready",
+    message: "Transcript ready",
+    progress: 30,
+    detail: { source: transcriptResult.source, transcriptChars: transcript.length, segments: segments.length },
+  });
+
+  const timestampedTranscript = hasTimestamps
+    ? buildTimestampedTranscript(segments, 12)
+    : transcript;
+
+  const systemPrompt = `${promptPersona(videoType, template)}\n\nOUTPUT REQUIREMENTS:\n- Only use information present in the provided transcript.\n- Do NOT invent details. If something is not in the transcript, omit it.\n- If timestamps are not available in the input, set section.timestamp to an empty string ("").\n- Use clear headings and tight, information-dense language.\n- For every key point and section, list in "timestamps" the transcript timestamps (as written in the input, e.g. "4:05") of the passages it is based on.\n${languageRequirement(outputLanguage)}${template ? `\n${templateRequirements(template)}` : ""}`;
+
+  const DIRECT_MAX_CHARS = 24000;
+  const CHUNK_CHARS = 18000;
+  const CHUNK_CONCURRENCY = Math.max(1, Number(Deno.env.get("CHUNK_CONCURRENCY")) || 3);
+
+  let synthesisInput = "";
+  let chunking: Record<string, unknown> = { mode: "direct", chunks: 0, levels: 0 };
+  let citationSpanSeconds = DEFAULT_SPAN_SECONDS;
+
+  if (timestampedTranscript.length <= DIRECT_MAX_CHARS) {
+    synthesisInput = `VIDEO: ${videoTitle}\nTYPE: ${videoType}\nDURATION: ${duration}\nSTART_OFFSET: ${startSeconds ? formatTimestamp(startSeconds) : "0:00"}\n\nTRANSCRIPT${hasTimestamps ? " (timestamped)" : ""}:\n${timestampedTranscript}`;
+  } else {
+    const { combined, levels, chunksPerLevel, cachedChunks } = await summarizeHierarchically({
+      llm,
+      videoId,
+      transcript: timestampedTranscript,
+      maxInputChars: DIRECT_MAX_CHARS,
+      chunkChars: CHUNK_CHARS,
+      concurrency: CHUNK_CONCURRENCY,
+      onProgress,
+    });
+    chunking = { mode: "hierarchical", chunks: chunksPerLevel[0], levels, chunksPerLevel, cachedChunks };
+    // Chunk summaries only carry their chunk's start time, so a citation covers a whole chunk
+    const lastSegment = segments[segments.length - 1];
+    const totalSeconds = lastSegment ? lastSegment.start + lastSegment.duration : 0;
+    citationSpanSeconds = Math.max(DEFAULT_SPAN_SECONDS, Math.ceil(totalSeconds / Math.max(1, chunksPerLevel[0])));
+
+    synthesisInput = `VIDEO: ${videoTitle}\nTYPE: ${videoType}\nDURATION: ${duration}\nSTART_OFFSET: ${startSeconds ? formatTimestamp(startSeconds) : "0:00"}\n\nYou will generate final notes ONLY from these chunk summaries (derived from the transcript, in order, covering all of it).\n\nCHUNK SUMMARIES:\n${combined}`;
+  }
+
+  console.log("Sending synthesis request to AI...", {
+    transcriptSource: transcriptResult.source,
+    usedCache: transcriptResult.usedCache,
+    hasTimestamps,
+    transcriptChars: transcript.length,
+    segments: segments.length,
+  });
+  onProgress({ stage: "synthesis", message: "Writing your notes...", progress: 82 });
+
+  const notes = await callAiNotes({
+    llm,
+    system: systemPrompt,
+    user: `${synthesisInput}\n\nCreate comprehensive notes.`,
+    maxCompletionTokens: template ? LENGTH_MAX_TOKENS[template.targetLength] : 4000,
+  });
+
+  onProgress({ stage: "validation", message: "Checking note structure...", progress: 95 });
+
+  // Basic validation
+  if (!notes?.title || !notes?.summary || !Array.isArray(notes?.keyPoints) || !Array.isArray(notes?.sections)) {
+    console.error("Invalid notes structure:", JSON.stringify(notes).slice(0, 800));
+    return { success: false, error: "Failed to parse notes. Please try again.", errorCode: "PARSE_ERROR" };
+  }
+
+  // Older fixtures and lenient providers may still answer with plain strings
+  const keyPointClaims: CitedClaim[] = notes.keyPoints.map((kp) =>
+    typeof kp === "string" ? { text: kp, timestamps: [] } : { text: String(kp?.text ?? ""), timestamps: kp?.timestamps ?? [] }
+  );
+  const sectionClaims: CitedClaim[] = notes.sections.map((s) => ({
+    text: `${s.title}. ${s.content}`,
+    timestamps: s.timestamps ?? [],
+  }));
+  const grounding = hasTimestamps
+    ? groundNotes({
+      keyPoints: keyPointClaims,
+      sections: sectionClaims,
+      segments,
+      spanSeconds: citationSpanSeconds,
+      verify: isTranscriptLanguage(outputLanguage, transcriptResult.lang),
+    })
+    : null;
+
+  onProgress({ stage: "done", message: "Notes ready", progress: 100 });
+
+  return {
+    success: true,
+    notes: {
+      title: notes.title,
+      summary: notes.summary,
+      keyPoints: keyPointClaims.map((c) => c.text),
+      sections: notes.sections.map(({ title, timestamp, content }) => ({ title, timestamp, content })),
+      duration,
+      sourceLanguage: transcriptResult.lang ?? null,
+      outputLanguage: outputLanguage ?? transcriptResult.lang ?? null,
+      grounding,
+    },
+    transcript: {
+      source: transcriptResult.source,
+      language: transcriptResult.lang ?? null,
+      segments,
+      text: transcript,
+    },
+    debug: {
+      ...transcriptDebug,
+      transcriptSource: transcriptResult.source,
+      usedCache: transcriptResult.usedCache,
+      transcriptChars: transcript.length,
+      segments: segments.length,
+      hasTimestamps,
+      chunking,
+      unsupportedClaims: grounding?.unsupported ?? null,
+      llm: { provider: llm.name, notesModel: llm.modelFor("notes"), chunkModel: llm.modelFor("chunk") },
+    },
+  };
+}
+
+// Tracks mode: list caption languages for a URL so the user can pick one before generating
+export async function getCaptionTracks(body: Record<string, unknown>): Promise<ErrorResponse | CaptionTracksResponse> {
+  const videoId = typeof body?.videoUrl === "string" ? extractVideoId(body.videoUrl) : null;
+  if (!videoId) {
+    return { success: false, error: "Invalid YouTube URL", errorCode: "INVALID_URL" };
+  }
+
+  try {
+    return { success: true, tracks: await listAvailableCaptionTracks(videoId) };
+  } catch (error) {
+    console.error("Failed to list caption tracks:", videoId, error);
+    return { success: false, error: "Could not load caption languages for this video", errorCode: "TRACKS_UNAVAILABLE" };
+  }
+}
+
+export async function generateNotesSafely(
+  body: Record<string, unknown>,
+  onProgress: ProgressEmitter,
+  deps: PipelineDeps = {},
+): Promise<ErrorResponse | SuccessResponse> {
+  try {
+    return await generateNotes(body, onProgress, deps);
+  } catch (error) {
+    console.error("Unhandled error:", error);
+    return errorPayload(error);
+  }
+}
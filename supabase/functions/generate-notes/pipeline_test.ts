@@ -0,0 +1,249 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMockProvider, type LlmProvider } from "../_shared/llm/index.ts";
+import { createMockSttProvider } from "../_shared/stt/index.ts";
+import { generateNotes, generateNotesSafely } from "./pipeline.ts";
+import { isTimedtext, readFixture, stubFetch, textResponse } from "./test_helpers.ts";
+import type { ProgressStage } from "./types.ts";
+
+const videoUrl = "https://www.youtube.com/watch?v=bstLecture1";
+
+function youtubeRoutes(timedtextXml: string) {
+  return [
+    {
+      match: (url: URL) => url.pathname === "/oembed",
+      respond: () => textResponse(JSON.stringify({ title: "Lecture 7: Binary Search Trees" })),
+    },
+    {
+      match: (url: URL) => isTimedtext(url) && url.searchParams.get("lang") === "en",
+      respond: () => textResponse(timedtextXml),
+    },
+  ];
+}
+
+function longTimedtextXml(segmentCount: number): string {
+  const cues = Array.from(
+    { length: segmentCount },
+    (_, i) => `<text start="${i * 2}" dur="2">Sentence number ${i} explains one more detail of the lecture.</text>`,
+  );
+  return `<?xml version="1.0" encoding="utf-8" ?><transcript>${cues.join("")}</transcript>`;
+}
+
+Deno.test("short transcripts go straight to synthesis and report each stage", async () => {
+  const stub = stubFetch(youtubeRoutes(await readFixture("timedtext_en.xml")));
+  const llm = createMockProvider();
+  const stages: ProgressStage[] = [];
+  try {
+    const res = await generateNotes({ videoUrl, videoType: "Academic Lecture" }, (e) => stages.push(e.stage), { llm });
+
+    assert(res.success);
+    assertEquals(res.debug?.transcriptSource, "timedtext");
+    assertEquals(res.debug?.chunking, { mode: "direct", chunks: 0, levels: 0 });
+    assertEquals(llm.calls.map((c) => c.toolName), ["create_notes"]);
+    assert(llm.calls[0].user.includes("VIDEO: Lecture 7: Binary Search Trees"));
+    assertEquals(stages.filter((s) => s !== "transcript_attempt"), [
+      "start",
+      "transcript_ready",
+      "synthesis",
+      "validation",
+      "done",
+    ]);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("long transcripts are summarized chunk by chunk without dropping the end", async () => {
+  const stub = stubFetch(youtubeRoutes(longTimedtextXml(3000)));
+  const llm = createMockProvider();
+  try {
+    const res = await generateNotes({ videoUrl }, () => {}, { llm });
+
+    assert(res.success);
+    const chunking = res.debug?.chunking as { mode: string; chunks: number; levels: number };
+    const chunkCalls = llm.calls.filter((c) => c.toolName === "chunk_notes");
+
+    assertEquals(chunking.mode, "hierarchical");
+    assert(chunking.chunks > 6, "more chunks than the old MAX_CHUNKS cap");
+    assertEquals(chunkCalls.length, chunking.chunks);
+    assert(chunkCalls.some((c) => c.user.includes("Sentence number 2999")));
+    assertEquals(llm.calls[llm.calls.length - 1].toolName, "create_notes");
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("notes record the transcript language and the requested output language", async () => {
+  const stub = stubFetch(youtubeRoutes(await readFixture("timedtext_en.xml")));
+  const llm = createMockProvider();
+  try {
+    const res = await generateNotes({ videoUrl, outputLanguage: "Spanish" }, () => {}, { llm });
+
+    assert(res.success);
+    assertEquals(res.notes.sourceLanguage, "en");
+    assertEquals(res.notes.outputLanguage, "Spanish");
+    assert(llm.calls[0].system.includes("Write all notes in Spanish"));
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("key points and sections are checked against the transcript spans they cite", async () => {
+  const stub = stubFetch(youtubeRoutes(await readFixture("timedtext_en.xml")));
+  const llm = createMockProvider({
+    create_notes: {
+      title: "Binary Search Trees",
+      summary: "How BSTs store, search and delete keys.",
+      keyPoints: [
+        { text: "A binary search tree keeps keys in sorted order", timestamps: ["0:03"] },
+        { text: "Hash tables provide constant lookups", timestamps: ["[0:48]"] },
+      ],
+      sections: [{
+        title: "Deletion",
+        timestamp: "0:30",
+        content: "A leaf is removed; a node with two children is swapped with its in-order successor.",
+        timestamps: ["0:30"],
+      }],
+    },
+  });
+  try {
+    const res = await generateNotes({ videoUrl }, () => {}, { llm });
+
+    assert(res.success);
+    assertEquals(res.notes.keyPoints[1], "Hash tables provide constant lookups");
+    assertEquals(res.notes.sections[0], {
+      title: "Deletion",
+      timestamp: "0:30",
+      content: "A leaf is removed; a node with two children is swapped with its in-order successor.",
+    });
+    assertEquals(res.notes.grounding?.keyPoints.map((c) => c.supported), [true, false]);
+    assertEquals(res.notes.grounding?.keyPoints[1].timestamps, ["0:48"]);
+    assertEquals(res.notes.grounding?.sections[0].supported, true);
+    assertEquals(res.debug?.unsupportedClaims, 1);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("uploaded media is transcribed into timestamped segments", async () => {
+  const stub = stubFetch([]);
+  const llm = createMockProvider();
+  const stt = createMockSttProvider();
+  const spoken = Array.from({ length: 20 }, (_, i) => `Spoken line ${i} about recursion and base cases.`).join("\n");
+  const mediaPath = "user-1/0b7e2c1a-6a4f-4d55-9a0e-3c1f2b9d8e77-lecture.m4a";
+  try {
+    const res = await generateNotes({ mediaPath, videoType: "Academic Lecture" }, () => {}, {
+      llm,
+      stt,
+      userId: "user-1",
+      downloadMedia: () => Promise.resolve(new Blob([spoken])),
+    });
+
+    assert(res.success);
+    assertEquals(stt.calls, ["lecture.m4a"]);
+    assertEquals(res.debug?.transcriptSource, "upload");
+    assertEquals(res.debug?.hasTimestamps, true);
+    assertEquals(res.notes.duration, "1:20");
+    assertEquals(res.transcript.source, "upload");
+    assertEquals(res.transcript.segments.length, 20);
+    assertEquals(res.transcript.segments[12], { text: "Spoken line 12 about recursion and base cases.", start: 48, duration: 4 });
+    assert(llm.calls[0].user.includes("VIDEO: lecture.m4a"));
+    assert(llm.calls[0].user.includes("[0:48] Spoken line 12"));
+    assertEquals(stub.calls.length, 0);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("uploads outside the caller's folder are refused", async () => {
+  const stt = createMockSttProvider();
+  const deps = { llm: createMockProvider(), stt, downloadMedia: () => Promise.resolve(new Blob(["x"])) };
+
+  const anonymous = await generateNotes({ mediaPath: "user-2/clip.mp3" }, () => {}, deps);
+  const otherUser = await generateNotes({ mediaPath: "user-2/clip.mp3" }, () => {}, { ...deps, userId: "user-1" });
+
+  assertEquals((anonymous as { errorCode?: string }).errorCode, "UNAUTHORIZED");
+  assertEquals((otherUser as { errorCode?: string }).errorCode, "UNAUTHORIZED");
+  assertEquals(stt.calls.length, 0);
+});
+
+Deno.test("a template replaces the type prompt and adds its requirements after the fixed ones", async () => {
+  const stub = stubFetch(youtubeRoutes(await readFixture("timedtext_en.xml")));
+  const llm = createMockProvider();
+  const template = {
+    id: "tpl-1",
+    name: "Meeting minutes",
+    systemPrompt: "You write meeting minutes.",
+    requiredSections: ["Decisions", "Action items"],
+    targetLength: "detailed" as const,
+    tone: "formal" as const,
+  };
+  const loaded: string[] = [];
+  try {
+    const res = await generateNotes({ videoUrl, videoType: "Meeting minutes", templateId: "tpl-1" }, () => {}, {
+      llm,
+      userId: "user-1",
+      loadTemplate: (id, userId) => {
+        loaded.push(`${id}:${userId}`);
+        return Promise.resolve(template);
+      },
+    });
+
+    assert(res.success);
+    assertEquals(loaded, ["tpl-1:user-1"]);
+    const { system, maxTokens } = llm.calls[0];
+    assert(system.startsWith("You write meeting minutes.\n\nOUTPUT REQUIREMENTS:"));
+    assert(system.indexOf("Only use information present") < system.indexOf('"Decisions", "Action items"'));
+    assert(system.includes("Use a formal, precise tone."));
+    assertEquals(maxTokens, 6000);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("templates need a signed-in owner and are checked before any work starts", async () => {
+  const llm = createMockProvider();
+  const body = { videoUrl, templateId: "tpl-1" };
+
+  const anonymous = await generateNotes(body, () => {}, { llm, loadTemplate: () => Promise.resolve(null) });
+  const missing = await generateNotes(body, () => {}, { llm, userId: "user-1", loadTemplate: () => Promise.resolve(null) });
+
+  assertEquals((anonymous as { errorCode?: string }).errorCode, "UNAUTHORIZED");
+  assertEquals((missing as { errorCode?: string }).errorCode, "INVALID_TEMPLATE");
+  assertEquals(llm.calls.length, 0);
+});
+
+Deno.test("request validation errors come back as structured responses", async () => {
+  const llm = createMockProvider();
+
+  assertEquals((await generateNotes({}, () => {}, { llm })).success, false);
+  assertEquals(await generateNotes({ videoUrl: "https://example.com/video" }, () => {}, { llm }), {
+    success: false,
+    error: "Invalid YouTube URL",
+    errorCode: "INVALID_URL",
+  });
+  assertEquals(
+    (await generateNotes({ videoUrl }, () => {}, { llm: null }) as { errorCode?: string }).errorCode,
+    "AI_NOT_CONFIGURED",
+  );
+});
+
+Deno.test("provider error codes surface through generateNotesSafely", async () => {
+  const stub = stubFetch(youtubeRoutes(await readFixture("timedtext_en.xml")));
+  const llm: LlmProvider = {
+    name: "failing",
+    modelFor: () => "failing",
+    generateStructured: () =>
+      Promise.reject(Object.assign(new Error("Rate limit exceeded. Please try again in a moment."), { code: "RATE_LIMIT" })),
+  };
+  try {
+    const res = await generateNotesSafely({ videoUrl }, () => {}, { llm });
+
+    assertEquals(res, {
+      success: false,
+      error: "Rate limit exceeded. Please try again in a moment.",
+      errorCode: "RATE_LIMIT",
+    });
+  } finally {
+    stub.restore();
+  }
+});
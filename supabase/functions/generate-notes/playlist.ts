@@ -0,0 +1,193 @@
+import { fetchWithRetry } from "../_shared/http.ts";
+import { extractBalancedJsonObjectAfterMarker, extractQuotedValue, formatTimestamp } from "./parse.ts";
+import { parseClockTime } from "./subtitles.ts";
+import type { SuccessResponse } from "./types.ts";
+
+export const MAX_BATCH_VIDEOS = 50;
+
+const UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+export type CollectionSource =
+  | { kind: "playlist"; listId: string }
+  | { kind: "channel"; channelId?: string; path?: string };
+
+export type PlaylistVideo = { videoId: string; title: string; url: string };
+
+export type ExpandedCollection = {
+  kind: "playlist" | "channel";
+  title: string;
+  sourceUrl: string;
+  videos: PlaylistVideo[];
+};
+
+/**
+ * Recognises playlist (`list=`) and channel (`/channel/UC…`, `/@handle`, `/c/…`, `/user/…`) URLs.
+ * Auto-generated mixes (`list=RD…`) have no playlist page and stay single-video URLs.
+ */
+export function parseCollectionUrl(input: string): CollectionSource | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  if (!/(^|\.)youtube\.com$/.test(url.hostname)) return null;
+
+  const listId = url.searchParams.get("list");
+  if (listId && /^[A-Za-z0-9_-]{10,}$/.test(listId) && !listId.startsWith("RD")) {
+    return { kind: "playlist", listId };
+  }
+
+  const channelMatch = url.pathname.match(/^\/channel\/(UC[A-Za-z0-9_-]{22})/);
+  if (channelMatch) return { kind: "channel", channelId: channelMatch[1] };
+
+  const pathMatch = url.pathname.match(/^\/(@[\w.-]+|c\/[\w.-]+|user\/[\w.-]+)/);
+  if (pathMatch) return { kind: "channel", path: pathMatch[1] };
+
+  return null;
+}
+
+type PlaylistVideoRenderer = {
+  videoId?: string;
+  title?: { simpleText?: string; runs?: Array<{ text?: string }> };
+};
+
+function textOf(title: PlaylistVideoRenderer["title"]): string {
+  return title?.simpleText ?? title?.runs?.map((r) => r.text ?? "").join("") ?? "";
+}
+
+/** Walks a playlist page's ytInitialData for its title and every `playlistVideoRenderer`, in page order. */
+export function extractPlaylistVideos(html: string): { title: string | null; videos: PlaylistVideo[] } {
+  const json = extractBalancedJsonObjectAfterMarker(html, "ytInitialData");
+  if (!json) return { title: null, videos: [] };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    console.error("Failed to parse ytInitialData:", e);
+    return { title: null, videos: [] };
+  }
+
+  const videos: PlaylistVideo[] = [];
+  const seen = new Set<string>();
+  let title: string | null = null;
+
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+
+    const record = node as Record<string, unknown>;
+    const renderer = record.playlistVideoRenderer as PlaylistVideoRenderer | undefined;
+    if (renderer?.videoId && !seen.has(renderer.videoId)) {
+      seen.add(renderer.videoId);
+      videos.push({
+        videoId: renderer.videoId,
+        title: textOf(renderer.title) || "YouTube Video",
+        url: `https://www.youtube.com/watch?v=${renderer.videoId}`,
+      });
+    }
+
+    const metadata = record.playlistMetadataRenderer as { title?: string } | undefined;
+    if (!title && metadata?.title) title = metadata.title;
+
+    Object.values(record).forEach(walk);
+  };
+  walk(data);
+
+  return { title, videos };
+}
+
+export function extractChannelId(html: string): string | null {
+  const id = extractQuotedValue(html, "externalId") ?? extractQuotedValue(html, "channelId");
+  return id && /^UC[A-Za-z0-9_-]{22}$/.test(id) ? id : null;
+}
+
+async function fetchYouTubePage(url: string): Promise<string> {
+  const res = await fetchWithRetry(url, {
+    headers: {
+      "User-Agent": UA,
+      "Accept-Language": "en-US,en;q=0.9",
+      Cookie: "CONSENT=YES+1; SOCS=CAI",
+    },
+  }, { retries: 2, baseDelayMs: 900, retryOn: [429, 503] });
+
+  if (!res.ok) throw new Error(`YouTube page request failed (${res.status})`);
+  return await res.text();
+}
+
+/**
+ * Expands a playlist or channel URL into its videos (first page only, capped at MAX_BATCH_VIDEOS).
+ * Channels are read through their uploads playlist, whose id is the channel id with UC swapped for UU.
+ */
+export async function expandCollection(source: CollectionSource, sourceUrl: string): Promise<ExpandedCollection> {
+  let listId: string;
+  let channelTitle: string | null = null;
+
+  if (source.kind === "playlist") {
+    listId = source.listId;
+  } else {
+    let channelId = source.channelId ?? null;
+    if (!channelId) {
+      const html = await fetchYouTubePage(`https://www.youtube.com/${source.path}`);
+      channelId = extractChannelId(html);
+      channelTitle = html.match(/<meta property="og:title" content="([^"]+)"/)?.[1] ?? null;
+    }
+    if (!channelId) throw new Error("Could not find this channel's uploads");
+    listId = `UU${channelId.slice(2)}`;
+  }
+
+  const html = await fetchYouTubePage(`https://www.youtube.com/playlist?list=${listId}`);
+  const { title, videos } = extractPlaylistVideos(html);
+
+  return {
+    kind: source.kind,
+    title: channelTitle ?? title ?? (source.kind === "channel" ? "Channel uploads" : "YouTube Playlist"),
+    sourceUrl,
+    videos: videos.slice(0, MAX_BATCH_VIDEOS),
+  };
+}
+
+type GroupNote = {
+  video_title: string;
+  video_url: string;
+  duration: string | null;
+  summary: string;
+  key_points: unknown;
+};
+
+/**
+ * The course-level note: one section per video in playlist order, acting as a table of contents,
+ * with the videos' summaries and leading key points. Built from the saved notes, so no extra model call.
+ */
+export function buildCourseNote(groupTitle: string, notes: GroupNote[]): SuccessResponse["notes"] {
+  const seconds = notes.reduce((total, n) => {
+    return n.duration && /^\d+(:\d{2}){1,2}$/.test(n.duration) ? total + parseClockTime(n.duration) : total;
+  }, 0);
+  const keyPointsOf = (n: GroupNote) => (Array.isArray(n.key_points) ? n.key_points.map(String) : []);
+
+  return {
+    title: `${groupTitle} — Course Notes`,
+    summary: `Combined notes for ${notes.length} video${notes.length === 1 ? "" : "s"} from "${groupTitle}". ` +
+      `Each section below covers one video in order; open the video's own note for full detail.`,
+    keyPoints: notes.flatMap((n, i) => keyPointsOf(n).slice(0, 2).map((kp) => `Video ${i + 1}: ${kp}`)).slice(0, 20),
+    sections: notes.map((n, i) => {
+      const points = keyPointsOf(n).slice(0, 5).map((kp) => `- ${kp}`).join("\n");
+      return {
+        title: `${i + 1}. ${n.video_title}`,
+        timestamp: "",
+        content: [n.summary, points, `Video: ${n.video_url}${n.duration ? ` (${n.duration})` : ""}`]
+          .filter(Boolean)
+          .join("\n\n"),
+      };
+    }),
+    duration: seconds > 0 ? formatTimestamp(seconds) : "Unknown",
+    sourceLanguage: null,
+    outputLanguage: null,
+    grounding: null,
+  };
+}
@@ -0,0 +1,83 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildCourseNote, expandCollection, extractPlaylistVideos, parseCollectionUrl } from "./playlist.ts";
+import { readFixture, stubFetch, textResponse } from "./test_helpers.ts";
+
+Deno.test("parseCollectionUrl recognises playlists and channels but not single videos or mixes", () => {
+  assertEquals(parseCollectionUrl("https://www.youtube.com/playlist?list=PLdsCourse2024abcdef"), {
+    kind: "playlist",
+    listId: "PLdsCourse2024abcdef",
+  });
+  assertEquals(parseCollectionUrl("https://www.youtube.com/watch?v=dsLecture01&list=PLdsCourse2024abcdef&index=1"), {
+    kind: "playlist",
+    listId: "PLdsCourse2024abcdef",
+  });
+  assertEquals(parseCollectionUrl("https://www.youtube.com/channel/UCabcdefghijklmnopqrstuv/videos"), {
+    kind: "channel",
+    channelId: "UCabcdefghijklmnopqrstuv",
+  });
+  assertEquals(parseCollectionUrl("https://m.youtube.com/@proftrees/videos"), { kind: "channel", path: "@proftrees" });
+  assertEquals(parseCollectionUrl("https://www.youtube.com/watch?v=dsLecture01&list=RDdsLecture01"), null);
+  assertEquals(parseCollectionUrl("https://www.youtube.com/watch?v=dsLecture01"), null);
+  assertEquals(parseCollectionUrl("https://youtu.be/dsLecture01"), null);
+});
+
+Deno.test("extractPlaylistVideos keeps page order, drops duplicates and joins title runs", async () => {
+  const { title, videos } = extractPlaylistVideos(await readFixture("playlist_page.html"));
+
+  assertEquals(title, "Data Structures (Fall 2024)");
+  assertEquals(videos.map((v) => [v.videoId, v.title]), [
+    ["dsLecture01", "Lecture 1: Arrays {and} Lists"],
+    ["dsLecture02", "Lecture 2: Stacks & Queues"],
+    ["dsLecture03", "Lecture 3: Hash Tables"],
+  ]);
+  assertEquals(videos[0].url, "https://www.youtube.com/watch?v=dsLecture01");
+});
+
+Deno.test("channels are expanded through their uploads playlist", async () => {
+  const channel = await readFixture("channel_page.html");
+  const playlist = await readFixture("playlist_page.html");
+  const stub = stubFetch([
+    { match: (url) => url.pathname === "/@proftrees", respond: () => textResponse(channel) },
+    { match: (url) => url.pathname === "/playlist", respond: () => textResponse(playlist) },
+  ]);
+  try {
+    const sourceUrl = "https://www.youtube.com/@proftrees";
+    const expanded = await expandCollection({ kind: "channel", path: "@proftrees" }, sourceUrl);
+    const playlistCall = stub.calls.find((c) => c.url.pathname === "/playlist");
+
+    assertEquals(playlistCall?.url.searchParams.get("list"), "UUabcdefghijklmnopqrstuv");
+    assertEquals(expanded.title, "Prof. Trees");
+    assertEquals(expanded.kind, "channel");
+    assertEquals(expanded.videos.length, 3);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("the course note has one section per video and adds up durations", () => {
+  const course = buildCourseNote("Data Structures", [
+    {
+      video_title: "Arrays",
+      video_url: "https://www.youtube.com/watch?v=dsLecture01",
+      duration: "48:10",
+      summary: "Arrays and lists.",
+      key_points: ["Arrays are contiguous", "Lists grow", "Third point"],
+    },
+    {
+      video_title: "Stacks",
+      video_url: "https://www.youtube.com/watch?v=dsLecture02",
+      duration: "1:02:00",
+      summary: "LIFO and FIFO.",
+      key_points: [],
+    },
+  ]);
+
+  assertEquals(course.title, "Data Structures — Course Notes");
+  assertEquals(course.duration, "1:50:10");
+  assertEquals(course.keyPoints, ["Video 1: Arrays are contiguous", "Video 1: Lists grow"]);
+  assertEquals(course.sections.map((s) => s.title), ["1. Arrays", "2. Stacks"]);
+  assertEquals(
+    course.sections[1].content,
+    "LIFO and FIFO.\n\nVideo: https://www.youtube.com/watch?v=dsLecture02 (1:02:00)",
+  );
+});
@@ -0,0 +1,260 @@
+import { errorPayload } from "../_shared/http.ts";
+import { getLlmProvider, type LlmProvider } from "../_shared/llm/index.ts";
+import { getUserIdFromRequest } from "../_shared/supabase.ts";
+import { getSupabaseAdmin, loadNoteTranscript } from "./cache.ts";
+import { groundNotes, isTranscriptLanguage } from "./grounding.ts";
+import { buildTimestampedTranscript, formatTimestamp } from "./parse.ts";
+import { languageRequirement, promptPersona } from "./pipeline.ts";
+import { jsonResponse } from "./responses.ts";
+import { loadNoteTemplate, templateRequirements, type NoteTemplate } from "./templates.ts";
+import type { ErrorResponse, RegeneratedSection, RegenerateResponse, TranscriptSegment } from "./types.ts";
+
+export const MAX_INSTRUCTION_CHARS = 300;
+// Same budget as a video short enough to be sent to synthesis in one request
+const MAX_WINDOW_CHARS = 24000;
+
+const DEFAULT_INSTRUCTION = "Make it clearer, more complete and more faithful to the transcript.";
+
+/** The part of the note being regenerated, as the user currently has it */
+export type RegenerateTarget =
+  | { kind: "section"; section: RegeneratedSection }
+  | { kind: "keyPoint"; text: string };
+
+export type TranscriptWindow = {
+  /** Timestamped like the transcript notes are generated from, or plain text when there are no timestamps */
+  text: string;
+  timed: boolean;
+  /** "m:ss-m:ss" when the window was narrowed to the requested range */
+  range: string | null;
+};
+
+/**
+ * The transcript from `start` up to (not including) `end` seconds. The whole transcript is used when
+ * there is no range, no timestamps to cut by, or nothing inside the range. Windows too long for one
+ * request are cut at the last line that fits.
+ */
+export function transcriptWindow(
+  transcript: { segments: TranscriptSegment[]; text: string },
+  start: number | null,
+  end: number | null,
+): TranscriptWindow {
+  // Same threshold generate-notes uses to decide whether a transcript has usable timestamps
+  const timed = transcript.segments.length > 10;
+  const inRange = timed && start !== null
+    ? transcript.segments.filter((s) => s.start >= start && (end === null || s.start < end))
+    : [];
+  const segments = inRange.length ? inRange : transcript.segments;
+
+  let text = timed ? buildTimestampedTranscript(segments, 12) : transcript.text;
+  if (text.length > MAX_WINDOW_CHARS) {
+    const cut = text.slice(0, MAX_WINDOW_CHARS);
+    const lastLine = cut.lastIndexOf("\n");
+    text = lastLine > 0 ? cut.slice(0, lastLine) : cut;
+  }
+
+  const last = inRange[inRange.length - 1];
+  return {
+    text,
+    timed,
+    range: inRange.length ? `${formatTimestamp(inRange[0].start)}-${formatTimestamp(last.start + last.duration)}` : null,
+  };
+}
+
+/**
+ * Writes one section or key point again from the transcript it covers, following the user's
+ * instruction, and checks the result against the transcript like freshly generated notes.
+ */
+export async function regenerateNotePart(args: {
+  llm: LlmProvider;
+  target: RegenerateTarget;
+  instruction: string;
+  videoTitle: string;
+  videoType: string;
+  /** The template the note was generated with, if it still exists */
+  template?: NoteTemplate | null;
+  /** null writes in the transcript's language */
+  outputLanguage: string | null;
+  transcript: { segments: TranscriptSegment[]; text: string };
+  start: number | null;
+  end: number | null;
+  verify: boolean;
+}): Promise<ErrorResponse | RegenerateResponse> {
+  const { llm, target } = args;
+  const window = transcriptWindow(args.transcript, args.start, args.end);
+  const isSection = target.kind === "section";
+  const noun = isSection ? "section" : "key point";
+
+  const system = `${promptPersona(args.videoType, args.template ?? null)}
+
+You are rewriting one ${noun} of existing notes, not the whole notes.
+OUTPUT REQUIREMENTS:
+- Only use information present in the provided transcript.
+- Do NOT invent details. If something is not in the transcript, omit it.
+- Follow the user's instruction while keeping the ${noun} about the same topic.
+${isSection ? "- Keep the content self-contained; it replaces the old section as is.\n" : "- Keep it to one or two sentences.\n"}${
+    window.timed
+      ? '- List in "timestamps" the transcript timestamps (as written in the input, e.g. "4:05") of the passages it is based on.'
+      : '- The transcript has no timestamps; leave "timestamps" empty.'
+  }
+${languageRequirement(args.outputLanguage)}${args.template ? `\n${templateRequirements(args.template, "part")}` : ""}`;
+
+  const current = isSection
+    ? `CURRENT SECTION:\nTitle: ${target.section.title}\n${target.section.content}`
+    : `CURRENT KEY POINT:\n${target.text}`;
+
+  const user = `VIDEO: ${args.videoTitle}
+TYPE: ${args.videoType}
+
+${current}
+
+INSTRUCTION: ${args.instruction || DEFAULT_INSTRUCTION}
+
+TRANSCRIPT${window.range ? ` (${window.range})` : ""}${window.timed ? " (timestamped)" : ""}:
+${window.text}
+
+Rewrite the ${noun}.`;
+
+  const timestamps = { type: "array", items: { type: "string" } };
+  const result = await llm.generateStructured<
+    { title?: string; content?: string; text?: string; timestamps?: string[] }
+  >({
+    tier: "notes",
+    system,
+    user,
+    toolName: isSection ? "rewrite_section" : "rewrite_key_point",
+    toolDescription: `Rewrite one ${noun} of the notes from the transcript.`,
+    schema: isSection
+      ? {
+        type: "object",
+        additionalProperties: false,
+        required: ["title", "content", "timestamps"],
+        properties: { title: { type: "string" }, content: { type: "string" }, timestamps },
+      }
+      : {
+        type: "object",
+        additionalProperties: false,
+        required: ["text", "timestamps"],
+        properties: { text: { type: "string" }, timestamps },
+      },
+    maxTokens: isSection ? 2000 : 400,
+    errorMessage: `Failed to regenerate the ${noun}. Please try again.`,
+  });
+
+  const text = String((isSection ? result?.content : result?.text) ?? "").trim();
+  if (!text) {
+    console.error("Invalid regenerated part:", JSON.stringify(result).slice(0, 800));
+    return { success: false, error: `Failed to regenerate the ${noun}. Please try again.`, errorCode: "PARSE_ERROR" };
+  }
+
+  const section = isSection
+    ? { title: String(result?.title ?? "").trim() || target.section.title, timestamp: target.section.timestamp, content: text }
+    : undefined;
+  const claim = { text: section ? `${section.title}. ${section.content}` : text, timestamps: result?.timestamps ?? [] };
+  const grounding = window.timed
+    ? groundNotes({
+      keyPoints: section ? [] : [claim],
+      sections: section ? [claim] : [],
+      segments: args.transcript.segments,
+      verify: args.verify,
+    })
+    : null;
+
+  return {
+    success: true,
+    ...(section ? { section } : { keyPoint: text }),
+    citation: grounding ? (section ? grounding.sections[0] : grounding.keyPoints[0]) : null,
+  };
+}
+
+function readTarget(body: Record<string, unknown>): RegenerateTarget | null {
+  if (body?.target === "keyPoint") {
+    return typeof body.keyPoint === "string" && body.keyPoint.trim() ? { kind: "keyPoint", text: body.keyPoint } : null;
+  }
+  const section = body?.section as Record<string, unknown> | undefined;
+  if (body?.target !== "section" || typeof section?.title !== "string" || typeof section?.content !== "string") {
+    return null;
+  }
+  const timestamp = typeof section.timestamp === "string" ? section.timestamp : "";
+  return { kind: "section", section: { title: section.title, timestamp, content: section.content } };
+}
+
+const readSeconds = (value: unknown) => (typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : null);
+
+/**
+ * `mode: "regenerate"`: rewrites one section or key point of a saved note. The request carries the
+ * part as the user has it now and the transcript range it covers (`start`/`end` in seconds); the
+ * note itself is not written, so the client keeps the rest of its edits and saves the result.
+ */
+export async function regenerate(req: Request, body: Record<string, unknown>): Promise<Response> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const userId = await getUserIdFromRequest(req);
+  if (!supabaseAdmin || !userId) {
+    return jsonResponse({ success: false, error: "Sign in to regenerate parts of your notes", errorCode: "UNAUTHORIZED" });
+  }
+
+  const noteId = typeof body?.noteId === "string" ? body.noteId : "";
+  const target = readTarget(body);
+  if (!noteId || !target) {
+    return jsonResponse({ success: false, error: "A note and the part to regenerate are required", errorCode: "BAD_REQUEST" });
+  }
+  const instruction = typeof body?.instruction === "string" ? body.instruction.trim() : "";
+  if (instruction.length > MAX_INSTRUCTION_CHARS) {
+    return jsonResponse({
+      success: false,
+      error: `Instructions are limited to ${MAX_INSTRUCTION_CHARS} characters`,
+      errorCode: "BAD_REQUEST",
+    });
+  }
+
+  const { data: note } = await supabaseAdmin
+    .from("notes")
+    .select("id, user_id, video_title, video_url, video_type, template_id, output_language, transcript_language")
+    .eq("id", noteId)
+    .maybeSingle();
+  if (!note || note.user_id !== userId) {
+    return jsonResponse({ success: false, error: "Note not found", errorCode: "NOT_FOUND" });
+  }
+
+  const transcript = await loadNoteTranscript(note);
+  if (!transcript) {
+    return jsonResponse({
+      success: false,
+      error: "The transcript for this note is no longer available",
+      errorCode: "NO_TRANSCRIPT",
+    });
+  }
+
+  const llm = getLlmProvider();
+  if (!llm) {
+    return jsonResponse({ success: false, error: "AI service not configured", errorCode: "AI_NOT_CONFIGURED" });
+  }
+
+  // A template that was changed into something invalid falls back to the note's video type
+  const template = note.template_id ? await loadNoteTemplate(note.template_id, userId) : null;
+
+  // Notes kept in the transcript's language store that language as their output language too
+  const outputLanguage = note.output_language && note.output_language !== note.transcript_language
+    ? note.output_language
+    : null;
+
+  try {
+    return jsonResponse(
+      await regenerateNotePart({
+        llm,
+        target,
+        instruction,
+        videoTitle: note.video_title,
+        videoType: note.video_type || "General",
+        template,
+        outputLanguage,
+        transcript,
+        start: readSeconds(body.start),
+        end: readSeconds(body.end),
+        verify: isTranscriptLanguage(outputLanguage, note.transcript_language ?? undefined),
+      }),
+    );
+  } catch (error) {
+    console.error("Regenerate failed:", error);
+    return jsonResponse(errorPayload(error));
+  }
+}
@@ -0,0 +1,94 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMockProvider } from "../_shared/llm/index.ts";
+import { regenerateNotePart, transcriptWindow } from "./regenerate.ts";
+import type { TranscriptSegment } from "./types.ts";
+
+// 36 segments, 10 seconds apart: the first half is about stacks, the second about queues
+const segments: TranscriptSegment[] = Array.from({ length: 36 }, (_, i) => ({
+  text: i < 18 ? `A stack pushes and pops items from the top, step ${i}.` : `A queue serves items in arrival order, step ${i}.`,
+  start: i * 10,
+  duration: 10,
+}));
+const transcript = { segments, text: segments.map((s) => s.text).join(" ") };
+
+const note = { videoTitle: "Data Structures", videoType: "Academic Lecture", outputLanguage: null, verify: true };
+
+Deno.test("the window covers only the requested range and falls back to the whole transcript", () => {
+  const window = transcriptWindow(transcript, 180, 300);
+  assertEquals(window.range, "3:00-5:00");
+  assert(window.text.startsWith("[3:00] A queue serves"));
+  assert(!window.text.includes("stack"));
+
+  const whole = transcriptWindow(transcript, 900, null);
+  assertEquals(whole.range, null);
+  assert(whole.text.startsWith("[0:00] A stack pushes"));
+
+  const untimed = transcriptWindow({ segments: [], text: "Plain pasted notes." }, 0, 60);
+  assertEquals(untimed, { text: "Plain pasted notes.", timed: false, range: null });
+});
+
+Deno.test("a regenerated section follows the instruction, keeps its timestamp and is grounded", async () => {
+  const llm = createMockProvider({
+    rewrite_section: {
+      title: "Queues",
+      content: "A queue serves items in arrival order.",
+      timestamps: ["[3:00]"],
+    },
+  });
+
+  const res = await regenerateNotePart({
+    ...note,
+    llm,
+    target: { kind: "section", section: { title: "FIFO", timestamp: "3:00 - 6:00", content: "Queues." } },
+    instruction: "Add examples",
+    transcript,
+    start: 180,
+    end: null,
+  });
+
+  assert(res.success);
+  assertEquals(res.section, { title: "Queues", timestamp: "3:00 - 6:00", content: "A queue serves items in arrival order." });
+  assertEquals(res.citation?.timestamps, ["3:00"]);
+  assertEquals(res.citation?.supported, true);
+
+  const call = llm.calls[0];
+  assert(call.user.includes("INSTRUCTION: Add examples"));
+  assert(call.user.includes("CURRENT SECTION:\nTitle: FIFO\nQueues."));
+  assert(call.user.includes("TRANSCRIPT (3:00-6:00) (timestamped):\n[3:00] A queue"));
+  assert(call.system.startsWith("You are an expert academic note-taker."));
+});
+
+Deno.test("key points from untimed transcripts come back without a citation", async () => {
+  const llm = createMockProvider({ rewrite_key_point: { text: " Stacks are LIFO. ", timestamps: ["0:10"] } });
+
+  const res = await regenerateNotePart({
+    ...note,
+    llm,
+    target: { kind: "keyPoint", text: "Stacks." },
+    instruction: "",
+    transcript: { segments: [], text: transcript.text },
+    start: null,
+    end: null,
+  });
+
+  assertEquals(res, { success: true, keyPoint: "Stacks are LIFO.", citation: null });
+  assert(llm.calls[0].user.includes("INSTRUCTION: Make it clearer"));
+  assert(llm.calls[0].system.includes('leave "timestamps" empty'));
+});
+
+Deno.test("an empty answer is a parse error rather than an empty section", async () => {
+  const llm = createMockProvider({ rewrite_section: { title: "Stacks", content: "  ", timestamps: [] } });
+
+  const res = await regenerateNotePart({
+    ...note,
+    llm,
+    target: { kind: "section", section: { title: "Stacks", timestamp: "0:00", content: "LIFO." } },
+    instruction: "Simplify",
+    transcript,
+    start: 0,
+    end: 180,
+  });
+
+  assert(!res.success);
+  assertEquals(res.errorCode, "PARSE_ERROR");
+});
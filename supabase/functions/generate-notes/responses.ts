@@ -0,0 +1,21 @@
+import { jsonResponse as sharedJsonResponse } from "../_shared/http.ts";
+import type {
+  BatchSubmittedResponse,
+  CaptionTracksResponse,
+  ErrorResponse,
+  JobSubmittedResponse,
+  RegenerateResponse,
+  SuccessResponse,
+} from "./types.ts";
+
+export function jsonResponse(
+  payload:
+    | ErrorResponse
+    | SuccessResponse
+    | JobSubmittedResponse
+    | CaptionTracksResponse
+    | BatchSubmittedResponse
+    | RegenerateResponse,
+): Response {
+  return sharedJsonResponse(payload);
+}
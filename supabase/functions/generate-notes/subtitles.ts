@@ -0,0 +1,130 @@
+import { decodeXmlEntities } from "./parse.ts";
+import type { TranscriptSegment } from "./types.ts";
+
+export type TranscriptFormat = "srt" | "vtt" | "sbv" | "youtube" | "plain";
+
+// Copied transcripts have no end times; the last line is given this long
+const LAST_LINE_SECONDS = 4;
+
+const CUE_TIME = String.raw`(?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3}`;
+const ARROW_LINE_RE = new RegExp(`^(${CUE_TIME})\\s*-->\\s*(${CUE_TIME})`);
+const SBV_LINE_RE = /^(\d+:\d{2}:\d{2}\.\d{3}),(\d+:\d{2}:\d{2}\.\d{3})$/;
+const PANEL_TIME_RE = /^(?:\d{1,2}:)?\d{1,2}:\d{2}$/;
+
+/** "1:02:03.500", "02:03,5" and "2:03" all become seconds. */
+export function parseClockTime(value: string): number {
+  const [clock, fraction = ""] = value.trim().split(/[.,]/);
+  const parts = clock.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return fraction ? seconds + Number(`0.${fraction}`) : seconds;
+}
+
+const roundMs = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Cue text can carry VTT voice/class tags, inline karaoke timestamps and HTML entities
+function cleanCueText(lines: string[]): string {
+  return decodeXmlEntities(lines.join(" ").replace(/<[^>]*>/g, ""));
+}
+
+// Auto-generated VTT repeats each line in the next cue while it scrolls; keep the first occurrence
+function pushSegment(segments: TranscriptSegment[], segment: TranscriptSegment) {
+  if (!segment.text) return;
+  if (segments[segments.length - 1]?.text === segment.text) return;
+  segments.push(segment);
+}
+
+function parseArrowCues(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const lines = block.split("\n").map((l) => l.trim());
+    const timeIndex = lines.findIndex((l) => ARROW_LINE_RE.test(l));
+    if (timeIndex < 0) continue;
+
+    const m = lines[timeIndex].match(ARROW_LINE_RE);
+    if (!m) continue;
+    const start = parseClockTime(m[1]);
+    const end = parseClockTime(m[2]);
+
+    pushSegment(segments, {
+      text: cleanCueText(lines.slice(timeIndex + 1).filter(Boolean)),
+      start,
+      duration: roundMs(Math.max(0, end - start)),
+    });
+  }
+
+  return segments;
+}
+
+function parseSbv(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const [timeLine, ...rest] = block.split("\n").map((l) => l.trim());
+    const m = timeLine?.match(SBV_LINE_RE);
+    if (!m) continue;
+
+    const start = parseClockTime(m[1]);
+    pushSegment(segments, {
+      text: cleanCueText(rest.filter(Boolean)),
+      start,
+      duration: roundMs(Math.max(0, parseClockTime(m[2]) - start)),
+    });
+  }
+
+  return segments;
+}
+
+// YouTube's "Show transcript" panel copies as a timestamp line followed by its text
+function parseTranscriptPanel(lines: string[]): TranscriptSegment[] {
+  const cues: Array<{ start: number; lines: string[] }> = [];
+
+  for (const line of lines) {
+    if (PANEL_TIME_RE.test(line)) {
+      cues.push({ start: parseClockTime(line), lines: [] });
+    } else if (cues.length) {
+      cues[cues.length - 1].lines.push(line);
+    }
+  }
+
+  const segments: TranscriptSegment[] = [];
+  cues.forEach((cue, i) => {
+    const next = cues[i + 1];
+    pushSegment(segments, {
+      text: cleanCueText(cue.lines),
+      start: cue.start,
+      duration: next ? Math.max(0, next.start - cue.start) : LAST_LINE_SECONDS,
+    });
+  });
+  return segments;
+}
+
+/**
+ * Recognises pasted or dropped subtitle files so an override keeps its timestamps.
+ * Anything unrecognised comes back as "plain" with no segments.
+ */
+export function parseTranscriptText(input: string): { format: TranscriptFormat; segments: TranscriptSegment[] } {
+  const text = input.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  if (!lines.length) return { format: "plain", segments: [] };
+
+  if (/^WEBVTT\b/.test(lines[0])) {
+    return { format: "vtt", segments: parseArrowCues(text) };
+  }
+
+  if (lines.some((l) => ARROW_LINE_RE.test(l))) {
+    return { format: "srt", segments: parseArrowCues(text) };
+  }
+
+  if (SBV_LINE_RE.test(lines[0])) {
+    return { format: "sbv", segments: parseSbv(text) };
+  }
+
+  // Require a good share of timestamp lines so prose that happens to start with "1:30" stays plain
+  const panelTimes = lines.filter((l) => PANEL_TIME_RE.test(l)).length;
+  if (PANEL_TIME_RE.test(lines[0]) && panelTimes >= 3 && panelTimes * 3 >= lines.length) {
+    return { format: "youtube", segments: parseTranscriptPanel(lines) };
+  }
+
+  return { format: "plain", segments: [] };
+}
@@ -0,0 +1,88 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseClockTime, parseTranscriptText } from "./subtitles.ts";
+
+Deno.test("parseClockTime accepts SRT, VTT and panel clock formats", () => {
+  assertEquals(parseClockTime("00:01:02,500"), 62.5);
+  assertEquals(parseClockTime("01:02.25"), 62.25);
+  assertEquals(parseClockTime("1:02:03"), 3723);
+  assertEquals(parseClockTime("0:12"), 12);
+});
+
+Deno.test("SRT cues keep their start times and durations", () => {
+  const srt = [
+    "1",
+    "00:00:01,000 --> 00:00:04,200",
+    "A binary search tree keeps",
+    "keys in order.",
+    "",
+    "2",
+    "00:00:04,200 --> 00:00:07,000",
+    "<i>Insertion</i> walks down from the root.",
+    "",
+  ].join("\r\n");
+
+  assertEquals(parseTranscriptText(srt), {
+    format: "srt",
+    segments: [
+      { text: "A binary search tree keeps keys in order.", start: 1, duration: 3.2 },
+      { text: "Insertion walks down from the root.", start: 4.2, duration: 2.8 },
+    ],
+  });
+});
+
+Deno.test("WebVTT drops headers, notes, cue settings and rolling duplicates", () => {
+  const vtt = [
+    "WEBVTT",
+    "Kind: captions",
+    "Language: en",
+    "",
+    "NOTE generated by YouTube",
+    "",
+    "intro",
+    "00:00.000 --> 00:02.500 align:start position:0%",
+    "welcome<00:00:01.200><c> back</c> everyone",
+    "",
+    "00:02.500 --> 00:03.000",
+    "welcome back everyone",
+    "",
+    "00:01:03.000 --> 00:01:05.000",
+    "today: rotations &amp; balance",
+  ].join("\n");
+
+  assertEquals(parseTranscriptText(vtt), {
+    format: "vtt",
+    segments: [
+      { text: "welcome back everyone", start: 0, duration: 2.5 },
+      { text: "today: rotations & balance", start: 63, duration: 2 },
+    ],
+  });
+});
+
+Deno.test("SBV cues are parsed from their comma-separated time line", () => {
+  const sbv = "0:00:00.000,0:00:02.000\nFirst line\n\n0:00:02.000,0:00:05.500\nSecond line\n";
+
+  assertEquals(parseTranscriptText(sbv).segments, [
+    { text: "First line", start: 0, duration: 2 },
+    { text: "Second line", start: 2, duration: 3.5 },
+  ]);
+});
+
+Deno.test("YouTube transcript panel copies use the next timestamp as the end", () => {
+  const panel = "0:00\nhello and welcome\n0:05\nto lecture seven\n1:02:10\nthat's all for today\n";
+
+  assertEquals(parseTranscriptText(panel), {
+    format: "youtube",
+    segments: [
+      { text: "hello and welcome", start: 0, duration: 5 },
+      { text: "to lecture seven", start: 5, duration: 3725 },
+      { text: "that's all for today", start: 3730, duration: 4 },
+    ],
+  });
+});
+
+Deno.test("prose is left as plain text", () => {
+  assertEquals(parseTranscriptText("1:30 is when the talk starts.\nThen we cover trees."), {
+    format: "plain",
+    segments: [],
+  });
+});
@@ -0,0 +1,100 @@
+import { getSupabaseAdmin } from "./cache.ts";
+
+// Limits match the note_templates table constraints
+export const MAX_TEMPLATE_NAME_CHARS = 60;
+export const MAX_TEMPLATE_PROMPT_CHARS = 2000;
+export const MAX_REQUIRED_SECTIONS = 10;
+const MAX_SECTION_TITLE_CHARS = 80;
+
+export const TEMPLATE_LENGTHS = ["brief", "standard", "detailed"] as const;
+export const TEMPLATE_TONES = ["neutral", "formal", "conversational", "academic"] as const;
+
+export type NoteTemplate = {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  requiredSections: string[];
+  targetLength: (typeof TEMPLATE_LENGTHS)[number];
+  tone: (typeof TEMPLATE_TONES)[number];
+};
+
+const LENGTH_REQUIREMENTS: Record<NoteTemplate["targetLength"], string> = {
+  brief: "- Keep the notes short: a few key points and a handful of concise sections.",
+  standard: "",
+  detailed: "- Be thorough: cover every topic in the transcript with detailed sections.",
+};
+
+// Completion budget per length; "standard" is what generate-notes always asked for
+export const LENGTH_MAX_TOKENS: Record<NoteTemplate["targetLength"], number> = {
+  brief: 2500,
+  standard: 4000,
+  detailed: 6000,
+};
+
+const TONE_REQUIREMENTS: Record<NoteTemplate["tone"], string> = {
+  neutral: "",
+  formal: "- Use a formal, precise tone.",
+  conversational: "- Use a friendly, conversational tone.",
+  academic: "- Use an academic tone with precise terminology.",
+};
+
+/**
+ * Checks a stored template row before it reaches a prompt. The table's constraints already hold these
+ * limits, but rows can be written with any client, so the row is never trusted as is. Returns null
+ * when the row is not a usable template.
+ */
+export function validateTemplate(row: Record<string, unknown>): NoteTemplate | null {
+  const name = typeof row.name === "string" ? row.name.trim() : "";
+  const systemPrompt = typeof row.system_prompt === "string" ? row.system_prompt.trim() : "";
+  const sections = Array.isArray(row.required_sections) ? row.required_sections : [];
+  const targetLength = TEMPLATE_LENGTHS.find((l) => l === row.target_length);
+  const tone = TEMPLATE_TONES.find((t) => t === row.tone);
+
+  if (typeof row.id !== "string" || !name || name.length > MAX_TEMPLATE_NAME_CHARS) return null;
+  if (systemPrompt.length > MAX_TEMPLATE_PROMPT_CHARS || !targetLength || !tone) return null;
+  if (sections.length > MAX_REQUIRED_SECTIONS) return null;
+
+  const requiredSections: string[] = [];
+  for (const section of sections) {
+    // Titles are quoted in the prompt, so quotes and line breaks inside them are flattened
+    const title = typeof section === "string" ? section.replace(/[\s"]+/g, " ").trim() : "";
+    if (!title || title.length > MAX_SECTION_TITLE_CHARS) return null;
+    if (!requiredSections.some((t) => t.toLowerCase() === title.toLowerCase())) requiredSections.push(title);
+  }
+
+  return { id: row.id, name, systemPrompt, requiredSections, targetLength, tone };
+}
+
+/**
+ * Requirement lines for the notes prompt. They are added after the fixed output requirements, so a
+ * template can shape the notes but not drop the rule to stay within the transcript or cite it.
+ */
+export function templateRequirements(template: NoteTemplate, scope: "notes" | "part" = "notes"): string {
+  // Length and required sections describe whole notes; a single regenerated part only takes the tone
+  if (scope === "part") return TONE_REQUIREMENTS[template.tone];
+
+  const lines = [LENGTH_REQUIREMENTS[template.targetLength], TONE_REQUIREMENTS[template.tone]];
+  if (template.requiredSections.length) {
+    lines.push(
+      `- Include these sections, in this order and with exactly these titles, alongside any others: ${
+        template.requiredSections.map((t) => `"${t}"`).join(", ")
+      }. If the transcript has nothing for one, say so in a sentence instead of making something up.`,
+    );
+  }
+  return lines.filter(Boolean).join("\n");
+}
+
+/** The caller's template with this id, validated; null when it does not exist, is not theirs or is invalid. */
+export async function loadNoteTemplate(templateId: string, userId: string): Promise<NoteTemplate | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  if (!supabaseAdmin) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from("note_templates")
+    .select("id, user_id, name, system_prompt, required_sections, target_length, tone")
+    .eq("id", templateId)
+    .maybeSingle();
+
+  if (error || !data || data.user_id !== userId) return null;
+  return validateTemplate(data);
+}
@@ -0,0 +1,41 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { templateRequirements, validateTemplate } from "./templates.ts";
+
+const row = {
+  id: "tpl-1",
+  name: "  Study guide ",
+  system_prompt: "You write study guides.",
+  required_sections: ["Definitions", ' Key\n"formulas" ', "definitions"],
+  target_length: "brief",
+  tone: "academic",
+};
+
+Deno.test("stored templates are trimmed and their section titles made safe to quote", () => {
+  assertEquals(validateTemplate(row), {
+    id: "tpl-1",
+    name: "Study guide",
+    systemPrompt: "You write study guides.",
+    requiredSections: ["Definitions", "Key formulas"],
+    targetLength: "brief",
+    tone: "academic",
+  });
+});
+
+Deno.test("rows outside the template limits are rejected rather than repaired", () => {
+  assertEquals(validateTemplate({ ...row, name: " " }), null);
+  assertEquals(validateTemplate({ ...row, tone: "sarcastic" }), null);
+  assertEquals(validateTemplate({ ...row, target_length: undefined }), null);
+  assertEquals(validateTemplate({ ...row, system_prompt: "x".repeat(2001) }), null);
+  assertEquals(validateTemplate({ ...row, required_sections: Array.from({ length: 11 }, (_, i) => `S${i}`) }), null);
+  assertEquals(validateTemplate({ ...row, required_sections: ["Fine", 42] }), null);
+});
+
+Deno.test("regenerated parts only take the template's tone", () => {
+  const template = validateTemplate(row)!;
+
+  const notes = templateRequirements(template);
+  assert(notes.includes("Keep the notes short"));
+  assert(notes.includes('"Definitions", "Key formulas"'));
+  assertEquals(templateRequirements(template, "part"), "- Use an academic tone with precise terminology.");
+  assertEquals(templateRequirements({ ...template, tone: "neutral" }, "part"), "");
+});
@@ -0,0 +1,40 @@
+export type FetchRoute = {
+  match: (url: URL, init?: RequestInit) => boolean;
+  respond: (url: URL, init?: RequestInit) => Response | Promise<Response>;
+};
+
+export type FetchCall = { url: URL; method: string; body?: string };
+
+/**
+ * Replaces global fetch with a router over recorded fixtures. Unmatched requests get an empty 404,
+ * which every transcript source treats as "not available" without retrying.
+ */
+export function stubFetch(routes: FetchRoute[]) {
+  const original = globalThis.fetch;
+  const calls: FetchCall[] = [];
+
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    calls.push({ url, method: init?.method ?? "GET", body: typeof init?.body === "string" ? init.body : undefined });
+
+    const route = routes.find((r) => r.match(url, init));
+    return Promise.resolve(route ? route.respond(url, init) : new Response("", { status: 404 }));
+  }) as typeof fetch;
+
+  return {
+    calls,
+    restore: () => {
+      globalThis.fetch = original;
+    },
+  };
+}
+
+export function readFixture(name: string): Promise<string> {
+  return Deno.readTextFile(new URL(`./testdata/${name}`, import.meta.url));
+}
+
+export function textResponse(body: string, status = 200): Response {
+  return new Response(body, { status });
+}
+
+export const isTimedtext = (url: URL) => url.pathname === "/api/timedtext" || url.pathname === "/timedtext";
@@ -0,0 +1,509 @@
+import { fetchWithRetry } from "../_shared/http.ts";
+import { getCachedTranscript, saveCachedTranscript } from "./cache.ts";
+import { decodeXmlEntities, parseAttributes, parseTimedTextXml, extractBalancedJsonObjectAfterMarker, extractQuotedValue } from "./parse.ts";
+import { parseTranscriptText } from "./subtitles.ts";
+import { noopProgress, type CaptionTrack, type TranscriptResult, type ProgressEmitter } from "./types.ts";
+
+const UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+export const DEFAULT_CAPTION_LANGUAGES = ["en"];
+
+// "en" matches "en-US" and the other way round; region only matters when picking between tracks
+export function languageMatches(trackLang: string, wanted: string): boolean {
+  const a = trackLang.toLowerCase();
+  const b = wanted.toLowerCase();
+  return a === b || a.split("-")[0] === b.split("-")[0];
+}
+
+// Walks the preferred languages in order: exact code before base language, manual before auto-generated.
+// Without a match it keeps the old behaviour of English first, then whatever track is listed first.
+export function selectCaptionTrack<T extends { lang: string; kind?: string }>(
+  tracks: T[],
+  preferredLangs: string[],
+): T | undefined {
+  for (const wanted of preferredLangs) {
+    const candidates = tracks.filter((t) => languageMatches(t.lang, wanted));
+    const exact = candidates.filter((t) => t.lang.toLowerCase() === wanted.toLowerCase());
+    const pool = exact.length ? exact : candidates;
+    const picked = pool.find((t) => t.kind !== "asr") ?? pool[0];
+    if (picked) return picked;
+  }
+
+  return tracks.find((t) => t.lang.toLowerCase().startsWith("en")) || tracks[0];
+}
+
+export async function getVideoTitleViaOEmbed(videoId: string): Promise<string> {
+  try {
+    const url = `https://www.youtube.com/oembed?url=${encodeURIComponent(`https://www.youtube.com/watch?v=${videoId}`)}&format=json`;
+    const res = await fetchWithRetry(url, {
+      headers: {
+        "User-Agent": UA,
+        "Accept-Language": "en-US,en;q=0.9",
+      },
+    }, { retries: 2, baseDelayMs: 500 });
+
+    if (!res.ok) return "YouTube Video";
+    const data = await res.json().catch(() => null);
+    return (data?.title as string) || "YouTube Video";
+  } catch {
+    return "YouTube Video";
+  }
+}
+
+export async function tryTimedTextDirect(
+  videoId: string,
+  langs: string[] = DEFAULT_CAPTION_LANGUAGES,
+): Promise<TranscriptResult | null> {
+  const bases = ["https://www.youtube.com/api/timedtext", "https://video.google.com/timedtext"];
+
+  const attempts: Array<{ lang: string; kind?: string; fmt?: string; label: string }> = langs.flatMap((lang) => [
+    { lang, fmt: "srv3", label: `${lang}_srv3` },
+    { lang, kind: "asr", fmt: "srv3", label: `${lang}_asr_srv3` },
+    { lang, label: lang },
+    { lang, kind: "asr", label: `${lang}_asr` },
+  ]);
+
+  for (const base of bases) {
+    for (const a of attempts) {
+      const url = new URL(base);
+      url.searchParams.set("v", videoId);
+      url.searchParams.set("lang", a.lang);
+      if (a.kind) url.searchParams.set("kind", a.kind);
+      if (a.fmt) url.searchParams.set("fmt", a.fmt);
+
+      const res = await fetchWithRetry(url.toString(), {
+        headers: {
+          "User-Agent": UA,
+          "Accept-Language": "en-US,en;q=0.9",
+          Cookie: "CONSENT=YES+1; SOCS=CAI",
+        },
+      }, { retries: 2, baseDelayMs: 700 });
+
+      const text = await res.text();
+      if (!res.ok || text.length < 20) continue;
+
+      const parsed = parseTimedTextXml(text);
+      if (parsed.segments.length > 10 && parsed.transcript.length > 200) {
+        console.log("Timedtext direct transcript ok:", { base, attempt: a.label, segments: parsed.segments.length });
+        return {
+          transcript: parsed.transcript,
+          segments: parsed.segments,
+          lang: a.lang,
+          source: "timedtext",
+          usedCache: false,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+export async function listCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+  const listUrls = [
+    `https://www.youtube.com/api/timedtext?type=list&v=${videoId}`,
+    `https://video.google.com/timedtext?type=list&v=${videoId}`,
+  ];
+
+  for (const url of listUrls) {
+    const res = await fetchWithRetry(url, {
+      headers: {
+        "User-Agent": UA,
+        "Accept-Language": "en-US,en;q=0.9",
+        Cookie: "CONSENT=YES+1; SOCS=CAI",
+      },
+    }, { retries: 2, baseDelayMs: 700 });
+
+    const xml = await res.text();
+    if (!res.ok || xml.length < 20) continue;
+
+    const tracks: CaptionTrack[] = [];
+    const trackRe = /<track\b([^/>]*)\/>/g;
+    let m: RegExpExecArray | null;
+    while ((m = trackRe.exec(xml))) {
+      const attrs = parseAttributes(m[1]);
+      const lang = attrs.lang_code || attrs.lang || "";
+      if (!lang) continue;
+      const name = attrs.name ? decodeXmlEntities(attrs.name) : undefined;
+      const kind = attrs.kind || undefined;
+      tracks.push({ lang, name, kind });
+    }
+
+    if (tracks.length) return tracks;
+  }
+
+  return [];
+}
+
+export async function tryTimedTextFromList(
+  videoId: string,
+  langs: string[] = DEFAULT_CAPTION_LANGUAGES,
+): Promise<TranscriptResult | null> {
+  const tracks = await listCaptionTracks(videoId);
+  const preferred = selectCaptionTrack(tracks, langs);
+  if (!preferred) return null;
+
+  const bases = ["https://www.youtube.com/api/timedtext", "https://video.google.com/timedtext"];
+
+  for (const base of bases) {
+    const url = new URL(base);
+    url.searchParams.set("v", videoId);
+    url.searchParams.set("lang", preferred.lang);
+    if (preferred.name) url.searchParams.set("name", preferred.name);
+
+    const res = await fetchWithRetry(url.toString(), {
+      headers: {
+        "User-Agent": UA,
+        "Accept-Language": "en-US,en;q=0.9",
+        Cookie: "CONSENT=YES+1; SOCS=CAI",
+      },
+    }, { retries: 2, baseDelayMs: 700 });
+
+    const xml = await res.text();
+    if (!res.ok || xml.length < 20) continue;
+
+    const parsed = parseTimedTextXml(xml);
+    if (parsed.segments.length > 10 && parsed.transcript.length > 200) {
+      console.log("Timedtext list transcript ok:", { base, lang: preferred.lang, segments: parsed.segments.length });
+      return {
+        transcript: parsed.transcript,
+        segments: parsed.segments,
+        lang: preferred.lang,
+        source: "timedtext_list",
+        usedCache: false,
+      };
+    }
+  }
+
+  return null;
+}
+
+// Legacy fallback: watch page parsing + Innertube
+export async function fetchWatchHtml(videoId: string): Promise<string> {
+  const urls = [
+    `https://www.youtube.com/watch?v=${videoId}&hl=en&gl=US&bpctr=9999999999&has_verified=1`,
+    `https://www.youtube.com/watch?v=${videoId}&hl=en&gl=US`,
+    `https://www.youtube.com/watch?v=${videoId}`,
+  ];
+
+  let lastStatus = 0;
+  for (const url of urls) {
+    const res = await fetchWithRetry(url, {
+      headers: {
+        "User-Agent": UA,
+        "Accept-Language": "en-US,en;q=0.9",
+        Cookie: "CONSENT=YES+1; SOCS=CAI",
+      },
+    }, { retries: 2, baseDelayMs: 900, retryOn: [429, 503] });
+
+    lastStatus = res.status;
+    const html = await res.text();
+
+    if (res.ok && (html.includes("ytInitialPlayerResponse") || html.includes("INNERTUBE_API_KEY"))) {
+      return html;
+    }
+  }
+
+  throw new Error(`Failed to fetch usable watch page (last status ${lastStatus})`);
+}
+
+export async function fetchPlayerViaInnertube(args: {
+  videoId: string;
+  apiKey: string;
+  clientVersion: string;
+  context?: unknown;
+}): Promise<any> {
+  const { videoId, apiKey, clientVersion, context } = args;
+
+  const body: any = {
+    videoId,
+    context: context ?? {
+      client: {
+        clientName: "WEB",
+        clientVersion,
+        hl: "en",
+        gl: "US",
+      },
+    },
+  };
+
+  const res = await fetchWithRetry(`https://www.youtube.com/youtubei/v1/player?key=${apiKey}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": UA,
+      "Accept-Language": "en-US,en;q=0.9",
+      Origin: "https://www.youtube.com",
+      Referer: "https://www.youtube.com/",
+      "X-Youtube-Client-Name": "1",
+      "X-Youtube-Client-Version": clientVersion,
+      Cookie: "CONSENT=YES+1; SOCS=CAI",
+    },
+    body: JSON.stringify(body),
+  }, { retries: 2, baseDelayMs: 900, retryOn: [429, 503] });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    console.error("Innertube player error:", res.status, t.slice(0, 500));
+    throw new Error(`Innertube player request failed (${res.status})`);
+  }
+
+  return await res.json();
+}
+
+type PlayerCaptionTrack = {
+  baseUrl?: string;
+  languageCode?: string;
+  kind?: string;
+  name?: { simpleText?: string; runs?: Array<{ text?: string }> };
+};
+
+function toCaptionTrack(track: PlayerCaptionTrack): CaptionTrack | null {
+  if (!track.languageCode) return null;
+  const name = track.name?.simpleText ?? track.name?.runs?.map((r) => r.text ?? "").join("");
+  return { lang: track.languageCode, name: name || undefined, kind: track.kind || undefined, baseUrl: track.baseUrl };
+}
+
+// Caption tracks from the watch page's player response, asking Innertube when the page has none
+export async function fetchPlayerCaptionTracks(
+  videoId: string,
+): Promise<{ tracks: CaptionTrack[]; source: "watch" | "innertube" }> {
+  const html = await fetchWatchHtml(videoId);
+
+  let playerResponse: any | null = null;
+
+  const playerJson = extractBalancedJsonObjectAfterMarker(html, "ytInitialPlayerResponse");
+  if (playerJson) {
+    try {
+      playerResponse = JSON.parse(playerJson);
+    } catch (e) {
+      console.error("Failed to parse ytInitialPlayerResponse JSON:", e);
+    }
+  }
+
+  const embeddedTracks = playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks as PlayerCaptionTrack[] | undefined;
+  let source: "watch" | "innertube" = "watch";
+
+  if (!embeddedTracks?.length) {
+    const apiKey = extractQuotedValue(html, "INNERTUBE_API_KEY");
+    const clientVersion = extractQuotedValue(html, "INNERTUBE_CLIENT_VERSION") ?? "2.20240101.00.00";
+
+    if (apiKey) {
+      let context: unknown = undefined;
+      const ctxJson = extractBalancedJsonObjectAfterMarker(html, "\"INNERTUBE_CONTEXT\"");
+      if (ctxJson) {
+        try {
+          context = JSON.parse(ctxJson);
+        } catch (e) {
+          console.error("Failed to parse INNERTUBE_CONTEXT:", e);
+        }
+      }
+
+      console.log("Watch page missing tracks; trying Innertube...", { clientVersion });
+      playerResponse = await fetchPlayerViaInnertube({ videoId, apiKey, clientVersion, context });
+      source = "innertube";
+    }
+  }
+
+  const captionTracks = (playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? []) as PlayerCaptionTrack[];
+  const tracks = captionTracks.map(toCaptionTrack).filter((t): t is CaptionTrack => t !== null);
+
+  return { tracks, source };
+}
+
+export async function tryTranscriptFromWatchOrInnertube(
+  videoId: string,
+  langs: string[] = DEFAULT_CAPTION_LANGUAGES,
+): Promise<TranscriptResult | null> {
+  const { tracks, source } = await fetchPlayerCaptionTracks(videoId);
+  const selectedTrack = selectCaptionTrack(tracks, langs);
+  if (!selectedTrack?.baseUrl) return null;
+
+  const transcriptResponse = await fetchWithRetry(selectedTrack.baseUrl, {
+    headers: {
+      "User-Agent": UA,
+      "Accept-Language": "en-US,en;q=0.9",
+      Cookie: "CONSENT=YES+1; SOCS=CAI",
+    },
+  }, { retries: 2, baseDelayMs: 900, retryOn: [429, 503] });
+
+  if (!transcriptResponse.ok) return null;
+  const xml = await transcriptResponse.text();
+  if (xml.length < 20) return null;
+
+  const parsed = parseTimedTextXml(xml);
+  if (parsed.segments.length > 10 && parsed.transcript.length > 200) {
+    return {
+      transcript: parsed.transcript,
+      segments: parsed.segments,
+      lang: selectedTrack.lang,
+      source,
+      usedCache: false,
+    };
+  }
+
+  return null;
+}
+
+// Everything the video offers, for choosing a caption language before generating
+export async function listAvailableCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+  const listed = await listCaptionTracks(videoId);
+  if (listed.length) return listed;
+
+  const { tracks } = await fetchPlayerCaptionTracks(videoId);
+  return tracks.map(({ baseUrl: _baseUrl, ...track }) => track);
+}
+
+export async function fetchTranscriptBestEffort(args: {
+  videoId: string;
+  transcriptOverride?: string;
+  captionLanguages?: string[];
+  onProgress?: ProgressEmitter;
+}): Promise<{ result: TranscriptResult | null; debug: Record<string, unknown> }> {
+  const { videoId, transcriptOverride, captionLanguages } = args;
+  const langs = captionLanguages?.length ? captionLanguages : DEFAULT_CAPTION_LANGUAGES;
+  const onProgress = args.onProgress ?? noopProgress;
+
+  const debug: Record<string, unknown> = { videoId };
+  const attemptTimings: Record<string, number> = {};
+
+  // Times one transcript source so a stalling source shows up both in the stream and in debug
+  const attempt = async <T>(source: string, message: string, progress: number, fn: () => Promise<T>): Promise<T> => {
+    onProgress({ stage: "transcript_attempt", message, progress, detail: { source } });
+    const startedAt = Date.now();
+    try {
+      return await fn();
+    } finally {
+      attemptTimings[source] = Date.now() - startedAt;
+      debug.attemptTimings = attemptTimings;
+    }
+  };
+
+  if (transcriptOverride && transcriptOverride.trim().length >= 200) {
+    // Subtitle files and transcript-panel copies keep their timestamps
+    const { format, segments } = parseTranscriptText(transcriptOverride);
+    if (segments.length) {
+      const transcript = segments.map((s) => s.text).join(" ");
+      return {
+        result: { transcript, segments, source: "override", usedCache: false },
+        debug: { ...debug, mode: "override", overrideFormat: format, transcriptChars: transcript.length, segments: segments.length },
+      };
+    }
+
+    const cleaned = transcriptOverride.replace(/\s+/g, " ").trim();
+    return {
+      result: {
+        transcript: cleaned,
+        segments: [],
+        source: "override",
+        usedCache: false,
+      },
+      debug: { ...debug, mode: "override", transcriptChars: cleaned.length },
+    };
+  }
+
+  const cached = await attempt("cache", "Checking transcript cache...", 8, () => getCachedTranscript(videoId));
+
+  // The cache holds one transcript per video, so it is skipped when it is in a language the caller did not ask for
+  const cachedLang = cached?.lang;
+  if (cachedLang && captionLanguages?.length && !captionLanguages.some((l) => languageMatches(cachedLang, l))) {
+    debug.cacheSkipped = { cachedLang, captionLanguages };
+  } else if (cached) {
+    onProgress({
+      stage: "cache_hit",
+      message: "Found cached transcript",
+      progress: 30,
+      detail: { segments: cached.segments.length },
+    });
+    return {
+      result: cached,
+      debug: {
+        ...debug,
+        mode: "cache",
+        transcriptChars: cached.transcript.length,
+        segments: cached.segments.length,
+      },
+    };
+  }
+
+  const timedtextDirect = await attempt("timedtext", "Fetching captions...", 12, () => tryTimedTextDirect(videoId, langs));
+  if (timedtextDirect) {
+    await saveCachedTranscript({
+      videoId,
+      transcript: timedtextDirect.transcript,
+      segments: timedtextDirect.segments,
+      lang: timedtextDirect.lang,
+      source: timedtextDirect.source,
+    });
+
+    return {
+      result: timedtextDirect,
+      debug: {
+        ...debug,
+        mode: timedtextDirect.source,
+        transcriptChars: timedtextDirect.transcript.length,
+        segments: timedtextDirect.segments.length,
+      },
+    };
+  }
+
+  const timedtextList = await attempt(
+    "timedtext_list",
+    "Looking up caption tracks...",
+    18,
+    () => tryTimedTextFromList(videoId, langs),
+  );
+  if (timedtextList) {
+    await saveCachedTranscript({
+      videoId,
+      transcript: timedtextList.transcript,
+      segments: timedtextList.segments,
+      lang: timedtextList.lang,
+      source: timedtextList.source,
+    });
+
+    return {
+      result: timedtextList,
+      debug: {
+        ...debug,
+        mode: timedtextList.source,
+        transcriptChars: timedtextList.transcript.length,
+        segments: timedtextList.segments.length,
+      },
+    };
+  }
+
+  // Last resort fallback (can be rate-limited by YouTube)
+  try {
+    const legacy = await attempt(
+      "watch",
+      "Reading captions from the watch page...",
+      24,
+      () => tryTranscriptFromWatchOrInnertube(videoId, langs),
+    );
+    if (legacy) {
+      await saveCachedTranscript({
+        videoId,
+        transcript: legacy.transcript,
+        segments: legacy.segments,
+        lang: legacy.lang,
+        source: legacy.source,
+      });
+
+      return {
+        result: legacy,
+        debug: {
+          ...debug,
+          mode: legacy.source,
+          transcriptChars: legacy.transcript.length,
+          segments: legacy.segments.length,
+        },
+      };
+    }
+  } catch (e) {
+    debug.watchFallbackError = e instanceof Error ? e.message : String(e);
+  }
+
+  return { result: null, debug: { ...debug, mode: "none" } };
+}
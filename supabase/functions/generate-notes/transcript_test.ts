@@ -0,0 +1,178 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { fetchTranscriptBestEffort, listAvailableCaptionTracks, selectCaptionTrack } from "./transcript.ts";
+import { isTimedtext, readFixture, stubFetch, textResponse } from "./test_helpers.ts";
+
+const videoId = "bstLecture1";
+
+Deno.test("override transcripts are used as-is without touching the network", async () => {
+  const stub = stubFetch([]);
+  try {
+    const override = "Pasted transcript sentence. ".repeat(10);
+    const { result, debug } = await fetchTranscriptBestEffort({ videoId, transcriptOverride: override });
+
+    assertEquals(result?.source, "override");
+    assertEquals(result?.transcript, override.trim());
+    assertEquals(debug.mode, "override");
+    assertEquals(stub.calls.length, 0);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("pasted subtitle files keep their timestamps", async () => {
+  const stub = stubFetch([]);
+  try {
+    const srt = Array.from(
+      { length: 12 },
+      (_, i) => `${i + 1}\n00:00:${String(i * 5).padStart(2, "0")},000 --> 00:00:${String(i * 5 + 5).padStart(2, "0")},000\nCue number ${i} talks about tree rotations.\n`,
+    ).join("\n");
+    const { result, debug } = await fetchTranscriptBestEffort({ videoId, transcriptOverride: srt });
+
+    assertEquals(result?.source, "override");
+    assertEquals(result?.segments.length, 12);
+    assertEquals(result?.segments[11], { text: "Cue number 11 talks about tree rotations.", start: 55, duration: 5 });
+    assertEquals(debug.overrideFormat, "srt");
+    assertEquals(stub.calls.length, 0);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("direct timedtext is tried first and wins when it returns captions", async () => {
+  const xml = await readFixture("timedtext_en.xml");
+  const stub = stubFetch([
+    { match: (url) => isTimedtext(url) && url.searchParams.get("lang") === "en", respond: () => textResponse(xml) },
+  ]);
+  try {
+    const { result, debug } = await fetchTranscriptBestEffort({ videoId });
+
+    assertEquals(result?.source, "timedtext");
+    assertEquals(result?.segments.length, 14);
+    assertEquals(debug.mode, "timedtext");
+    assertEquals(stub.calls[0].url.searchParams.get("fmt"), "srv3");
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("falls back to the caption track list and picks the English track", async () => {
+  const list = await readFixture("timedtext_list.xml");
+  const xml = await readFixture("timedtext_en.xml");
+  const stub = stubFetch([
+    { match: (url) => isTimedtext(url) && url.searchParams.get("type") === "list", respond: () => textResponse(list) },
+    {
+      match: (url) => isTimedtext(url) && url.searchParams.get("lang") === "en-US" && url.searchParams.has("name"),
+      respond: () => textResponse(xml),
+    },
+  ]);
+  try {
+    const { result } = await fetchTranscriptBestEffort({ videoId });
+
+    assertEquals(result?.source, "timedtext_list");
+    assertEquals(result?.lang, "en-US");
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("falls back to caption tracks embedded in the watch page", async () => {
+  const html = await readFixture("watch_page.html");
+  const xml = await readFixture("timedtext_en.xml");
+  const stub = stubFetch([
+    { match: (url) => url.pathname === "/watch", respond: () => textResponse(html) },
+    { match: (url) => isTimedtext(url) && url.searchParams.get("from") === "watch", respond: () => textResponse(xml) },
+  ]);
+  try {
+    const { result } = await fetchTranscriptBestEffort({ videoId });
+
+    assertEquals(result?.source, "watch");
+    assertEquals(result?.lang, "en");
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("asks Innertube for the player when the watch page has no caption tracks", async () => {
+  const html = await readFixture("watch_page_no_tracks.html");
+  const player = await readFixture("innertube_player.json");
+  const xml = await readFixture("timedtext_en.xml");
+  const stub = stubFetch([
+    { match: (url) => url.pathname === "/watch", respond: () => textResponse(html) },
+    { match: (url) => url.pathname === "/youtubei/v1/player", respond: () => textResponse(player) },
+    { match: (url) => isTimedtext(url) && url.searchParams.get("from") === "innertube", respond: () => textResponse(xml) },
+  ]);
+  try {
+    const { result } = await fetchTranscriptBestEffort({ videoId });
+    const innertubeCall = stub.calls.find((c) => c.url.pathname === "/youtubei/v1/player");
+
+    assertEquals(result?.source, "innertube");
+    assertEquals(innertubeCall?.url.searchParams.get("key"), "AIzaSyInnertubeKey");
+    assertEquals(JSON.parse(innertubeCall?.body ?? "{}").context.client.clientVersion, "2.20241001.00.00");
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("reports every attempted source when nothing yields a transcript", async () => {
+  const stub = stubFetch([]);
+  const stages: string[] = [];
+  try {
+    const { result, debug } = await fetchTranscriptBestEffort({
+      videoId,
+      onProgress: (e) => stages.push(String(e.detail?.source)),
+    });
+
+    assertEquals(result, null);
+    assertEquals(debug.mode, "none");
+    assert(String(debug.watchFallbackError).includes("Failed to fetch usable watch page"));
+    assertEquals(stages, ["cache", "timedtext", "timedtext_list", "watch"]);
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("caption track selection follows the preferred languages in order", () => {
+  const tracks = [
+    { lang: "de", kind: "asr" },
+    { lang: "de" },
+    { lang: "en-US" },
+    { lang: "pt-BR" },
+  ];
+
+  assertEquals(selectCaptionTrack(tracks, ["de"]), { lang: "de" });
+  assertEquals(selectCaptionTrack(tracks, ["fr", "pt"]), { lang: "pt-BR" });
+  assertEquals(selectCaptionTrack(tracks, ["en-GB"]), { lang: "en-US" });
+  assertEquals(selectCaptionTrack(tracks, ["ja"]), { lang: "en-US" });
+  assertEquals(selectCaptionTrack([], ["en"]), undefined);
+});
+
+Deno.test("a requested caption language picks that track from the watch page", async () => {
+  const html = await readFixture("watch_page.html");
+  const xml = await readFixture("timedtext_en.xml");
+  const stub = stubFetch([
+    { match: (url) => url.pathname === "/watch", respond: () => textResponse(html) },
+    { match: (url) => isTimedtext(url) && url.searchParams.get("caps") === "asr", respond: () => textResponse(xml) },
+  ]);
+  try {
+    const { result } = await fetchTranscriptBestEffort({ videoId, captionLanguages: ["de"] });
+
+    assertEquals(result?.source, "watch");
+    assertEquals(result?.lang, "de");
+    assert(stub.calls.some((c) => isTimedtext(c.url) && c.url.searchParams.get("lang") === "de"));
+  } finally {
+    stub.restore();
+  }
+});
+
+Deno.test("available tracks fall back to the watch page when the list endpoint is empty", async () => {
+  const html = await readFixture("watch_page.html");
+  const stub = stubFetch([{ match: (url) => url.pathname === "/watch", respond: () => textResponse(html) }]);
+  try {
+    assertEquals(await listAvailableCaptionTracks(videoId), [
+      { lang: "de", name: "German (auto-generated)", kind: "asr" },
+      { lang: "en", name: "English", kind: undefined },
+    ]);
+  } finally {
+    stub.restore();
+  }
+});
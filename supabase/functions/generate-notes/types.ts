@@ -0,0 +1,124 @@
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  duration: number;
+}
+
+export type CaptionTrack = {
+  lang: string;
+  name?: string;
+  kind?: string;
+  baseUrl?: string;
+};
+
+export type TranscriptResult = {
+  transcript: string;
+  segments: TranscriptSegment[];
+  lang?: string;
+  source: "cache" | "timedtext" | "timedtext_list" | "watch" | "innertube" | "override" | "upload";
+  usedCache: boolean;
+};
+
+export type ErrorResponse = {
+  success: false;
+  error: string;
+  errorCode?: string;
+  debug?: Record<string, unknown>;
+};
+
+export type SuccessResponse = {
+  success: true;
+  notes: {
+    title: string;
+    summary: string;
+    keyPoints: string[];
+    sections: Array<{ title: string; timestamp: string; content: string }>;
+    duration: string;
+    sourceLanguage: string | null;
+    outputLanguage: string | null;
+    /** Citations for keyPoints/sections by index; null when the transcript has no timestamps */
+    grounding: NoteGrounding | null;
+  };
+  /** What the notes were generated from, saved with the note so it can be read and searched */
+  transcript: NoteTranscript;
+  debug?: Record<string, unknown>;
+};
+
+export type NoteCitation = {
+  /** Transcript timestamps ("m:ss") the claim cites */
+  timestamps: string[];
+  /** Transcript text inside the cited spans, trimmed for display */
+  excerpt: string;
+  /** Share of the claim's content words found in the excerpt */
+  score: number;
+  /** null when the check was skipped, e.g. for notes translated out of the transcript's language */
+  supported: boolean | null;
+};
+
+export type NoteGrounding = {
+  keyPoints: NoteCitation[];
+  sections: NoteCitation[];
+  unsupported: number;
+  verified: boolean;
+  /** Seconds of transcript each cited timestamp covers; missing on notes grounded before it was stored */
+  spanSeconds?: number;
+};
+
+export type NoteTranscript = {
+  source: TranscriptResult["source"];
+  language: string | null;
+  segments: TranscriptSegment[];
+  text: string;
+};
+
+export type CaptionTracksResponse = {
+  success: true;
+  tracks: Array<Omit<CaptionTrack, "baseUrl">>;
+};
+
+export type JobSubmittedResponse = {
+  success: true;
+  jobId: string;
+};
+
+export type BatchSubmittedResponse = {
+  success: true;
+  groupId: string;
+  videoCount?: number;
+};
+
+export type RegeneratedSection = { title: string; timestamp: string; content: string };
+
+/** One section or key point written again; the caller puts it in place of the old one */
+export type RegenerateResponse = {
+  success: true;
+  section?: RegeneratedSection;
+  keyPoint?: string;
+  /** null when the transcript has no timestamps */
+  citation: NoteCitation | null;
+};
+
+export type ChunkSummary = { chunkSummary: string; chunkKeyPoints: string[] };
+
+export type ProgressStage =
+  | "start"
+  | "transcript_attempt"
+  | "cache_hit"
+  | "transcript_ready"
+  | "chunk"
+  | "synthesis"
+  | "validation"
+  | "done";
+
+export type ProgressEvent = {
+  type: "progress";
+  stage: ProgressStage;
+  message: string;
+  progress: number;
+  elapsedMs: number;
+  detail?: Record<string, unknown>;
+};
+
+export type ProgressEmitter = (event: Omit<ProgressEvent, "type" | "elapsedMs">) => void;
+
+export const noopProgress: ProgressEmitter = () => {};
@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorPayload, jsonResponse } from "../_shared/http.ts";
+import { getLlmProvider } from "../_shared/llm/index.ts";
+import { getSupabaseAdmin, getUserIdFromRequest } from "../_shared/supabase.ts";
+import type { ErrorResponse } from "../generate-notes/types.ts";
+import {
+  DEFAULT_QUESTIONS,
+  generateQuiz,
+  gradeQuiz,
+  MAX_QUESTIONS,
+  readAnswers,
+  toPublicQuestions,
+  type PublicQuizQuestion,
+  type QuizQuestion,
+  type QuizResult,
+} from "./quiz.ts";
+
+type SupabaseAdmin = NonNullable<ReturnType<typeof getSupabaseAdmin>>;
+
+type QuizSuccessResponse = {
+  success: true;
+  quiz: { id: string; note_id: string; questions: PublicQuizQuestion[]; created_at: string };
+};
+
+type AttemptSuccessResponse = {
+  success: true;
+  attempt: { id: string; quiz_id: string; note_id: string; score: number; total: number; created_at: string };
+  results: QuizResult[];
+};
+
+async function handleGenerate(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  body: Record<string, unknown>,
+): Promise<ErrorResponse | QuizSuccessResponse> {
+  const noteId = typeof body?.noteId === "string" ? body.noteId : "";
+  if (!noteId) {
+    return { success: false, error: "A note is required", errorCode: "BAD_REQUEST" };
+  }
+  const requested = Number(body?.count);
+  const count = Number.isInteger(requested) ? Math.min(Math.max(requested, 1), MAX_QUESTIONS) : DEFAULT_QUESTIONS;
+
+  const { data: note } = await supabaseAdmin
+    .from("notes")
+    .select("id, user_id, video_title, summary, key_points, sections")
+    .eq("id", noteId)
+    .maybeSingle();
+  if (!note || note.user_id !== userId) {
+    return { success: false, error: "Note not found", errorCode: "NOT_FOUND" };
+  }
+
+  const llm = getLlmProvider();
+  if (!llm) {
+    return { success: false, error: "AI service not configured", errorCode: "AI_NOT_CONFIGURED" };
+  }
+
+  const questions = await generateQuiz(
+    llm,
+    {
+      title: note.video_title,
+      summary: note.summary,
+      keyPoints: Array.isArray(note.key_points) ? note.key_points : [],
+      sections: Array.isArray(note.sections) ? note.sections : [],
+    },
+    count,
+  );
+  if (!questions.length) {
+    return { success: false, error: "No quiz questions could be made from this note", errorCode: "NO_QUESTIONS" };
+  }
+
+  const { data: quiz, error } = await supabaseAdmin
+    .from("quizzes")
+    .insert({ note_id: noteId, user_id: userId, questions })
+    .select("id, note_id, created_at")
+    .single();
+  if (error || !quiz) {
+    console.error("Failed to save quiz:", noteId, error?.message);
+    return { success: false, error: "The quiz could not be saved. Please try again.", errorCode: "SAVE_FAILED" };
+  }
+
+  return { success: true, quiz: { ...quiz, questions: toPublicQuestions(questions) } };
+}
+
+// Answers are graded here so the correct ones never reach the browser before the attempt is in
+async function handleSubmit(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  body: Record<string, unknown>,
+): Promise<ErrorResponse | AttemptSuccessResponse> {
+  const quizId = typeof body?.quizId === "string" ? body.quizId : "";
+  if (!quizId || !Array.isArray(body?.answers)) {
+    return { success: false, error: "A quiz and its answers are required", errorCode: "BAD_REQUEST" };
+  }
+  const { data: quiz } = await supabaseAdmin
+    .from("quizzes")
+    .select("id, note_id, user_id, questions")
+    .eq("id", quizId)
+    .maybeSingle();
+  if (!quiz || quiz.user_id !== userId) {
+    return { success: false, error: "Quiz not found", errorCode: "NOT_FOUND" };
+  }
+
+  const questions = quiz.questions as QuizQuestion[];
+  const answers = readAnswers(questions, body.answers as unknown[]);
+  const { score, total, results } = gradeQuiz(questions, answers);
+
+  const { data: attempt, error } = await supabaseAdmin
+    .from("quiz_attempts")
+    .insert({ quiz_id: quizId, note_id: quiz.note_id, user_id: userId, answers, results, score, total })
+    .select("id, quiz_id, note_id, score, total, created_at")
+    .single();
+  if (error || !attempt) {
+    console.error("Failed to save quiz attempt:", quizId, error?.message);
+    return { success: false, error: "Your answers could not be saved. Please try again.", errorCode: "SAVE_FAILED" };
+  }
+
+  return { success: true, attempt, results };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const supabaseAdmin = getSupabaseAdmin("SummarIQ-generate-quiz");
+    const userId = await getUserIdFromRequest(req);
+    if (!supabaseAdmin || !userId) {
+      return jsonResponse({ success: false, error: "Sign in to take quizzes", errorCode: "UNAUTHORIZED" });
+    }
+
+    if (body?.action === "submit") {
+      return jsonResponse(await handleSubmit(supabaseAdmin, userId, body));
+    }
+    return jsonResponse(await handleGenerate(supabaseAdmin, userId, body));
+  } catch (error) {
+    console.error("Quiz request failed:", error);
+    return jsonResponse(errorPayload(error));
+  }
+});
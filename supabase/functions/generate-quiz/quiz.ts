@@ -0,0 +1,248 @@
+import type { LlmProvider } from "../_shared/llm/index.ts";
+import { normalizeCitedTimestamps, supportScore } from "../generate-notes/grounding.ts";
+
+export const DEFAULT_QUESTIONS = 8;
+export const MAX_QUESTIONS = 20;
+// Share of the expected answer's content words a short answer must contain
+export const SHORT_ANSWER_THRESHOLD = 0.6;
+export const MAX_ANSWER_CHARS = 300;
+const MIN_OPTIONS = 3;
+const MAX_OPTIONS = 5;
+
+export type QuizQuestionType = "multiple_choice" | "short_answer";
+
+export type QuizNote = {
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  sections: { title: string; content: string; timestamp?: string }[];
+};
+
+/** A question as stored in `quizzes.questions`, answer included */
+export type QuizQuestion = {
+  type: QuizQuestionType;
+  question: string;
+  /** Empty for short-answer questions */
+  options: string[];
+  /** Index into `options`; -1 for short-answer questions */
+  correctIndex: number;
+  answer: string;
+  /** Other phrasings that count as correct for short answers */
+  acceptedAnswers: string[];
+  explanation: string;
+  /** Section of the note that explains the answer */
+  sectionIndex: number;
+  timestamp: string | null;
+};
+
+/** What the quiz view gets before the attempt is submitted */
+export type PublicQuizQuestion = Pick<QuizQuestion, "type" | "question" | "options" | "sectionIndex">;
+
+export type QuizAnswer = number | string | null;
+
+export type QuizResult = {
+  correct: boolean;
+  /** The user's answer as they gave it (option index or text) */
+  given: QuizAnswer;
+  expected: string;
+  explanation: string;
+  sectionIndex: number;
+  timestamp: string | null;
+};
+
+type RawQuestion = {
+  type?: unknown;
+  question?: unknown;
+  options?: unknown;
+  correctIndex?: unknown;
+  answer?: unknown;
+  acceptedAnswers?: unknown;
+  explanation?: unknown;
+  sectionIndex?: unknown;
+};
+
+function clean(value: unknown): string {
+  return String(value ?? "").replace(/\s+/g, " ").trim();
+}
+
+function normalizeAnswerText(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Drops malformed questions: multiple-choice ones need 3-5 distinct options and a valid correct index,
+ * short-answer ones an answer. Every question must point at an existing section.
+ */
+export function normalizeQuiz(raw: unknown, note: QuizNote, limit: number): QuizQuestion[] {
+  const items = Array.isArray(raw) ? (raw as RawQuestion[]) : [];
+  const seen = new Set<string>();
+  const questions: QuizQuestion[] = [];
+
+  for (const item of items) {
+    const question = clean(item?.question);
+    const sectionIndex = Number(item?.sectionIndex);
+    const key = question.toLowerCase();
+    if (!question || seen.has(key)) continue;
+    if (!Number.isInteger(sectionIndex) || sectionIndex < 0 || sectionIndex >= note.sections.length) continue;
+
+    const timestamp = normalizeCitedTimestamps([note.sections[sectionIndex].timestamp])[0] ?? null;
+    const explanation = clean(item?.explanation);
+
+    if (item?.type === "short_answer") {
+      const answer = clean(item?.answer);
+      if (!answer) continue;
+      const acceptedAnswers = Array.isArray(item?.acceptedAnswers)
+        ? item.acceptedAnswers.map(clean).filter(Boolean)
+        : [];
+      questions.push({
+        type: "short_answer",
+        question,
+        options: [],
+        correctIndex: -1,
+        answer,
+        acceptedAnswers,
+        explanation,
+        sectionIndex,
+        timestamp,
+      });
+    } else {
+      const options = Array.isArray(item?.options) ? item.options.map(clean) : [];
+      const correctIndex = Number(item?.correctIndex);
+      const distinct = new Set(options.map((o) => o.toLowerCase()));
+      if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) continue;
+      if (options.some((o) => !o) || distinct.size !== options.length) continue;
+      if (!Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) continue;
+      questions.push({
+        type: "multiple_choice",
+        question,
+        options,
+        correctIndex,
+        answer: options[correctIndex],
+        acceptedAnswers: [],
+        explanation,
+        sectionIndex,
+        timestamp,
+      });
+    }
+
+    seen.add(key);
+    if (questions.length >= limit) break;
+  }
+
+  return questions;
+}
+
+export function toPublicQuestions(questions: QuizQuestion[]): PublicQuizQuestion[] {
+  return questions.map(({ type, question, options, sectionIndex }) => ({ type, question, options, sectionIndex }));
+}
+
+/**
+ * One answer per question, read from the client's `answers`: option indexes out of range, the wrong
+ * kind of answer and anything past the last question are dropped, and text is cut to a sane length.
+ */
+export function readAnswers(questions: QuizQuestion[], raw: unknown[]): QuizAnswer[] {
+  return questions.map((question, i): QuizAnswer => {
+    const given = raw[i];
+    if (question.type === "multiple_choice") {
+      return Number.isInteger(given) && (given as number) >= 0 && (given as number) < question.options.length
+        ? (given as number)
+        : null;
+    }
+    return typeof given === "string" ? given.slice(0, MAX_ANSWER_CHARS) : null;
+  });
+}
+
+function isShortAnswerCorrect(question: QuizQuestion, given: string): boolean {
+  const response = normalizeAnswerText(given);
+  if (!response) return false;
+
+  const expected = [question.answer, ...question.acceptedAnswers].map(normalizeAnswerText).filter(Boolean);
+  if (expected.some((e) => e === response || ` ${response} `.includes(` ${e} `))) return true;
+
+  // Longer answers are graded on their content words, so rephrasing still counts
+  const expectedWords = question.answer.split(/\s+/).filter((w) => w.length > 3);
+  return expectedWords.length > 0 && supportScore(question.answer, given) >= SHORT_ANSWER_THRESHOLD;
+}
+
+export function gradeQuiz(
+  questions: QuizQuestion[],
+  answers: QuizAnswer[],
+): { score: number; total: number; results: QuizResult[] } {
+  const results = questions.map((question, i): QuizResult => {
+    const given = answers[i] ?? null;
+    const correct =
+      question.type === "multiple_choice"
+        ? typeof given === "number" && given === question.correctIndex
+        : typeof given === "string" && isShortAnswerCorrect(question, given);
+    return {
+      correct,
+      given,
+      expected: question.answer,
+      explanation: question.explanation,
+      sectionIndex: question.sectionIndex,
+      timestamp: question.timestamp,
+    };
+  });
+
+  return { score: results.filter((r) => r.correct).length, total: questions.length, results };
+}
+
+export async function generateQuiz(llm: LlmProvider, note: QuizNote, count: number): Promise<QuizQuestion[]> {
+  const sections = note.sections.map((s, i) => `[S${i}] ${s.title}\n${s.content}`).join("\n\n");
+  const keyPoints = note.keyPoints.map((point) => `- ${point}`).join("\n");
+
+  const system = `You write quizzes that check understanding of lecture notes.
+- Write ${count} questions. Mostly multiple choice (4 options, exactly one correct, plausible distractors); about a quarter short answer.
+- Short answers must be a word or a short phrase; list other correct phrasings in "acceptedAnswers".
+- Ask about ideas and reasoning, not trivia. Use only what the notes say. Write in the language of the notes.
+- "explanation" says in one sentence why the answer is right.
+- Set "sectionIndex" to the number in the [S#] label of the section that explains the answer.
+- For short-answer questions leave "options" empty and set "correctIndex" to -1.`;
+
+  const user = `TITLE: ${note.title}
+
+SUMMARY: ${note.summary}
+
+KEY POINTS:
+${keyPoints}
+
+SECTIONS:
+${sections}`;
+
+  const result = await llm.generateStructured<{ questions: RawQuestion[] }>({
+    tier: "notes",
+    system,
+    user,
+    toolName: "create_quiz",
+    toolDescription: "Create a quiz about the notes.",
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: ["questions"],
+      properties: {
+        questions: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["type", "question", "options", "correctIndex", "answer", "acceptedAnswers", "explanation", "sectionIndex"],
+            properties: {
+              type: { type: "string", enum: ["multiple_choice", "short_answer"] },
+              question: { type: "string" },
+              options: { type: "array", items: { type: "string" } },
+              correctIndex: { type: "integer" },
+              answer: { type: "string" },
+              acceptedAnswers: { type: "array", items: { type: "string" } },
+              explanation: { type: "string" },
+              sectionIndex: { type: "integer" },
+            },
+          },
+        },
+      },
+    },
+    maxTokens: 5000,
+    errorMessage: "Failed to create a quiz. Please try again.",
+  });
+
+  return normalizeQuiz(result?.questions, note, count);
+}
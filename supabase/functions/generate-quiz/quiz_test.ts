@@ -0,0 +1,105 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMockProvider } from "../_shared/llm/index.ts";
+import {
+  generateQuiz,
+  gradeQuiz,
+  MAX_ANSWER_CHARS,
+  normalizeQuiz,
+  readAnswers,
+  toPublicQuestions,
+  type QuizNote,
+} from "./quiz.ts";
+
+const note: QuizNote = {
+  title: "Databases 101",
+  summary: "Indexes and transactions.",
+  keyPoints: ["Indexes keep keys sorted"],
+  sections: [
+    { title: "Indexes", content: "B-trees keep keys sorted so lookups are logarithmic.", timestamp: "1:30" },
+    { title: "Transactions", content: "Transactions are atomic, consistent, isolated and durable." },
+  ],
+};
+
+const multipleChoice = {
+  type: "multiple_choice",
+  question: "What do B-trees keep sorted?",
+  options: ["Keys", "Rows", "Pages", "Logs"],
+  correctIndex: 0,
+  answer: "",
+  acceptedAnswers: [],
+  explanation: "The index orders keys.",
+  sectionIndex: 0,
+};
+
+const shortAnswer = {
+  type: "short_answer",
+  question: "Which property means a committed transaction survives a crash?",
+  options: [],
+  correctIndex: -1,
+  answer: "Durability",
+  acceptedAnswers: ["durable"],
+  explanation: "Durable changes persist.",
+  sectionIndex: 1,
+};
+
+Deno.test("questions carry their answer and the timestamp of the explaining section", async () => {
+  const llm = createMockProvider({ create_quiz: { questions: [multipleChoice, shortAnswer] } });
+
+  const questions = await generateQuiz(llm, note, 8);
+
+  assertEquals(questions.length, 2);
+  assertEquals(questions[0].answer, "Keys");
+  assertEquals(questions[0].timestamp, "1:30");
+  assertEquals(questions[1].type, "short_answer");
+  assertEquals(questions[1].timestamp, null);
+  assert(llm.calls[0].system.includes("Write 8 questions"));
+  assert(llm.calls[0].user.includes("[S1] Transactions"));
+});
+
+Deno.test("malformed questions are dropped", () => {
+  const questions = normalizeQuiz(
+    [
+      { ...multipleChoice, options: ["Keys", "Keys", "Rows"] },
+      { ...multipleChoice, question: "Two options", options: ["Keys", "Rows"] },
+      { ...multipleChoice, question: "Bad index", correctIndex: 4 },
+      { ...multipleChoice, question: "Missing section", sectionIndex: 9 },
+      { ...shortAnswer, answer: " " },
+      shortAnswer,
+    ],
+    note,
+    8,
+  );
+
+  assertEquals(questions.map((q) => q.question), [shortAnswer.question]);
+});
+
+Deno.test("public questions leave out the answers", () => {
+  const [question] = toPublicQuestions(normalizeQuiz([multipleChoice], note, 8));
+
+  assertEquals(question, {
+    type: "multiple_choice",
+    question: multipleChoice.question,
+    options: multipleChoice.options,
+    sectionIndex: 0,
+  });
+});
+
+Deno.test("grading accepts the right option and rephrased short answers", () => {
+  const questions = normalizeQuiz([multipleChoice, shortAnswer, { ...shortAnswer, question: "Again?" }], note, 8);
+
+  const { score, total, results } = gradeQuiz(questions, [0, "it is DURABLE", "atomicity"]);
+
+  assertEquals([score, total], [2, 3]);
+  assertEquals(results.map((r) => r.correct), [true, true, false]);
+  assertEquals(results[2].expected, "Durability");
+  assertEquals(gradeQuiz(questions, [1]).results.map((r) => r.correct), [false, false, false]);
+});
+
+Deno.test("submitted answers are cut to one valid answer per question", () => {
+  const questions = normalizeQuiz([multipleChoice, shortAnswer], note, 8);
+
+  assertEquals(readAnswers(questions, [7, 2, "extra", "more"]), [null, null]);
+  assertEquals(readAnswers(questions, [1.5, "x".repeat(1000)]), [null, "x".repeat(MAX_ANSWER_CHARS)]);
+  assertEquals(readAnswers(questions, [3, "Durability"]), [3, "Durability"]);
+  assertEquals(readAnswers(questions, []), [null, null]);
+});
@@ -0,0 +1,170 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorPayload, jsonResponse } from "../_shared/http.ts";
+import { getSupabaseAdmin, getUserIdFromRequest } from "../_shared/supabase.ts";
+import type { ErrorResponse } from "../generate-notes/types.ts";
+import {
+  duplicateNoteRow,
+  SHARED_NOTE_COLUMNS,
+  shareState,
+  toSharedNote,
+  type SharedNote,
+  type SharedNoteRow,
+  type ShareRow,
+  type TranscriptRow,
+} from "./share.ts";
+
+type SupabaseAdmin = NonNullable<ReturnType<typeof getSupabaseAdmin>>;
+
+type ViewSuccessResponse = {
+  success: true;
+  note: SharedNote;
+  expiresAt: string | null;
+  /** Lets the owner be sent to their own copy instead of duplicating it */
+  isOwner: boolean;
+};
+
+type DuplicateSuccessResponse = { success: true; noteId: string };
+
+async function loadShare(
+  supabaseAdmin: SupabaseAdmin,
+  token: string,
+): Promise<ErrorResponse | { success: true; share: ShareRow & { user_id: string } }> {
+  if (!token) {
+    return { success: false, error: "A share link is required", errorCode: "BAD_REQUEST" };
+  }
+
+  const { data: share } = await supabaseAdmin
+    .from("note_shares")
+    .select("note_id, user_id, expires_at, revoked_at")
+    .eq("token", token)
+    .maybeSingle();
+  if (!share) {
+    return { success: false, error: "This share link doesn't exist", errorCode: "NOT_FOUND" };
+  }
+
+  const state = shareState(share);
+  if (state === "revoked") {
+    return { success: false, error: "The owner has turned this share link off", errorCode: "SHARE_REVOKED" };
+  }
+  if (state === "expired") {
+    return { success: false, error: "This share link has expired", errorCode: "SHARE_EXPIRED" };
+  }
+  return { success: true, share };
+}
+
+async function handleView(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string | null,
+  token: string,
+): Promise<ErrorResponse | ViewSuccessResponse> {
+  const loaded = await loadShare(supabaseAdmin, token);
+  if (!loaded.success) return loaded;
+  const { share } = loaded;
+
+  // Reads are scoped to the share's owner: the service role bypasses RLS, so a share row
+  // pointing at another user's note must not expose it
+  const [{ data: note }, { data: transcript }] = await Promise.all([
+    supabaseAdmin
+      .from("notes")
+      .select(SHARED_NOTE_COLUMNS)
+      .eq("id", share.note_id)
+      .eq("user_id", share.user_id)
+      .maybeSingle(),
+    supabaseAdmin
+      .from("note_transcripts")
+      .select("source, language, segments, text")
+      .eq("note_id", share.note_id)
+      .eq("user_id", share.user_id)
+      .maybeSingle(),
+  ]);
+  if (!note) {
+    return { success: false, error: "This share link doesn't exist", errorCode: "NOT_FOUND" };
+  }
+
+  return {
+    success: true,
+    note: toSharedNote(note as SharedNoteRow, transcript as TranscriptRow | null),
+    expiresAt: share.expires_at,
+    isOwner: userId === share.user_id,
+  };
+}
+
+async function handleDuplicate(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string | null,
+  token: string,
+): Promise<ErrorResponse | DuplicateSuccessResponse> {
+  if (!userId) {
+    return { success: false, error: "Sign in to save a copy to your library", errorCode: "UNAUTHORIZED" };
+  }
+
+  const loaded = await loadShare(supabaseAdmin, token);
+  if (!loaded.success) return loaded;
+  const { share } = loaded;
+  if (share.user_id === userId) {
+    return { success: true, noteId: share.note_id };
+  }
+
+  const { data: note } = await supabaseAdmin
+    .from("notes")
+    .select(SHARED_NOTE_COLUMNS)
+    .eq("id", share.note_id)
+    .eq("user_id", share.user_id)
+    .maybeSingle();
+  if (!note) {
+    return { success: false, error: "This share link doesn't exist", errorCode: "NOT_FOUND" };
+  }
+
+  const { data: copy, error } = await supabaseAdmin
+    .from("notes")
+    .insert(duplicateNoteRow(note as SharedNoteRow, userId))
+    .select("id")
+    .single();
+  if (error || !copy) {
+    console.error("Failed to duplicate shared note:", share.note_id, error?.message);
+    return { success: false, error: "The note could not be copied. Please try again.", errorCode: "SAVE_FAILED" };
+  }
+
+  // The copy is usable without its transcript, so a failure here is only logged
+  const { data: transcript } = await supabaseAdmin
+    .from("note_transcripts")
+    .select("source, language, segments, text")
+    .eq("note_id", share.note_id)
+    .eq("user_id", share.user_id)
+    .maybeSingle();
+  if (transcript) {
+    const { error: transcriptError } = await supabaseAdmin
+      .from("note_transcripts")
+      .insert({ ...transcript, note_id: copy.id, user_id: userId });
+    if (transcriptError) console.error("Failed to copy transcript:", copy.id, transcriptError.message);
+  }
+
+  return { success: true, noteId: copy.id };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const token = typeof body?.token === "string" ? body.token.trim() : "";
+
+  try {
+    const supabaseAdmin = getSupabaseAdmin("SummarIQ-shared-note");
+    if (!supabaseAdmin) {
+      return jsonResponse({ success: false, error: "Sharing is not configured", errorCode: "NOT_CONFIGURED" });
+    }
+    // Viewing works signed out; the user only matters for the owner check and for duplicating
+    const userId = await getUserIdFromRequest(req);
+
+    if (body?.action === "duplicate") {
+      return jsonResponse(await handleDuplicate(supabaseAdmin, userId, token));
+    }
+    return jsonResponse(await handleView(supabaseAdmin, userId, token));
+  } catch (error) {
+    console.error("Shared note request failed:", error);
+    return jsonResponse(errorPayload(error));
+  }
+});
@@ -0,0 +1,97 @@
+export type ShareState = "active" | "revoked" | "expired";
+
+export type ShareRow = {
+  note_id: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+};
+
+/** The note columns a share exposes; ownership, folders and batch membership stay private */
+export const SHARED_NOTE_COLUMNS =
+  "video_url, video_title, duration, summary, key_points, sections, transcript_language, output_language, video_type, grounding, created_at";
+
+export type SharedNoteRow = {
+  video_url: string;
+  video_title: string;
+  duration: string | null;
+  summary: string;
+  key_points: unknown;
+  sections: unknown;
+  transcript_language: string | null;
+  output_language: string | null;
+  video_type: string | null;
+  grounding: unknown;
+  created_at: string;
+};
+
+export type TranscriptRow = {
+  source: string;
+  language: string | null;
+  segments: unknown;
+  text: string;
+};
+
+export type SharedNote = {
+  videoUrl: string;
+  title: string;
+  duration: string;
+  summary: string;
+  keyPoints: unknown[];
+  sections: unknown[];
+  sourceLanguage?: string;
+  outputLanguage?: string;
+  videoType?: string;
+  grounding?: unknown;
+  transcript?: { source: string; language: string | null; segments: unknown[]; text: string };
+  created_at: string;
+};
+
+const UPLOAD_PREFIX = "upload:";
+
+// An upload's storage path holds the owner's user id and file name; the bare prefix still marks it as an upload
+function sharedVideoUrl(videoUrl: string): string {
+  return videoUrl.startsWith(UPLOAD_PREFIX) ? UPLOAD_PREFIX : videoUrl;
+}
+
+export function shareState(share: ShareRow, now = new Date()): ShareState {
+  if (share.revoked_at) return "revoked";
+  if (share.expires_at && new Date(share.expires_at).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+/** Shaped like the client's `Note`, without an id: viewers get a read-only copy, not the row */
+export function toSharedNote(row: SharedNoteRow, transcript: TranscriptRow | null): SharedNote {
+  return {
+    videoUrl: sharedVideoUrl(row.video_url),
+    title: row.video_title,
+    duration: row.duration || "Unknown",
+    summary: row.summary,
+    keyPoints: Array.isArray(row.key_points) ? row.key_points : [],
+    sections: Array.isArray(row.sections) ? row.sections : [],
+    sourceLanguage: row.transcript_language ?? undefined,
+    outputLanguage: row.output_language ?? undefined,
+    videoType: row.video_type ?? undefined,
+    grounding: row.grounding ?? undefined,
+    transcript: transcript
+      ? { ...transcript, segments: Array.isArray(transcript.segments) ? transcript.segments : [] }
+      : undefined,
+    created_at: row.created_at,
+  };
+}
+
+/** Insert payload for a viewer's own copy of a shared note */
+export function duplicateNoteRow(row: SharedNoteRow, userId: string) {
+  return {
+    user_id: userId,
+    video_url: sharedVideoUrl(row.video_url),
+    video_title: row.video_title,
+    duration: row.duration,
+    summary: row.summary,
+    key_points: Array.isArray(row.key_points) ? row.key_points : [],
+    sections: Array.isArray(row.sections) ? row.sections : [],
+    transcript_language: row.transcript_language,
+    output_language: row.output_language,
+    video_type: row.video_type ?? undefined,
+    grounding: row.grounding ?? null,
+  };
+}
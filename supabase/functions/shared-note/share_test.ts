@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { duplicateNoteRow, shareState, toSharedNote, type SharedNoteRow } from "./share.ts";
+
+const row: SharedNoteRow = {
+  video_url: "https://www.youtube.com/watch?v=abc123def45",
+  video_title: "Databases 101",
+  duration: null,
+  summary: "An introduction to indexes.",
+  key_points: ["Indexes keep keys sorted"],
+  sections: [{ title: "Indexes", content: "B-trees make lookups logarithmic.", timestamp: "1:30" }],
+  transcript_language: "en",
+  output_language: null,
+  video_type: "Tutorial",
+  grounding: null,
+  created_at: "2026-10-01T10:00:00Z",
+};
+
+Deno.test("a share is active until it is revoked or its expiry passes", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  assertEquals(shareState({ note_id: "n", expires_at: null, revoked_at: null }, now), "active");
+  assertEquals(shareState({ note_id: "n", expires_at: "2026-10-20T00:00:00Z", revoked_at: null }, now), "active");
+  assertEquals(shareState({ note_id: "n", expires_at: "2026-10-19T12:00:00Z", revoked_at: null }, now), "expired");
+  assertEquals(
+    shareState({ note_id: "n", expires_at: "2026-10-20T00:00:00Z", revoked_at: "2026-10-18T00:00:00Z" }, now),
+    "revoked",
+  );
+});
+
+Deno.test("shared notes carry the content and transcript but no ids", () => {
+  const note = toSharedNote(row, { source: "youtube", language: "en", segments: null, text: "hello" });
+
+  assertEquals(note, {
+    videoUrl: row.video_url,
+    title: "Databases 101",
+    duration: "Unknown",
+    summary: "An introduction to indexes.",
+    keyPoints: ["Indexes keep keys sorted"],
+    sections: [{ title: "Indexes", content: "B-trees make lookups logarithmic.", timestamp: "1:30" }],
+    sourceLanguage: "en",
+    outputLanguage: undefined,
+    videoType: "Tutorial",
+    grounding: undefined,
+    transcript: { source: "youtube", language: "en", segments: [], text: "hello" },
+    created_at: "2026-10-01T10:00:00Z",
+  });
+});
+
+Deno.test("a duplicate belongs to the viewer and starts outside any folder or batch", () => {
+  const copy = duplicateNoteRow({ ...row, key_points: "not an array" }, "viewer-1");
+
+  assertEquals(copy.user_id, "viewer-1");
+  assertEquals(copy.key_points, []);
+  assertEquals(copy.video_title, "Databases 101");
+  assertEquals("folder_id" in copy || "group_id" in copy || "created_at" in copy, false);
+});
+
+Deno.test("uploaded notes do not reveal the owner's storage path", () => {
+  const upload = { ...row, video_url: "upload:owner-1/5f0c-lecture recording.mp3" };
+
+  assertEquals(toSharedNote(upload, null).videoUrl, "upload:");
+  assertEquals(duplicateNoteRow(upload, "viewer-1").video_url, "upload:");
+  assertEquals(toSharedNote(row, null).videoUrl, row.video_url);
+});
@@ -0,0 +1,41 @@
+-- Background note generation jobs so long videos survive reloads and edge timeouts
+CREATE TABLE public.generation_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  video_url TEXT NOT NULL,
+  video_type TEXT NOT NULL DEFAULT 'General',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  stage TEXT,
+  message TEXT,
+  progress INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  error_code TEXT,
+  result_note_id UUID REFERENCES public.notes(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and advanced by the generate-notes function (service role); users only read their own
+CREATE POLICY "Users can view their own generation jobs"
+ON public.generation_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own generation jobs"
+ON public.generation_jobs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_generation_jobs_updated_at
+BEFORE UPDATE ON public.generation_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id_created_at
+ON public.generation_jobs(user_id, created_at DESC);
+
+-- Let clients subscribe to job updates instead of only polling
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs;
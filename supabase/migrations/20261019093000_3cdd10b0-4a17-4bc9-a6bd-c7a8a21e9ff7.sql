@@ -0,0 +1,43 @@
+-- Per-chunk summary cache so a retried generation only re-runs chunks that failed
+CREATE TABLE IF NOT EXISTS public.chunk_summaries_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chunk_hash TEXT NOT NULL UNIQUE,
+  video_id TEXT NOT NULL,
+  level INTEGER NOT NULL DEFAULT 1,
+  chunk_summary TEXT NOT NULL,
+  chunk_key_points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.chunk_summaries_cache ENABLE ROW LEVEL SECURITY;
+
+-- Only the generate-notes function (service role) touches this table
+CREATE POLICY "Deny all select"
+ON public.chunk_summaries_cache
+FOR SELECT
+USING (false);
+
+CREATE POLICY "Deny all insert"
+ON public.chunk_summaries_cache
+FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Deny all update"
+ON public.chunk_summaries_cache
+FOR UPDATE
+USING (false);
+
+CREATE POLICY "Deny all delete"
+ON public.chunk_summaries_cache
+FOR DELETE
+USING (false);
+
+DROP TRIGGER IF EXISTS update_chunk_summaries_cache_updated_at ON public.chunk_summaries_cache;
+CREATE TRIGGER update_chunk_summaries_cache_updated_at
+BEFORE UPDATE ON public.chunk_summaries_cache
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_chunk_summaries_cache_video_id
+ON public.chunk_summaries_cache(video_id);
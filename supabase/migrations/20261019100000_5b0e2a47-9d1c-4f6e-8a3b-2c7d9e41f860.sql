@@ -0,0 +1,4 @@
+-- Record which caption language a note was generated from and which language it was written in
+ALTER TABLE public.notes
+ADD COLUMN transcript_language TEXT,
+ADD COLUMN output_language TEXT;
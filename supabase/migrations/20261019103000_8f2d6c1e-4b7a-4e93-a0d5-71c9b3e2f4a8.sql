@@ -0,0 +1,20 @@
+-- Private bucket for audio/video uploads that are transcribed by generate-notes
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('media-uploads', 'media-uploads', false, 26214400, ARRAY['audio/*', 'video/*'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Each user uploads into a folder named after their user id
+CREATE POLICY "Users can upload their own media"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'media-uploads' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can view their own media"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'media-uploads' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own media"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'media-uploads' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,53 @@
+-- Playlist/channel batches: one job and one note per video, plus a course-level note over all of them
+CREATE TABLE public.note_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  source_url TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('playlist', 'channel')),
+  -- 'finishing' while the one worker that claimed the group writes its course note
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'finishing', 'succeeded', 'partial', 'failed')),
+  video_count INTEGER NOT NULL DEFAULT 0,
+  videos JSONB NOT NULL DEFAULT '[]'::jsonb,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  overview_note_id UUID REFERENCES public.notes(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.note_groups ENABLE ROW LEVEL SECURITY;
+
+-- Groups are created and advanced by the generate-notes function (service role)
+CREATE POLICY "Users can view their own note groups"
+ON public.note_groups
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note groups"
+ON public.note_groups
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_note_groups_updated_at
+BEFORE UPDATE ON public.note_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_note_groups_user_id_created_at
+ON public.note_groups(user_id, created_at DESC);
+
+-- Video notes keep their place in the playlist; the course note has a group but no position
+ALTER TABLE public.notes
+ADD COLUMN group_id UUID REFERENCES public.note_groups(id) ON DELETE SET NULL,
+ADD COLUMN group_position INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_notes_group_id ON public.notes(group_id, group_position);
+
+ALTER TABLE public.generation_jobs
+ADD COLUMN group_id UUID REFERENCES public.note_groups(id) ON DELETE CASCADE,
+ADD COLUMN group_position INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_group_id ON public.generation_jobs(group_id, group_position);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.note_groups;
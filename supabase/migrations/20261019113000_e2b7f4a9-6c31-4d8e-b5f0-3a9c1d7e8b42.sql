@@ -0,0 +1,31 @@
+-- The transcript a note was generated from, so users can read and search it next to their notes
+CREATE TABLE public.note_transcripts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL,
+  language TEXT,
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  text TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.note_transcripts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the generate-notes function (service role) together with the note
+CREATE POLICY "Users can view their own note transcripts"
+ON public.note_transcripts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note transcripts"
+ON public.note_transcripts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_note_transcripts_updated_at
+BEFORE UPDATE ON public.note_transcripts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
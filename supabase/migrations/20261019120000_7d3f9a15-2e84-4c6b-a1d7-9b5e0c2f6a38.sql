@@ -0,0 +1,3 @@
+-- Per key point and section: cited transcript timestamps, the cited excerpt and whether it supports the claim
+ALTER TABLE public.notes
+ADD COLUMN grounding JSONB;
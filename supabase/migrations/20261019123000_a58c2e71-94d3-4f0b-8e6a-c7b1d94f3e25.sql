@@ -0,0 +1,27 @@
+-- Follow-up questions about a note and the answers, kept so the conversation reappears with the note
+CREATE TABLE public.note_chat_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.note_chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Messages are written by the chat-with-video function (service role) once an answer exists
+CREATE POLICY "Users can view their own chat messages"
+ON public.note_chat_messages
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat messages"
+ON public.note_chat_messages
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_note_chat_messages_note_id_created_at
+ON public.note_chat_messages(note_id, created_at);
@@ -0,0 +1,82 @@
+-- Question/answer cards made from a note, scheduled per user with SM-2 spaced repetition
+CREATE TABLE public.flashcards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  source_kind TEXT NOT NULL CHECK (source_kind IN ('key_point', 'section')),
+  source_index INTEGER NOT NULL DEFAULT 0,
+  timestamp TEXT,
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.flashcards ENABLE ROW LEVEL SECURITY;
+
+-- Cards are created by the generate-flashcards function (service role); reviews go through review_flashcard below
+CREATE POLICY "Users can view their own flashcards"
+ON public.flashcards
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own flashcards"
+ON public.flashcards
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes WHERE notes.id = note_id AND notes.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own flashcards"
+ON public.flashcards
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_flashcards_updated_at
+BEFORE UPDATE ON public.flashcards
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_user_id_due_at
+ON public.flashcards(user_id, due_at);
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_note_id
+ON public.flashcards(note_id);
+
+-- Saves a review's new schedule. Only the scheduling columns are written, so the review page can
+-- never change what a card says or which note it belongs to.
+-- SECURITY INVOKER: RLS limits it to the caller's own cards.
+CREATE OR REPLACE FUNCTION public.review_flashcard(
+  card_id UUID,
+  new_ease_factor NUMERIC,
+  new_interval_days INTEGER,
+  new_repetitions INTEGER,
+  new_due_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.flashcards
+  SET
+    ease_factor = greatest(new_ease_factor, 1.3),
+    interval_days = greatest(new_interval_days, 0),
+    repetitions = greatest(new_repetitions, 0),
+    due_at = new_due_at,
+    last_reviewed_at = now()
+  WHERE id = card_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Flashcard not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
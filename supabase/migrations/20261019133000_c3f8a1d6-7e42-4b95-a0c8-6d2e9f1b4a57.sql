@@ -0,0 +1,48 @@
+-- Quizzes generated from a note; questions keep their answers so grading can happen server-side
+CREATE TABLE public.quizzes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each submitted quiz, graded, so progress on a note can be followed over time
+CREATE TABLE public.quiz_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID REFERENCES public.quizzes(id) ON DELETE CASCADE NOT NULL,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  score INTEGER NOT NULL,
+  total INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Both tables are written by the generate-quiz function (service role). Quizzes themselves are not
+-- readable from the client because their questions include the answers.
+CREATE POLICY "Users can delete their own quizzes"
+ON public.quizzes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own quiz attempts"
+ON public.quiz_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quiz attempts"
+ON public.quiz_attempts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_note_id
+ON public.quizzes(note_id);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_note_id_created_at
+ON public.quiz_attempts(note_id, created_at);
@@ -0,0 +1,252 @@
+-- Library organization: the video type a note was generated with, full-text search, folders and tags
+
+ALTER TABLE public.notes
+ADD COLUMN IF NOT EXISTS video_type TEXT NOT NULL DEFAULT 'General';
+
+-- Notes saved before this column existed get the type their generation job asked for
+UPDATE public.notes n
+SET video_type = j.video_type
+FROM public.generation_jobs j
+WHERE j.result_note_id = n.id;
+
+UPDATE public.notes n
+SET video_type = g.options->>'videoType'
+FROM public.note_groups g
+WHERE g.overview_note_id = n.id AND g.options ? 'videoType';
+
+-- Key points and section text flattened for the search vector. IMMUTABLE so it can feed a generated column.
+CREATE OR REPLACE FUNCTION public.note_search_text(key_points JSONB, sections JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(' ',
+    (SELECT string_agg(value, ' ') FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(key_points) = 'array' THEN key_points ELSE '[]'::jsonb END
+    )),
+    (SELECT string_agg(concat_ws(' ', s->>'title', s->>'content'), ' ') FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(sections) = 'array' THEN sections ELSE '[]'::jsonb END
+    ) AS s)
+  );
+$$;
+
+-- 'simple' rather than a language config: notes are written in many languages
+ALTER TABLE public.notes
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(video_title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(summary, '')), 'B') ||
+  setweight(to_tsvector('simple', public.note_search_text(key_points, sections)), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search_vector
+ON public.notes USING GIN(search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_notes_user_id_created_at
+ON public.notes(user_id, created_at DESC);
+
+-- Folders: each note sits in at most one
+CREATE TABLE public.note_folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 60),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.notes
+ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES public.note_folders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notes_folder_id
+ON public.notes(folder_id);
+
+-- A note can only be filed in one of its owner's folders
+DROP POLICY IF EXISTS "Users can create their own notes" ON public.notes;
+DROP POLICY IF EXISTS "Users can update their own notes" ON public.notes;
+
+CREATE POLICY "Users can create their own notes"
+ON public.notes
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (folder_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.note_folders WHERE note_folders.id = folder_id AND note_folders.user_id = auth.uid()
+  ))
+);
+
+CREATE POLICY "Users can update their own notes"
+ON public.notes
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (folder_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.note_folders WHERE note_folders.id = folder_id AND note_folders.user_id = auth.uid()
+  ))
+);
+
+-- Tags: any number per note
+CREATE TABLE public.note_tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 40),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE public.note_tag_links (
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES public.note_tags(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (note_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_tag_links_tag_id
+ON public.note_tag_links(tag_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.note_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.note_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.note_tag_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own folders"
+ON public.note_folders
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own folders"
+ON public.note_folders
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own folders"
+ON public.note_folders
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own folders"
+ON public.note_folders
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own tags"
+ON public.note_tags
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+ON public.note_tags
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+ON public.note_tags
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+ON public.note_tags
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own tag links"
+ON public.note_tag_links
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Both ends of a link must belong to the user, not just the link row
+CREATE POLICY "Users can tag their own notes"
+ON public.note_tag_links
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes WHERE id = note_id AND user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.note_tags WHERE id = tag_id AND user_id = auth.uid())
+);
+
+CREATE POLICY "Users can untag their own notes"
+ON public.note_tag_links
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_note_folders_updated_at
+BEFORE UPDATE ON public.note_folders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One page of the caller's notes, newest first (best match first when searching), with the total for
+-- paging. Every word of the query is matched as a prefix so results show up while typing.
+-- SECURITY INVOKER: the notes RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.search_notes(
+  search_query TEXT DEFAULT NULL,
+  folder UUID DEFAULT NULL,
+  tag_ids UUID[] DEFAULT NULL,
+  video_types TEXT[] DEFAULT NULL,
+  created_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  page_size INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  video_url TEXT,
+  video_title TEXT,
+  duration TEXT,
+  summary TEXT,
+  key_points JSONB,
+  sections JSONB,
+  transcript_language TEXT,
+  output_language TEXT,
+  grounding JSONB,
+  group_id UUID,
+  group_position INTEGER,
+  folder_id UUID,
+  video_type TEXT,
+  note_tag_ids UUID[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT NULLIF(array_to_string(ARRAY(
+      SELECT quote_literal(word) || ':*'
+      FROM regexp_split_to_table(lower(coalesce(search_query, '')), '[^[:alnum:]]+') AS word
+      WHERE word <> ''
+    ), ' & '), '') AS text
+  ),
+  matches AS (
+    SELECT n.*,
+      CASE WHEN q.text IS NULL THEN 0 ELSE ts_rank(n.search_vector, to_tsquery('simple', q.text)) END AS rank
+    FROM public.notes n, query q
+    WHERE n.user_id = auth.uid()
+      AND (q.text IS NULL OR n.search_vector @@ to_tsquery('simple', q.text))
+      AND (folder IS NULL OR n.folder_id = folder)
+      AND (video_types IS NULL OR cardinality(video_types) = 0 OR n.video_type = ANY(video_types))
+      AND (created_from IS NULL OR n.created_at >= created_from)
+      AND (created_to IS NULL OR n.created_at < created_to)
+      AND (
+        tag_ids IS NULL OR cardinality(tag_ids) = 0 OR (
+          SELECT count(DISTINCT l.tag_id) FROM public.note_tag_links l
+          WHERE l.note_id = n.id AND l.tag_id = ANY(tag_ids)
+        ) = cardinality(tag_ids)
+      )
+  )
+  SELECT
+    m.id, m.video_url, m.video_title, m.duration, m.summary, m.key_points, m.sections,
+    m.transcript_language, m.output_language, m.grounding, m.group_id, m.group_position,
+    m.folder_id, m.video_type,
+    ARRAY(SELECT l.tag_id FROM public.note_tag_links l WHERE l.note_id = m.id ORDER BY l.created_at),
+    m.created_at, m.updated_at,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY m.rank DESC, m.created_at DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$;
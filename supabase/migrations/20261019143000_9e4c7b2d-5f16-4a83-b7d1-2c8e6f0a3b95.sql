@@ -0,0 +1,46 @@
+-- Links that let anyone holding the token read one note. Revoking sets revoked_at so the owner can
+-- still see which links existed; anonymous reads go through the shared-note function (service role).
+CREATE TABLE public.note_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.note_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own note shares"
+ON public.note_shares
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Only notes the user owns can be shared
+CREATE POLICY "Users can create shares for their own notes"
+ON public.note_shares
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes WHERE notes.id = note_id AND notes.user_id = auth.uid())
+);
+
+-- The same ownership check as on insert, so a link can't be pointed at someone else's note
+CREATE POLICY "Users can update their own note shares"
+ON public.note_shares
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes WHERE notes.id = note_id AND notes.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own note shares"
+ON public.note_shares
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_note_shares_note_id
+ON public.note_shares(note_id);
@@ -0,0 +1,125 @@
+-- Every version of a note's content. Rows are written by a trigger on notes, so generation, edits,
+-- regeneration and restores are all recorded no matter which client or function made the change.
+CREATE TABLE public.note_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- 'created' for the first version, 'edit' for later saves, 'restore' when an older version came back
+  source TEXT NOT NULL DEFAULT 'edit',
+  restored_from UUID REFERENCES public.note_revisions(id) ON DELETE SET NULL,
+  video_title TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  key_points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+  grounding JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Only the trigger writes revisions; users read their own and can prune them
+CREATE POLICY "Users can view their own note revisions"
+ON public.note_revisions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note revisions"
+ON public.note_revisions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_note_revisions_note_id_created_at
+ON public.note_revisions(note_id, created_at DESC);
+
+-- restore_note_revision marks its update through transaction-local settings
+CREATE OR REPLACE FUNCTION public.record_note_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.note_revisions (
+    note_id, user_id, source, restored_from, video_title, summary, key_points, sections, grounding
+  )
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'created'
+      ELSE coalesce(NULLIF(current_setting('summariq.revision_source', true), ''), 'edit')
+    END,
+    NULLIF(current_setting('summariq.restored_from', true), '')::uuid,
+    NEW.video_title,
+    NEW.summary,
+    NEW.key_points,
+    NEW.sections,
+    NEW.grounding
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_note_revision_on_insert
+AFTER INSERT ON public.notes
+FOR EACH ROW
+EXECUTE FUNCTION public.record_note_revision();
+
+-- Folder moves, tagging and other metadata updates are not new versions
+CREATE TRIGGER record_note_revision_on_update
+AFTER UPDATE OF video_title, summary, key_points, sections, grounding ON public.notes
+FOR EACH ROW
+WHEN (
+  OLD.video_title IS DISTINCT FROM NEW.video_title
+  OR OLD.summary IS DISTINCT FROM NEW.summary
+  OR OLD.key_points IS DISTINCT FROM NEW.key_points
+  OR OLD.sections IS DISTINCT FROM NEW.sections
+  OR OLD.grounding IS DISTINCT FROM NEW.grounding
+)
+EXECUTE FUNCTION public.record_note_revision();
+
+-- Existing notes start their history at their current content
+INSERT INTO public.note_revisions (
+  note_id, user_id, source, video_title, summary, key_points, sections, grounding, created_at
+)
+SELECT
+  id,
+  user_id,
+  CASE WHEN updated_at > created_at THEN 'edit' ELSE 'created' END,
+  video_title,
+  summary,
+  key_points,
+  sections,
+  grounding,
+  updated_at
+FROM public.notes;
+
+-- Puts a revision's content back on its note; the trigger records that as a 'restore' revision.
+-- SECURITY INVOKER: RLS limits it to the caller's own revisions and notes.
+CREATE OR REPLACE FUNCTION public.restore_note_revision(revision_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  revision public.note_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO revision FROM public.note_revisions WHERE id = revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('summariq.revision_source', 'restore', true);
+  PERFORM set_config('summariq.restored_from', revision.id::text, true);
+
+  UPDATE public.notes
+  SET
+    video_title = revision.video_title,
+    summary = revision.summary,
+    key_points = revision.key_points,
+    sections = revision.sections,
+    grounding = revision.grounding
+  WHERE id = revision.note_id;
+
+  PERFORM set_config('summariq.revision_source', '', true);
+  PERFORM set_config('summariq.restored_from', '', true);
+END;
+$$;
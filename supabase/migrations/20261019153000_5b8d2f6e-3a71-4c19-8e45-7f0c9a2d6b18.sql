@@ -0,0 +1,103 @@
+-- The notes editor autosaves a couple of seconds after every pause in typing. Recording each of those
+-- as its own revision would bury the history, so saves from one editor session are folded into the
+-- revision that session started, for up to 10 minutes after it. Saves outside an editor session,
+-- regenerated parts and restores always get a revision of their own.
+ALTER TABLE public.note_revisions
+ADD COLUMN edit_session UUID;
+
+CREATE OR REPLACE FUNCTION public.record_note_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  revision_source TEXT;
+  session_id UUID;
+  latest public.note_revisions%ROWTYPE;
+BEGIN
+  revision_source := CASE
+    WHEN TG_OP = 'INSERT' THEN 'created'
+    ELSE coalesce(NULLIF(current_setting('summariq.revision_source', true), ''), 'edit')
+  END;
+  session_id := CASE
+    WHEN revision_source = 'edit' THEN NULLIF(current_setting('summariq.edit_session', true), '')::uuid
+  END;
+
+  IF session_id IS NOT NULL THEN
+    SELECT * INTO latest
+    FROM public.note_revisions
+    WHERE note_id = NEW.id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF FOUND AND latest.edit_session = session_id AND latest.created_at > now() - interval '10 minutes' THEN
+      UPDATE public.note_revisions
+      SET
+        video_title = NEW.video_title,
+        summary = NEW.summary,
+        key_points = NEW.key_points,
+        sections = NEW.sections,
+        grounding = NEW.grounding
+      WHERE id = latest.id;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.note_revisions (
+    note_id, user_id, source, restored_from, edit_session, video_title, summary, key_points, sections, grounding
+  )
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    revision_source,
+    NULLIF(current_setting('summariq.restored_from', true), '')::uuid,
+    session_id,
+    NEW.video_title,
+    NEW.summary,
+    NEW.key_points,
+    NEW.sections,
+    NEW.grounding
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Saves a note's content from the client along with how the change was made, which a plain update
+-- cannot carry: 'edit', optionally from an editor session, or 'regenerate' for a rewritten part.
+-- SECURITY INVOKER: RLS limits it to the caller's own notes.
+CREATE OR REPLACE FUNCTION public.save_note_content(
+  target_note_id UUID,
+  new_title TEXT,
+  new_summary TEXT,
+  new_key_points JSONB,
+  new_sections JSONB,
+  new_grounding JSONB,
+  revision_source TEXT DEFAULT 'edit',
+  edit_session UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF revision_source NOT IN ('edit', 'regenerate') THEN
+    RAISE EXCEPTION 'Unknown revision source: %', revision_source USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('summariq.revision_source', revision_source, true);
+  PERFORM set_config('summariq.edit_session', coalesce(edit_session::text, ''), true);
+
+  UPDATE public.notes
+  SET
+    video_title = new_title,
+    summary = new_summary,
+    key_points = new_key_points,
+    sections = new_sections,
+    grounding = new_grounding
+  WHERE id = target_note_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Note not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('summariq.revision_source', '', true);
+  PERFORM set_config('summariq.edit_session', '', true);
+END;
+$$;
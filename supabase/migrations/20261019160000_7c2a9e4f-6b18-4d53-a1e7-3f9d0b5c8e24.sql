@@ -0,0 +1,69 @@
+-- Private mark-up on a note's sections: highlighted passages (optionally commented), comments on a
+-- whole section and starred sections. The note itself is never changed.
+CREATE TABLE public.annotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID REFERENCES public.notes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  section_index INTEGER NOT NULL CHECK (section_index >= 0),
+  kind TEXT NOT NULL CHECK (kind IN ('highlight', 'comment', 'star')),
+  -- Highlights only: character offsets into the section's text as displayed, and that text, so the
+  -- highlight can be found again after the note is edited
+  start_offset INTEGER,
+  end_offset INTEGER,
+  quote TEXT,
+  color TEXT,
+  comment TEXT,
+  -- The section's title when annotated; used to find the section again if sections were reordered
+  section_title TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT annotations_highlight_range CHECK (
+    kind <> 'highlight'
+    OR (start_offset >= 0 AND end_offset > start_offset AND quote IS NOT NULL)
+  ),
+  CONSTRAINT annotations_comment_text CHECK (kind <> 'comment' OR (comment IS NOT NULL AND length(trim(comment)) > 0))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own annotations"
+ON public.annotations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Only notes the user owns can be annotated
+CREATE POLICY "Users can create annotations on their own notes"
+ON public.annotations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes WHERE notes.id = note_id AND notes.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own annotations"
+ON public.annotations
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes WHERE notes.id = note_id AND notes.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own annotations"
+ON public.annotations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_annotations_note_id_section
+ON public.annotations(note_id, section_index);
+
+-- One star per section, even when a double-click or two tabs race to add it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_annotations_one_star_per_section
+ON public.annotations(note_id, section_index)
+WHERE kind = 'star';
+
+CREATE TRIGGER update_annotations_updated_at
+BEFORE UPDATE ON public.annotations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
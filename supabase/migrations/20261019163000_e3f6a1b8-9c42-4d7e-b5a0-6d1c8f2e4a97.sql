@@ -0,0 +1,50 @@
+-- User-defined note templates: a video type of the user's own with its prompt, required sections,
+-- length and tone. generate-notes validates a template again before using it.
+CREATE TABLE public.note_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 60),
+  description TEXT NOT NULL DEFAULT '' CHECK (length(description) <= 200),
+  -- Replaces the built-in per-type instructions; empty keeps the general note-taker's
+  system_prompt TEXT NOT NULL DEFAULT '' CHECK (length(system_prompt) <= 2000),
+  -- Section titles every note made with the template must have, in order
+  required_sections TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(required_sections) <= 10),
+  target_length TEXT NOT NULL DEFAULT 'standard' CHECK (target_length IN ('brief', 'standard', 'detailed')),
+  tone TEXT NOT NULL DEFAULT 'neutral' CHECK (tone IN ('neutral', 'formal', 'conversational', 'academic')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT note_templates_user_name UNIQUE (user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.note_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own note templates"
+ON public.note_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own note templates"
+ON public.note_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own note templates"
+ON public.note_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note templates"
+ON public.note_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_note_templates_updated_at
+BEFORE UPDATE ON public.note_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The template a note was generated with, so regenerating a part of it uses the same instructions.
+-- video_type keeps the template's name for display and filtering even after the template is deleted.
+ALTER TABLE public.notes
+ADD COLUMN template_id UUID REFERENCES public.note_templates(id) ON DELETE SET NULL;